@@ -0,0 +1,290 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import type { Edge } from '@xyflow/react';
+import Home from './page';
+import {
+  TimelineSlider,
+  type TimelineSliderProps,
+} from '@/components/GraphView/TimelineSlider';
+import type { ProjectAnalysis } from '@/lib/analysis/projectAnalyzer';
+import { analyzeTimeline } from '@/lib/analysis/timelineAnalyzer';
+import { parseAnalysisFile } from '@/lib/export/analysisFile';
+import { downloadFile } from '@/lib/fileSystem';
+import type { CommitSummary } from '@/lib/git/gitTimeline';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import { WarningDetector } from '@/lib/warnings/warningDetector';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  rescoreGraph,
+} from '@/lib/complexity/complexityProfile';
+import { buildGraphFromFiles, createFile } from '@/test/graphFixtures';
+import type { ComplexityProfile, DependencyGraph, FileInfo } from '@/types';
+
+vi.mock('@/components/FolderSelector', () => ({
+  default: ({
+    onFolderSelected,
+  }: {
+    onFolderSelected: (handle: FileSystemDirectoryHandle) => void;
+  }) => (
+    <button
+      onClick={() =>
+        onFolderSelected({
+          kind: 'directory',
+          name: 'my-app',
+        } as FileSystemDirectoryHandle)
+      }
+    >
+      Select Folder
+    </button>
+  ),
+}));
+
+// Lists the edges it is given and the highlighted ones instead of drawing them
+vi.mock('@/components/GraphView', () => ({
+  default: ({
+    edges,
+    highlightedEdgeIds,
+    timeline,
+  }: {
+    edges: Edge[];
+    highlightedEdgeIds?: Set<string>;
+    timeline?: TimelineSliderProps;
+  }) => (
+    <div>
+      <div data-testid="edges">{edges.map((edge) => edge.id).join(' ')}</div>
+      <div data-testid="highlighted-edges">
+        {Array.from(highlightedEdgeIds ?? []).join(' ')}
+      </div>
+      {timeline && <TimelineSlider {...timeline} />}
+    </div>
+  ),
+}));
+
+vi.mock('@/hooks/useProjectAnalysis', () => ({
+  useProjectAnalysis: () => ({
+    isAnalyzing: false,
+    progress: null,
+    analyzeProject: async () => analyzeFiles(currentFiles, true),
+    cancelAnalysis: vi.fn(),
+    loadAnalysisFile: vi.fn(),
+    applyComplexityProfile: scoreGraph,
+  }),
+}));
+
+vi.mock('@/lib/fileSystem', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/fileSystem')>()),
+  downloadFile: vi.fn(),
+}));
+
+vi.mock('@/lib/git/gitTimeline', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/git/gitTimeline')>()),
+  listCommits: async () => [commits[1], commits[0]],
+}));
+
+vi.mock('@/lib/analysis/timelineAnalyzer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/analysis/timelineAnalyzer')>()),
+  analyzeTimeline: vi.fn(),
+}));
+
+/**
+ * Now: Header and Nav import each other, and so do Footer and Logo
+ */
+const currentFiles = [
+  createFile(
+    'src/App.tsx',
+    `import Header from './Header';
+     import Footer from './Footer';
+     export default function App() { return <><Header /><Footer /></>; }`
+  ),
+  createFile(
+    'src/Header.tsx',
+    `import Nav from './Nav';
+     export default function Header() { return <Nav />; }`
+  ),
+  createFile(
+    'src/Nav.tsx',
+    `import Header from './Header';
+     export default function Nav() { return <Header />; }`
+  ),
+  createFile(
+    'src/Footer.tsx',
+    `import Logo from './Logo';
+     export default function Footer() { return <Logo />; }`
+  ),
+  createFile(
+    'src/Logo.tsx',
+    `import Footer from './Footer';
+     export default function Logo() { return <Footer />; }`
+  ),
+];
+
+/**
+ * Earlier: the only cycle was between Nav and Logo
+ */
+const pastFiles = [
+  createFile(
+    'src/App.tsx',
+    `import Header from './Header';
+     export default function App() { return <Header />; }`
+  ),
+  createFile(
+    'src/Header.tsx',
+    `import Nav from './Nav';
+     export default function Header() { return <Nav />; }`
+  ),
+  createFile(
+    'src/Nav.tsx',
+    `import Logo from './Logo';
+     export default function Nav() { return <Logo />; }`
+  ),
+  createFile(
+    'src/Logo.tsx',
+    `import Nav from './Nav';
+     export default function Logo() { return <Nav />; }`
+  ),
+];
+
+// Oldest first
+const commits: CommitSummary[] = [
+  {
+    id: 'a'.repeat(40),
+    subject: 'Add the logo',
+    author: 'Alice',
+    time: Date.UTC(2025, 0, 1),
+  },
+  {
+    id: 'b'.repeat(40),
+    subject: 'Add the footer',
+    author: 'Bob',
+    time: Date.UTC(2025, 1, 1),
+  },
+];
+
+function scoreGraph(graph: DependencyGraph, profile: ComplexityProfile) {
+  const rescored = rescoreGraph(graph, profile);
+  const builder = new GraphBuilder({ complexityProfile: profile });
+  return {
+    graph: rescored,
+    ...builder.buildReactFlowGraph(rescored),
+    metrics: builder.calculateMetrics(rescored),
+    warnings: new WarningDetector({
+      complexityProfile: profile,
+    }).detectWarnings(rescored),
+  };
+}
+
+function analyzeFiles(files: FileInfo[], withHistory = false): ProjectAnalysis {
+  const graph = buildGraphFromFiles(files);
+  const builder = new GraphBuilder();
+  const { nodes, edges } = builder.buildReactFlowGraph(graph);
+  if (withHistory) {
+    // Time travel is offered for git repositories only
+    nodes[0].data.componentInfo.history = {
+      commitCount: 2,
+      lastModified: commits[1].time,
+      authors: ['Bob'],
+    };
+  }
+
+  return {
+    graph,
+    nodes,
+    edges,
+    metrics: builder.calculateMetrics(graph),
+    warnings: new WarningDetector().detectWarnings(graph),
+    filesScanned: files.length,
+    filesReparsed: files.length,
+    filesFromCache: 0,
+    componentsFound: graph.nodes.size,
+    complexityProfile: DEFAULT_COMPLEXITY_PROFILE,
+    gitHistory: null,
+  };
+}
+
+describe('Home', () => {
+  it('過去のコミットに移動すると循環パネルがそのコミットの循環を表示し、グラフ上のエッジを強調すること', async () => {
+    vi.mocked(analyzeTimeline).mockResolvedValue([
+      { commit: commits[0], analysis: analyzeFiles(pastFiles) },
+      { commit: commits[1], analysis: analyzeFiles(currentFiles) },
+    ]);
+    render(<Home />);
+
+    fireEvent.click(screen.getByText('Select Folder'));
+    fireEvent.click(await screen.findByText('⏱ Time Travel'));
+    fireEvent.click(await screen.findByRole('button', { name: 'Analyze' }));
+    const slider = await screen.findByLabelText('Timeline');
+    expect(screen.getByText('🔁 Cycles (2)')).toBeInTheDocument();
+
+    fireEvent.change(slider, { target: { value: '0' } });
+    fireEvent.click(screen.getByText('🔁 Cycles (1)'));
+
+    const panel = screen
+      .getByRole('heading', { name: 'Cycles (1)' })
+      .closest('div')!.parentElement!;
+    const cycle = within(panel).getByText(
+      /^(Nav → Logo → Nav|Logo → Nav → Logo)$/
+    );
+    fireEvent.click(cycle);
+
+    const shownEdges = screen.getByTestId('edges').textContent!.split(' ');
+    const highlighted = screen
+      .getByTestId('highlighted-edges')
+      .textContent!.split(' ');
+    expect(highlighted).toEqual(
+      expect.arrayContaining([
+        'src/Nav.tsx:Nav-src/Logo.tsx:Logo',
+        'src/Logo.tsx:Logo-src/Nav.tsx:Nav',
+      ])
+    );
+    expect(highlighted.every((id) => shownEdges.includes(id))).toBe(true);
+  });
+
+  it('過去のコミットではそのコミットのグラフをエクスポートし、複雑度の設定を適用すると再スコアリングされること', async () => {
+    vi.mocked(analyzeTimeline).mockResolvedValue([
+      { commit: commits[0], analysis: analyzeFiles(pastFiles) },
+      { commit: commits[1], analysis: analyzeFiles(currentFiles) },
+    ]);
+    render(<Home />);
+
+    fireEvent.click(screen.getByText('Select Folder'));
+    fireEvent.click(await screen.findByText('⏱ Time Travel'));
+    fireEvent.click(await screen.findByRole('button', { name: 'Analyze' }));
+    fireEvent.change(await screen.findByLabelText('Timeline'), {
+      target: { value: '0' },
+    });
+
+    const exportAnalysis = () => {
+      vi.mocked(downloadFile).mockClear();
+      fireEvent.click(screen.getByText('💾 Export'));
+      fireEvent.click(screen.getByText('Analysis (JSON)'));
+      return parseAnalysisFile(
+        vi.mocked(downloadFile).mock.calls[0][1] as string
+      );
+    };
+    const navComplexity = (graph: DependencyGraph) =>
+      graph.nodes.get('src/Nav.tsx:Nav')!.complexity;
+
+    const before = exportAnalysis();
+    expect(Array.from(before.graph.nodes.keys()).sort()).toEqual([
+      'src/App.tsx:App',
+      'src/Header.tsx:Header',
+      'src/Logo.tsx:Logo',
+      'src/Nav.tsx:Nav',
+    ]);
+    expect(before.metrics.totalComponents).toBe(4);
+    expect(before.stats.filesScanned).toBe(pastFiles.length);
+
+    // Any dependency now scores the full dependency weight
+    fireEvent.click(screen.getByText('⚙️ Settings'));
+    fireEvent.change(screen.getAllByLabelText('Dependencies')[1], {
+      target: { value: '1' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    const after = exportAnalysis();
+    expect(after.graph.nodes.has('src/Footer.tsx:Footer')).toBe(false);
+    expect(navComplexity(after.graph)).toBeGreaterThan(
+      navComplexity(before.graph)
+    );
+  });
+});
@@ -1,24 +1,81 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import FolderSelector from '@/components/FolderSelector';
 import GraphView from '@/components/GraphView';
 import DetailPanel from '@/components/DetailPanel';
 import Header from '@/components/Header';
 import MetricsDashboard from '@/components/MetricsDashboard';
+import ComplexitySettings from '@/components/ComplexitySettings';
+import WarningsPanel from '@/components/WarningsPanel';
+import CyclesPanel from '@/components/CyclesPanel';
+import DiffPanel, { type DiffSelection } from '@/components/DiffPanel';
 import SearchAndFilter from '@/components/SearchAndFilter';
+import TimelineDialog from '@/components/TimelineDialog';
 import { useProjectAnalysis } from '@/hooks/useProjectAnalysis';
 import { useAppState } from '@/hooks/useAppState';
 import { useGraphFilter } from '@/hooks/useGraphFilter';
+import { useProjectWatcher } from '@/hooks/useProjectWatcher';
+import { useGraphDiff } from '@/hooks/useGraphDiff';
+import { useTimeline } from '@/hooks/useTimeline';
+import { getCycleEdges } from '@/lib/graph/cycleDetector';
+import { findFeedbackArcSet } from '@/lib/graph/feedbackArcSet';
+import { isAbortError } from '@/lib/workers/workerPool';
+import { getTimelineTrend } from '@/lib/analysis/timelineAnalyzer';
+import type { CommitSummary } from '@/lib/git/gitTimeline';
+import {
+  getAnalysisFileName,
+  parseAnalysisFile,
+  serializeAnalysis,
+} from '@/lib/export/analysisFile';
+import {
+  GRAPH_EXPORT_FORMATS,
+  exportGraph,
+  filterDependencyGraph,
+  getGraphExportFileName,
+} from '@/lib/export/graphFormats';
+import { downloadFile } from '@/lib/fileSystem';
+import type { ExportFormat } from '@/components/Header';
+import type {
+  ColorMode,
+  ComplexityProfile,
+  DependencyCycle,
+  DependencyGraph,
+  Warning,
+} from '@/types';
+
+type SidePanel = 'warnings' | 'cycles' | 'diff';
+
+type CycleSelection = {
+  cycle: DependencyCycle;
+  // Highlight a single edge of the cycle, or the whole cycle when null
+  edgeIndex: number | null;
+};
+
+// Saved analysis the current graph is compared against
+type Baseline = {
+  name: string;
+  graph: DependencyGraph;
+};
 
 export default function Home() {
-  const { isAnalyzing, analyzeProject } = useProjectAnalysis();
+  const {
+    isAnalyzing,
+    progress,
+    analyzeProject,
+    cancelAnalysis,
+    loadAnalysisFile,
+    applyComplexityProfile,
+  } = useProjectAnalysis();
   const {
     graphData,
     layoutType,
     projectName,
     stats,
     metrics,
+    dependencyGraph,
+    warnings,
+    complexityProfile,
     selectedComponent,
     searchOptions,
     filterOptions,
@@ -26,11 +83,77 @@ export default function Home() {
     setSearchOptions,
     setFilterOptions,
     updateAnalysisResult,
+    updateComplexityProfile,
+    patchAnalysisResult,
     reset,
     selectComponent,
     clearSelection,
   } = useAppState();
   const [showMetrics, setShowMetrics] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [selectedWarning, setSelectedWarning] = useState<Warning | null>(null);
+  const [selectedCycle, setSelectedCycle] = useState<CycleSelection | null>(
+    null
+  );
+  const [isPreviewingCuts, setIsPreviewingCuts] = useState(false);
+  // Folder of the current graph, re-analysed by Refresh
+  const [directoryHandle, setDirectoryHandle] =
+    useState<FileSystemDirectoryHandle | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [selectedDiff, setSelectedDiff] = useState<DiffSelection | null>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>('complexity');
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timelineError, setTimelineError] = useState<string | null>(null);
+  const {
+    commits: timelineCommits,
+    snapshots: timelineSnapshots,
+    index: timelineIndex,
+    isAnalyzing: isAnalyzingTimeline,
+    progress: timelineProgress,
+    loadCommits,
+    analyze: analyzeTimeline,
+    rescore: rescoreTimeline,
+    cancel: cancelTimeline,
+    clear: clearTimeline,
+    setIndex: setTimelineIndex,
+  } = useTimeline();
+
+  // While time travelling, the graph, panels and metrics show the selected
+  // past commit
+  const timelineSnapshot = timelineSnapshots?.[timelineIndex] ?? null;
+  const shownGraph = timelineSnapshot?.analysis ?? null;
+  const shownDependencyGraph = shownGraph?.graph ?? dependencyGraph;
+  const shownWarnings = shownGraph?.warnings ?? warnings;
+  const trend = useMemo(
+    () => (timelineSnapshots ? getTimelineTrend(timelineSnapshots) : null),
+    [timelineSnapshots]
+  );
+
+  // Hotspots need git history, only read when the folder is a repository
+  const hasHistory = useMemo(
+    () =>
+      graphData?.nodes.some((node) => node.data.componentInfo.history) ?? false,
+    [graphData]
+  );
+
+  // Past commits are analysed without their history, so no hotspots
+  const graphColorMode: ColorMode =
+    hasHistory && !timelineSnapshot ? colorMode : 'complexity';
+
+  // Tag changes against the baseline and add back what was removed
+  const {
+    diff,
+    nodes: diffNodes,
+    edges: diffEdges,
+  } = useGraphDiff({
+    baseline: baseline?.graph ?? null,
+    graph: shownDependencyGraph,
+    nodes: shownGraph?.nodes ?? (graphData?.nodes || []),
+    edges: shownGraph?.edges ?? (graphData?.edges || []),
+    complexityProfile,
+  });
 
   // Apply search and filter
   const {
@@ -39,8 +162,8 @@ export default function Home() {
     matchedNodeIds,
     stats: filterStats,
   } = useGraphFilter({
-    nodes: graphData?.nodes || [],
-    edges: graphData?.edges || [],
+    nodes: diffNodes,
+    edges: diffEdges,
     searchOptions,
     filterOptions,
   });
@@ -55,24 +178,396 @@ export default function Home() {
           {
             filesScanned: result.filesScanned,
             componentsFound: result.componentsFound,
+            filesReparsed: result.filesReparsed,
+            filesFromCache: result.filesFromCache,
           },
-          result.metrics
+          result.metrics,
+          result.graph,
+          result.complexityProfile,
+          result.warnings
         );
+        setDirectoryHandle(directoryHandle);
+        setSelectedWarning(null);
+        setSelectedCycle(null);
       } catch (error) {
+        // Cancelled from the progress view
+        if (isAbortError(error)) {
+          return;
+        }
         alert(`Analysis failed: ${(error as Error).message}`);
       }
     },
     [analyzeProject, updateAnalysisResult]
   );
 
+  // Show an exported analysis; there is no folder to refresh or watch
+  const handleAnalysisFileSelected = useCallback(
+    async (file: File) => {
+      try {
+        const snapshot = await loadAnalysisFile(file);
+        updateAnalysisResult(
+          snapshot.projectName,
+          { nodes: snapshot.nodes, edges: snapshot.edges },
+          snapshot.stats,
+          snapshot.metrics,
+          snapshot.graph,
+          snapshot.complexityProfile,
+          snapshot.warnings
+        );
+        setLayoutType(snapshot.layoutType);
+        setDirectoryHandle(null);
+        setIsWatching(false);
+        setSelectedWarning(null);
+        setSelectedCycle(null);
+      } catch (error) {
+        alert(`Failed to open analysis file: ${(error as Error).message}`);
+      }
+    },
+    [loadAnalysisFile, updateAnalysisResult, setLayoutType]
+  );
+
+  // Compare the current graph with a saved analysis, e.g. from before a
+  // refactor; the graph is re-scored with the current profile to compare
+  const handleCompareWithBaseline = useCallback(async (file: File) => {
+    try {
+      const snapshot = parseAnalysisFile(await file.text());
+      setBaseline({ name: file.name, graph: snapshot.graph });
+      setSidePanel('diff');
+      setSelectedWarning(null);
+      setSelectedCycle(null);
+      setSelectedDiff(null);
+      setIsPreviewingCuts(false);
+    } catch (error) {
+      alert(`Failed to open baseline: ${(error as Error).message}`);
+    }
+  }, []);
+
+  const handleClearBaseline = useCallback(() => {
+    setBaseline(null);
+    setSelectedDiff(null);
+    setSidePanel((current) => (current === 'diff' ? null : current));
+  }, []);
+
+  const handleReset = useCallback(() => {
+    reset();
+    handleClearBaseline();
+    clearTimeline();
+    setShowTimeline(false);
+  }, [reset, handleClearBaseline, clearTimeline]);
+
+  // Selections point at components of the commit they were made on
+  const clearFocus = useCallback(() => {
+    setSelectedWarning(null);
+    setSelectedCycle(null);
+    setSelectedDiff(null);
+  }, []);
+
+  // Commits are listed once per folder, when time travel is first opened
+  const handleShowTimeline = useCallback(() => {
+    setShowTimeline(true);
+    setTimelineError(null);
+    if (directoryHandle && !timelineCommits) {
+      loadCommits(directoryHandle).catch((error) => {
+        setTimelineError(`Failed to read commits: ${error.message}`);
+      });
+    }
+  }, [directoryHandle, timelineCommits, loadCommits]);
+
+  const handleAnalyzeTimeline = useCallback(
+    async (commits: CommitSummary[]) => {
+      if (!directoryHandle) {
+        return;
+      }
+      setTimelineError(null);
+      try {
+        await analyzeTimeline(directoryHandle, commits, complexityProfile);
+        setShowTimeline(false);
+        clearFocus();
+      } catch (error) {
+        // Cancelled from the dialog
+        if (isAbortError(error)) {
+          return;
+        }
+        setTimelineError(`Analysis failed: ${(error as Error).message}`);
+      }
+    },
+    [directoryHandle, analyzeTimeline, complexityProfile, clearFocus]
+  );
+
+  const handleTimelineIndexChange = useCallback(
+    (index: number) => {
+      setTimelineIndex(index);
+      clearFocus();
+    },
+    [setTimelineIndex, clearFocus]
+  );
+
+  const handleExitTimeline = useCallback(() => {
+    clearTimeline();
+    clearFocus();
+  }, [clearTimeline, clearFocus]);
+
+  // JSON exports the whole analysis; graph formats export what is shown
+  // after search and filters. While time travelling, both are of the
+  // selected commit.
+  const handleExport = useCallback(
+    (format: ExportFormat) => {
+      if (!shownDependencyGraph || !metrics || !stats) {
+        return;
+      }
+      if (format !== 'json') {
+        const graph = filterDependencyGraph(
+          shownDependencyGraph,
+          new Set(filteredNodes.map((node) => node.id))
+        );
+        downloadFile(
+          getGraphExportFileName(projectName, format),
+          exportGraph(graph, format, projectName),
+          GRAPH_EXPORT_FORMATS[format].mimeType
+        );
+        return;
+      }
+      downloadFile(
+        getAnalysisFileName(projectName),
+        serializeAnalysis({
+          projectName,
+          stats: {
+            filesScanned: (shownGraph ?? stats).filesScanned,
+            componentsFound: (shownGraph ?? stats).componentsFound,
+          },
+          graph: shownDependencyGraph,
+          metrics: shownGraph?.metrics ?? metrics,
+          warnings: shownWarnings,
+          complexityProfile,
+          layoutType,
+        })
+      );
+    },
+    [
+      shownGraph,
+      shownDependencyGraph,
+      metrics,
+      stats,
+      projectName,
+      shownWarnings,
+      complexityProfile,
+      layoutType,
+      filteredNodes,
+    ]
+  );
+
+  const handleRefresh = useCallback(() => {
+    if (directoryHandle) {
+      handleFolderSelected(directoryHandle);
+    }
+  }, [directoryHandle, handleFolderSelected]);
+
+  // Re-analyse changed files and patch the graph in place, scored with
+  // the profile currently in use
+  const handleFilesChanged = useCallback(async () => {
+    if (!directoryHandle) {
+      return;
+    }
+    try {
+      const result = await analyzeProject(directoryHandle);
+      const scored = applyComplexityProfile(result.graph, complexityProfile);
+      patchAnalysisResult(
+        { nodes: scored.nodes, edges: scored.edges },
+        {
+          filesScanned: result.filesScanned,
+          componentsFound: result.componentsFound,
+          filesReparsed: result.filesReparsed,
+          filesFromCache: result.filesFromCache,
+        },
+        scored.metrics,
+        scored.graph,
+        scored.warnings
+      );
+    } catch (error) {
+      // Superseded by a newer change
+      if (isAbortError(error)) {
+        return;
+      }
+      setIsWatching(false);
+      alert(`Live update failed: ${(error as Error).message}`);
+    }
+  }, [
+    directoryHandle,
+    analyzeProject,
+    applyComplexityProfile,
+    complexityProfile,
+    patchAnalysisResult,
+  ]);
+
+  const handleWatchError = useCallback((error: Error) => {
+    setIsWatching(false);
+    alert(`Watch mode stopped: ${error.message}`);
+  }, []);
+
+  useProjectWatcher({
+    directoryHandle,
+    enabled: isWatching && graphData !== null,
+    onChange: handleFilesChanged,
+    onError: handleWatchError,
+  });
+
+  const handleApplyComplexityProfile = useCallback(
+    (profile: ComplexityProfile) => {
+      if (dependencyGraph) {
+        const result = applyComplexityProfile(dependencyGraph, profile);
+        updateComplexityProfile(
+          profile,
+          { nodes: result.nodes, edges: result.edges },
+          result.metrics,
+          result.graph,
+          result.warnings
+        );
+      }
+      // Past commits are scored like the current graph
+      rescoreTimeline((analysis) => ({
+        ...analysis,
+        ...applyComplexityProfile(analysis.graph, profile),
+        complexityProfile: profile,
+      }));
+      setSelectedWarning(null);
+      setSelectedCycle(null);
+      setShowSettings(false);
+    },
+    [
+      dependencyGraph,
+      applyComplexityProfile,
+      updateComplexityProfile,
+      rescoreTimeline,
+    ]
+  );
+
+  // Clicking a warning focuses its components; clicking it again clears focus
+  const handleSelectWarning = useCallback((warning: Warning) => {
+    setSelectedWarning((current) =>
+      current?.id === warning.id ? null : warning
+    );
+  }, []);
+
+  // Clicking a cycle highlights its edges; clicking one of its edges narrows
+  // the highlight to that edge, and clicking again toggles back
+  const handleSelectCycle = useCallback((cycle: DependencyCycle) => {
+    setSelectedCycle((current) =>
+      current?.cycle.id === cycle.id ? null : { cycle, edgeIndex: null }
+    );
+  }, []);
+
+  const handleSelectCycleEdge = useCallback(
+    (cycle: DependencyCycle, edgeIndex: number) => {
+      setSelectedCycle((current) => ({
+        cycle,
+        edgeIndex: current?.edgeIndex === edgeIndex ? null : edgeIndex,
+      }));
+    },
+    []
+  );
+
+  // Clicking a diff entry focuses its components; clicking it again clears focus
+  const handleSelectDiff = useCallback((selection: DiffSelection) => {
+    setSelectedDiff((current) =>
+      current?.key === selection.key ? null : selection
+    );
+  }, []);
+
+  const toggleSidePanel = useCallback((panel: SidePanel) => {
+    setSidePanel((current) => (current === panel ? null : panel));
+    setSelectedWarning(null);
+    setSelectedCycle(null);
+    setSelectedDiff(null);
+    setIsPreviewingCuts(false);
+  }, []);
+
+  // Nodes and edges to highlight and zoom to for the current selection
+  const focus = useMemo(() => {
+    if (selectedWarning) {
+      return {
+        nodeIds: new Set(selectedWarning.componentIds),
+        edgeIds: undefined,
+        focusedNodeIds: selectedWarning.componentIds,
+      };
+    }
+    if (selectedCycle) {
+      const cycleEdges = getCycleEdges(selectedCycle.cycle);
+      const edges =
+        selectedCycle.edgeIndex === null
+          ? cycleEdges
+          : [cycleEdges[selectedCycle.edgeIndex]];
+      const nodeIds = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+      return {
+        nodeIds,
+        edgeIds: new Set(edges.map((edge) => `${edge.from}-${edge.to}`)),
+        focusedNodeIds: Array.from(nodeIds),
+      };
+    }
+    if (selectedDiff) {
+      return {
+        nodeIds: new Set(selectedDiff.nodeIds),
+        edgeIds: selectedDiff.edgeIds && new Set(selectedDiff.edgeIds),
+        focusedNodeIds: selectedDiff.nodeIds,
+      };
+    }
+    return null;
+  }, [selectedWarning, selectedCycle, selectedDiff]);
+
+  const cycleAnalysis = shownDependencyGraph?.cycleAnalysis;
+
+  // Imports to remove to make the graph acyclic, drawn dashed while previewing
+  const cutSuggestion = useMemo(
+    () =>
+      shownDependencyGraph ? findFeedbackArcSet(shownDependencyGraph) : null,
+    [shownDependencyGraph]
+  );
+
+  const cutEdgeIds = useMemo(
+    () =>
+      isPreviewingCuts && cutSuggestion
+        ? new Set(
+            cutSuggestion.cuts.map((cut) => `${cut.edge.from}-${cut.edge.to}`)
+          )
+        : undefined,
+    [isPreviewingCuts, cutSuggestion]
+  );
+
   return (
     <main className="h-screen flex flex-col">
       <Header
         hasGraphData={!!graphData}
         layoutType={layoutType}
         onLayoutChange={setLayoutType}
-        onReset={reset}
+        onReset={handleReset}
+        onRefresh={directoryHandle ? handleRefresh : undefined}
+        isRefreshing={isAnalyzing}
+        onExport={handleExport}
+        onToggleWatch={
+          directoryHandle
+            ? () => setIsWatching((watching) => !watching)
+            : undefined
+        }
+        isWatching={isWatching}
         onShowMetrics={() => setShowMetrics(true)}
+        onShowSettings={() => setShowSettings(true)}
+        onToggleWarnings={() => toggleSidePanel('warnings')}
+        warningCount={shownWarnings.length}
+        onToggleCycles={() => toggleSidePanel('cycles')}
+        cycleCount={cycleAnalysis?.cycles.length ?? 0}
+        onCompareWithBaseline={handleCompareWithBaseline}
+        onToggleDiff={baseline ? () => toggleSidePanel('diff') : undefined}
+        onToggleHotspots={
+          hasHistory
+            ? () =>
+                setColorMode((mode) =>
+                  mode === 'hotspot' ? 'complexity' : 'hotspot'
+                )
+            : undefined
+        }
+        showHotspots={hasHistory && colorMode === 'hotspot'}
+        onShowTimeline={
+          directoryHandle && hasHistory ? handleShowTimeline : undefined
+        }
         stats={stats ? { projectName, ...stats } : null}
       />
 
@@ -81,6 +576,9 @@ export default function Home() {
           <FolderSelector
             onFolderSelected={handleFolderSelected}
             isLoading={isAnalyzing}
+            progress={progress}
+            onCancel={cancelAnalysis}
+            onAnalysisFileSelected={handleAnalysisFileSelected}
           />
         ) : (
           <>
@@ -93,22 +591,79 @@ export default function Home() {
               stats={filterStats}
               maxComplexity={metrics?.maxComplexity || 100}
               maxDepth={100}
+              complexityBands={complexityProfile.bands}
             />
 
             {/* Graph and Detail Panel */}
             <div className="flex-1 overflow-hidden flex">
+              {sidePanel === 'warnings' && (
+                <WarningsPanel
+                  warnings={shownWarnings}
+                  selectedWarningId={selectedWarning?.id ?? null}
+                  onSelectWarning={handleSelectWarning}
+                  onClose={() => toggleSidePanel('warnings')}
+                />
+              )}
+              {sidePanel === 'cycles' && (
+                <CyclesPanel
+                  cycles={cycleAnalysis?.cycles ?? []}
+                  truncated={cycleAnalysis?.truncated ?? false}
+                  selectedCycleId={selectedCycle?.cycle.id ?? null}
+                  selectedEdgeIndex={selectedCycle?.edgeIndex ?? null}
+                  onSelectCycle={handleSelectCycle}
+                  onSelectEdge={handleSelectCycleEdge}
+                  suggestion={cutSuggestion}
+                  isPreviewingCuts={isPreviewingCuts}
+                  onTogglePreviewCuts={() =>
+                    setIsPreviewingCuts((previewing) => !previewing)
+                  }
+                  onClose={() => toggleSidePanel('cycles')}
+                />
+              )}
+              {sidePanel === 'diff' && diff && baseline && (
+                <DiffPanel
+                  diff={diff}
+                  baselineName={baseline.name}
+                  selectedKey={selectedDiff?.key ?? null}
+                  onSelect={handleSelectDiff}
+                  onClearBaseline={handleClearBaseline}
+                  onClose={() => toggleSidePanel('diff')}
+                />
+              )}
               <div className="flex-1">
                 <GraphView
                   nodes={filteredNodes}
                   edges={filteredEdges}
                   layoutType={layoutType}
-                  highlightedNodeIds={matchedNodeIds}
-                  onNodeClick={selectComponent}
+                  highlightedNodeIds={focus?.nodeIds ?? matchedNodeIds}
+                  highlightedEdgeIds={focus?.edgeIds}
+                  dashedEdgeIds={cutEdgeIds}
+                  focusedNodeIds={focus?.focusedNodeIds}
+                  preserveLayout={isWatching || !!timelineSnapshot}
+                  exportName={projectName}
+                  complexityBands={complexityProfile.bands}
+                  colorMode={graphColorMode}
+                  timeline={
+                    timelineSnapshots
+                      ? {
+                          steps: timelineSnapshots.map(
+                            (snapshot) => snapshot.commit
+                          ),
+                          index: timelineIndex,
+                          onIndexChange: handleTimelineIndexChange,
+                          onExit: handleExitTimeline,
+                        }
+                      : undefined
+                  }
+                  onNodeClick={(nodeId) =>
+                    selectComponent(nodeId, shownGraph?.nodes)
+                  }
                 />
               </div>
               <DetailPanel
                 component={selectedComponent}
                 onClose={clearSelection}
+                complexityBands={complexityProfile.bands}
               />
             </div>
           </>
@@ -118,8 +673,36 @@ export default function Home() {
       {/* Metrics Dashboard Modal */}
       {showMetrics && metrics && (
         <MetricsDashboard
-          metrics={metrics}
+          metrics={shownGraph?.metrics ?? metrics}
           onClose={() => setShowMetrics(false)}
+          complexityBands={complexityProfile.bands}
+          trend={trend ?? undefined}
+          trendIndex={timelineIndex}
+        />
+      )}
+
+      {/* Time Travel Modal */}
+      {showTimeline && (
+        <TimelineDialog
+          commits={timelineCommits}
+          isAnalyzing={isAnalyzingTimeline}
+          progress={timelineProgress}
+          error={timelineError}
+          onAnalyze={handleAnalyzeTimeline}
+          onCancel={cancelTimeline}
+          onClose={() => {
+            cancelTimeline();
+            setShowTimeline(false);
+          }}
+        />
+      )}
+
+      {/* Complexity Settings Modal */}
+      {showSettings && (
+        <ComplexitySettings
+          profile={complexityProfile}
+          onApply={handleApplyComplexityProfile}
+          onClose={() => setShowSettings(false)}
         />
       )}
     </main>
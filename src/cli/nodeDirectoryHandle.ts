@@ -0,0 +1,73 @@
+import { openAsBlob } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Read-only FileSystemDirectoryHandle over a folder on disk
+ *
+ * Implements the part of the File System Access API that scanDirectory,
+ * openFile and scanFileStamps use, so analyzeProject runs unchanged
+ * in Node.
+ */
+export function createNodeDirectoryHandle(
+  directoryPath: string
+): FileSystemDirectoryHandle {
+  const name = path.basename(path.resolve(directoryPath));
+
+  const handle = {
+    kind: 'directory',
+    name,
+    async *values() {
+      const entries = await readdir(directoryPath, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        const entryPath = path.join(directoryPath, entry.name);
+        if (entry.isDirectory()) {
+          yield createNodeDirectoryHandle(entryPath);
+        } else if (entry.isFile()) {
+          yield createNodeFileHandle(entryPath);
+        }
+      }
+    },
+    async getDirectoryHandle(childName: string) {
+      const childPath = path.join(directoryPath, childName);
+      if (!(await stat(childPath)).isDirectory()) {
+        throw createNotFoundError(childPath);
+      }
+      return createNodeDirectoryHandle(childPath);
+    },
+    async getFileHandle(childName: string) {
+      const childPath = path.join(directoryPath, childName);
+      if (!(await stat(childPath)).isFile()) {
+        throw createNotFoundError(childPath);
+      }
+      return createNodeFileHandle(childPath);
+    },
+  };
+
+  return handle as unknown as FileSystemDirectoryHandle;
+}
+
+function createNodeFileHandle(filePath: string): FileSystemFileHandle {
+  const handle = {
+    kind: 'file',
+    name: path.basename(filePath),
+    async getFile() {
+      const { mtimeMs } = await stat(filePath);
+      // Read lazily, so slicing a large file (e.g. a git packfile) only
+      // reads the slice
+      return Object.assign(await openAsBlob(filePath), {
+        name: path.basename(filePath),
+        lastModified: Math.floor(mtimeMs),
+      });
+    },
+  };
+
+  return handle as unknown as FileSystemFileHandle;
+}
+
+function createNotFoundError(entryPath: string): Error {
+  const error = new Error(`Not found: ${entryPath}`);
+  error.name = 'NotFoundError';
+  return error;
+}
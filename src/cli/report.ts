@@ -0,0 +1,222 @@
+import type { ProjectAnalysis } from '@/lib/analysis/projectAnalyzer';
+import { applyLayout } from '@/lib/graph/layoutAlgorithm';
+import { getGraphLegend, renderGraphSvg } from '@/lib/export/graphImage';
+import { escapeXml } from '@/lib/export/markup';
+import type { CheckResult, CheckViolation } from '@/lib/check/qualityGate';
+import type { DependencyGraph } from '@/types';
+
+/**
+ * Cycles listed in reports before the rest are summarised as a count
+ */
+const MAX_LISTED_CYCLES = 10;
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatSummary(
+  analysis: ProjectAnalysis,
+  projectName: string
+): string {
+  const { metrics, graph, warnings } = analysis;
+  const cycles = graph.cycleAnalysis?.cycles ?? [];
+  const lines = [
+    `ReUntangle report: ${projectName}`,
+    '',
+    formatTable([
+      ['Files scanned', String(analysis.filesScanned)],
+      ['Components', String(metrics.totalComponents - metrics.totalHooks)],
+      ['Hooks', String(metrics.totalHooks)],
+      ['Average complexity', String(metrics.averageComplexity)],
+      ['Max complexity', String(metrics.maxComplexity)],
+      ['Cycles', String(metrics.circularDependencies)],
+      ['Warnings', String(warnings.length)],
+    ]),
+  ];
+
+  if (metrics.topComplexComponents.length > 0) {
+    lines.push(
+      '',
+      'Top complex components',
+      formatTable([
+        ['#', 'Name', 'Complexity', 'File'],
+        ...metrics.topComplexComponents.map((component, i) => [
+          String(i + 1),
+          component.name,
+          String(component.complexity),
+          component.filePath,
+        ]),
+      ])
+    );
+  }
+
+  if (cycles.length > 0) {
+    lines.push('', `Cycles (${cycles.length})`);
+    for (const cycle of cycles.slice(0, MAX_LISTED_CYCLES)) {
+      lines.push(`  ${formatCycle(graph, cycle.nodeIds)}`);
+    }
+    if (cycles.length > MAX_LISTED_CYCLES) {
+      lines.push(`  ... and ${cycles.length - MAX_LISTED_CYCLES} more`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Standalone HTML report with the summary tables and the graph as SVG
+ */
+export function renderHtmlReport(
+  analysis: ProjectAnalysis,
+  projectName: string,
+  generatedAt: Date = new Date()
+): string {
+  const { metrics, graph, warnings } = analysis;
+  const cycles = graph.cycleAnalysis?.cycles ?? [];
+  const nodes = applyLayout(analysis.nodes, analysis.edges, 'layered');
+  const image = renderGraphSvg(nodes, analysis.edges, {
+    legend: getGraphLegend(analysis.complexityProfile.bands),
+  });
+
+  const summaryRows: Array<[string, string | number]> = [
+    ['Files scanned', analysis.filesScanned],
+    ['Components', metrics.totalComponents - metrics.totalHooks],
+    ['Hooks', metrics.totalHooks],
+    ['Average complexity', metrics.averageComplexity],
+    ['Max complexity', metrics.maxComplexity],
+    ['Cycles', metrics.circularDependencies],
+    ['Warnings', warnings.length],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ReUntangle report: ${escapeXml(projectName)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111827; margin: 2rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; margin-top: 0; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.75rem; text-align: left; }
+  th { background: #f9fafb; }
+  .graph { overflow: auto; border: 1px solid #e5e7eb; border-radius: 0.5rem; }
+</style>
+</head>
+<body>
+<h1>ReUntangle report: ${escapeXml(projectName)}</h1>
+<p class="meta">Generated ${escapeXml(generatedAt.toISOString())}</p>
+
+<h2>Summary</h2>
+<table>
+${summaryRows
+  .map(
+    ([label, value]) =>
+      `<tr><th>${escapeXml(label)}</th><td>${escapeXml(String(value))}</td></tr>`
+  )
+  .join('\n')}
+</table>
+
+<h2>Top complex components</h2>
+<table>
+<tr><th>#</th><th>Name</th><th>Complexity</th><th>File</th></tr>
+${metrics.topComplexComponents
+  .map(
+    (component, i) =>
+      `<tr><td>${i + 1}</td><td>${escapeXml(component.name)}</td><td>${component.complexity}</td><td>${escapeXml(component.filePath)}</td></tr>`
+  )
+  .join('\n')}
+</table>
+
+<h2>Cycles (${cycles.length})</h2>
+${
+  cycles.length > 0
+    ? `<ul>\n${cycles
+        .map(
+          (cycle) => `<li>${escapeXml(formatCycle(graph, cycle.nodeIds))}</li>`
+        )
+        .join('\n')}\n</ul>`
+    : '<p>No circular dependencies.</p>'
+}
+
+<h2>Warnings (${warnings.length})</h2>
+${
+  warnings.length > 0
+    ? `<table>\n<tr><th>Severity</th><th>Message</th><th>Suggestion</th></tr>\n${warnings
+        .map(
+          (warning) =>
+            `<tr><td>${warning.severity}</td><td>${escapeXml(warning.message)}</td><td>${escapeXml(warning.suggestion)}</td></tr>`
+        )
+        .join('\n')}\n</table>`
+    : '<p>No warnings.</p>'
+}
+
+<h2>Dependency graph</h2>
+<div class="graph">
+${image.svg}
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Violations of the quality gate grouped by file, followed by a count
+ */
+export function formatCheckResult(result: CheckResult): string {
+  const byFile = new Map<string, CheckViolation[]>();
+  for (const violation of result.violations) {
+    const violations = byFile.get(violation.filePath) ?? [];
+    violations.push(violation);
+    byFile.set(violation.filePath, violations);
+  }
+
+  const lines: string[] = [];
+  for (const [filePath, violations] of Array.from(byFile).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    lines.push(
+      filePath,
+      formatTable(
+        violations.map((violation) => [violation.rule, violation.message])
+      ),
+      ''
+    );
+  }
+
+  const count = result.violations.length;
+  const allowed =
+    result.allowed.length > 0 ? ` (${result.allowed.length} allowlisted)` : '';
+  lines.push(
+    count > 0
+      ? `✖ ${count} violation${count === 1 ? '' : 's'}${allowed}`
+      : `✔ No violations${allowed}`
+  );
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Left-aligned columns separated by two spaces
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .map((line) => `  ${line}`)
+    .join('\n');
+}
+
+/**
+ * Component names around a cycle, ending where it started
+ */
+function formatCycle(graph: DependencyGraph, nodeIds: string[]): string {
+  const names = nodeIds.map((id) => graph.nodes.get(id)?.component.name ?? id);
+  return [...names, names[0]].join(' → ');
+}
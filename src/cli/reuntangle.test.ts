@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { EXIT_CODES, USAGE, runCli } from './reuntangle';
+import { parseAnalysisFile } from '@/lib/export/analysisFile';
+
+/**
+ * Run the CLI and collect what it prints
+ */
+async function run(args: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = await runCli(args, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+describe('reuntangle CLI', () => {
+  let root: string;
+  let project: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'reuntangle-cli-'));
+    project = path.join(root, 'my-app');
+    await mkdir(path.join(project, 'src/components'), { recursive: true });
+    await mkdir(path.join(project, 'node_modules/lib'), { recursive: true });
+    await writeFile(
+      path.join(project, 'src/App.tsx'),
+      `import { useState } from 'react';
+       import Header from './components/Header';
+       export default function App() {
+         const [open, setOpen] = useState(false);
+         return <Header open={open} onToggle={() => setOpen(!open)} />;
+       }`
+    );
+    await writeFile(
+      path.join(project, 'src/components/Header.tsx'),
+      `import Nav from './Nav';
+       export default function Header() { return <Nav />; }`
+    );
+    await writeFile(
+      path.join(project, 'src/components/Nav.tsx'),
+      `import Header from './Header';
+       export function useNav() { return 1; }
+       export default function Nav() { return <Header />; }`
+    );
+    // Skipped like in the browser
+    await writeFile(
+      path.join(project, 'node_modules/lib/Ignored.tsx'),
+      'export default function Ignored() { return null; }'
+    );
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('フォルダを解析してサマリーを表示できること', async () => {
+    const { code, stdout, stderr } = await run(['analyze', project]);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stderr).toBe('');
+    expect(stdout).toContain('ReUntangle report: my-app');
+    expect(stdout).toMatch(/Files scanned {7}3\n/);
+    expect(stdout).toMatch(/Components {10}3\n/);
+    expect(stdout).toMatch(/Hooks {15}1\n/);
+    expect(stdout).toMatch(/Cycles {14}1\n/);
+    expect(stdout).toContain('Top complex components');
+    expect(stdout).toMatch(/App\s+\d+\s+src\/App\.tsx/);
+    expect(stdout).toContain('Cycles (1)\n  Header → Nav → Header');
+    expect(stdout).not.toContain('Ignored');
+  });
+
+  it('JSON・Mermaid・HTMLをファイルに書き出せること', async () => {
+    const out = path.join(root, 'out');
+
+    const { code, stdout } = await run([
+      'analyze',
+      project,
+      '--json',
+      path.join(out, 'analysis.json'),
+      '--mermaid',
+      path.join(out, 'graph.mmd'),
+      '--html',
+      path.join(out, 'report.html'),
+      '--quiet',
+    ]);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe('');
+
+    const analysis = parseAnalysisFile(
+      await readFile(path.join(out, 'analysis.json'), 'utf8')
+    );
+    expect(analysis.projectName).toBe('my-app');
+    expect(analysis.graph.nodes.size).toBe(4);
+
+    const mermaid = await readFile(path.join(out, 'graph.mmd'), 'utf8');
+    expect(mermaid).toMatch(/^flowchart TD\n/);
+
+    const html = await readFile(path.join(out, 'report.html'), 'utf8');
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>ReUntangle report: my-app</title>');
+    expect(html).toContain('<li>Header → Nav → Header</li>');
+    expect(html).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+  });
+
+  it('ヘルプを表示できること', async () => {
+    const { code, stdout } = await run(['--help']);
+
+    expect(code).toBe(EXIT_CODES.success);
+    expect(stdout).toBe(USAGE);
+  });
+
+  it('不正な引数の場合は使い方を表示して終了コード2を返すこと', async () => {
+    expect(await run([])).toMatchObject({
+      code: EXIT_CODES.usage,
+      stderr: USAGE,
+    });
+    expect(await run(['build', project])).toMatchObject({
+      code: EXIT_CODES.usage,
+      stderr: expect.stringContaining('Unknown command: build'),
+    });
+    expect(await run(['analyze', project, '--pdf', 'x'])).toMatchObject({
+      code: EXIT_CODES.usage,
+      stderr: expect.stringContaining("Unknown option '--pdf'"),
+    });
+  });
+
+  it('フォルダが存在しない場合は終了コード2を返すこと', async () => {
+    const missing = path.join(root, 'missing');
+
+    const { code, stderr } = await run(['analyze', missing]);
+
+    expect(code).toBe(EXIT_CODES.error);
+    expect(stderr).toBe(`Error: Not a directory: ${missing}\n`);
+  });
+
+  describe('check', () => {
+    it('違反をファイルとルールごとに表示して終了コード1を返すこと', async () => {
+      const { code, stdout } = await run(['check', project]);
+
+      expect(code).toBe(EXIT_CODES.checkFailed);
+      expect(stdout).toMatch(
+        /^src\/components\/(Header|Nav)\.tsx\n {2}no-new-cycles {2}Circular dependency /
+      );
+      expect(stdout).toMatch(/✖ 1 violation\n$/);
+    });
+
+    it('設定ファイルの閾値と許可リストで判定できること', async () => {
+      const config = path.join(root, 'strict.json');
+      await writeFile(
+        config,
+        JSON.stringify({
+          check: {
+            rules: { 'max-complexity': 0, 'max-depth': 0 },
+            allowlist: [
+              { path: 'src/components/**' },
+              { rule: 'max-depth', component: 'App' },
+            ],
+          },
+        })
+      );
+
+      const { code, stdout } = await run([
+        'check',
+        project,
+        '--config',
+        config,
+      ]);
+
+      expect(code).toBe(EXIT_CODES.checkFailed);
+      expect(stdout).toMatch(
+        /^src\/App\.tsx\n {2}max-complexity {2}App has complexity \d+ \(max 0\)\n\n/
+      );
+      expect(stdout).not.toContain('src/components');
+      expect(stdout).toMatch(/✖ 1 violation \(\d+ allowlisted\)\n$/);
+    });
+
+    it('違反がない場合は終了コード0を返すこと', async () => {
+      const config = path.join(root, 'no-cycles.json');
+      await writeFile(
+        config,
+        JSON.stringify({ check: { rules: { 'no-new-cycles': false } } })
+      );
+
+      expect(await run(['check', project, '--config', config])).toMatchObject({
+        code: EXIT_CODES.success,
+        stdout: '✔ No violations\n',
+      });
+      expect(
+        await run(['check', project, '--config', config, '--quiet'])
+      ).toMatchObject({ code: EXIT_CODES.success, stdout: '' });
+    });
+
+    it('ベースラインにある循環は違反にしないこと', async () => {
+      const baseline = path.join(root, 'baseline.json');
+      await run(['analyze', project, '--json', baseline, '--quiet']);
+
+      expect(
+        await run(['check', project, '--baseline', baseline])
+      ).toMatchObject({
+        code: EXIT_CODES.success,
+        stdout: '✔ No violations\n',
+      });
+      expect(
+        await run(['check', project, '--baseline', path.join(root, 'nope')])
+      ).toMatchObject({
+        code: EXIT_CODES.error,
+        stderr: expect.stringContaining('Cannot read baseline file'),
+      });
+    });
+
+    it('設定ファイルが無効な場合は終了コード2を返すこと', async () => {
+      const config = path.join(root, 'invalid.json');
+      await writeFile(
+        config,
+        JSON.stringify({ check: { rules: { 'max-depth': -1 } } })
+      );
+
+      const { code, stderr } = await run([
+        'check',
+        project,
+        '--config',
+        config,
+      ]);
+
+      expect(code).toBe(EXIT_CODES.error);
+      expect(stderr).toContain('Error: Invalid reuntangle.config.json');
+      expect(
+        await run(['check', project, '--config', path.join(root, 'nope.json')])
+      ).toMatchObject({ code: EXIT_CODES.error });
+    });
+  });
+});
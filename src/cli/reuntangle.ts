@@ -0,0 +1,235 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  analyzeProject,
+  type ProjectAnalysis,
+} from '@/lib/analysis/projectAnalyzer';
+import {
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE,
+  type ProjectConfig,
+} from '@/lib/config/projectConfig';
+import { runQualityGate } from '@/lib/check/qualityGate';
+import {
+  parseAnalysisFile,
+  serializeAnalysis,
+} from '@/lib/export/analysisFile';
+import { toMermaid } from '@/lib/export/graphFormats';
+import { readTextFile } from '@/lib/fileSystem';
+import type { DependencyGraph } from '@/types';
+import { createNodeDirectoryHandle } from './nodeDirectoryHandle';
+import { formatCheckResult, formatSummary, renderHtmlReport } from './report';
+
+export const USAGE = `Usage: reuntangle <command> <dir> [options]
+
+Commands:
+  analyze  Analyse the React components in <dir> and print a summary
+  check    Check <dir> against the rules in the config file's "check"
+           section and list every violation
+
+Options:
+  --config <file>   Config to use instead of <dir>/${PROJECT_CONFIG_FILE}
+  --baseline <file> check: analysis JSON whose cycles are known, so
+                    no-new-cycles only fails on cycles it does not have
+  --json <file>     analyze: write the analysis as JSON (can be opened in ReUntangle)
+  --mermaid <file>  analyze: write the dependency graph as a Mermaid flowchart
+  --html <file>     analyze: write a standalone HTML report
+  -q, --quiet       Only print errors and violations
+  -h, --help        Show this help
+
+Exit codes:
+  0  Success, no violations
+  1  check found violations
+  2  Invalid arguments or config, or the analysis failed
+`;
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  success: 0,
+  checkFailed: 1,
+  error: 2,
+  usage: 2,
+};
+
+/**
+ * Where the CLI writes its output (process.stdout / stderr by default)
+ */
+export type CliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+const defaultOutput: CliOutput = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+const COMMANDS = ['analyze', 'check'];
+
+/**
+ * Run the CLI with the given arguments (without node and the script path)
+ * and return the exit code
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = defaultOutput
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string' },
+        baseline: { type: 'string' },
+        json: { type: 'string' },
+        mermaid: { type: 'string' },
+        html: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    output.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    output.stdout(USAGE);
+    return EXIT_CODES.success;
+  }
+
+  const [command, directory, ...rest] = positionals;
+  if (!COMMANDS.includes(command) || !directory || rest.length > 0) {
+    output.stderr(
+      command && !COMMANDS.includes(command)
+        ? `Unknown command: ${command}\n\n${USAGE}`
+        : USAGE
+    );
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const projectName = path.basename(path.resolve(directory));
+    const config = await loadConfig(directory, values.config);
+    const baseline =
+      command === 'check' && values.baseline !== undefined
+        ? await loadBaseline(values.baseline)
+        : null;
+    const analysis = await analyzeDirectory(directory, config);
+
+    if (command === 'check') {
+      const result = runQualityGate(analysis.graph, config.check, {
+        baseline,
+      });
+      if (!values.quiet || result.violations.length > 0) {
+        output.stdout(formatCheckResult(result));
+      }
+      return result.violations.length > 0
+        ? EXIT_CODES.checkFailed
+        : EXIT_CODES.success;
+    }
+
+    if (!values.quiet) {
+      output.stdout(formatSummary(analysis, projectName));
+    }
+
+    const outputs: Array<[string | undefined, () => string]> = [
+      [values.json, () => serializeAnalysisResult(analysis, projectName)],
+      [values.mermaid, () => toMermaid(analysis.graph)],
+      [values.html, () => renderHtmlReport(analysis, projectName)],
+    ];
+    for (const [file, render] of outputs) {
+      if (file) {
+        await mkdir(path.dirname(path.resolve(file)), { recursive: true });
+        await writeFile(file, render());
+        if (!values.quiet) {
+          output.stdout(`Wrote ${file}\n`);
+        }
+      }
+    }
+
+    return EXIT_CODES.success;
+  } catch (error) {
+    output.stderr(`Error: ${(error as Error).message}\n`);
+    return EXIT_CODES.error;
+  }
+}
+
+/**
+ * Analyse a folder on disk, like the browser does a picked folder
+ */
+export async function analyzeDirectory(
+  directory: string,
+  config?: ProjectConfig
+): Promise<ProjectAnalysis> {
+  await assertDirectory(directory);
+
+  // Without Web Workers the analysis runs in this thread
+  return analyzeProject(createNodeDirectoryHandle(directory), {
+    poolSize: 1,
+    config,
+  });
+}
+
+/**
+ * The given config file, or the one in the analysed folder (defaults when
+ * there is none)
+ */
+async function loadConfig(
+  directory: string,
+  configPath: string | undefined
+): Promise<ProjectConfig> {
+  if (configPath === undefined) {
+    await assertDirectory(directory);
+    const handle = createNodeDirectoryHandle(directory);
+    return loadProjectConfig((filePath) => readTextFile(handle, filePath));
+  }
+
+  const content = await readFile(configPath, 'utf8').catch(() => {
+    throw new Error(`Cannot read config file: ${configPath}`);
+  });
+  return loadProjectConfig(async (filePath) =>
+    filePath === PROJECT_CONFIG_FILE ? content : null
+  );
+}
+
+/**
+ * Graph of an analysis written with `analyze --json` (or exported from the
+ * browser)
+ */
+async function loadBaseline(baselinePath: string): Promise<DependencyGraph> {
+  const content = await readFile(baselinePath, 'utf8').catch(() => {
+    throw new Error(`Cannot read baseline file: ${baselinePath}`);
+  });
+  return parseAnalysisFile(content).graph;
+}
+
+async function assertDirectory(directory: string): Promise<void> {
+  const stats = await stat(directory).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Not a directory: ${directory}`);
+  }
+}
+
+function serializeAnalysisResult(
+  analysis: ProjectAnalysis,
+  projectName: string
+): string {
+  return serializeAnalysis({
+    projectName,
+    stats: {
+      filesScanned: analysis.filesScanned,
+      componentsFound: analysis.componentsFound,
+    },
+    graph: analysis.graph,
+    metrics: analysis.metrics,
+    warnings: analysis.warnings,
+    complexityProfile: analysis.complexityProfile,
+    layoutType: 'layered',
+  });
+}
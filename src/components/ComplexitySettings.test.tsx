@@ -0,0 +1,88 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import ComplexitySettings from './ComplexitySettings';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+
+describe('ComplexitySettings', () => {
+  const mockOnApply = vi.fn();
+  const mockOnClose = vi.fn();
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderSettings = () =>
+    render(
+      <ComplexitySettings
+        profile={DEFAULT_COMPLEXITY_PROFILE}
+        onApply={mockOnApply}
+        onClose={mockOnClose}
+      />
+    );
+
+  describe('基本レンダリング', () => {
+    it('重み・上限・閾値のセクションが表示される', () => {
+      renderSettings();
+
+      expect(screen.getByText('Complexity Settings')).toBeInTheDocument();
+      expect(screen.getByText('Weights')).toBeInTheDocument();
+      expect(screen.getByText('Caps (score 100 at)')).toBeInTheDocument();
+      expect(screen.getByText('Band Thresholds')).toBeInTheDocument();
+      expect(screen.getByText('Total: 100')).toBeInTheDocument();
+    });
+
+    it('現在のプロファイルの値が入力されている', () => {
+      renderSettings();
+
+      expect(screen.getByLabelText('Simple up to')).toHaveValue(30);
+      expect(screen.getByLabelText('Cyclomatic')).toHaveValue(10);
+    });
+  });
+
+  describe('編集と適用', () => {
+    it('編集したプロファイルでonApplyが呼ばれる', () => {
+      renderSettings();
+
+      fireEvent.change(screen.getByLabelText('Complex up to'), {
+        target: { value: '90' },
+      });
+      fireEvent.click(screen.getByText('Apply'));
+
+      expect(mockOnApply).toHaveBeenCalledWith({
+        ...DEFAULT_COMPLEXITY_PROFILE,
+        bands: { simple: 30, standard: 60, complex: 90 },
+      });
+    });
+
+    it('無効な閾値の場合はエラーを表示し適用できない', () => {
+      renderSettings();
+
+      fireEvent.change(screen.getByLabelText('Standard up to'), {
+        target: { value: '20' },
+      });
+
+      expect(screen.getByText(/Band thresholds must be/)).toBeInTheDocument();
+      expect(screen.getByText('Apply')).toBeDisabled();
+    });
+
+    it('デフォルトに戻せる', () => {
+      renderSettings();
+
+      fireEvent.change(screen.getByLabelText('Simple up to'), {
+        target: { value: '10' },
+      });
+      fireEvent.click(screen.getByText('Reset to Defaults'));
+
+      expect(screen.getByLabelText('Simple up to')).toHaveValue(30);
+    });
+
+    it('閉じるボタンでonCloseが呼ばれる', () => {
+      renderSettings();
+
+      fireEvent.click(screen.getByLabelText('Close settings'));
+
+      expect(mockOnClose).toHaveBeenCalledTimes(1);
+      expect(mockOnApply).not.toHaveBeenCalled();
+    });
+  });
+});
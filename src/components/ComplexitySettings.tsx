@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import type {
+  ComplexityBands,
+  ComplexityCaps,
+  ComplexityProfile,
+  ComplexityWeights,
+} from '@/types';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  getComplexityProfileError,
+} from '@/lib/complexity/complexityProfile';
+import { PROJECT_CONFIG_FILE } from '@/lib/config/projectConfig';
+
+const WEIGHT_LABELS: Record<keyof ComplexityWeights, string> = {
+  linesOfCode: 'Lines of code',
+  dependencies: 'Dependencies',
+  hooks: 'Hooks',
+  props: 'Props',
+  externalLibraries: 'External libraries',
+  controlFlow: 'Control flow',
+};
+
+const CAP_LABELS: Record<keyof ComplexityCaps, string> = {
+  linesOfCode: 'Lines of code',
+  dependencies: 'Dependencies',
+  hooks: 'Hooks',
+  props: 'Props',
+  externalLibraries: 'External libraries',
+  cyclomatic: 'Cyclomatic',
+  cognitive: 'Cognitive',
+};
+
+const BAND_LABELS: Record<keyof ComplexityBands, string> = {
+  simple: 'Simple up to',
+  standard: 'Standard up to',
+  complex: 'Complex up to',
+};
+
+type ComplexitySettingsProps = {
+  profile: ComplexityProfile;
+  onApply: (profile: ComplexityProfile) => void;
+  onClose: () => void;
+};
+
+export default function ComplexitySettings({
+  profile,
+  onApply,
+  onClose,
+}: ComplexitySettingsProps) {
+  const [draft, setDraft] = useState<ComplexityProfile>(profile);
+  const error = getComplexityProfileError(draft);
+  const totalWeight = Object.values(draft.weights).reduce(
+    (sum, weight) => sum + (Number.isFinite(weight) ? weight : 0),
+    0
+  );
+
+  const updateField = <K extends keyof ComplexityProfile>(
+    section: K,
+    key: keyof ComplexityProfile[K],
+    value: string
+  ) => {
+    setDraft({
+      ...draft,
+      [section]: { ...draft[section], [key]: Number(value) },
+    });
+  };
+
+  const renderFields = <K extends keyof ComplexityProfile>(
+    section: K,
+    labels: Record<keyof ComplexityProfile[K], string>
+  ) =>
+    (Object.keys(labels) as Array<keyof ComplexityProfile[K]>).map((key) => {
+      const inputId = `complexity-${section}-${String(key)}`;
+      return (
+        <div key={String(key)} className="flex items-center justify-between">
+          <label htmlFor={inputId} className="text-sm text-gray-700">
+            {labels[key]}
+          </label>
+          <input
+            id={inputId}
+            type="number"
+            min="0"
+            value={String(draft[section][key])}
+            onChange={(e) => updateField(section, key, e.target.value)}
+            className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded
+                     focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      );
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto m-4">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">
+              Complexity Settings
+            </h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Defaults can be set per project in {PROJECT_CONFIG_FILE}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close settings"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-6 grid grid-cols-1 md:grid-cols-3 gap-8">
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">
+              Weights
+            </h3>
+            <div className="space-y-2">
+              {renderFields('weights', WEIGHT_LABELS)}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Total: {totalWeight}</p>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">
+              Caps (score 100 at)
+            </h3>
+            <div className="space-y-2">{renderFields('caps', CAP_LABELS)}</div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">
+              Band Thresholds
+            </h3>
+            <div className="space-y-2">
+              {renderFields('bands', BAND_LABELS)}
+            </div>
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-white border-t border-gray-200 px-6 py-4 flex items-center justify-between">
+          <p className="text-sm text-red-600">{error}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(DEFAULT_COMPLEXITY_PROFILE)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                       hover:bg-gray-300 transition-colors"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              disabled={!!error}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium
+                       hover:bg-blue-700 transition-colors
+                       disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { render, screen } from '@testing-library/react';
 import { describe, it, expect } from 'vitest';
 import { ReactFlowProvider } from '@xyflow/react';
 import CustomNode from './CustomNode';
+import { createComponent } from '@/test/graphFixtures';
 import type { FlowNodeData } from '@/types';
 
 // Helper to render with ReactFlow provider
@@ -12,18 +13,15 @@ const renderWithProvider = (component: React.ReactElement) => {
 describe('CustomNode', () => {
   const mockNodeData: FlowNodeData = {
     label: 'TestComponent',
-    componentInfo: {
+    componentInfo: createComponent({
       id: '1',
       name: 'TestComponent',
       filePath: 'src/components/TestComponent.tsx',
-      type: 'function',
-      dependencies: [],
-      imports: [],
       complexity: 42,
       linesOfCode: 100,
-      hooks: [],
+      logicalLinesOfCode: 80,
       propsCount: 3,
-    },
+    }),
     complexity: 42,
     dependencyCount: 2,
     dependentCount: 5,
@@ -148,4 +146,49 @@ describe('CustomNode', () => {
       expect(screen.getByText('A')).toBeInTheDocument();
     });
   });
+
+  describe('ベースラインとの比較', () => {
+    it('複雑度が増えた場合、上向きの矢印バッジが表示される', () => {
+      renderWithProvider(
+        <CustomNode
+          data={{
+            ...mockNodeData,
+            diff: { status: 'changed', complexityDelta: 12 },
+          }}
+        />
+      );
+
+      const badge = screen.getByTitle('Complexity +12 since baseline');
+      expect(badge.textContent).toBe('▲12');
+      expect(badge).toHaveClass('bg-red-600');
+    });
+
+    it('複雑度が減った場合、下向きの矢印バッジが表示される', () => {
+      renderWithProvider(
+        <CustomNode
+          data={{
+            ...mockNodeData,
+            diff: { status: 'changed', complexityDelta: -5 },
+          }}
+        />
+      );
+
+      const badge = screen.getByTitle('Complexity -5 since baseline');
+      expect(badge.textContent).toBe('▼5');
+      expect(badge).toHaveClass('bg-green-600');
+    });
+
+    it('複雑度が変わらない場合、バッジが表示されない', () => {
+      const { container } = renderWithProvider(
+        <CustomNode
+          data={{
+            ...mockNodeData,
+            diff: { status: 'added', complexityDelta: 0 },
+          }}
+        />
+      );
+
+      expect(container.textContent).not.toMatch(/[▲▼]/);
+    });
+  });
 });
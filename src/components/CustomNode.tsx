@@ -9,6 +9,8 @@ type CustomNodeProps = {
 };
 
 function CustomNode({ data }: CustomNodeProps) {
+  const complexityDelta = data.diff?.complexityDelta ?? 0;
+
   return (
     <div className="relative">
       {/* Connection handles - invisible but functional */}
@@ -23,6 +25,18 @@ function CustomNode({ data }: CustomNodeProps) {
         {data.complexity}
       </div>
 
+      {/* Complexity change since the baseline (compare mode) */}
+      {complexityDelta !== 0 && (
+        <span
+          className={`absolute -top-3 -right-6 px-1.5 rounded-full text-[10px] font-bold
+                      text-white shadow ${complexityDelta > 0 ? 'bg-red-600' : 'bg-green-600'}`}
+          title={`Complexity ${complexityDelta > 0 ? '+' : ''}${complexityDelta} since baseline`}
+        >
+          {complexityDelta > 0 ? '▲' : '▼'}
+          {Math.abs(complexityDelta)}
+        </span>
+      )}
+
       <Handle
         type="source"
         position={Position.Bottom}
@@ -0,0 +1,138 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import CyclesPanel from './CyclesPanel';
+import type { DependencyCycle, FeedbackArcSetSuggestion } from '@/types';
+
+describe('CyclesPanel', () => {
+  const mockOnSelectCycle = vi.fn();
+  const mockOnSelectEdge = vi.fn();
+  const mockOnTogglePreviewCuts = vi.fn();
+  const mockOnClose = vi.fn();
+
+  const cycles: DependencyCycle[] = [
+    {
+      id: 'src/A.tsx:A>src/B.tsx:B',
+      nodeIds: ['src/A.tsx:A', 'src/B.tsx:B'],
+    },
+    {
+      id: 'src/A.tsx:A>src/C.tsx:C>src/D.tsx:D',
+      nodeIds: ['src/A.tsx:A', 'src/C.tsx:C', 'src/D.tsx:D'],
+    },
+  ];
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPanel = ({
+    items = cycles,
+    truncated = false,
+    selectedCycleId = null as string | null,
+    selectedEdgeIndex = null as number | null,
+    suggestion = null as FeedbackArcSetSuggestion | null,
+    isPreviewingCuts = false,
+  } = {}) =>
+    render(
+      <CyclesPanel
+        cycles={items}
+        truncated={truncated}
+        selectedCycleId={selectedCycleId}
+        selectedEdgeIndex={selectedEdgeIndex}
+        onSelectCycle={mockOnSelectCycle}
+        onSelectEdge={mockOnSelectEdge}
+        suggestion={suggestion}
+        isPreviewingCuts={isPreviewingCuts}
+        onTogglePreviewCuts={mockOnTogglePreviewCuts}
+        onClose={mockOnClose}
+      />
+    );
+
+  it('循環ごとにコンポーネントの経路が表示される', () => {
+    renderPanel();
+
+    expect(screen.getByText('Cycles (2)')).toBeInTheDocument();
+    expect(screen.getByText('A → B → A')).toBeInTheDocument();
+    expect(screen.getByText('A → C → D → A')).toBeInTheDocument();
+  });
+
+  it('循環をクリックするとonSelectCycleが呼ばれる', () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByText('A → B → A'));
+
+    expect(mockOnSelectCycle).toHaveBeenCalledWith(cycles[0]);
+  });
+
+  it('選択中の循環はエッジごとに選択できる', () => {
+    renderPanel({ selectedCycleId: cycles[1].id });
+
+    fireEvent.click(screen.getByText('D → A'));
+
+    expect(mockOnSelectEdge).toHaveBeenCalledWith(cycles[1], 2);
+    expect(screen.queryByText('B → A')).not.toBeInTheDocument();
+  });
+
+  describe('削除候補', () => {
+    const suggestion: FeedbackArcSetSuggestion = {
+      cuts: [
+        {
+          edge: {
+            from: 'src/B.tsx:B',
+            to: 'src/A.tsx:A',
+            strength: 1,
+            importSource: './A',
+          },
+          filePath: 'src/B.tsx',
+          importStatement: "import { A } from './A';",
+        },
+        {
+          edge: { from: 'src/D.tsx:D', to: 'src/D.tsx:Inner', strength: 2 },
+          filePath: 'src/D.tsx',
+          importStatement: null,
+        },
+      ],
+      totalStrength: 3,
+      exact: true,
+    };
+
+    it('削除するインポートがファイルごとに表示される', () => {
+      renderPanel({ suggestion });
+
+      expect(screen.getByText('Suggested Cuts')).toBeInTheDocument();
+      expect(
+        screen.getByText(/Remove 2 dependencies \(strength 3\)/)
+      ).toBeInTheDocument();
+      expect(screen.getByText('src/B.tsx')).toBeInTheDocument();
+      expect(screen.getByText("import { A } from './A';")).toBeInTheDocument();
+      expect(
+        screen.getByText('Reference to Inner in the same file')
+      ).toBeInTheDocument();
+    });
+
+    it('プレビューボタンでonTogglePreviewCutsが呼ばれる', () => {
+      renderPanel({ suggestion, isPreviewingCuts: true });
+
+      fireEvent.click(screen.getByText('Hide Preview'));
+
+      expect(mockOnTogglePreviewCuts).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('打ち切られた場合はその旨が表示される', () => {
+    renderPanel({ truncated: true });
+
+    expect(screen.getByText('Cycles (2+)')).toBeInTheDocument();
+    expect(
+      screen.getByText('Showing the first 2 cycles only')
+    ).toBeInTheDocument();
+  });
+
+  it('循環がない場合はメッセージが表示され、閉じるボタンでonCloseが呼ばれる', () => {
+    renderPanel({ items: [] });
+
+    expect(screen.getByText('No dependency cycles')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Close cycles'));
+    expect(mockOnClose).toHaveBeenCalledTimes(1);
+  });
+});
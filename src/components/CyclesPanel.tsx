@@ -0,0 +1,175 @@
+'use client';
+
+import type { DependencyCycle, FeedbackArcSetSuggestion } from '@/types';
+import { getCycleEdges } from '@/lib/graph/cycleDetector';
+
+type CyclesPanelProps = {
+  cycles: DependencyCycle[];
+  truncated: boolean;
+  selectedCycleId: string | null;
+  // Index into getCycleEdges(cycle), or null when the whole cycle is selected
+  selectedEdgeIndex: number | null;
+  onSelectCycle: (cycle: DependencyCycle) => void;
+  onSelectEdge: (cycle: DependencyCycle, edgeIndex: number) => void;
+  // Imports to remove to break every cycle
+  suggestion: FeedbackArcSetSuggestion | null;
+  isPreviewingCuts: boolean;
+  onTogglePreviewCuts: () => void;
+  onClose: () => void;
+};
+
+/**
+ * Component name from a `${filePath}:${name}` ID
+ */
+function getComponentName(id: string): string {
+  return id.slice(id.lastIndexOf(':') + 1);
+}
+
+export default function CyclesPanel({
+  cycles,
+  truncated,
+  selectedCycleId,
+  selectedEdgeIndex,
+  onSelectCycle,
+  onSelectEdge,
+  suggestion,
+  isPreviewingCuts,
+  onTogglePreviewCuts,
+  onClose,
+}: CyclesPanelProps) {
+  return (
+    <div className="w-80 h-full bg-white border-r border-gray-200 overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 bg-white border-b border-gray-200 px-4 py-4 flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900">
+          Cycles ({cycles.length}
+          {truncated ? '+' : ''})
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close cycles"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 space-y-2">
+        {cycles.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No dependency cycles</p>
+        )}
+
+        {truncated && (
+          <p className="text-xs text-gray-500">
+            Showing the first {cycles.length} cycles only
+          </p>
+        )}
+
+        {/* Suggested cuts */}
+        {suggestion && suggestion.cuts.length > 0 && (
+          <section className="mb-4 p-3 rounded border border-gray-200 bg-gray-50">
+            <div className="flex justify-between items-center mb-1">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Suggested Cuts
+              </h3>
+              <button
+                onClick={onTogglePreviewCuts}
+                className={`text-xs px-2 py-1 rounded transition-colors ${
+                  isPreviewingCuts
+                    ? 'bg-red-500 text-white hover:bg-red-600'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {isPreviewingCuts ? 'Hide Preview' : 'Preview'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Remove {suggestion.cuts.length}{' '}
+              {suggestion.cuts.length === 1 ? 'dependency' : 'dependencies'}{' '}
+              (strength {suggestion.totalStrength}) to break every cycle
+              {suggestion.exact ? '' : ' (approximate)'}
+            </p>
+            <ul className="space-y-2">
+              {suggestion.cuts.map((cut) => (
+                <li key={`${cut.edge.from}-${cut.edge.to}`} className="text-xs">
+                  <div className="text-gray-700 break-all">{cut.filePath}</div>
+                  {cut.importStatement ? (
+                    <code className="block mt-0.5 px-1 py-0.5 bg-white border border-gray-200 rounded text-red-700 break-all">
+                      {cut.importStatement}
+                    </code>
+                  ) : (
+                    <div className="mt-0.5 text-gray-500">
+                      Reference to {getComponentName(cut.edge.to)} in the same
+                      file
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {cycles.map((cycle, index) => {
+          const isSelected = cycle.id === selectedCycleId;
+
+          return (
+            <div
+              key={cycle.id}
+              className={`rounded border ${
+                isSelected ? 'border-red-500 bg-red-50' : 'border-gray-200'
+              }`}
+            >
+              <button
+                onClick={() => onSelectCycle(cycle)}
+                className="w-full text-left p-2 hover:bg-gray-50 transition-colors"
+              >
+                <div className="text-xs text-gray-500">
+                  Cycle {index + 1} · {cycle.nodeIds.length} components
+                </div>
+                <div className="text-sm text-gray-900 break-all">
+                  {[...cycle.nodeIds, cycle.nodeIds[0]]
+                    .map(getComponentName)
+                    .join(' → ')}
+                </div>
+              </button>
+
+              {/* Step through the cycle one edge at a time */}
+              {isSelected && (
+                <ul className="border-t border-red-200 px-2 py-1">
+                  {getCycleEdges(cycle).map((edge, edgeIndex) => (
+                    <li key={`${edge.from}-${edge.to}`}>
+                      <button
+                        onClick={() => onSelectEdge(cycle, edgeIndex)}
+                        className={`w-full text-left text-xs px-2 py-1 rounded transition-colors ${
+                          edgeIndex === selectedEdgeIndex
+                            ? 'bg-red-200 text-red-900'
+                            : 'text-gray-700 hover:bg-red-100'
+                        }`}
+                      >
+                        {getComponentName(edge.from)} →{' '}
+                        {getComponentName(edge.to)}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,16 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import DetailPanel from './DetailPanel';
+import { createComponent } from '@/test/graphFixtures';
 import type { ComponentInfo } from '@/types';
 
 describe('DetailPanel', () => {
   const mockOnClose = vi.fn();
 
-  const mockComponent: ComponentInfo = {
+  const mockComponent = createComponent({
     id: '1',
     name: 'TestComponent',
     filePath: 'src/components/TestComponent.tsx',
-    type: 'function',
     dependencies: ['Button', 'Icon'],
     imports: [
       {
@@ -23,6 +23,10 @@ describe('DetailPanel', () => {
     ],
     complexity: 45,
     linesOfCode: 150,
+    logicalLinesOfCode: 120,
+    cyclomaticComplexity: 6,
+    cognitiveComplexity: 9,
+    externalLibraryCount: 1,
     hooks: [
       { name: 'useState', count: 3 },
       { name: 'useEffect', count: 2 },
@@ -41,7 +45,7 @@ describe('DetailPanel', () => {
         },
       ],
     },
-  };
+  });
 
   afterEach(() => {
     vi.clearAllMocks();
@@ -97,6 +101,27 @@ describe('DetailPanel', () => {
       render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
       expect(screen.getByText('150')).toBeInTheDocument();
     });
+
+    it('論理行数が表示される', () => {
+      render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
+      expect(screen.getByText('Logical Lines')).toBeInTheDocument();
+      expect(screen.getByText('120')).toBeInTheDocument();
+    });
+
+    it('ラッパーのバッジが表示される', () => {
+      render(
+        <DetailPanel
+          component={{
+            ...mockComponent,
+            wrappers: ['memo', 'forwardRef', 'withRouter'],
+          }}
+          onClose={mockOnClose}
+        />
+      );
+      expect(screen.getByText('memoized')).toBeInTheDocument();
+      expect(screen.getByText('forwardRef')).toBeInTheDocument();
+      expect(screen.getByText('withRouter')).toBeInTheDocument();
+    });
   });
 
   describe('複雑度分析', () => {
@@ -105,6 +130,14 @@ describe('DetailPanel', () => {
       expect(screen.getByText('45 / 100')).toBeInTheDocument();
     });
 
+    it('循環的複雑度と認知的複雑度が表示される', () => {
+      render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
+      expect(screen.getByText('Cyclomatic')).toBeInTheDocument();
+      expect(screen.getByText('6')).toBeInTheDocument();
+      expect(screen.getByText('Cognitive')).toBeInTheDocument();
+      expect(screen.getByText('9')).toBeInTheDocument();
+    });
+
     it('Standard複雑度レベルが表示される', () => {
       render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
       expect(screen.getByText('Standard')).toBeInTheDocument();
@@ -132,6 +165,17 @@ describe('DetailPanel', () => {
       expect(screen.getByText('Complex')).toBeInTheDocument();
     });
 
+    it('指定した閾値で複雑度レベルを判定する', () => {
+      render(
+        <DetailPanel
+          component={mockComponent}
+          onClose={mockOnClose}
+          complexityBands={{ simple: 50, standard: 70, complex: 90 }}
+        />
+      );
+      expect(screen.getByText('Simple')).toBeInTheDocument();
+    });
+
     it('Very Complex複雑度の場合、正しいレベルが表示される', () => {
       const veryComplexComponent: ComponentInfo = {
         ...mockComponent,
@@ -145,6 +189,34 @@ describe('DetailPanel', () => {
     });
   });
 
+  describe('Git履歴セクション', () => {
+    it('変更回数・最終更新日・作成者が表示される', () => {
+      const trackedComponent: ComponentInfo = {
+        ...mockComponent,
+        history: {
+          commitCount: 7,
+          lastModified: Date.parse('2024-03-15T10:00:00Z'),
+          authors: ['Alice', 'Bob'],
+        },
+      };
+
+      render(
+        <DetailPanel component={trackedComponent} onClose={mockOnClose} />
+      );
+      expect(screen.getByText('Git History')).toBeInTheDocument();
+      expect(screen.getByText('7')).toBeInTheDocument();
+      expect(screen.getByText('2024-03-15')).toBeInTheDocument();
+      expect(screen.getByText('Authors (2)')).toBeInTheDocument();
+      expect(screen.getByText('Alice')).toBeInTheDocument();
+      expect(screen.getByText('Bob')).toBeInTheDocument();
+    });
+
+    it('履歴がない場合、セクション自体が表示されない', () => {
+      render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
+      expect(screen.queryByText('Git History')).not.toBeInTheDocument();
+    });
+  });
+
   describe('依存関係セクション', () => {
     it('依存関係の数が表示される', () => {
       render(<DetailPanel component={mockComponent} onClose={mockOnClose} />);
@@ -304,18 +376,12 @@ describe('DetailPanel', () => {
 
   describe('エッジケース', () => {
     it('空の配列でもエラーなくレンダリングされる', () => {
-      const minimalComponent: ComponentInfo = {
+      const minimalComponent = createComponent({
         id: '1',
         name: 'Minimal',
-        filePath: 'src/Minimal.tsx',
-        type: 'function',
-        dependencies: [],
-        imports: [],
-        complexity: 10,
         linesOfCode: 20,
-        hooks: [],
-        propsCount: 0,
-      };
+        logicalLinesOfCode: 15,
+      });
 
       render(
         <DetailPanel component={minimalComponent} onClose={mockOnClose} />
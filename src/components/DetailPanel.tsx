@@ -1,26 +1,77 @@
 'use client';
 
-import type { ComponentInfo } from '@/types';
+import type { ComplexityBand, ComplexityBands, ComponentInfo } from '@/types';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  getComplexityBand,
+} from '@/lib/complexity/complexityProfile';
+
+/**
+ * Badge labels for component wrappers (HOC names are shown as-is)
+ */
+const WRAPPER_LABELS: Record<string, string> = {
+  memo: 'memoized',
+  forwardRef: 'forwardRef',
+  lazy: 'lazy',
+  styled: 'styled',
+};
+
+/**
+ * Label, text colour and bar colour of each complexity band
+ */
+const COMPLEXITY_LEVELS: Record<
+  ComplexityBand,
+  { level: string; color: string; barColor: string }
+> = {
+  simple: {
+    level: 'Simple',
+    color: 'text-green-600',
+    barColor: 'bg-green-500',
+  },
+  standard: {
+    level: 'Standard',
+    color: 'text-blue-600',
+    barColor: 'bg-blue-500',
+  },
+  complex: {
+    level: 'Complex',
+    color: 'text-yellow-600',
+    barColor: 'bg-yellow-500',
+  },
+  veryComplex: {
+    level: 'Very Complex',
+    color: 'text-red-600',
+    barColor: 'bg-red-500',
+  },
+};
 
 type DetailPanelProps = {
   component: ComponentInfo | null;
   onClose: () => void;
+  complexityBands?: ComplexityBands;
 };
 
-export default function DetailPanel({ component, onClose }: DetailPanelProps) {
+export default function DetailPanel({
+  component,
+  onClose,
+  complexityBands = DEFAULT_COMPLEXITY_PROFILE.bands,
+}: DetailPanelProps) {
   if (!component) {
     return null;
   }
 
-  // Get complexity level and color
-  const getComplexityLevel = (complexity: number) => {
-    if (complexity <= 30) return { level: 'Simple', color: 'text-green-600' };
-    if (complexity <= 60) return { level: 'Standard', color: 'text-blue-600' };
-    if (complexity <= 80) return { level: 'Complex', color: 'text-yellow-600' };
-    return { level: 'Very Complex', color: 'text-red-600' };
-  };
+  const { level, color, barColor } =
+    COMPLEXITY_LEVELS[getComplexityBand(component.complexity, complexityBands)];
 
-  const { level, color } = getComplexityLevel(component.complexity);
+  // Imports resolved to project files (relative or path alias) are not external
+  const externalImports = component.imports.filter(
+    (imp) =>
+      !imp.resolvedPath &&
+      !imp.source.startsWith('.') &&
+      !imp.source.startsWith('/') &&
+      imp.source !== 'react' &&
+      imp.source !== 'react-dom'
+  );
 
   return (
     <div className="w-96 h-full bg-white border-l border-gray-200 overflow-y-auto">
@@ -61,6 +112,18 @@ export default function DetailPanel({ component, onClose }: DetailPanelProps) {
               <p className="text-sm font-medium text-gray-900">
                 {component.name}
               </p>
+              {component.wrappers && component.wrappers.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {component.wrappers.map((wrapper, idx) => (
+                    <span
+                      key={idx}
+                      className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded"
+                    >
+                      {WRAPPER_LABELS[wrapper] || wrapper}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
             <div>
               <span className="text-xs text-gray-500">File Path</span>
@@ -74,9 +137,17 @@ export default function DetailPanel({ component, onClose }: DetailPanelProps) {
                 {component.type}
               </p>
             </div>
-            <div>
-              <span className="text-xs text-gray-500">Lines of Code</span>
-              <p className="text-sm text-gray-900">{component.linesOfCode}</p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-xs text-gray-500">Lines of Code</span>
+                <p className="text-sm text-gray-900">{component.linesOfCode}</p>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">Logical Lines</span>
+                <p className="text-sm text-gray-900">
+                  {component.logicalLinesOfCode}
+                </p>
+              </div>
             </div>
           </div>
         </section>
@@ -96,23 +167,71 @@ export default function DetailPanel({ component, onClose }: DetailPanelProps) {
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div
-                  className={`h-2 rounded-full ${
-                    component.complexity <= 30
-                      ? 'bg-green-500'
-                      : component.complexity <= 60
-                        ? 'bg-blue-500'
-                        : component.complexity <= 80
-                          ? 'bg-yellow-500'
-                          : 'bg-red-500'
-                  }`}
+                  className={`h-2 rounded-full ${barColor}`}
                   style={{ width: `${component.complexity}%` }}
                 />
               </div>
               <p className={`text-xs mt-1 ${color}`}>{level}</p>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-xs text-gray-500">Cyclomatic</span>
+                <p className="text-sm text-gray-900">
+                  {component.cyclomaticComplexity}
+                </p>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">Cognitive</span>
+                <p className="text-sm text-gray-900">
+                  {component.cognitiveComplexity}
+                </p>
+              </div>
+            </div>
           </div>
         </section>
 
+        {/* Git History */}
+        {component.history && (
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-3">
+              Git History
+            </h3>
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-xs text-gray-500">Commits</span>
+                  <p className="text-sm text-gray-900">
+                    {component.history.commitCount}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-xs text-gray-500">Last Modified</span>
+                  <p className="text-sm text-gray-900">
+                    {new Date(component.history.lastModified)
+                      .toISOString()
+                      .slice(0, 10)}
+                  </p>
+                </div>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">
+                  Authors ({component.history.authors.length})
+                </span>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {component.history.authors.map((author) => (
+                    <span
+                      key={author}
+                      className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded"
+                    >
+                      {author}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+        )}
+
         {/* Dependencies */}
         <section>
           <h3 className="text-sm font-semibold text-gray-700 mb-3">
@@ -200,27 +319,16 @@ export default function DetailPanel({ component, onClose }: DetailPanelProps) {
           <h3 className="text-sm font-semibold text-gray-700 mb-3">
             External Libraries
           </h3>
-          {component.imports.filter((imp) => !imp.source.startsWith('.'))
-            .length > 0 ? (
+          {externalImports.length > 0 ? (
             <ul className="space-y-1">
-              {component.imports
-                .filter(
-                  (imp) =>
-                    !imp.source.startsWith('.') && !imp.source.startsWith('/')
-                )
-                .filter(
-                  (imp) => imp.source !== 'react' && imp.source !== 'react-dom'
-                )
-                .map((imp, idx) => (
-                  <li key={idx} className="text-sm">
-                    <span className="font-mono text-gray-700">
-                      {imp.source}
-                    </span>
-                    <div className="text-xs text-gray-500 ml-4">
-                      {imp.specifiers.join(', ')}
-                    </div>
-                  </li>
-                ))}
+              {externalImports.map((imp, idx) => (
+                <li key={idx} className="text-sm">
+                  <span className="font-mono text-gray-700">{imp.source}</span>
+                  <div className="text-xs text-gray-500 ml-4">
+                    {imp.specifiers.join(', ')}
+                  </div>
+                </li>
+              ))}
             </ul>
           ) : (
             <p className="text-sm text-gray-500 italic">
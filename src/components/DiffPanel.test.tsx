@@ -0,0 +1,125 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import DiffPanel from './DiffPanel';
+import type { GraphDiff } from '@/lib/diff/graphDiff';
+
+const emptyDiff: GraphDiff = {
+  addedComponents: [],
+  removedComponents: [],
+  addedEdges: [],
+  removedEdges: [],
+  complexityChanges: [],
+  newCycles: [],
+  resolvedCycles: [],
+};
+
+const diff: GraphDiff = {
+  ...emptyDiff,
+  addedComponents: [
+    { id: 'src/Footer.tsx:Footer', name: 'Footer', filePath: 'src/Footer.tsx' },
+  ],
+  removedComponents: [
+    { id: 'src/Legacy.tsx:Legacy', name: 'Legacy', filePath: 'src/Legacy.tsx' },
+  ],
+  addedEdges: [
+    {
+      id: 'src/App.tsx:App-src/Footer.tsx:Footer',
+      from: 'src/App.tsx:App',
+      to: 'src/Footer.tsx:Footer',
+      fromName: 'App',
+      toName: 'Footer',
+    },
+  ],
+  complexityChanges: [
+    {
+      id: 'src/App.tsx:App',
+      name: 'App',
+      filePath: 'src/App.tsx',
+      before: 20,
+      after: 35,
+      delta: 15,
+    },
+  ],
+  newCycles: [
+    {
+      id: 'a>b',
+      nodeIds: ['a', 'b'],
+      names: ['Header', 'Nav'],
+    },
+  ],
+};
+
+const renderPanel = (props: Partial<Parameters<typeof DiffPanel>[0]> = {}) =>
+  render(
+    <DiffPanel
+      diff={diff}
+      baselineName="before.reuntangle.json"
+      selectedKey={null}
+      onSelect={vi.fn()}
+      onClearBaseline={vi.fn()}
+      onClose={vi.fn()}
+      {...props}
+    />
+  );
+
+describe('DiffPanel', () => {
+  it('変更の種類ごとに件数と内容を表示する', () => {
+    renderPanel();
+
+    expect(
+      screen.getByText('Compared with before.reuntangle.json')
+    ).toBeInTheDocument();
+    expect(screen.getByText('New cycles (1)')).toBeInTheDocument();
+    expect(screen.getByText('Header → Nav → Header')).toBeInTheDocument();
+    expect(screen.getByText('Complexity changes (1)')).toBeInTheDocument();
+    expect(screen.getByText('App: 20 → 35 (▲15)')).toBeInTheDocument();
+    expect(screen.getByText('Added components (1)')).toBeInTheDocument();
+    expect(screen.getByText('Removed components (1)')).toBeInTheDocument();
+    expect(screen.getByText('Added dependencies (1)')).toBeInTheDocument();
+    expect(screen.getByText('App → Footer')).toBeInTheDocument();
+    expect(screen.queryByText(/Resolved cycles/)).not.toBeInTheDocument();
+  });
+
+  it('項目をクリックすると対象のノードとエッジでonSelectが呼ばれる', () => {
+    const onSelect = vi.fn();
+    renderPanel({ onSelect });
+
+    fireEvent.click(screen.getByText('Header → Nav → Header'));
+
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        key: 'new-cycle:a>b',
+        nodeIds: ['a', 'b'],
+        edgeIds: ['a-b', 'b-a'],
+      })
+    );
+  });
+
+  it('選択中の項目が強調表示される', () => {
+    renderPanel({ selectedKey: 'added:src/Footer.tsx:Footer' });
+
+    expect(screen.getByText('Footer').closest('button')).toHaveClass(
+      'border-blue-500'
+    );
+  });
+
+  it('差分がない場合はメッセージを表示する', () => {
+    renderPanel({ diff: emptyDiff });
+
+    expect(
+      screen.getByText('No changes since the baseline')
+    ).toBeInTheDocument();
+  });
+
+  it('比較の終了と閉じるボタンでコールバックが呼ばれる', () => {
+    const onClearBaseline = vi.fn();
+    const onClose = vi.fn();
+    renderPanel({ onClearBaseline, onClose });
+
+    fireEvent.click(screen.getByText('Stop comparing'));
+    fireEvent.click(screen.getByLabelText('Close diff'));
+
+    expect(onClearBaseline).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,195 @@
+'use client';
+
+import { isEmptyDiff, type GraphDiff } from '@/lib/diff/graphDiff';
+import { getCycleEdges } from '@/lib/graph/cycleDetector';
+
+/**
+ * Nodes (and edges) of the clicked diff entry, to focus in the graph
+ */
+export type DiffSelection = {
+  key: string;
+  nodeIds: string[];
+  edgeIds?: string[];
+};
+
+type DiffEntry = DiffSelection & {
+  label: string;
+  detail?: string;
+};
+
+type DiffSection = {
+  title: string;
+  className: string;
+  entries: DiffEntry[];
+};
+
+type DiffPanelProps = {
+  diff: GraphDiff;
+  baselineName: string;
+  selectedKey: string | null;
+  onSelect: (selection: DiffSelection) => void;
+  onClearBaseline: () => void;
+  onClose: () => void;
+};
+
+function getSections(diff: GraphDiff): DiffSection[] {
+  const cycleEntry =
+    (prefix: string) =>
+    (cycle: GraphDiff['newCycles'][number]): DiffEntry => ({
+      key: `${prefix}:${cycle.id}`,
+      nodeIds: cycle.nodeIds,
+      edgeIds: getCycleEdges(cycle).map((edge) => `${edge.from}-${edge.to}`),
+      label: [...cycle.names, cycle.names[0]].join(' → '),
+    });
+  const edgeEntry =
+    (prefix: string) =>
+    (edge: GraphDiff['addedEdges'][number]): DiffEntry => ({
+      key: `${prefix}:${edge.id}`,
+      nodeIds: [edge.from, edge.to],
+      edgeIds: [edge.id],
+      label: `${edge.fromName} → ${edge.toName}`,
+    });
+  const componentEntry =
+    (prefix: string) =>
+    (component: GraphDiff['addedComponents'][number]): DiffEntry => ({
+      key: `${prefix}:${component.id}`,
+      nodeIds: [component.id],
+      label: component.name,
+      detail: component.filePath,
+    });
+
+  return [
+    {
+      title: 'New cycles',
+      className: 'text-red-700',
+      entries: diff.newCycles.map(cycleEntry('new-cycle')),
+    },
+    {
+      title: 'Resolved cycles',
+      className: 'text-green-700',
+      entries: diff.resolvedCycles.map(cycleEntry('resolved-cycle')),
+    },
+    {
+      title: 'Complexity changes',
+      className: 'text-gray-700',
+      entries: diff.complexityChanges.map((change) => ({
+        key: `complexity:${change.id}`,
+        nodeIds: [change.id],
+        label: `${change.name}: ${change.before} → ${change.after} (${
+          change.delta > 0 ? '▲' : '▼'
+        }${Math.abs(change.delta)})`,
+        detail: change.filePath,
+      })),
+    },
+    {
+      title: 'Added components',
+      className: 'text-green-700',
+      entries: diff.addedComponents.map(componentEntry('added')),
+    },
+    {
+      title: 'Removed components',
+      className: 'text-gray-500',
+      entries: diff.removedComponents.map(componentEntry('removed')),
+    },
+    {
+      title: 'Added dependencies',
+      className: 'text-green-700',
+      entries: diff.addedEdges.map(edgeEntry('added-edge')),
+    },
+    {
+      title: 'Removed dependencies',
+      className: 'text-gray-500',
+      entries: diff.removedEdges.map(edgeEntry('removed-edge')),
+    },
+  ].filter((section) => section.entries.length > 0);
+}
+
+export default function DiffPanel({
+  diff,
+  baselineName,
+  selectedKey,
+  onSelect,
+  onClearBaseline,
+  onClose,
+}: DiffPanelProps) {
+  const sections = getSections(diff);
+
+  return (
+    <div className="w-80 h-full bg-white border-r border-gray-200 overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 bg-white border-b border-gray-200 px-4 py-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-900">Diff</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close diff"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1 break-all">
+          Compared with {baselineName}
+        </p>
+        <button
+          onClick={onClearBaseline}
+          className="mt-2 text-sm text-blue-600 hover:underline"
+        >
+          Stop comparing
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 space-y-6">
+        {isEmptyDiff(diff) && (
+          <p className="text-sm text-gray-500 italic">
+            No changes since the baseline
+          </p>
+        )}
+
+        {sections.map((section) => (
+          <section key={section.title}>
+            <h3 className={`text-sm font-semibold mb-2 ${section.className}`}>
+              {section.title} ({section.entries.length})
+            </h3>
+            <ul className="space-y-2">
+              {section.entries.map((entry) => (
+                <li key={entry.key}>
+                  <button
+                    onClick={() => onSelect(entry)}
+                    className={`w-full text-left p-2 rounded border transition-colors ${
+                      entry.key === selectedKey
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-sm text-gray-900 break-all">
+                      {entry.label}
+                    </span>
+                    {entry.detail && (
+                      <p className="text-xs text-gray-500 mt-1 break-all">
+                        {entry.detail}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
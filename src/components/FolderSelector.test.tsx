@@ -83,6 +83,86 @@ describe('FolderSelector', () => {
     });
   });
 
+  describe('解析の進捗', () => {
+    it('走査中は見つかったファイル数と現在のファイルが表示される', () => {
+      render(
+        <FolderSelector
+          onFolderSelected={mockOnFolderSelected}
+          isLoading={true}
+          progress={{
+            phase: 'scanning',
+            filesScanned: 12,
+            filesParsed: 0,
+            totalFiles: 0,
+            currentFile: 'src/App.tsx',
+          }}
+        />
+      );
+
+      expect(
+        screen.getByText('Scanning... 12 files found')
+      ).toBeInTheDocument();
+      expect(screen.getByText('src/App.tsx')).toBeInTheDocument();
+      expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    });
+
+    it('解析中は解析済み / 全ファイル数とプログレスバーが表示される', () => {
+      render(
+        <FolderSelector
+          onFolderSelected={mockOnFolderSelected}
+          isLoading={true}
+          progress={{
+            phase: 'parsing',
+            filesScanned: 40,
+            filesParsed: 10,
+            totalFiles: 40,
+            currentFile: 'src/Header.tsx',
+          }}
+        />
+      );
+
+      expect(screen.getByText('Parsing... 10 / 40 files')).toBeInTheDocument();
+      const progressbar = screen.getByRole('progressbar');
+      expect(progressbar).toHaveAttribute('aria-valuenow', '10');
+      expect(progressbar).toHaveAttribute('aria-valuemax', '40');
+    });
+
+    it('CancelボタンをクリックするとonCancelが呼ばれる', () => {
+      const onCancel = vi.fn();
+      render(
+        <FolderSelector
+          onFolderSelected={mockOnFolderSelected}
+          isLoading={true}
+          progress={{
+            phase: 'building',
+            filesScanned: 40,
+            filesParsed: 40,
+            totalFiles: 40,
+            currentFile: null,
+          }}
+          onCancel={onCancel}
+        />
+      );
+
+      expect(
+        screen.getByText('Building dependency graph...')
+      ).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Cancel'));
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('解析中でなければCancelボタンは表示されない', () => {
+      render(
+        <FolderSelector
+          onFolderSelected={mockOnFolderSelected}
+          onCancel={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByText('Cancel')).not.toBeInTheDocument();
+    });
+  });
+
   describe('フォルダ選択機能', () => {
     it('フォルダが選択されるとonFolderSelectedが呼ばれる', async () => {
       const mockShowDirectoryPicker = vi
@@ -143,6 +223,34 @@ describe('FolderSelector', () => {
     });
   });
 
+  describe('解析ファイルを開く', () => {
+    it('ファイルが選択されるとonAnalysisFileSelectedが呼ばれる', () => {
+      const onAnalysisFileSelected = vi.fn();
+      render(
+        <FolderSelector
+          onFolderSelected={mockOnFolderSelected}
+          onAnalysisFileSelected={onAnalysisFileSelected}
+        />
+      );
+      expect(screen.getByText('Open analysis file')).toBeInTheDocument();
+
+      const file = new File(['{}'], 'my-app.reuntangle.json', {
+        type: 'application/json',
+      });
+      fireEvent.change(screen.getByLabelText('Analysis file'), {
+        target: { files: [file] },
+      });
+
+      expect(onAnalysisFileSelected).toHaveBeenCalledWith(file);
+    });
+
+    it('onAnalysisFileSelectedが提供されていない場合、ボタンが表示されない', () => {
+      render(<FolderSelector onFolderSelected={mockOnFolderSelected} />);
+
+      expect(screen.queryByText('Open analysis file')).not.toBeInTheDocument();
+    });
+  });
+
   describe('ブラウザサポート', () => {
     it('File System Access APIがサポートされていない場合、警告が表示される', async () => {
       // showDirectoryPicker を削除してサポートされていない状態をシミュレート
@@ -1,18 +1,44 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { AnalysisProgress } from '@/types';
 
 type FolderSelectorProps = {
   onFolderSelected: (directoryHandle: FileSystemDirectoryHandle) => void;
   isLoading?: boolean;
+  // Progress of the running analysis
+  progress?: AnalysisProgress | null;
+  onCancel?: () => void;
+  // Re-open an exported analysis instead of scanning a folder
+  onAnalysisFileSelected?: (file: File) => void;
 };
 
+/**
+ * Counts shown next to the progress bar
+ */
+function describeProgress(progress: AnalysisProgress): string {
+  switch (progress.phase) {
+    case 'scanning':
+      return `Scanning... ${progress.filesScanned} files found`;
+    case 'parsing':
+      return `Parsing... ${progress.filesParsed} / ${progress.totalFiles} files`;
+    case 'history':
+      return 'Reading git history...';
+    case 'building':
+      return 'Building dependency graph...';
+  }
+}
+
 export default function FolderSelector({
   onFolderSelected,
   isLoading = false,
+  progress = null,
+  onCancel,
+  onAnalysisFileSelected,
 }: FolderSelectorProps) {
   const [error, setError] = useState<string | null>(null);
   const [isSupported, setIsSupported] = useState(true);
+  const analysisFileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     // Check if File System Access API is supported in the browser
@@ -68,6 +94,86 @@ export default function FolderSelector({
         {isLoading ? 'Analyzing...' : 'Select Folder'}
       </button>
 
+      {onAnalysisFileSelected && (
+        <>
+          <button
+            onClick={() => analysisFileInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:underline disabled:text-gray-400
+                       disabled:no-underline disabled:cursor-not-allowed"
+          >
+            Open analysis file
+          </button>
+          <input
+            ref={analysisFileInputRef}
+            type="file"
+            accept=".json,application/json"
+            aria-label="Analysis file"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              // Allow picking the same file again
+              event.target.value = '';
+              if (file) {
+                onAnalysisFileSelected(file);
+              }
+            }}
+          />
+        </>
+      )}
+
+      {isLoading && (progress || onCancel) && (
+        <div className="w-full max-w-md space-y-2">
+          {progress && (
+            <>
+              <div className="text-sm text-gray-700">
+                {describeProgress(progress)}
+              </div>
+              {/* Scanning has no known total yet */}
+              {progress.phase !== 'scanning' && (
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={progress.totalFiles}
+                  aria-valuenow={progress.filesParsed}
+                  className="h-2 bg-gray-200 rounded-full overflow-hidden"
+                >
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-200"
+                    style={{
+                      width: `${
+                        progress.totalFiles > 0
+                          ? (progress.filesParsed / progress.totalFiles) * 100
+                          : 100
+                      }%`,
+                    }}
+                  />
+                </div>
+              )}
+              {progress.currentFile && (
+                <p
+                  className="text-xs text-gray-500 truncate"
+                  title={progress.currentFile}
+                >
+                  {progress.currentFile}
+                </p>
+              )}
+            </>
+          )}
+          {onCancel && (
+            <div className="flex justify-center">
+              <button
+                onClick={onCancel}
+                className="px-4 py-1 text-sm text-gray-700 bg-gray-100 rounded
+                           hover:bg-gray-200 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="max-w-md p-4 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-red-800 text-sm">{error}</p>
@@ -1,7 +1,9 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import GraphView from './GraphView';
+import { useGraphLayout } from '@/hooks/useGraphLayout';
 import type { Node, Edge } from '@xyflow/react';
+import { createComponent } from '@/test/graphFixtures';
 import type { FlowNodeData } from '@/types';
 
 // Mock the custom hooks
@@ -37,18 +39,15 @@ vi.mock('./GraphView/ReactFlowWrapper', () => ({
 describe('GraphView', () => {
   const mockNodeData: FlowNodeData = {
     label: 'TestComponent',
-    componentInfo: {
+    componentInfo: createComponent({
       id: '1',
       name: 'TestComponent',
       filePath: 'src/TestComponent.tsx',
-      type: 'function',
-      dependencies: [],
-      imports: [],
       complexity: 45,
       linesOfCode: 100,
-      hooks: [],
+      logicalLinesOfCode: 80,
       propsCount: 2,
-    },
+    }),
     complexity: 45,
     dependencyCount: 1,
     dependentCount: 2,
@@ -90,7 +89,7 @@ describe('GraphView', () => {
   describe('基本レンダリング', () => {
     it('コンポーネントがレンダリングされる', () => {
       const { container } = render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(
@@ -100,7 +99,7 @@ describe('GraphView', () => {
 
     it('ReactFlowWrapperがレンダリングされる', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('react-flow-wrapper')).toBeInTheDocument();
@@ -108,7 +107,7 @@ describe('GraphView', () => {
 
     it('正しい数のノードが渡される', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('wrapper-nodes').textContent).toBe('2');
@@ -116,7 +115,7 @@ describe('GraphView', () => {
 
     it('正しい数のエッジが渡される', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('wrapper-edges').textContent).toBe('1');
@@ -124,9 +123,9 @@ describe('GraphView', () => {
   });
 
   describe('レイアウトタイプ', () => {
-    it('treeレイアウトで動作する', () => {
+    it('layeredレイアウトで動作する', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('react-flow-wrapper')).toBeInTheDocument();
@@ -144,7 +143,7 @@ describe('GraphView', () => {
   describe('ハイライト機能', () => {
     it('highlightedNodeIdsが指定されていない場合、すべてのノードが通常表示される', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('wrapper-nodes').textContent).toBe('2');
@@ -157,7 +156,7 @@ describe('GraphView', () => {
         <GraphView
           nodes={mockNodes}
           edges={mockEdges}
-          layoutType="tree"
+          layoutType="layered"
           highlightedNodeIds={highlightedNodeIds}
         />
       );
@@ -172,7 +171,7 @@ describe('GraphView', () => {
         <GraphView
           nodes={mockNodes}
           edges={mockEdges}
-          layoutType="tree"
+          layoutType="layered"
           highlightedNodeIds={highlightedNodeIds}
         />
       );
@@ -188,7 +187,7 @@ describe('GraphView', () => {
         <GraphView
           nodes={mockNodes}
           edges={mockEdges}
-          layoutType="tree"
+          layoutType="layered"
           highlightedNodeIds={highlightedNodeIds}
         />
       );
@@ -197,10 +196,182 @@ describe('GraphView', () => {
     });
   });
 
+  describe('エッジのハイライト', () => {
+    it('highlightedEdgeIdsのエッジが強調され、他のエッジは薄く表示される', () => {
+      render(
+        <GraphView
+          nodes={mockNodes}
+          edges={[...mockEdges, { id: 'e2-1', source: '2', target: '1' }]}
+          layoutType="layered"
+          highlightedEdgeIds={new Set(['e2-1'])}
+        />
+      );
+
+      const edges = vi.mocked(useGraphLayout).mock.lastCall![1];
+      expect(edges.find((e) => e.id === 'e2-1')?.style).toMatchObject({
+        stroke: '#ef4444',
+        opacity: 1,
+      });
+      expect(edges.find((e) => e.id === 'e1-2')?.style?.opacity).toBe(0.2);
+    });
+    it('dashedEdgeIdsのエッジが破線で表示される', () => {
+      render(
+        <GraphView
+          nodes={mockNodes}
+          edges={mockEdges}
+          layoutType="layered"
+          dashedEdgeIds={new Set(['e1-2'])}
+        />
+      );
+
+      const edges = vi.mocked(useGraphLayout).mock.lastCall![1];
+      expect(edges[0].style?.strokeDasharray).toBe('6 4');
+    });
+  });
+
+  describe('ベースラインとの差分', () => {
+    it('追加されたノードは緑、削除されたノードは半透明で表示される', () => {
+      render(
+        <GraphView
+          nodes={[
+            {
+              ...mockNodes[0],
+              data: {
+                ...mockNodeData,
+                diff: { status: 'added', complexityDelta: 0 },
+              },
+            },
+            {
+              ...mockNodes[1],
+              data: {
+                ...mockNodes[1].data,
+                diff: { status: 'removed', complexityDelta: 0 },
+              },
+            },
+          ]}
+          edges={mockEdges}
+          layoutType="layered"
+        />
+      );
+
+      const nodes = vi.mocked(useGraphLayout).mock.lastCall![0];
+      expect(nodes[0].style?.border).toBe('3px solid #16a34a');
+      expect(nodes[1].style).toMatchObject({
+        opacity: 0.35,
+        border: '2px dashed #6b7280',
+      });
+    });
+
+    it('追加されたエッジは緑、削除されたエッジは破線で表示される', () => {
+      render(
+        <GraphView
+          nodes={mockNodes}
+          edges={[
+            { ...mockEdges[0], data: { diff: 'added' } },
+            { id: 'e2-1', source: '2', target: '1', data: { diff: 'removed' } },
+          ]}
+          layoutType="layered"
+        />
+      );
+
+      const edges = vi.mocked(useGraphLayout).mock.lastCall![1];
+      expect(edges[0].style?.stroke).toBe('#16a34a');
+      expect(edges[1].style).toMatchObject({
+        stroke: '#9ca3af',
+        strokeDasharray: '4 4',
+      });
+    });
+  });
+
+  describe('ホットスポット表示', () => {
+    const historyNodes: Node<FlowNodeData>[] = [
+      {
+        ...mockNodes[0],
+        data: {
+          ...mockNodeData,
+          componentInfo: {
+            ...mockNodeData.componentInfo,
+            history: { commitCount: 12, lastModified: 0, authors: ['Alice'] },
+          },
+        },
+      },
+      mockNodes[1],
+    ];
+
+    it('hotspotモードでは変更回数と複雑度で色分けし、履歴のないノードはグレーになる', () => {
+      render(
+        <GraphView
+          nodes={historyNodes}
+          edges={mockEdges}
+          layoutType="layered"
+          colorMode="hotspot"
+        />
+      );
+
+      const nodes = vi.mocked(useGraphLayout).mock.lastCall![0];
+      expect(nodes[0].style).toMatchObject({
+        backgroundColor: '#dc2626',
+        color: 'white',
+      });
+      expect(nodes[1].style).toMatchObject({
+        backgroundColor: '#d1d5db',
+        color: '#1f2937',
+      });
+    });
+
+    it('complexityモードではノードの色を変えない', () => {
+      render(
+        <GraphView
+          nodes={historyNodes}
+          edges={mockEdges}
+          layoutType="layered"
+        />
+      );
+
+      const nodes = vi.mocked(useGraphLayout).mock.lastCall![0];
+      expect(nodes[0].style?.backgroundColor).toBeUndefined();
+    });
+  });
+
+  describe('タイムライン', () => {
+    it('timelineが指定された場合、スライダーが表示される', () => {
+      const onIndexChange = vi.fn();
+      render(
+        <GraphView
+          nodes={mockNodes}
+          edges={mockEdges}
+          layoutType="layered"
+          timeline={{
+            steps: [
+              { id: 'a'.repeat(40), subject: 'Add App', time: 0 },
+              { id: 'b'.repeat(40), subject: 'Add Header', time: 0 },
+            ],
+            index: 1,
+            onIndexChange,
+            onExit: vi.fn(),
+          }}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Timeline'), {
+        target: { value: '0' },
+      });
+      expect(onIndexChange).toHaveBeenCalledWith(0);
+    });
+
+    it('timelineがない場合、スライダーは表示されない', () => {
+      render(
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
+      );
+
+      expect(screen.queryByLabelText('Timeline')).not.toBeInTheDocument();
+    });
+  });
+
   describe('ノードクリックハンドラー', () => {
     it('onNodeClickが指定されていない場合でも動作する', () => {
       render(
-        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="tree" />
+        <GraphView nodes={mockNodes} edges={mockEdges} layoutType="layered" />
       );
 
       expect(screen.getByTestId('react-flow-wrapper')).toBeInTheDocument();
@@ -213,7 +384,7 @@ describe('GraphView', () => {
         <GraphView
           nodes={mockNodes}
           edges={mockEdges}
-          layoutType="tree"
+          layoutType="layered"
           onNodeClick={mockOnNodeClick}
         />
       );
@@ -224,14 +395,14 @@ describe('GraphView', () => {
 
   describe('エッジケース', () => {
     it('空のノード配列でレンダリングされる', () => {
-      render(<GraphView nodes={[]} edges={[]} layoutType="tree" />);
+      render(<GraphView nodes={[]} edges={[]} layoutType="layered" />);
 
       expect(screen.getByTestId('wrapper-nodes').textContent).toBe('0');
       expect(screen.getByTestId('wrapper-edges').textContent).toBe('0');
     });
 
     it('空のエッジ配列でレンダリングされる', () => {
-      render(<GraphView nodes={mockNodes} edges={[]} layoutType="tree" />);
+      render(<GraphView nodes={mockNodes} edges={[]} layoutType="layered" />);
 
       expect(screen.getByTestId('wrapper-nodes').textContent).toBe('2');
       expect(screen.getByTestId('wrapper-edges').textContent).toBe('0');
@@ -257,7 +428,7 @@ describe('GraphView', () => {
         })
       );
 
-      render(<GraphView nodes={manyNodes} edges={[]} layoutType="tree" />);
+      render(<GraphView nodes={manyNodes} edges={[]} layoutType="layered" />);
 
       expect(screen.getByTestId('wrapper-nodes').textContent).toBe('100');
     });
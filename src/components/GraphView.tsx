@@ -3,11 +3,28 @@
 import '@xyflow/react/dist/style.css';
 import { useMemo, useCallback, useEffect } from 'react';
 import type { Node, Edge } from '@xyflow/react';
-import type { FlowNodeData, LayoutType } from '@/types';
+import type {
+  ColorMode,
+  ComplexityBands,
+  FlowNodeData,
+  LayoutType,
+} from '@/types';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { getGraphLegend } from '@/lib/export/graphImage';
+import {
+  getHotspotColor,
+  getHotspotLegend,
+  getHotspotScores,
+  getHotspotTextColor,
+} from '@/lib/git/hotspots';
 import { useGraphLayout } from '@/hooks/useGraphLayout';
 import { useNodeClickHandler } from '@/hooks/useNodeClickHandler';
 import { useScouterMode } from '@/hooks/useScouterMode';
 import { ReactFlowWrapper } from './GraphView/ReactFlowWrapper';
+import {
+  TimelineSlider,
+  type TimelineSliderProps,
+} from './GraphView/TimelineSlider';
 import ScouterModeIndicator from './ScouterModeIndicator';
 
 type GraphViewProps = {
@@ -15,6 +32,20 @@ type GraphViewProps = {
   edges: Edge[];
   layoutType: LayoutType;
   highlightedNodeIds?: Set<string>;
+  highlightedEdgeIds?: Set<string>;
+  // Edges drawn dashed, e.g. to preview removing them
+  dashedEdgeIds?: Set<string>;
+  focusedNodeIds?: string[] | null;
+  // Keep node positions when the graph is updated in place (watch mode)
+  preserveLayout?: boolean;
+  // Enables image export, named after this (e.g. the project name)
+  exportName?: string;
+  // Bands shown in the exported legend
+  complexityBands?: ComplexityBands;
+  // Hotspot mode colours nodes by git churn times complexity
+  colorMode?: ColorMode;
+  // Shows a slider to step through past commits (time travel)
+  timeline?: TimelineSliderProps;
   onNodeClick?: (nodeId: string) => void;
 };
 
@@ -23,8 +54,91 @@ export default function GraphView({
   edges: initialEdges,
   layoutType,
   highlightedNodeIds,
+  highlightedEdgeIds,
+  dashedEdgeIds,
+  focusedNodeIds,
+  preserveLayout = false,
+  exportName,
+  complexityBands = DEFAULT_COMPLEXITY_PROFILE.bands,
+  colorMode = 'complexity',
+  timeline,
   onNodeClick,
 }: GraphViewProps) {
+  // ホットスポット表示（変更回数×複雑度で色分け、履歴のないノードはグレー）
+  const coloredNodes = useMemo((): Node<FlowNodeData>[] => {
+    if (colorMode !== 'hotspot') {
+      return initialNodes;
+    }
+
+    const scores = getHotspotScores(initialNodes);
+    return initialNodes.map((node) => {
+      const color = getHotspotColor(scores.get(node.id));
+      return {
+        ...node,
+        style: {
+          ...node.style,
+          backgroundColor: color,
+          color: getHotspotTextColor(color),
+        },
+      };
+    });
+  }, [initialNodes, colorMode]);
+
+  // ベースラインとの差分を表示（追加は緑、削除は半透明の破線）
+  const diffNodes = useMemo(
+    (): Node<FlowNodeData>[] =>
+      coloredNodes.map((node) => {
+        const status = node.data.diff?.status;
+        if (status === 'added') {
+          return {
+            ...node,
+            style: {
+              ...node.style,
+              border: '3px solid #16a34a',
+              boxShadow: '0 0 0 3px #86efac, 0 4px 6px rgba(0, 0, 0, 0.1)',
+            },
+          };
+        }
+        if (status === 'removed') {
+          return {
+            ...node,
+            style: {
+              ...node.style,
+              opacity: 0.35,
+              backgroundColor: '#d1d5db',
+              border: '2px dashed #6b7280',
+              boxShadow: 'none',
+            },
+          };
+        }
+        return node;
+      }),
+    [coloredNodes]
+  );
+
+  const diffEdges = useMemo(
+    (): Edge[] =>
+      initialEdges.map((edge) => {
+        if (edge.data?.diff === 'added') {
+          return { ...edge, style: { ...edge.style, stroke: '#16a34a' } };
+        }
+        if (edge.data?.diff === 'removed') {
+          return {
+            ...edge,
+            animated: false,
+            style: {
+              ...edge.style,
+              stroke: '#9ca3af',
+              strokeDasharray: '4 4',
+              opacity: 0.5,
+            },
+          };
+        }
+        return edge;
+      }),
+    [initialEdges]
+  );
+
   // スカウターモードフック（initialShowAllDescendantsのデフォルトはtrue）
   const {
     isScouterMode,
@@ -36,16 +150,14 @@ export default function GraphView({
     filteredNodes: scouterFilteredNodes,
     filteredEdges: scouterFilteredEdges,
   } = useScouterMode<FlowNodeData>({
-    nodes: initialNodes,
-    edges: initialEdges,
+    nodes: diffNodes,
+    edges: diffEdges,
     initialShowAllDescendants: true,
   });
 
   // ノードにハイライトを適用
   const highlightedNodes = useMemo((): Node<FlowNodeData>[] => {
-    const nodesToHighlight = isScouterMode
-      ? scouterFilteredNodes
-      : initialNodes;
+    const nodesToHighlight = isScouterMode ? scouterFilteredNodes : diffNodes;
 
     if (!highlightedNodeIds || highlightedNodeIds.size === 0) {
       return nodesToHighlight;
@@ -66,18 +178,78 @@ export default function GraphView({
         },
       };
     });
-  }, [initialNodes, scouterFilteredNodes, highlightedNodeIds, isScouterMode]);
+  }, [diffNodes, scouterFilteredNodes, highlightedNodeIds, isScouterMode]);
 
-  const edgesToUse = isScouterMode ? scouterFilteredEdges : initialEdges;
+  // 破線表示するエッジ（削除のプレビュー）にスタイルを適用
+  const styledEdges = useMemo((): Edge[] => {
+    const edgesToStyle = isScouterMode ? scouterFilteredEdges : diffEdges;
+
+    if (!dashedEdgeIds || dashedEdgeIds.size === 0) {
+      return edgesToStyle;
+    }
+
+    return edgesToStyle.map((edge) =>
+      dashedEdgeIds.has(edge.id)
+        ? {
+            ...edge,
+            animated: false,
+            style: {
+              ...edge.style,
+              stroke: '#f87171',
+              strokeDasharray: '6 4',
+            },
+          }
+        : edge
+    );
+  }, [diffEdges, scouterFilteredEdges, dashedEdgeIds, isScouterMode]);
+
+  // エッジにハイライトを適用
+  const edgesToUse = useMemo((): Edge[] => {
+    if (!highlightedEdgeIds || highlightedEdgeIds.size === 0) {
+      return styledEdges;
+    }
+
+    return styledEdges.map((edge) => {
+      const isHighlighted = highlightedEdgeIds.has(edge.id);
+
+      return {
+        ...edge,
+        animated: isHighlighted || edge.animated,
+        zIndex: isHighlighted ? 1 : edge.zIndex,
+        style: {
+          ...edge.style,
+          stroke: isHighlighted ? '#ef4444' : edge.style?.stroke,
+          strokeWidth: isHighlighted ? 3 : edge.style?.strokeWidth,
+          opacity: isHighlighted ? 1 : 0.2,
+        },
+      };
+    });
+  }, [styledEdges, highlightedEdgeIds]);
 
   const { nodes, edges, onNodesChange, onEdgesChange } = useGraphLayout(
     highlightedNodes,
     edgesToUse,
-    layoutType
+    layoutType,
+    { preservePositions: preserveLayout }
   );
 
   const handleNodeClick = useNodeClickHandler(onNodeClick);
 
+  // 画像エクスポートの設定（凡例は現在の色分けから作成）
+  const imageExport = useMemo(
+    () =>
+      exportName === undefined
+        ? undefined
+        : {
+            fileName: exportName,
+            legend:
+              colorMode === 'hotspot'
+                ? getHotspotLegend()
+                : getGraphLegend(complexityBands),
+          },
+    [exportName, complexityBands, colorMode]
+  );
+
   // スカウターモード用のノードダブルクリックハンドラー
   const handleNodeDoubleClick = useCallback(
     (_event: React.MouseEvent, node: Node<FlowNodeData>) => {
@@ -122,7 +294,12 @@ export default function GraphView({
         onEdgesChange={onEdgesChange}
         onNodeClick={handleNodeClick}
         onNodeDoubleClick={handleNodeDoubleClick}
+        focusedNodeIds={focusedNodeIds}
+        imageExport={imageExport}
       />
+
+      {/* タイムライン（過去のコミットを順に表示） */}
+      {timeline && <TimelineSlider {...timeline} />}
     </div>
   );
 }
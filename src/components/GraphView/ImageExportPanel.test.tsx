@@ -0,0 +1,93 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Node } from '@xyflow/react';
+import { ImageExportPanel } from './ImageExportPanel';
+import { downloadFile } from '@/lib/fileSystem';
+import { createComponent } from '@/test/graphFixtures';
+import type { FlowNodeData } from '@/types';
+
+const mockNodes: Node<FlowNodeData>[] = [
+  {
+    id: 'App',
+    position: { x: 0, y: 0 },
+    data: {
+      label: '',
+      componentInfo: createComponent({
+        id: 'App',
+        name: 'App',
+        complexity: 12,
+      }),
+      complexity: 12,
+      dependencyCount: 0,
+      dependentCount: 0,
+    },
+    style: { width: 60, height: 60 },
+  },
+];
+
+// Mock the React Flow instance the panel reads from
+vi.mock('@xyflow/react', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@xyflow/react')>()),
+  Panel: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="panel">{children}</div>
+  ),
+  useReactFlow: () => ({
+    getNodes: () => mockNodes,
+    getEdges: () => [],
+    getViewport: () => ({ x: 10, y: 20, zoom: 2 }),
+  }),
+  useStore: (selector: (state: { width: number; height: number }) => number) =>
+    selector({ width: 640, height: 480 }),
+}));
+
+vi.mock('@/lib/fileSystem', () => ({
+  downloadFile: vi.fn(),
+}));
+
+describe('ImageExportPanel', () => {
+  const legend = [{ color: '#ef4444', label: 'Circular' }];
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ボタンをクリックするとエクスポートの設定が表示される', () => {
+    render(<ImageExportPanel fileName="my-app" legend={legend} />);
+
+    expect(screen.queryByText('SVG')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('🖼️ Export Image'));
+
+    expect(screen.getByLabelText('Visible viewport')).toBeChecked();
+    expect(screen.getByLabelText('Include legend')).toBeChecked();
+    expect(screen.getByText('SVG')).toBeInTheDocument();
+    expect(screen.getByText('PNG')).toBeInTheDocument();
+  });
+
+  it('表示範囲を凡例付きのSVGとしてダウンロードできる', () => {
+    render(<ImageExportPanel fileName="my-app" legend={legend} />);
+    fireEvent.click(screen.getByText('🖼️ Export Image'));
+    fireEvent.click(screen.getByText('SVG'));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      'my-app.svg',
+      expect.stringContaining('translate(10 20) scale(2)'),
+      'image/svg+xml'
+    );
+    const svg = vi.mocked(downloadFile).mock.calls[0][1] as string;
+    expect(svg).toContain('width="640"');
+    expect(svg).toContain('>App</text>');
+    expect(svg).toContain('>Circular</text>');
+  });
+
+  it('グラフ全体を凡例なしでダウンロードできる', () => {
+    render(<ImageExportPanel fileName="my-app" legend={legend} />);
+    fireEvent.click(screen.getByText('🖼️ Export Image'));
+    fireEvent.click(screen.getByLabelText('Whole graph'));
+    fireEvent.click(screen.getByLabelText('Include legend'));
+    fireEvent.click(screen.getByText('SVG'));
+
+    const svg = vi.mocked(downloadFile).mock.calls[0][1] as string;
+    expect(svg).not.toContain('scale(2)');
+    expect(svg).not.toContain('>Circular</text>');
+  });
+});
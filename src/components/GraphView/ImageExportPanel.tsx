@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { Panel, useReactFlow, useStore } from '@xyflow/react';
+import type { Node, Edge } from '@xyflow/react';
+import type { FlowNodeData } from '@/types';
+import {
+  getGraphImageFileName,
+  renderGraphSvg,
+  svgToPng,
+  type ImageExportArea,
+  type LegendItem,
+} from '@/lib/export/graphImage';
+import { downloadFile } from '@/lib/fileSystem';
+
+type ImageExportPanelProps = {
+  // Base name of the downloaded file
+  fileName: string;
+  legend: LegendItem[];
+};
+
+/**
+ * Export the rendered graph as SVG or PNG (must render inside <ReactFlow>)
+ */
+export function ImageExportPanel({ fileName, legend }: ImageExportPanelProps) {
+  const { getNodes, getEdges, getViewport } = useReactFlow<
+    Node<FlowNodeData>,
+    Edge
+  >();
+  const width = useStore((state) => state.width);
+  const height = useStore((state) => state.height);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [area, setArea] = useState<ImageExportArea>('viewport');
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportImage = async (format: 'svg' | 'png') => {
+    setError(null);
+    const image = renderGraphSvg(getNodes(), getEdges(), {
+      viewport:
+        area === 'viewport' ? { ...getViewport(), width, height } : undefined,
+      legend: includeLegend ? legend : undefined,
+    });
+
+    if (format === 'svg') {
+      downloadFile(
+        getGraphImageFileName(fileName, 'svg'),
+        image.svg,
+        'image/svg+xml'
+      );
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // At least 2x so the PNG stays sharp on high-DPI screens and in slides
+      const blob = await svgToPng(image, Math.max(2, window.devicePixelRatio));
+      downloadFile(getGraphImageFileName(fileName, 'png'), blob);
+    } catch (err) {
+      setError(`Failed to export PNG: ${(err as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Panel position="top-right">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 text-sm">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className="px-3 py-2 font-medium text-gray-700 hover:bg-gray-50 rounded-lg w-full text-left"
+        >
+          🖼️ Export Image
+        </button>
+
+        {isOpen && (
+          <div className="px-3 pb-3 space-y-2 border-t border-gray-100 pt-2">
+            <fieldset className="space-y-1">
+              <legend className="text-xs font-medium text-gray-500">
+                Area
+              </legend>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="image-export-area"
+                  checked={area === 'viewport'}
+                  onChange={() => setArea('viewport')}
+                />
+                Visible viewport
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="image-export-area"
+                  checked={area === 'graph'}
+                  onChange={() => setArea('graph')}
+                />
+                Whole graph
+              </label>
+            </fieldset>
+
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeLegend}
+                onChange={(event) => setIncludeLegend(event.target.checked)}
+              />
+              Include legend
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => exportImage('svg')}
+                className="flex-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                SVG
+              </button>
+              <button
+                onClick={() => exportImage('png')}
+                disabled={isExporting}
+                className="flex-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700
+                         disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isExporting ? 'Exporting...' : 'PNG'}
+              </button>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+}
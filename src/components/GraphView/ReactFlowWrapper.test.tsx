@@ -2,6 +2,7 @@ import { render } from '@testing-library/react';
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { ReactFlowWrapper } from './ReactFlowWrapper';
 import type { Node, Edge } from '@xyflow/react';
+import { createComponent } from '@/test/graphFixtures';
 import type { FlowNodeData } from '@/types';
 
 // Mock ReactFlow components
@@ -36,18 +37,15 @@ describe('ReactFlowWrapper', () => {
 
   const mockNodeData: FlowNodeData = {
     label: 'TestComponent',
-    componentInfo: {
+    componentInfo: createComponent({
       id: '1',
       name: 'TestComponent',
       filePath: 'src/TestComponent.tsx',
-      type: 'function',
-      dependencies: [],
-      imports: [],
       complexity: 45,
       linesOfCode: 100,
-      hooks: [],
+      logicalLinesOfCode: 80,
       propsCount: 2,
-    },
+    }),
     complexity: 45,
     dependencyCount: 1,
     dependentCount: 2,
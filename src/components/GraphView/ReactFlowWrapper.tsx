@@ -1,9 +1,18 @@
 'use client';
 
-import { ReactFlow, Background, Controls, MiniMap } from '@xyflow/react';
+import { useEffect } from 'react';
+import {
+  ReactFlow,
+  Background,
+  Controls,
+  MiniMap,
+  useReactFlow,
+} from '@xyflow/react';
 import type { Node, Edge, OnNodesChange, OnEdgesChange } from '@xyflow/react';
 import type { FlowNodeData } from '@/types';
+import type { LegendItem } from '@/lib/export/graphImage';
 import { nodeTypes } from './nodeTypes';
+import { ImageExportPanel } from './ImageExportPanel';
 import { REACT_FLOW_CONFIG, MINIMAP_CONFIG } from './constants';
 
 type ReactFlowWrapperProps = {
@@ -16,8 +25,29 @@ type ReactFlowWrapperProps = {
     event: React.MouseEvent,
     node: Node<FlowNodeData>
   ) => void;
+  // Zoom to these nodes whenever a new array is passed
+  focusedNodeIds?: string[] | null;
+  // Show the SVG / PNG export panel
+  imageExport?: { fileName: string; legend: LegendItem[] };
 };
 
+/**
+ * Fit the viewport to the given nodes (must render inside <ReactFlow>)
+ */
+function FocusOnNodes({ nodeIds }: { nodeIds: string[] }) {
+  const { fitView } = useReactFlow();
+
+  useEffect(() => {
+    fitView({
+      nodes: nodeIds.map((id) => ({ id })),
+      duration: 500,
+      maxZoom: 1.5,
+    });
+  }, [nodeIds, fitView]);
+
+  return null;
+}
+
 export function ReactFlowWrapper({
   nodes,
   edges,
@@ -25,6 +55,8 @@ export function ReactFlowWrapper({
   onEdgesChange,
   onNodeClick,
   onNodeDoubleClick,
+  focusedNodeIds,
+  imageExport,
 }: ReactFlowWrapperProps) {
   return (
     <ReactFlow
@@ -41,6 +73,15 @@ export function ReactFlowWrapper({
       <Background />
       <Controls />
       <MiniMap {...MINIMAP_CONFIG} />
+      {focusedNodeIds && focusedNodeIds.length > 0 && (
+        <FocusOnNodes nodeIds={focusedNodeIds} />
+      )}
+      {imageExport && (
+        <ImageExportPanel
+          fileName={imageExport.fileName}
+          legend={imageExport.legend}
+        />
+      )}
     </ReactFlow>
   );
 }
@@ -0,0 +1,127 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TimelineSlider, type TimelineStep } from './TimelineSlider';
+
+const steps: TimelineStep[] = [
+  {
+    id: 'a'.repeat(40),
+    subject: 'Add App',
+    time: Date.parse('2024-01-01T10:00:00Z'),
+  },
+  {
+    id: 'b'.repeat(40),
+    subject: 'Add Header',
+    time: Date.parse('2024-02-01T10:00:00Z'),
+  },
+  {
+    id: 'c'.repeat(40),
+    subject: 'Add Logo',
+    time: Date.parse('2024-03-01T10:00:00Z'),
+  },
+];
+
+describe('TimelineSlider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('選択中のコミットの情報が表示される', () => {
+    render(
+      <TimelineSlider
+        steps={steps}
+        index={1}
+        onIndexChange={vi.fn()}
+        onExit={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('2 / 3')).toBeInTheDocument();
+    expect(screen.getByText('bbbbbbb')).toBeInTheDocument();
+    expect(screen.getByText(/2024-02-01/)).toBeInTheDocument();
+    expect(screen.getByText(/Add Header/)).toBeInTheDocument();
+  });
+
+  it('スライダーを動かすとonIndexChangeが呼ばれる', () => {
+    const onIndexChange = vi.fn();
+    render(
+      <TimelineSlider
+        steps={steps}
+        index={0}
+        onIndexChange={onIndexChange}
+        onExit={vi.fn()}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Timeline'), {
+      target: { value: '2' },
+    });
+
+    expect(onIndexChange).toHaveBeenCalledWith(2);
+  });
+
+  it('再生すると次のコミットに進み、最後で止まる', () => {
+    vi.useFakeTimers();
+    const onIndexChange = vi.fn();
+    const { rerender } = render(
+      <TimelineSlider
+        steps={steps}
+        index={1}
+        onIndexChange={onIndexChange}
+        onExit={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Play timeline'));
+    act(() => {
+      vi.advanceTimersByTime(1200);
+    });
+    expect(onIndexChange).toHaveBeenLastCalledWith(2);
+
+    rerender(
+      <TimelineSlider
+        steps={steps}
+        index={2}
+        onIndexChange={onIndexChange}
+        onExit={vi.fn()}
+      />
+    );
+    act(() => {
+      vi.advanceTimersByTime(1200);
+    });
+    expect(onIndexChange).toHaveBeenCalledTimes(1);
+    expect(screen.getByLabelText('Play timeline')).toBeInTheDocument();
+  });
+
+  it('最後のコミットで再生すると最初から再生する', () => {
+    const onIndexChange = vi.fn();
+    render(
+      <TimelineSlider
+        steps={steps}
+        index={2}
+        onIndexChange={onIndexChange}
+        onExit={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Play timeline'));
+
+    expect(onIndexChange).toHaveBeenCalledWith(0);
+    expect(screen.getByLabelText('Pause timeline')).toBeInTheDocument();
+  });
+
+  it('Exitボタンをクリックするとタイムラインを終了する', () => {
+    const onExit = vi.fn();
+    render(
+      <TimelineSlider
+        steps={steps}
+        index={0}
+        onIndexChange={vi.fn()}
+        onExit={onExit}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Exit'));
+
+    expect(onExit).toHaveBeenCalledTimes(1);
+  });
+});
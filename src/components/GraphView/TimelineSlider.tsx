@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * A commit on the timeline
+ */
+export type TimelineStep = {
+  id: string;
+  subject: string;
+  time: number; // ms since epoch
+};
+
+export type TimelineSliderProps = {
+  // Oldest first
+  steps: TimelineStep[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onExit: () => void;
+};
+
+// Time each commit is shown while playing
+const PLAY_INTERVAL_MS = 1200;
+
+/**
+ * Scrub or play through the analysed commits
+ */
+export function TimelineSlider({
+  steps,
+  index,
+  onIndexChange,
+  onExit,
+}: TimelineSliderProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const lastIndex = steps.length - 1;
+  const step = steps[index];
+
+  // Advance one commit at a time, stopping at the newest
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (index < lastIndex) {
+        onIndexChange(index + 1);
+      } else {
+        setIsPlaying(false);
+      }
+    }, PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, index, lastIndex, onIndexChange]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && index === lastIndex) {
+      // Replay from the oldest commit
+      onIndexChange(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 w-[36rem] max-w-[90%] bg-white border border-gray-200 rounded-lg shadow-lg px-4 py-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+          className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          {isPlaying ? '⏸' : '▶'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={index}
+          onChange={(event) => {
+            setIsPlaying(false);
+            onIndexChange(Number(event.target.value));
+          }}
+          aria-label="Timeline"
+          className="flex-1"
+        />
+        <span className="text-xs text-gray-500 tabular-nums">
+          {index + 1} / {steps.length}
+        </span>
+        <button
+          onClick={onExit}
+          className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Exit
+        </button>
+      </div>
+      {step && (
+        <p className="mt-2 text-xs text-gray-600 truncate" title={step.subject}>
+          <span className="font-mono text-gray-900">{step.id.slice(0, 7)}</span>
+          {' · '}
+          {new Date(step.time).toISOString().slice(0, 10)}
+          {' · '}
+          {step.subject}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -22,7 +22,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={false}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={null}
@@ -39,14 +39,14 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={false}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={null}
         />
       );
 
-      expect(screen.queryByText('Tree Layout')).not.toBeInTheDocument();
+      expect(screen.queryByText('Layered Layout')).not.toBeInTheDocument();
       expect(screen.queryByText('Force Layout')).not.toBeInTheDocument();
       expect(screen.queryByText('Select New Folder')).not.toBeInTheDocument();
     });
@@ -57,32 +57,32 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
         />
       );
 
-      expect(screen.getByText('Tree Layout')).toBeInTheDocument();
+      expect(screen.getByText('Layered Layout')).toBeInTheDocument();
       expect(screen.getByText('Force Layout')).toBeInTheDocument();
     });
 
-    it('Tree Layoutが選択されている場合、正しいスタイルが適用される', () => {
+    it('Layered Layoutが選択されている場合、正しいスタイルが適用される', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
         />
       );
 
-      const treeButton = screen.getByText('Tree Layout');
+      const layeredButton = screen.getByText('Layered Layout');
       const forceButton = screen.getByText('Force Layout');
 
-      expect(treeButton).toHaveClass('bg-blue-600', 'text-white');
+      expect(layeredButton).toHaveClass('bg-blue-600', 'text-white');
       expect(forceButton).toHaveClass('bg-gray-200', 'text-gray-700');
     });
 
@@ -97,47 +97,48 @@ describe('Header', () => {
         />
       );
 
-      const treeButton = screen.getByText('Tree Layout');
+      const layeredButton = screen.getByText('Layered Layout');
       const forceButton = screen.getByText('Force Layout');
 
-      expect(treeButton).toHaveClass('bg-gray-200', 'text-gray-700');
+      expect(layeredButton).toHaveClass('bg-gray-200', 'text-gray-700');
       expect(forceButton).toHaveClass('bg-blue-600', 'text-white');
     });
 
-    it('Tree LayoutボタンをクリックするとonLayoutChangeが呼ばれる', () => {
+    it('Force LayoutボタンをクリックするとonLayoutChangeが呼ばれる', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="force"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
         />
       );
 
-      const treeButton = screen.getByText('Tree Layout');
-      fireEvent.click(treeButton);
+      const forceButton = screen.getByText('Force Layout');
+      fireEvent.click(forceButton);
 
       expect(mockOnLayoutChange).toHaveBeenCalledTimes(1);
-      expect(mockOnLayoutChange).toHaveBeenCalledWith('tree');
+      expect(mockOnLayoutChange).toHaveBeenCalledWith('force');
     });
 
-    it('Force LayoutボタンをクリックするとonLayoutChangeが呼ばれる', () => {
+    it('Layered LayoutボタンをクリックするとonLayoutChangeが呼ばれる', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
         />
       );
 
-      const forceButton = screen.getByText('Force Layout');
-      fireEvent.click(forceButton);
+      const layeredButton = screen.getByText('Layered Layout');
+      expect(layeredButton).toHaveClass('bg-blue-600');
 
-      expect(mockOnLayoutChange).toHaveBeenCalledTimes(1);
-      expect(mockOnLayoutChange).toHaveBeenCalledWith('force');
+      fireEvent.click(layeredButton);
+
+      expect(mockOnLayoutChange).toHaveBeenCalledWith('layered');
     });
   });
 
@@ -146,7 +147,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           onShowMetrics={mockOnShowMetrics}
@@ -161,7 +162,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
@@ -175,7 +176,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           onShowMetrics={mockOnShowMetrics}
@@ -190,12 +191,351 @@ describe('Header', () => {
     });
   });
 
+  describe('設定ボタン', () => {
+    it('onShowSettingsが提供されていない場合、設定ボタンが表示されない', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText('⚙️ Settings')).not.toBeInTheDocument();
+    });
+
+    it('設定ボタンをクリックするとonShowSettingsが呼ばれる', () => {
+      const mockOnShowSettings = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onShowSettings={mockOnShowSettings}
+          stats={mockStats}
+        />
+      );
+
+      fireEvent.click(screen.getByText('⚙️ Settings'));
+
+      expect(mockOnShowSettings).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('警告ボタン', () => {
+    it('警告件数が表示され、クリックするとonToggleWarningsが呼ばれる', () => {
+      const mockOnToggleWarnings = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleWarnings={mockOnToggleWarnings}
+          warningCount={3}
+          stats={mockStats}
+        />
+      );
+
+      fireEvent.click(screen.getByText('⚠️ Warnings (3)'));
+
+      expect(mockOnToggleWarnings).toHaveBeenCalledTimes(1);
+    });
+
+    it('onToggleWarningsが提供されていない場合、警告ボタンが表示されない', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText(/Warnings/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('循環ボタン', () => {
+    it('循環の件数が表示され、クリックするとonToggleCyclesが呼ばれる', () => {
+      const mockOnToggleCycles = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleCycles={mockOnToggleCycles}
+          cycleCount={2}
+          stats={mockStats}
+        />
+      );
+
+      fireEvent.click(screen.getByText('🔁 Cycles (2)'));
+
+      expect(mockOnToggleCycles).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('更新ボタン', () => {
+    it('クリックするとonRefreshが呼ばれる', () => {
+      const onRefresh = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onRefresh={onRefresh}
+          stats={mockStats}
+        />
+      );
+
+      fireEvent.click(screen.getByText('🔄 Refresh'));
+      expect(onRefresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('更新中はボタンが無効化される', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onRefresh={vi.fn()}
+          isRefreshing={true}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.getByText('Refreshing...')).toBeDisabled();
+    });
+
+    it('onRefreshが提供されていない場合、更新ボタンが表示されない', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText('🔄 Refresh')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('エクスポートメニュー', () => {
+    it('メニューから形式を選ぶとonExportが呼ばれ、メニューが閉じる', () => {
+      const onExport = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onExport={onExport}
+          stats={mockStats}
+        />
+      );
+
+      const button = screen.getByText('💾 Export');
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      fireEvent.click(button);
+      expect(button).toHaveAttribute('aria-expanded', 'true');
+      expect(
+        screen.getAllByRole('menuitem').map((item) => item.textContent)
+      ).toEqual(['Analysis (JSON)', 'Mermaid', 'Graphviz DOT', 'GraphML']);
+
+      fireEvent.click(screen.getByText('Graphviz DOT'));
+      expect(onExport).toHaveBeenCalledWith('dot');
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+      fireEvent.click(button);
+      fireEvent.click(screen.getByText('Analysis (JSON)'));
+      expect(onExport).toHaveBeenLastCalledWith('json');
+    });
+
+    it('onExportが提供されていない場合、エクスポートボタンが表示されない', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText('💾 Export')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('監視ボタン', () => {
+    it('クリックするとonToggleWatchが呼ばれ、監視中は押された状態になる', () => {
+      const onToggleWatch = vi.fn();
+      const { rerender } = render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleWatch={onToggleWatch}
+          stats={mockStats}
+        />
+      );
+
+      const button = screen.getByText('👁️ Watch');
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+      fireEvent.click(button);
+      expect(onToggleWatch).toHaveBeenCalledTimes(1);
+
+      rerender(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleWatch={onToggleWatch}
+          isWatching={true}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.getByText('👁️ Watching')).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+    });
+  });
+
+  describe('ベースラインとの比較', () => {
+    it('ベースラインのファイルを選ぶとonCompareWithBaselineが呼ばれる', () => {
+      const onCompareWithBaseline = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onCompareWithBaseline={onCompareWithBaseline}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.getByText('⇄ Compare')).toBeInTheDocument();
+      const file = new File(['{}'], 'baseline.reuntangle.json', {
+        type: 'application/json',
+      });
+      fireEvent.change(screen.getByLabelText('Baseline analysis file'), {
+        target: { files: [file] },
+      });
+
+      expect(onCompareWithBaseline).toHaveBeenCalledWith(file);
+    });
+
+    it('ベースラインの読み込み後はDiffボタンが表示される', () => {
+      const onToggleDiff = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onCompareWithBaseline={vi.fn()}
+          onToggleDiff={onToggleDiff}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText('⇄ Compare')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByText('⇄ Diff'));
+      expect(onToggleDiff).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ホットスポットボタン', () => {
+    it('クリックするとonToggleHotspotsが呼ばれ、表示中は押された状態になる', () => {
+      const onToggleHotspots = vi.fn();
+      const { rerender } = render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleHotspots={onToggleHotspots}
+          stats={mockStats}
+        />
+      );
+
+      const button = screen.getByText('🔥 Hotspots');
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+      fireEvent.click(button);
+      expect(onToggleHotspots).toHaveBeenCalledTimes(1);
+
+      rerender(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onToggleHotspots={onToggleHotspots}
+          showHotspots={true}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.getByText('🔥 Hotspots')).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+    });
+
+    it('onToggleHotspotsがない場合は表示されない', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={mockStats}
+        />
+      );
+
+      expect(screen.queryByText('🔥 Hotspots')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('タイムラインボタン', () => {
+    it('クリックするとonShowTimelineが呼ばれる', () => {
+      const onShowTimeline = vi.fn();
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          onShowTimeline={onShowTimeline}
+          stats={mockStats}
+        />
+      );
+
+      fireEvent.click(screen.getByText('⏱ Time Travel'));
+      expect(onShowTimeline).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('リセットボタン', () => {
     it('グラフデータがある場合、リセットボタンが表示される', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
@@ -209,7 +549,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
@@ -228,7 +568,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={mockStats}
@@ -243,11 +583,27 @@ describe('Header', () => {
       expect(screen.getByText('45')).toBeInTheDocument();
     });
 
+    it('再解析したファイル数とキャッシュから読み込んだファイル数が表示される', () => {
+      render(
+        <Header
+          hasGraphData={true}
+          layoutType="layered"
+          onLayoutChange={mockOnLayoutChange}
+          onReset={mockOnReset}
+          stats={{ ...mockStats, filesReparsed: 3, filesFromCache: 147 }}
+        />
+      );
+
+      expect(screen.getByText('Reparsed:')).toBeInTheDocument();
+      expect(screen.getByText('3')).toBeInTheDocument();
+      expect(screen.getByText('147')).toBeInTheDocument();
+    });
+
     it('統計情報がnullの場合、表示されない', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={null}
@@ -269,7 +625,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           stats={zeroStats}
@@ -286,7 +642,7 @@ describe('Header', () => {
       render(
         <Header
           hasGraphData={true}
-          layoutType="tree"
+          layoutType="layered"
           onLayoutChange={mockOnLayoutChange}
           onReset={mockOnReset}
           onShowMetrics={mockOnShowMetrics}
@@ -295,7 +651,7 @@ describe('Header', () => {
       );
 
       expect(screen.getByText('ReUntangle')).toBeInTheDocument();
-      expect(screen.getByText('Tree Layout')).toBeInTheDocument();
+      expect(screen.getByText('Layered Layout')).toBeInTheDocument();
       expect(screen.getByText('Force Layout')).toBeInTheDocument();
       expect(screen.getByText('📊 Show Metrics')).toBeInTheDocument();
       expect(screen.getByText('Select New Folder')).toBeInTheDocument();
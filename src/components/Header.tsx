@@ -1,17 +1,63 @@
 'use client';
 
+import { useRef, useState } from 'react';
 import type { LayoutType } from '@/types';
+import {
+  GRAPH_EXPORT_FORMATS,
+  type GraphExportFormat,
+} from '@/lib/export/graphFormats';
+
+const LAYOUT_OPTIONS: Array<{ type: LayoutType; label: string }> = [
+  { type: 'layered', label: 'Layered Layout' },
+  { type: 'force', label: 'Force Layout' },
+];
+
+/**
+ * The whole analysis as re-openable JSON, or the filtered graph as text
+ */
+export type ExportFormat = 'json' | GraphExportFormat;
+
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'json', label: 'Analysis (JSON)' },
+  ...(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map(
+    (format) => ({ format, label: GRAPH_EXPORT_FORMATS[format].label })
+  ),
+];
 
 type HeaderProps = {
   hasGraphData: boolean;
   layoutType: LayoutType;
   onLayoutChange: (layout: LayoutType) => void;
   onReset: () => void;
+  // Re-analyse the current folder, reusing cached parse results
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  // Download the analysis or the filtered graph
+  onExport?: (format: ExportFormat) => void;
+  // Live-update the graph as files change
+  onToggleWatch?: () => void;
+  isWatching?: boolean;
   onShowMetrics?: () => void;
+  onShowSettings?: () => void;
+  onToggleWarnings?: () => void;
+  warningCount?: number;
+  onToggleCycles?: () => void;
+  cycleCount?: number;
+  // Pick a saved analysis to compare the current graph against
+  onCompareWithBaseline?: (file: File) => void;
+  // Show or hide the diff once a baseline is loaded
+  onToggleDiff?: () => void;
+  // Colour nodes by git churn times complexity instead of complexity alone
+  onToggleHotspots?: () => void;
+  showHotspots?: boolean;
+  // Analyse past commits and step through them
+  onShowTimeline?: () => void;
   stats: {
     projectName: string;
     filesScanned: number;
     componentsFound: number;
+    filesReparsed?: number;
+    filesFromCache?: number;
   } | null;
 };
 
@@ -20,9 +66,27 @@ export default function Header({
   layoutType,
   onLayoutChange,
   onReset,
+  onRefresh,
+  isRefreshing = false,
+  onExport,
+  onToggleWatch,
+  isWatching = false,
   onShowMetrics,
+  onShowSettings,
+  onToggleWarnings,
+  warningCount = 0,
+  onToggleCycles,
+  cycleCount = 0,
+  onCompareWithBaseline,
+  onToggleDiff,
+  onToggleHotspots,
+  showHotspots = false,
+  onShowTimeline,
   stats,
 }: HeaderProps) {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const baselineInputRef = useRef<HTMLInputElement>(null);
+
   return (
     <header className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -37,27 +101,101 @@ export default function Header({
           <div className="flex items-center gap-4">
             {/* Layout selector */}
             <div className="flex gap-2">
+              {LAYOUT_OPTIONS.map(({ type, label }) => (
+                <button
+                  key={type}
+                  onClick={() => onLayoutChange(type)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    layoutType === type
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {onToggleWarnings && (
               <button
-                onClick={() => onLayoutChange('tree')}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  layoutType === 'tree'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                }`}
+                onClick={onToggleWarnings}
+                className="px-4 py-2 bg-yellow-500 text-white rounded-lg font-medium
+                         hover:bg-yellow-600 transition-colors"
               >
-                Tree Layout
+                ⚠️ Warnings ({warningCount})
               </button>
+            )}
+
+            {onToggleCycles && (
               <button
-                onClick={() => onLayoutChange('force')}
+                onClick={onToggleCycles}
+                className="px-4 py-2 bg-red-500 text-white rounded-lg font-medium
+                         hover:bg-red-600 transition-colors"
+              >
+                🔁 Cycles ({cycleCount})
+              </button>
+            )}
+
+            {onToggleDiff ? (
+              <button
+                onClick={onToggleDiff}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium
+                         hover:bg-indigo-700 transition-colors"
+              >
+                ⇄ Diff
+              </button>
+            ) : (
+              onCompareWithBaseline && (
+                <>
+                  <button
+                    onClick={() => baselineInputRef.current?.click()}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                             hover:bg-gray-300 transition-colors"
+                  >
+                    ⇄ Compare
+                  </button>
+                  <input
+                    ref={baselineInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    aria-label="Baseline analysis file"
+                    className="hidden"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      // Allow picking the same file again
+                      event.target.value = '';
+                      if (file) {
+                        onCompareWithBaseline(file);
+                      }
+                    }}
+                  />
+                </>
+              )
+            )}
+
+            {onToggleHotspots && (
+              <button
+                onClick={onToggleHotspots}
+                aria-pressed={showHotspots}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  layoutType === 'force'
-                    ? 'bg-blue-600 text-white'
+                  showHotspots
+                    ? 'bg-orange-600 text-white hover:bg-orange-700'
                     : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
                 }`}
               >
-                Force Layout
+                🔥 Hotspots
               </button>
-            </div>
+            )}
+
+            {onShowTimeline && (
+              <button
+                onClick={onShowTimeline}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                         hover:bg-gray-300 transition-colors"
+              >
+                ⏱ Time Travel
+              </button>
+            )}
 
             {onShowMetrics && (
               <button
@@ -69,6 +207,78 @@ export default function Header({
               </button>
             )}
 
+            {onShowSettings && (
+              <button
+                onClick={onShowSettings}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                         hover:bg-gray-300 transition-colors"
+              >
+                ⚙️ Settings
+              </button>
+            )}
+
+            {onRefresh && (
+              <button
+                onClick={onRefresh}
+                disabled={isRefreshing}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                         hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed
+                         transition-colors"
+              >
+                {isRefreshing ? 'Refreshing...' : '🔄 Refresh'}
+              </button>
+            )}
+
+            {onExport && (
+              <div className="relative">
+                <button
+                  onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                  aria-haspopup="menu"
+                  aria-expanded={isExportMenuOpen}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                           hover:bg-gray-300 transition-colors"
+                >
+                  💾 Export
+                </button>
+                {isExportMenuOpen && (
+                  <div
+                    role="menu"
+                    className="absolute right-0 mt-2 w-48 bg-white border border-gray-200
+                             rounded-lg shadow-lg z-20 py-1"
+                  >
+                    {EXPORT_OPTIONS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        role="menuitem"
+                        onClick={() => {
+                          setIsExportMenuOpen(false);
+                          onExport(format);
+                        }}
+                        className="block w-full text-left px-4 py-2 text-sm text-gray-700
+                                 hover:bg-gray-100"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {onToggleWatch && (
+              <button
+                onClick={onToggleWatch}
+                aria-pressed={isWatching}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  isWatching
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {isWatching ? '👁️ Watching' : '👁️ Watch'}
+              </button>
+            )}
+
             <button
               onClick={onReset}
               className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
@@ -101,6 +311,19 @@ export default function Header({
               {stats.componentsFound}
             </span>
           </div>
+          {stats.filesReparsed !== undefined &&
+            stats.filesFromCache !== undefined && (
+              <div>
+                <span className="text-gray-600">Reparsed: </span>
+                <span className="font-medium text-gray-900">
+                  {stats.filesReparsed}
+                </span>
+                <span className="text-gray-600"> / From Cache: </span>
+                <span className="font-medium text-gray-900">
+                  {stats.filesFromCache}
+                </span>
+              </div>
+            )}
         </div>
       )}
     </header>
@@ -109,6 +109,21 @@ describe('MetricsDashboard', () => {
       expect(screen.getByText('5')).toBeInTheDocument();
     });
 
+    it('指定した閾値で帯の範囲が表示される', () => {
+      render(
+        <MetricsDashboard
+          metrics={mockMetrics}
+          onClose={mockOnClose}
+          complexityBands={{ simple: 20, standard: 40, complex: 70 }}
+        />
+      );
+
+      expect(screen.getByText('🟢 Simple (0-20)')).toBeInTheDocument();
+      expect(screen.getByText('🔵 Standard (21-40)')).toBeInTheDocument();
+      expect(screen.getByText('🟡 Complex (41-70)')).toBeInTheDocument();
+      expect(screen.getByText('🟠 Very Complex (71-100)')).toBeInTheDocument();
+    });
+
     it('複雑度分布のプログレスバーが正しい幅を持つ', () => {
       const { container } = render(
         <MetricsDashboard metrics={mockMetrics} onClose={mockOnClose} />
@@ -192,6 +207,64 @@ describe('MetricsDashboard', () => {
     });
   });
 
+  describe('推移', () => {
+    const trend = [
+      {
+        label: 'aaaaaaa',
+        totalComponents: 10,
+        averageComplexity: 30,
+        cycleCount: 0,
+      },
+      {
+        label: 'bbbbbbb',
+        totalComponents: 25,
+        averageComplexity: 38,
+        cycleCount: 1,
+      },
+      {
+        label: 'ccccccc',
+        totalComponents: 50,
+        averageComplexity: 45,
+        cycleCount: 2,
+      },
+    ];
+
+    it('コミットごとのメトリクスの推移が表示される', () => {
+      render(
+        <MetricsDashboard
+          metrics={mockMetrics}
+          onClose={mockOnClose}
+          trend={trend}
+          trendIndex={1}
+        />
+      );
+
+      expect(screen.getByText('Trends (3 commits)')).toBeInTheDocument();
+      expect(
+        screen.getByRole('img', { name: 'Total Components trend: 10, 25, 50' })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('img', { name: 'Avg Complexity trend: 30, 38, 45' })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('img', { name: 'Cycles trend: 0, 1, 2' })
+      ).toBeInTheDocument();
+      expect(screen.getByText('10 → 50')).toBeInTheDocument();
+    });
+
+    it('推移が1件以下の場合は表示されない', () => {
+      render(
+        <MetricsDashboard
+          metrics={mockMetrics}
+          onClose={mockOnClose}
+          trend={trend.slice(0, 1)}
+        />
+      );
+
+      expect(screen.queryByText(/^Trends/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('インタラクション', () => {
     it('ヘッダーの閉じるボタンをクリックするとonCloseが呼ばれる', () => {
       render(<MetricsDashboard metrics={mockMetrics} onClose={mockOnClose} />);
@@ -1,15 +1,80 @@
 'use client';
 
-import type { ProjectMetrics } from '@/types';
+import type {
+  ComplexityBand,
+  ComplexityBands,
+  MetricsTrendPoint,
+  ProjectMetrics,
+} from '@/types';
+import {
+  COMPLEXITY_BANDS,
+  DEFAULT_COMPLEXITY_PROFILE,
+  getComplexityBand,
+  getComplexityBandRange,
+} from '@/lib/complexity/complexityProfile';
+
+/**
+ * Label and colours of each complexity band
+ */
+const BAND_STYLES: Record<
+  ComplexityBand,
+  { label: string; barColor: string; badgeColor: string }
+> = {
+  simple: {
+    label: '🟢 Simple',
+    barColor: 'bg-green-500',
+    badgeColor: 'bg-green-100 text-green-800',
+  },
+  standard: {
+    label: '🔵 Standard',
+    barColor: 'bg-blue-500',
+    badgeColor: 'bg-blue-100 text-blue-800',
+  },
+  complex: {
+    label: '🟡 Complex',
+    barColor: 'bg-yellow-500',
+    badgeColor: 'bg-yellow-100 text-yellow-800',
+  },
+  veryComplex: {
+    label: '🟠 Very Complex',
+    barColor: 'bg-orange-500',
+    badgeColor: 'bg-orange-100 text-orange-800',
+  },
+};
+
+/**
+ * Metrics drawn as trend lines, and their line colours
+ */
+const TREND_SERIES: Array<{
+  key: Exclude<keyof MetricsTrendPoint, 'label'>;
+  label: string;
+  color: string;
+}> = [
+  { key: 'totalComponents', label: 'Total Components', color: '#2563eb' },
+  { key: 'averageComplexity', label: 'Avg Complexity', color: '#16a34a' },
+  { key: 'cycleCount', label: 'Cycles', color: '#dc2626' },
+];
+
+const TREND_WIDTH = 240;
+const TREND_HEIGHT = 60;
+const TREND_PADDING = 4;
 
 type MetricsDashboardProps = {
   metrics: ProjectMetrics;
   onClose: () => void;
+  complexityBands?: ComplexityBands;
+  // Metrics at each analysed commit, oldest first (time travel)
+  trend?: MetricsTrendPoint[];
+  // Point of the trend shown in the graph
+  trendIndex?: number;
 };
 
 export default function MetricsDashboard({
   metrics,
   onClose,
+  complexityBands = DEFAULT_COMPLEXITY_PROFILE.bands,
+  trend,
+  trendIndex,
 }: MetricsDashboardProps) {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -83,84 +148,57 @@ export default function MetricsDashboard({
             </div>
           </section>
 
+          {/* Trends across the analysed commits */}
+          {trend && trend.length > 1 && (
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Trends ({trend.length} commits)
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {TREND_SERIES.map((series) => (
+                  <TrendChart
+                    key={series.key}
+                    label={series.label}
+                    color={series.color}
+                    values={trend.map((point) => point[series.key])}
+                    labels={trend.map((point) => point.label)}
+                    selectedIndex={trendIndex}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Complexity Distribution */}
           <section>
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               Complexity Distribution
             </h3>
             <div className="space-y-3">
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <span className="text-sm font-medium text-gray-700">
-                    🟢 Simple (0-30)
-                  </span>
-                  <span className="text-sm font-bold text-gray-900">
-                    {metrics.complexityDistribution.simple}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div
-                    className="bg-green-500 h-3 rounded-full"
-                    style={{
-                      width: `${(metrics.complexityDistribution.simple / metrics.totalComponents) * 100}%`,
-                    }}
-                  />
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <span className="text-sm font-medium text-gray-700">
-                    🔵 Standard (31-60)
-                  </span>
-                  <span className="text-sm font-bold text-gray-900">
-                    {metrics.complexityDistribution.standard}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div
-                    className="bg-blue-500 h-3 rounded-full"
-                    style={{
-                      width: `${(metrics.complexityDistribution.standard / metrics.totalComponents) * 100}%`,
-                    }}
-                  />
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <span className="text-sm font-medium text-gray-700">
-                    🟡 Complex (61-80)
-                  </span>
-                  <span className="text-sm font-bold text-gray-900">
-                    {metrics.complexityDistribution.complex}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div
-                    className="bg-yellow-500 h-3 rounded-full"
-                    style={{
-                      width: `${(metrics.complexityDistribution.complex / metrics.totalComponents) * 100}%`,
-                    }}
-                  />
-                </div>
-              </div>
-              <div>
-                <div className="flex justify-between items-center mb-1">
-                  <span className="text-sm font-medium text-gray-700">
-                    🟠 Very Complex (81-100)
-                  </span>
-                  <span className="text-sm font-bold text-gray-900">
-                    {metrics.complexityDistribution.veryComplex}
-                  </span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div
-                    className="bg-orange-500 h-3 rounded-full"
-                    style={{
-                      width: `${(metrics.complexityDistribution.veryComplex / metrics.totalComponents) * 100}%`,
-                    }}
-                  />
-                </div>
-              </div>
+              {COMPLEXITY_BANDS.map((band) => {
+                const range = getComplexityBandRange(band, complexityBands);
+                const count = metrics.complexityDistribution[band];
+                return (
+                  <div key={band}>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-sm font-medium text-gray-700">
+                        {`${BAND_STYLES[band].label} (${range.min}-${range.max})`}
+                      </span>
+                      <span className="text-sm font-bold text-gray-900">
+                        {count}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-3">
+                      <div
+                        className={`${BAND_STYLES[band].barColor} h-3 rounded-full`}
+                        style={{
+                          width: `${(count / metrics.totalComponents) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           </section>
 
@@ -205,13 +243,12 @@ export default function MetricsDashboard({
                       <td className="px-4 py-3 text-right">
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-bold ${
-                            component.complexity <= 30
-                              ? 'bg-green-100 text-green-800'
-                              : component.complexity <= 60
-                                ? 'bg-blue-100 text-blue-800'
-                                : component.complexity <= 80
-                                  ? 'bg-yellow-100 text-yellow-800'
-                                  : 'bg-orange-100 text-orange-800'
+                            BAND_STYLES[
+                              getComplexityBand(
+                                component.complexity,
+                                complexityBands
+                              )
+                            ].badgeColor
                           }`}
                         >
                           {component.complexity}
@@ -289,3 +326,79 @@ export default function MetricsDashboard({
     </div>
   );
 }
+
+type TrendChartProps = {
+  label: string;
+  color: string;
+  values: number[];
+  labels: string[];
+  selectedIndex?: number;
+};
+
+/**
+ * Line chart of one metric, with the selected point marked
+ */
+function TrendChart({
+  label,
+  color,
+  values,
+  labels,
+  selectedIndex,
+}: TrendChartProps) {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const toPoint = (value: number, index: number) => ({
+    x:
+      TREND_PADDING +
+      (index / (values.length - 1)) * (TREND_WIDTH - TREND_PADDING * 2),
+    // A flat line sits in the middle
+    y:
+      max === min
+        ? TREND_HEIGHT / 2
+        : TREND_HEIGHT -
+          TREND_PADDING -
+          ((value - min) / (max - min)) * (TREND_HEIGHT - TREND_PADDING * 2),
+  });
+  const points = values.map(toPoint);
+  const selected =
+    selectedIndex !== undefined ? points[selectedIndex] : undefined;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <div className="flex justify-between items-baseline mb-2">
+        <p className="text-sm text-gray-600 font-medium">{label}</p>
+        <p className="text-xs text-gray-500">
+          {values[0]} → {values[values.length - 1]}
+        </p>
+      </div>
+      <svg
+        viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}
+        className="w-full h-16"
+        role="img"
+        aria-label={`${label} trend: ${values.join(', ')}`}
+      >
+        <polyline
+          points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+        />
+        {points.map(({ x, y }, index) => (
+          <circle key={index} cx={x} cy={y} r={2} fill={color}>
+            <title>{`${labels[index]}: ${values[index]}`}</title>
+          </circle>
+        ))}
+        {selected && (
+          <circle
+            cx={selected.x}
+            cy={selected.y}
+            r={5}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
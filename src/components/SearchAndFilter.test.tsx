@@ -252,6 +252,29 @@ describe('SearchAndFilter', () => {
         complexityRange: { min: 0, max: 80 },
       });
     });
+
+    it('複雑度の帯を選ぶとプロファイルの閾値で範囲が設定される', () => {
+      render(
+        <SearchAndFilter
+          searchOptions={defaultSearchOptions}
+          filterOptions={defaultFilterOptions}
+          onSearchChange={mockOnSearchChange}
+          onFilterChange={mockOnFilterChange}
+          stats={mockStats}
+          maxComplexity={100}
+          maxDepth={10}
+          complexityBands={{ simple: 20, standard: 50, complex: 70 }}
+        />
+      );
+
+      fireEvent.click(screen.getByText('▼ Show Filters'));
+      fireEvent.click(screen.getByText('Standard'));
+
+      expect(mockOnFilterChange).toHaveBeenCalledWith({
+        ...defaultFilterOptions,
+        complexityRange: { min: 21, max: 50 },
+      });
+    });
   });
 
   describe('コンポーネントタイプフィルター', () => {
@@ -1,7 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-import type { SearchOptions, FilterOptions } from '@/types';
+import type {
+  ComplexityBand,
+  ComplexityBands,
+  SearchOptions,
+  FilterOptions,
+} from '@/types';
+import {
+  COMPLEXITY_BANDS,
+  DEFAULT_COMPLEXITY_PROFILE,
+  getComplexityBandRange,
+} from '@/lib/complexity/complexityProfile';
+
+/**
+ * Button labels of the complexity band presets
+ */
+const BAND_LABELS: Record<ComplexityBand, string> = {
+  simple: 'Simple',
+  standard: 'Standard',
+  complex: 'Complex',
+  veryComplex: 'Very Complex',
+};
 
 type SearchAndFilterProps = {
   searchOptions: SearchOptions;
@@ -15,6 +35,7 @@ type SearchAndFilterProps = {
   };
   maxComplexity: number;
   maxDepth: number;
+  complexityBands?: ComplexityBands;
 };
 
 export default function SearchAndFilter({
@@ -25,6 +46,7 @@ export default function SearchAndFilter({
   stats,
   maxComplexity,
   maxDepth,
+  complexityBands = DEFAULT_COMPLEXITY_PROFILE.bands,
 }: SearchAndFilterProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -171,6 +193,34 @@ export default function SearchAndFilter({
                     {filterOptions.complexityRange.max}
                   </span>
                 </div>
+                {/* Band presets */}
+                <div className="flex flex-wrap gap-1">
+                  {COMPLEXITY_BANDS.map((band) => {
+                    const range = getComplexityBandRange(band, complexityBands);
+                    const isActive =
+                      filterOptions.complexityRange.min === range.min &&
+                      filterOptions.complexityRange.max === range.max;
+                    return (
+                      <button
+                        key={band}
+                        onClick={() =>
+                          onFilterChange({
+                            ...filterOptions,
+                            complexityRange: range,
+                          })
+                        }
+                        title={`${range.min}-${range.max}`}
+                        className={`text-xs px-2 py-1 rounded transition-colors ${
+                          isActive
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                      >
+                        {BAND_LABELS[band]}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             </div>
 
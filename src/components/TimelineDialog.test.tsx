@@ -0,0 +1,111 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import TimelineDialog from './TimelineDialog';
+import type { CommitSummary } from '@/lib/git/gitTimeline';
+
+// Newest first, one commit per day
+const commits: CommitSummary[] = Array.from({ length: 20 }, (_, i) => ({
+  id: String(19 - i).padStart(40, '0'),
+  subject: `Commit ${19 - i}`,
+  author: 'Alice',
+  time: Date.parse('2024-01-01T10:00:00Z') + (19 - i) * 86400000,
+}));
+
+describe('TimelineDialog', () => {
+  const mockOnAnalyze = vi.fn();
+  const mockOnCancel = vi.fn();
+  const mockOnClose = vi.fn();
+
+  const renderDialog = (
+    props: Partial<Parameters<typeof TimelineDialog>[0]> = {}
+  ) =>
+    render(
+      <TimelineDialog
+        commits={commits}
+        isAnalyzing={false}
+        progress={null}
+        onAnalyze={mockOnAnalyze}
+        onCancel={mockOnCancel}
+        onClose={mockOnClose}
+        {...props}
+      />
+    );
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('既定ではすべてのコミットから10件を古い順に解析すること', () => {
+    renderDialog();
+
+    expect(
+      screen.getByText('20 commits in range, 10 analyzed evenly spaced')
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Analyze'));
+
+    const selected: CommitSummary[] = mockOnAnalyze.mock.lastCall![0];
+    expect(selected).toHaveLength(10);
+    expect(selected[0].subject).toBe('Commit 0');
+    expect(selected[9].subject).toBe('Commit 19');
+  });
+
+  it('範囲と件数を指定して解析できること', () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText('From'), {
+      target: { value: '10' },
+    });
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '5' } });
+    fireEvent.change(screen.getByLabelText(/Commits to analyze/), {
+      target: { value: '3' },
+    });
+    fireEvent.click(screen.getByText('Analyze'));
+
+    expect(
+      mockOnAnalyze.mock.lastCall![0].map(
+        (commit: CommitSummary) => commit.subject
+      )
+    ).toEqual(['Commit 9', 'Commit 12', 'Commit 14']);
+  });
+
+  it('コミットの読み込み中と履歴がない場合はメッセージを表示すること', () => {
+    const { rerender } = renderDialog({ commits: null });
+    expect(screen.getByText('Reading commits...')).toBeInTheDocument();
+    expect(screen.getByText('Analyze')).toBeDisabled();
+
+    rerender(
+      <TimelineDialog
+        commits={[]}
+        isAnalyzing={false}
+        progress={null}
+        onAnalyze={mockOnAnalyze}
+        onCancel={mockOnCancel}
+        onClose={mockOnClose}
+      />
+    );
+    expect(screen.getByText('No commits found')).toBeInTheDocument();
+  });
+
+  it('解析中は進捗とキャンセルボタンを表示すること', () => {
+    renderDialog({
+      isAnalyzing: true,
+      progress: { commitsAnalyzed: 2, totalCommits: 5, commit: commits[0] },
+    });
+
+    expect(screen.getByText('Analyzing commit 3 / 5')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute(
+      'aria-valuenow',
+      '2'
+    );
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(mockOnCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('エラーを表示し、閉じるボタンでonCloseが呼ばれること', () => {
+    renderDialog({ error: 'Not a git repository: app' });
+
+    expect(screen.getByText('Not a git repository: app')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Close time travel'));
+    expect(mockOnClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { sampleCommits, type CommitSummary } from '@/lib/git/gitTimeline';
+import type { TimelineProgress } from '@/lib/analysis/timelineAnalyzer';
+
+const DEFAULT_SAMPLE_COUNT = 10;
+const MAX_SAMPLE_COUNT = 50;
+// Oldest commit picked by default, counted back from HEAD
+const DEFAULT_RANGE = 100;
+
+type TimelineDialogProps = {
+  // Newest first; null while they are being read
+  commits: CommitSummary[] | null;
+  isAnalyzing: boolean;
+  progress: TimelineProgress | null;
+  error?: string | null;
+  // Commits to analyse, oldest first
+  onAnalyze: (commits: CommitSummary[]) => void;
+  onCancel: () => void;
+  onClose: () => void;
+};
+
+const describeCommit = (commit: CommitSummary) =>
+  `${commit.id.slice(0, 7)} ${new Date(commit.time).toISOString().slice(0, 10)} ${commit.subject}`;
+
+export default function TimelineDialog({
+  commits,
+  isAnalyzing,
+  progress,
+  error = null,
+  onAnalyze,
+  onCancel,
+  onClose,
+}: TimelineDialogProps) {
+  // Indexes into commits (newest first): from is the older end
+  const [fromIndex, setFromIndex] = useState<number | null>(null);
+  const [toIndex, setToIndex] = useState(0);
+  const [sampleCount, setSampleCount] = useState(DEFAULT_SAMPLE_COUNT);
+
+  const from =
+    fromIndex ?? Math.max(0, Math.min(DEFAULT_RANGE, commits?.length ?? 0) - 1);
+  const range = commits
+    ? commits.slice(Math.min(toIndex, from), Math.max(toIndex, from) + 1)
+    : [];
+  const selected = sampleCommits(
+    [...range].reverse(),
+    Math.max(1, Math.min(MAX_SAMPLE_COUNT, sampleCount || 1))
+  );
+
+  const renderCommitSelect = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (index: number) => void
+  ) => (
+    <div>
+      <label htmlFor={id} className="block text-sm text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        disabled={isAnalyzing}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded
+                 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {commits?.map((commit, index) => (
+          <option key={commit.id} value={index}>
+            {describeCommit(commit)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto m-4">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Time Travel</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Analyze the project at past commits, read from the local git
+              repository
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close time travel"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-6 space-y-4">
+          {commits === null ? (
+            <p className="text-sm text-gray-500">Reading commits...</p>
+          ) : commits.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No commits found</p>
+          ) : (
+            <>
+              {renderCommitSelect('timeline-from', 'From', from, setFromIndex)}
+              {renderCommitSelect('timeline-to', 'To', toIndex, setToIndex)}
+              <div className="flex items-center justify-between">
+                <label
+                  htmlFor="timeline-samples"
+                  className="text-sm text-gray-700"
+                >
+                  Commits to analyze (max {MAX_SAMPLE_COUNT})
+                </label>
+                <input
+                  id="timeline-samples"
+                  type="number"
+                  min="1"
+                  max={MAX_SAMPLE_COUNT}
+                  value={String(sampleCount)}
+                  disabled={isAnalyzing}
+                  onChange={(e) => setSampleCount(Number(e.target.value))}
+                  className="w-20 px-2 py-1 text-sm text-right border border-gray-300 rounded
+                           focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {range.length} commits in range, {selected.length} analyzed
+                evenly spaced
+              </p>
+            </>
+          )}
+
+          {isAnalyzing && progress && (
+            <div className="space-y-2">
+              <div className="text-sm text-gray-700">
+                Analyzing commit {progress.commitsAnalyzed + 1} /{' '}
+                {progress.totalCommits}
+              </div>
+              <div
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={progress.totalCommits}
+                aria-valuenow={progress.commitsAnalyzed}
+                className="h-2 bg-gray-200 rounded-full overflow-hidden"
+              >
+                <div
+                  className="h-full bg-blue-600 transition-all duration-200"
+                  style={{
+                    width: `${(progress.commitsAnalyzed / progress.totalCommits) * 100}%`,
+                  }}
+                />
+              </div>
+              <p
+                className="text-xs text-gray-500 truncate"
+                title={progress.commit.subject}
+              >
+                {describeCommit(progress.commit)}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-white border-t border-gray-200 px-6 py-4 flex items-center justify-between">
+          <p className="text-sm text-red-600">{error}</p>
+          {isAnalyzing ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg font-medium
+                       hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={() => onAnalyze(selected)}
+              disabled={selected.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium
+                       hover:bg-blue-700 transition-colors
+                       disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Analyze
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
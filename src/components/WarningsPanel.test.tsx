@@ -0,0 +1,81 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import WarningsPanel from './WarningsPanel';
+import type { Warning } from '@/types';
+
+describe('WarningsPanel', () => {
+  const mockOnSelectWarning = vi.fn();
+  const mockOnClose = vi.fn();
+
+  const warnings: Warning[] = [
+    {
+      id: 'circular-dependency:a,b',
+      type: 'circular-dependency',
+      severity: 'high',
+      componentIds: ['a', 'b'],
+      message: 'Circular dependency between A, B',
+      suggestion: 'Break the cycle',
+    },
+    {
+      id: 'unused-component:c',
+      type: 'unused-component',
+      severity: 'low',
+      componentIds: ['c'],
+      message: 'C is not used by any other component',
+      suggestion: 'Remove it',
+    },
+    {
+      id: 'unused-component:d',
+      type: 'unused-component',
+      severity: 'low',
+      componentIds: ['d'],
+      message: 'D is not used by any other component',
+      suggestion: 'Remove it',
+    },
+  ];
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPanel = (items = warnings, selectedWarningId = null) =>
+    render(
+      <WarningsPanel
+        warnings={items}
+        selectedWarningId={selectedWarningId}
+        onSelectWarning={mockOnSelectWarning}
+        onClose={mockOnClose}
+      />
+    );
+
+  it('警告が種類ごとに件数付きでグループ化される', () => {
+    renderPanel();
+
+    expect(screen.getByText('Warnings (3)')).toBeInTheDocument();
+    expect(screen.getByText('Circular Dependencies (1)')).toBeInTheDocument();
+    expect(screen.getByText('Unused Components (2)')).toBeInTheDocument();
+    expect(screen.queryByText(/High Complexity/)).not.toBeInTheDocument();
+  });
+
+  it('警告をクリックするとonSelectWarningが呼ばれる', () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByText('Circular dependency between A, B'));
+
+    expect(mockOnSelectWarning).toHaveBeenCalledWith(warnings[0]);
+  });
+
+  it('警告がない場合はメッセージが表示される', () => {
+    renderPanel([]);
+
+    expect(screen.getByText('No warnings')).toBeInTheDocument();
+  });
+
+  it('閉じるボタンでonCloseが呼ばれる', () => {
+    renderPanel();
+
+    fireEvent.click(screen.getByLabelText('Close warnings'));
+
+    expect(mockOnClose).toHaveBeenCalledTimes(1);
+  });
+});
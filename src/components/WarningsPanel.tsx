@@ -0,0 +1,110 @@
+'use client';
+
+import type { Warning, WarningType } from '@/types';
+import { WARNING_TYPES } from '@/lib/warnings/warningDetector';
+
+const WARNING_TYPE_LABELS: Record<WarningType, string> = {
+  'circular-dependency': 'Circular Dependencies',
+  'high-complexity': 'High Complexity',
+  'high-coupling': 'High Coupling',
+  'deep-dependency': 'Deep Dependency Chains',
+  'unused-component': 'Unused Components',
+};
+
+const SEVERITY_STYLES: Record<Warning['severity'], string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+type WarningsPanelProps = {
+  warnings: Warning[];
+  selectedWarningId: string | null;
+  onSelectWarning: (warning: Warning) => void;
+  onClose: () => void;
+};
+
+export default function WarningsPanel({
+  warnings,
+  selectedWarningId,
+  onSelectWarning,
+  onClose,
+}: WarningsPanelProps) {
+  const groups = WARNING_TYPES.map((type) => ({
+    type,
+    warnings: warnings.filter((warning) => warning.type === type),
+  })).filter((group) => group.warnings.length > 0);
+
+  return (
+    <div className="w-80 h-full bg-white border-r border-gray-200 overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 bg-white border-b border-gray-200 px-4 py-4 flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900">
+          Warnings ({warnings.length})
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close warnings"
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="px-4 py-4 space-y-6">
+        {groups.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No warnings</p>
+        )}
+
+        {groups.map((group) => (
+          <section key={group.type}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              {WARNING_TYPE_LABELS[group.type]} ({group.warnings.length})
+            </h3>
+            <ul className="space-y-2">
+              {group.warnings.map((warning) => (
+                <li key={warning.id}>
+                  <button
+                    onClick={() => onSelectWarning(warning)}
+                    className={`w-full text-left p-2 rounded border transition-colors ${
+                      warning.id === selectedWarningId
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded ${SEVERITY_STYLES[warning.severity]}`}
+                      >
+                        {warning.severity}
+                      </span>
+                      <span className="text-sm text-gray-900 break-all">
+                        {warning.message}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {warning.suggestion}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
 import { useState, useCallback } from 'react';
 import type { Node, Edge } from '@xyflow/react';
 import type {
+  ComplexityProfile,
+  DependencyGraph,
   FlowNodeData,
   LayoutType,
   ComponentInfo,
   ProjectMetrics,
   SearchOptions,
   FilterOptions,
+  Warning,
 } from '@/types';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
 
 type GraphData = {
   nodes: Node<FlowNodeData>[];
@@ -17,14 +21,23 @@ type GraphData = {
 type Stats = {
   filesScanned: number;
   componentsFound: number;
+  // Files parsed in the last analysis versus reused from the parse cache
+  filesReparsed?: number;
+  filesFromCache?: number;
 };
 
 export function useAppState() {
   const [graphData, setGraphData] = useState<GraphData | null>(null);
-  const [layoutType, setLayoutType] = useState<LayoutType>('tree');
+  const [layoutType, setLayoutType] = useState<LayoutType>('layered');
   const [projectName, setProjectName] = useState<string>('');
   const [stats, setStats] = useState<Stats | null>(null);
   const [metrics, setMetrics] = useState<ProjectMetrics | null>(null);
+  const [dependencyGraph, setDependencyGraph] =
+    useState<DependencyGraph | null>(null);
+  const [warnings, setWarnings] = useState<Warning[]>([]);
+  const [complexityProfile, setComplexityProfile] = useState<ComplexityProfile>(
+    DEFAULT_COMPLEXITY_PROFILE
+  );
   const [selectedComponent, setSelectedComponent] =
     useState<ComponentInfo | null>(null);
   const [searchOptions, setSearchOptions] = useState<SearchOptions>({
@@ -46,12 +59,18 @@ export function useAppState() {
       name: string,
       data: GraphData,
       analysisStats: Stats,
-      projectMetrics: ProjectMetrics
+      projectMetrics: ProjectMetrics,
+      graph: DependencyGraph,
+      profile: ComplexityProfile,
+      analysisWarnings: Warning[]
     ) => {
       setProjectName(name);
       setGraphData(data);
       setStats(analysisStats);
       setMetrics(projectMetrics);
+      setDependencyGraph(graph);
+      setWarnings(analysisWarnings);
+      setComplexityProfile(profile);
       // Reset filters with new max values
       setFilterOptions({
         complexityRange: { min: 0, max: projectMetrics.maxComplexity },
@@ -71,10 +90,56 @@ export function useAppState() {
     []
   );
 
+  // Swap in a re-scored graph, keeping search, filters and selection
+  const updateComplexityProfile = useCallback(
+    (
+      profile: ComplexityProfile,
+      data: GraphData,
+      projectMetrics: ProjectMetrics,
+      graph: DependencyGraph,
+      analysisWarnings: Warning[]
+    ) => {
+      setComplexityProfile(profile);
+      setGraphData(data);
+      setMetrics(projectMetrics);
+      setDependencyGraph(graph);
+      setWarnings(analysisWarnings);
+      setSelectedComponent(
+        (selected) =>
+          (selected && graph.nodes.get(selected.id)?.component) || null
+      );
+    },
+    []
+  );
+
+  // Swap in a re-analysed graph (watch mode), keeping search, filters and selection
+  const patchAnalysisResult = useCallback(
+    (
+      data: GraphData,
+      analysisStats: Stats,
+      projectMetrics: ProjectMetrics,
+      graph: DependencyGraph,
+      analysisWarnings: Warning[]
+    ) => {
+      setGraphData(data);
+      setStats(analysisStats);
+      setMetrics(projectMetrics);
+      setDependencyGraph(graph);
+      setWarnings(analysisWarnings);
+      setSelectedComponent(
+        (selected) =>
+          (selected && graph.nodes.get(selected.id)?.component) || null
+      );
+    },
+    []
+  );
+
   const reset = useCallback(() => {
     setGraphData(null);
     setStats(null);
     setMetrics(null);
+    setDependencyGraph(null);
+    setWarnings([]);
     setProjectName('');
     setSelectedComponent(null);
     setSearchOptions({ query: '', searchIn: 'both', useRegex: false });
@@ -88,9 +153,11 @@ export function useAppState() {
     });
   }, []);
 
+  // Nodes default to the analysed graph; pass others (e.g. a past commit's)
+  // to select from them
   const selectComponent = useCallback(
-    (nodeId: string) => {
-      const node = graphData?.nodes.find((n) => n.id === nodeId);
+    (nodeId: string, nodes = graphData?.nodes) => {
+      const node = nodes?.find((n) => n.id === nodeId);
       if (node) {
         setSelectedComponent(node.data.componentInfo);
       }
@@ -109,6 +176,9 @@ export function useAppState() {
     projectName,
     stats,
     metrics,
+    dependencyGraph,
+    warnings,
+    complexityProfile,
     selectedComponent,
     searchOptions,
     filterOptions,
@@ -117,6 +187,8 @@ export function useAppState() {
     setSearchOptions,
     setFilterOptions,
     updateAnalysisResult,
+    updateComplexityProfile,
+    patchAnalysisResult,
     reset,
     selectComponent,
     clearSelection,
@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import type { ComplexityProfile, DependencyGraph, FlowNodeData } from '@/types';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import { rescoreGraph } from '@/lib/complexity/complexityProfile';
+import {
+  diffGraphs,
+  mergeDiffGraph,
+  type GraphDiff,
+} from '@/lib/diff/graphDiff';
+
+type UseGraphDiffProps = {
+  // Saved analysis to compare against; null shows the graph as is
+  baseline: DependencyGraph | null;
+  graph: DependencyGraph | null;
+  nodes: Node<FlowNodeData>[];
+  edges: Edge[];
+  complexityProfile: ComplexityProfile;
+};
+
+type UseGraphDiffResult = {
+  diff: GraphDiff | null;
+  // The current graph plus the baseline's removed nodes and edges
+  nodes: Node<FlowNodeData>[];
+  edges: Edge[];
+};
+
+/**
+ * Compare the current graph with a baseline; the baseline is re-scored with
+ * the current profile so complexity deltas only reflect code changes
+ */
+export function useGraphDiff({
+  baseline,
+  graph,
+  nodes,
+  edges,
+  complexityProfile,
+}: UseGraphDiffProps): UseGraphDiffResult {
+  return useMemo(() => {
+    if (!baseline || !graph) {
+      return { diff: null, nodes, edges };
+    }
+
+    const rescored = rescoreGraph(baseline, complexityProfile);
+    const diff = diffGraphs(rescored, graph);
+    const baselineFlow = new GraphBuilder({
+      complexityProfile,
+    }).buildReactFlowGraph(rescored);
+
+    return { diff, ...mergeDiffGraph({ nodes, edges }, baselineFlow, diff) };
+  }, [baseline, graph, nodes, edges, complexityProfile]);
+}
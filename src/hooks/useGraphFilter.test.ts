@@ -2,6 +2,7 @@ import { renderHook } from '@testing-library/react';
 import { describe, it, expect } from 'vitest';
 import { useGraphFilter } from './useGraphFilter';
 import type { Node, Edge } from '@xyflow/react';
+import { createComponent } from '@/test/graphFixtures';
 import type { FlowNodeData, SearchOptions, FilterOptions } from '@/types';
 
 describe('useGraphFilter', () => {
@@ -19,18 +20,7 @@ describe('useGraphFilter', () => {
     position: { x: 0, y: 0 },
     data: {
       label: name,
-      componentInfo: {
-        id,
-        name,
-        filePath,
-        type,
-        dependencies: [],
-        complexity,
-        linesOfCode: 100,
-        hooks: [],
-        imports: [],
-        propsCount: 0,
-      },
+      componentInfo: createComponent({ id, name, filePath, type, complexity }),
       complexity,
       dependencyCount: 0,
       dependentCount,
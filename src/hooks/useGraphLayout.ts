@@ -1,28 +1,49 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import {
   useNodesState,
   useEdgesState,
   type Node,
   type Edge,
 } from '@xyflow/react';
-import { applyLayout } from '@/lib/graph/layoutAlgorithm';
+import { applyLayout, keepNodePositions } from '@/lib/graph/layoutAlgorithm';
 import type { FlowNodeData, LayoutType } from '@/types';
 
+type GraphLayoutOptions = {
+  // Keep the positions of existing nodes when the nodes change
+  // (switching the layout type still lays out everything again)
+  preservePositions?: boolean;
+};
+
 /**
  * Custom hook to manage graph nodes and edges with automatic layout application
  */
 export function useGraphLayout(
   initialNodes: Node<FlowNodeData>[],
   initialEdges: Edge[],
-  layoutType: LayoutType
+  layoutType: LayoutType,
+  { preservePositions = false }: GraphLayoutOptions = {}
 ) {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+  const appliedLayoutTypeRef = useRef<LayoutType | null>(null);
+
+  // Read from a ref so turning the option on or off does not re-layout
+  const preservePositionsRef = useRef(preservePositions);
+  useEffect(() => {
+    preservePositionsRef.current = preservePositions;
+  }, [preservePositions]);
 
   // Apply layout whenever nodes, edges, or layout type changes
   useEffect(() => {
     const layoutedNodes = applyLayout(initialNodes, initialEdges, layoutType);
-    setNodes(layoutedNodes);
+    const layoutChanged = appliedLayoutTypeRef.current !== layoutType;
+    appliedLayoutTypeRef.current = layoutType;
+
+    if (preservePositionsRef.current && !layoutChanged) {
+      setNodes((current) => keepNodePositions(layoutedNodes, current));
+    } else {
+      setNodes(layoutedNodes);
+    }
     setEdges(initialEdges);
   }, [initialNodes, initialEdges, layoutType, setNodes, setEdges]);
 
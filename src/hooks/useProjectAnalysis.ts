@@ -1,62 +1,126 @@
-import { useState, useCallback } from 'react';
-import { scanDirectory } from '@/lib/fileSystem';
-import { ComponentParser } from '@/lib/parser/componentParser';
+import { useState, useCallback, useRef } from 'react';
+import {
+  analyzeProject as runProjectAnalysis,
+  type ProjectAnalysis,
+} from '@/lib/analysis/projectAnalyzer';
+import type { ScoredGraph } from '@/lib/analysis/analysisTasks';
+import { createParseCache } from '@/lib/cache/parseCache';
+import {
+  parseAnalysisFile,
+  type AnalysisSnapshot,
+} from '@/lib/export/analysisFile';
 import { GraphBuilder } from '@/lib/graph/graphBuilder';
-import type { Node, Edge } from '@xyflow/react';
-import type { FlowNodeData, ProjectMetrics } from '@/types';
+import { rescoreGraph } from '@/lib/complexity/complexityProfile';
+import { WarningDetector } from '@/lib/warnings/warningDetector';
+import type { GitHistory } from '@/lib/git/gitHistory';
+import type {
+  AnalysisProgress,
+  ComplexityProfile,
+  DependencyGraph,
+} from '@/types';
 
-type AnalysisResult = {
-  nodes: Node<FlowNodeData>[];
-  edges: Edge[];
-  filesScanned: number;
-  componentsFound: number;
-  metrics: ProjectMetrics;
-};
+// Minimum time between progress re-renders
+const PROGRESS_INTERVAL_MS = 50;
 
 export function useProjectAnalysis() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Parse results survive reloads, so re-analysing skips unchanged files
+  const [parseCache] = useState(createParseCache);
+  // Re-analysing without new commits skips reading the history again
+  const gitHistoryRef = useRef<GitHistory | null>(null);
 
   const analyzeProject = useCallback(
     async (
       directoryHandle: FileSystemDirectoryHandle
-    ): Promise<AnalysisResult> => {
+    ): Promise<ProjectAnalysis> => {
+      // Only one analysis at a time
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
       setIsAnalyzing(true);
+      setProgress(null);
+
+      let lastUpdate = 0;
+      let lastPhase: AnalysisProgress['phase'] | null = null;
 
       try {
-        // Scan directory for React files
-        const files = await scanDirectory(directoryHandle);
+        // Parse and build on workers; throttle progress updates
+        const analysis = await runProjectAnalysis(directoryHandle, {
+          signal: controller.signal,
+          cache: parseCache,
+          previousGitHistory: gitHistoryRef.current,
+          onProgress: (next) => {
+            const now = Date.now();
+            if (
+              next.phase !== lastPhase ||
+              now - lastUpdate >= PROGRESS_INTERVAL_MS
+            ) {
+              lastUpdate = now;
+              lastPhase = next.phase;
+              setProgress(next);
+            }
+          },
+        });
+        gitHistoryRef.current = analysis.gitHistory;
+        return analysis;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsAnalyzing(false);
+          setProgress(null);
+        }
+      }
+    },
+    [parseCache]
+  );
 
-        // Parse files to extract components
-        const parser = new ComponentParser();
-        const allComponents = [];
+  // Abort the running analysis; analyzeProject rejects with an AbortError
+  const cancelAnalysis = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
-        for (const file of files) {
-          const components = parser.parseFile(file);
-          allComponents.push(...components);
-        }
+  // Re-open an exported analysis; the React Flow graph is rebuilt from it
+  const loadAnalysisFile = useCallback(
+    async (file: File): Promise<AnalysisSnapshot & ScoredGraph> => {
+      const snapshot = parseAnalysisFile(await file.text());
+      const flowGraph = new GraphBuilder({
+        complexityProfile: snapshot.complexityProfile,
+      }).buildReactFlowGraph(snapshot.graph);
 
-        // Build dependency graph
-        const graphBuilder = new GraphBuilder();
-        const graph = graphBuilder.buildGraph(allComponents);
-        const flowGraph = graphBuilder.buildReactFlowGraph(graph);
-        const metrics = graphBuilder.calculateMetrics(graph);
-
-        return {
-          nodes: flowGraph.nodes,
-          edges: flowGraph.edges,
-          filesScanned: files.length,
-          componentsFound: allComponents.length,
-          metrics,
-        };
-      } finally {
-        setIsAnalyzing(false);
-      }
+      return { ...snapshot, nodes: flowGraph.nodes, edges: flowGraph.edges };
+    },
+    []
+  );
+
+  // Re-score an analysed graph after the complexity profile is edited
+  const applyComplexityProfile = useCallback(
+    (graph: DependencyGraph, profile: ComplexityProfile): ScoredGraph => {
+      const graphBuilder = new GraphBuilder({ complexityProfile: profile });
+      const rescored = rescoreGraph(graph, profile);
+      const flowGraph = graphBuilder.buildReactFlowGraph(rescored);
+
+      return {
+        graph: rescored,
+        nodes: flowGraph.nodes,
+        edges: flowGraph.edges,
+        metrics: graphBuilder.calculateMetrics(rescored),
+        warnings: new WarningDetector({
+          complexityProfile: profile,
+        }).detectWarnings(rescored),
+      };
     },
     []
   );
 
   return {
     isAnalyzing,
+    progress,
     analyzeProject,
+    cancelAnalysis,
+    loadAnalysisFile,
+    applyComplexityProfile,
   };
 }
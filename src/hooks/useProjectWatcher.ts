@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { ProjectWatcher, type FileChanges } from '@/lib/watch/projectWatcher';
+
+type UseProjectWatcherOptions = {
+  directoryHandle: FileSystemDirectoryHandle | null;
+  enabled: boolean;
+  onChange: (changes: FileChanges) => void;
+  onError?: (error: Error) => void;
+};
+
+/**
+ * Watch a project folder for changes while enabled
+ */
+export function useProjectWatcher({
+  directoryHandle,
+  enabled,
+  onChange,
+  onError,
+}: UseProjectWatcherOptions) {
+  // Keep the latest callbacks without restarting the watcher
+  const onChangeRef = useRef(onChange);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onErrorRef.current = onError;
+  }, [onChange, onError]);
+
+  useEffect(() => {
+    if (!enabled || !directoryHandle) {
+      return;
+    }
+
+    const watcher = new ProjectWatcher({
+      directoryHandle,
+      onChange: (changes) => onChangeRef.current(changes),
+      onError: (error) => onErrorRef.current?.(error),
+    });
+    watcher.start().catch((error: Error) => onErrorRef.current?.(error));
+
+    return () => watcher.stop();
+  }, [enabled, directoryHandle]);
+}
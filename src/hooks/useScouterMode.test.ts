@@ -203,6 +203,57 @@ describe('useScouterMode', () => {
     consoleErrorSpy.mockRestore();
   });
 
+  it('should re-filter when nodes and edges are replaced while active', () => {
+    const { result, rerender } = renderHook(
+      ({ nodes, edges }) => useScouterMode({ nodes, edges }),
+      { initialProps: { nodes: mockNodes, edges: mockEdges } }
+    );
+
+    act(() => {
+      result.current.activateScouterMode('B');
+    });
+    expect(result.current.filteredNodes.map((n) => n.id)).toEqual(['A', 'B']);
+
+    // B starts depending on C
+    rerender({
+      nodes: [...mockNodes],
+      edges: [...mockEdges, { id: 'e3', source: 'B', target: 'C' }],
+    });
+
+    expect(result.current.isScouterMode).toBe(true);
+    expect(result.current.filteredNodes.map((n) => n.id)).toEqual([
+      'A',
+      'B',
+      'C',
+    ]);
+    expect(result.current.filteredEdges.map((e) => e.id)).toEqual(['e1', 'e3']);
+  });
+
+  it('should show the whole graph while the center node is missing', () => {
+    const { result, rerender } = renderHook(
+      ({ nodes, edges }) => useScouterMode({ nodes, edges }),
+      { initialProps: { nodes: mockNodes, edges: mockEdges } }
+    );
+
+    act(() => {
+      result.current.activateScouterMode('B');
+    });
+
+    const withoutB = mockNodes.filter((n) => n.id !== 'B');
+    const edgesWithoutB = mockEdges.filter((e) => e.target !== 'B');
+    rerender({ nodes: withoutB, edges: edgesWithoutB });
+
+    expect(result.current.isScouterMode).toBe(false);
+    expect(result.current.filteredNodes).toEqual(withoutB);
+
+    // Focus returns when the node comes back
+    rerender({ nodes: mockNodes, edges: mockEdges });
+
+    expect(result.current.isScouterMode).toBe(true);
+    expect(result.current.centerNodeId).toBe('B');
+    expect(result.current.filteredNodes.map((n) => n.id)).toEqual(['A', 'B']);
+  });
+
   it('should switch center node when activating on different node', () => {
     const { result } = renderHook(() =>
       useScouterMode({ nodes: mockNodes, edges: mockEdges })
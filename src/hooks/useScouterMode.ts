@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import type { Node, Edge } from '@xyflow/react';
 import {
   ScouterModeService,
@@ -25,6 +25,33 @@ type ScouterModeState = {
   showAllDescendants: boolean;
 };
 
+/**
+ * 中心ノードに関連するノードとエッジのIDを抽出
+ */
+function extractVisibleIds(
+  centerNodeId: string,
+  nodes: Node[],
+  edges: Edge[],
+  showAllDescendants: boolean
+): Pick<ScouterModeState, 'visibleNodeIds' | 'visibleEdgeIds'> {
+  const options: ExtractRelatedNodesOptions = { showAllDescendants };
+  const relatedNodes = ScouterModeService.extractRelatedNodes(
+    centerNodeId,
+    nodes,
+    edges,
+    options
+  );
+
+  return {
+    visibleNodeIds: new Set([
+      relatedNodes.centerNode.id,
+      ...relatedNodes.dependencyNodes.map((n) => n.id),
+      ...relatedNodes.dependentNodes.map((n) => n.id),
+    ]),
+    visibleEdgeIds: new Set(relatedNodes.relatedEdges.map((e) => e.id)),
+  };
+}
+
 /**
  * useScouterModeフックのオプション
  */
@@ -106,32 +133,18 @@ export function useScouterMode<
   const activateScouterMode = useCallback(
     (nodeId: string) => {
       try {
-        const options: ExtractRelatedNodesOptions = {
-          showAllDescendants: state.showAllDescendants,
-        };
-        const relatedNodes = ScouterModeService.extractRelatedNodes(
+        const visibleIds = extractVisibleIds(
           nodeId,
           nodes,
           edges,
-          options
-        );
-
-        const visibleNodeIds = new Set([
-          relatedNodes.centerNode.id,
-          ...relatedNodes.dependencyNodes.map((n) => n.id),
-          ...relatedNodes.dependentNodes.map((n) => n.id),
-        ]);
-
-        const visibleEdgeIds = new Set(
-          relatedNodes.relatedEdges.map((e) => e.id)
+          state.showAllDescendants
         );
 
         setState((prev) => ({
           ...prev,
           isActive: true,
           centerNodeId: nodeId,
-          visibleNodeIds,
-          visibleEdgeIds,
+          ...visibleIds,
         }));
 
         onModeChange?.(true);
@@ -167,31 +180,15 @@ export function useScouterMode<
 
       // スカウターモードが有効な場合、新しい設定でノードを再抽出
       if (prev.isActive && prev.centerNodeId) {
-        const options: ExtractRelatedNodesOptions = {
-          showAllDescendants: newShowAllDescendants,
-        };
-        const relatedNodes = ScouterModeService.extractRelatedNodes(
-          prev.centerNodeId,
-          nodes,
-          edges,
-          options
-        );
-
-        const visibleNodeIds = new Set([
-          relatedNodes.centerNode.id,
-          ...relatedNodes.dependencyNodes.map((n) => n.id),
-          ...relatedNodes.dependentNodes.map((n) => n.id),
-        ]);
-
-        const visibleEdgeIds = new Set(
-          relatedNodes.relatedEdges.map((e) => e.id)
-        );
-
         return {
           ...prev,
           showAllDescendants: newShowAllDescendants,
-          visibleNodeIds,
-          visibleEdgeIds,
+          ...extractVisibleIds(
+            prev.centerNodeId,
+            nodes,
+            edges,
+            newShowAllDescendants
+          ),
         };
       }
 
@@ -203,11 +200,42 @@ export function useScouterMode<
     });
   }, [nodes, edges]);
 
+  /**
+   * ノードやエッジが差し替えられたら（監視モードでの更新など）表示対象を再抽出
+   */
+  useEffect(() => {
+    setState((prev) => {
+      if (
+        !prev.isActive ||
+        !prev.centerNodeId ||
+        !nodes.some((node) => node.id === prev.centerNodeId)
+      ) {
+        return prev;
+      }
+      return {
+        ...prev,
+        ...extractVisibleIds(
+          prev.centerNodeId,
+          nodes,
+          edges,
+          prev.showAllDescendants
+        ),
+      };
+    });
+  }, [nodes, edges]);
+
+  // 中心ノードが消えている間は全体を表示し、再び現れたら焦点を戻す
+  const isActive = useMemo(
+    () =>
+      state.isActive && nodes.some((node) => node.id === state.centerNodeId),
+    [nodes, state.isActive, state.centerNodeId]
+  );
+
   /**
    * スカウターモードの状態に基づいてノードをフィルタリング
    */
   const filteredNodes = useMemo((): Node<T>[] => {
-    if (!state.isActive) return nodes;
+    if (!isActive) return nodes;
 
     return nodes
       .filter((node) => state.visibleNodeIds.has(node.id))
@@ -218,18 +246,18 @@ export function useScouterMode<
         }
         return node;
       });
-  }, [nodes, state.isActive, state.visibleNodeIds, state.centerNodeId]);
+  }, [nodes, isActive, state.visibleNodeIds, state.centerNodeId]);
 
   /**
    * スカウターモードの状態に基づいてエッジをフィルタリング
    */
   const filteredEdges = useMemo(() => {
-    if (!state.isActive) return edges;
+    if (!isActive) return edges;
     return edges.filter((edge) => state.visibleEdgeIds.has(edge.id));
-  }, [edges, state.isActive, state.visibleEdgeIds]);
+  }, [edges, isActive, state.visibleEdgeIds]);
 
   return {
-    isScouterMode: state.isActive,
+    isScouterMode: isActive,
     centerNodeId: state.centerNodeId,
     showAllDescendants: state.showAllDescendants,
     activateScouterMode,
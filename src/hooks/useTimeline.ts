@@ -0,0 +1,115 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  analyzeTimeline,
+  type TimelineProgress,
+  type TimelineSnapshot,
+} from '@/lib/analysis/timelineAnalyzer';
+import type { ProjectAnalysis } from '@/lib/analysis/projectAnalyzer';
+import { MemoryParseCache } from '@/lib/cache/parseCache';
+import { loadProjectConfig } from '@/lib/config/projectConfig';
+import { readTextFile } from '@/lib/fileSystem';
+import { listCommits, type CommitSummary } from '@/lib/git/gitTimeline';
+import type { ComplexityProfile } from '@/types';
+
+/**
+ * Pick commits, analyse the project at each of them, and step through the
+ * results
+ */
+export function useTimeline() {
+  const [commits, setCommits] = useState<CommitSummary[] | null>(null);
+  const [snapshots, setSnapshots] = useState<TimelineSnapshot[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<TimelineProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const loadCommits = useCallback(
+    async (directoryHandle: FileSystemDirectoryHandle) => {
+      setCommits(await listCommits(directoryHandle));
+    },
+    []
+  );
+
+  // Commits are analysed in the given order, oldest first for a timeline;
+  // rejects with an AbortError when cancelled
+  const analyze = useCallback(
+    async (
+      directoryHandle: FileSystemDirectoryHandle,
+      selected: CommitSummary[],
+      complexityProfile: ComplexityProfile
+    ) => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsAnalyzing(true);
+      setProgress(null);
+      // Files unchanged between the picked commits are parsed once; kept
+      // apart from the persisted cache, which holds one version per file,
+      // and dropped with the run
+      const parseCache = new MemoryParseCache();
+
+      try {
+        // Parse and score every commit like the current graph
+        const config = await loadProjectConfig((path) =>
+          readTextFile(directoryHandle, path)
+        );
+        const result = await analyzeTimeline(directoryHandle, selected, {
+          signal: controller.signal,
+          cache: parseCache,
+          config: { ...config, complexity: complexityProfile },
+          onProgress: setProgress,
+        });
+        setSnapshots(result);
+        setIndex(result.length - 1);
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsAnalyzing(false);
+          setProgress(null);
+        }
+      }
+    },
+    []
+  );
+
+  // Replace the analysis of every commit, e.g. rescored with a new profile
+  const rescore = useCallback(
+    (score: (analysis: ProjectAnalysis) => ProjectAnalysis) => {
+      setSnapshots(
+        (current) =>
+          current?.map((snapshot) => ({
+            ...snapshot,
+            analysis: score(snapshot.analysis),
+          })) ?? null
+      );
+    },
+    []
+  );
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Leave time travel and forget the listed commits (e.g. for a new folder)
+  const clear = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setCommits(null);
+    setSnapshots(null);
+    setIndex(0);
+  }, []);
+
+  return {
+    commits,
+    snapshots,
+    index,
+    isAnalyzing,
+    progress,
+    loadCommits,
+    analyze,
+    rescore,
+    cancel,
+    clear,
+    setIndex,
+  };
+}
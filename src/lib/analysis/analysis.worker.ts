@@ -0,0 +1,6 @@
+import { handleAnalysisMessage } from '@/lib/analysis/analysisTasks';
+
+// Entry point of the analysis workers started by analyzeProject
+self.onmessage = (event: MessageEvent) => {
+  handleAnalysisMessage(event.data, (reply) => self.postMessage(reply));
+};
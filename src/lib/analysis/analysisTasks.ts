@@ -0,0 +1,140 @@
+import type { Node, Edge } from '@xyflow/react';
+import { ComponentParser } from '@/lib/parser/componentParser';
+import { ModuleResolver } from '@/lib/parser/moduleResolver';
+import type { PathAliasConfig } from '@/lib/parser/tsconfigLoader';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import { WarningDetector } from '@/lib/warnings/warningDetector';
+import type {
+  WorkerReplyMessage,
+  WorkerTaskMessage,
+} from '@/lib/workers/workerPool';
+import type {
+  ComplexityProfile,
+  DependencyGraph,
+  FileInfo,
+  FlowNodeData,
+  ParsedModule,
+  ProjectMetrics,
+  ReExportInfo,
+  Warning,
+} from '@/types';
+
+/**
+ * Analysed graph with everything derived from it
+ */
+export type ScoredGraph = {
+  graph: DependencyGraph;
+  nodes: Node<FlowNodeData>[];
+  edges: Edge[];
+  metrics: ProjectMetrics;
+  warnings: Warning[];
+};
+
+/**
+ * Work sent to an analysis worker. Requests carry all the data they need,
+ * so any worker can take any task.
+ */
+export type AnalysisRequest =
+  | {
+      type: 'parse';
+      files: FileInfo[];
+      // Every scanned path, to resolve imports across batches
+      filePaths: string[];
+      aliases: PathAliasConfig | null;
+      hocNames: string[];
+      complexityProfile: ComplexityProfile;
+    }
+  | {
+      type: 'build';
+      modules: ParsedModule[];
+      complexityProfile: ComplexityProfile;
+    };
+
+export type AnalysisResponse =
+  | { type: 'parsed'; modules: ParsedModule[] }
+  | { type: 'built'; result: ScoredGraph };
+
+/**
+ * Progress reported while a task runs: the path of each parsed file
+ */
+export type AnalysisTaskProgress = string;
+
+/**
+ * Run one analysis task
+ */
+export function runAnalysisTask(
+  request: AnalysisRequest,
+  onFileParsed: (filePath: string) => void = () => {}
+): AnalysisResponse {
+  if (request.type === 'parse') {
+    const resolver = new ModuleResolver(request.filePaths, request.aliases);
+    const parser = new ComponentParser({
+      resolver,
+      hocNames: request.hocNames,
+      complexityProfile: request.complexityProfile,
+    });
+
+    const modules = request.files.map((file) => {
+      const parsed = parser.parseModule(file);
+      onFileParsed(file.path);
+      return parsed;
+    });
+    return { type: 'parsed', modules };
+  }
+
+  return {
+    type: 'built',
+    result: buildScoredGraph(request.modules, request.complexityProfile),
+  };
+}
+
+/**
+ * Worker-side message handler: runs the task and replies with its
+ * progress and result
+ */
+export function handleAnalysisMessage(
+  message: WorkerTaskMessage<AnalysisRequest>,
+  reply: (
+    message: WorkerReplyMessage<AnalysisTaskProgress, AnalysisResponse>
+  ) => void
+): void {
+  const { taskId, request } = message;
+
+  try {
+    const result = runAnalysisTask(request, (filePath) =>
+      reply({ taskId, kind: 'progress', progress: filePath })
+    );
+    reply({ taskId, kind: 'done', result });
+  } catch (error) {
+    reply({ taskId, kind: 'error', message: (error as Error).message });
+  }
+}
+
+/**
+ * Build the dependency graph, React Flow graph, metrics and warnings
+ * from parsed modules
+ */
+function buildScoredGraph(
+  modules: ParsedModule[],
+  complexityProfile: ComplexityProfile
+): ScoredGraph {
+  const components = modules.flatMap((module) => module.components);
+  const reExports = new Map<string, ReExportInfo[]>();
+  for (const module of modules) {
+    if (module.reExports.length > 0) {
+      reExports.set(module.filePath, module.reExports);
+    }
+  }
+
+  const graphBuilder = new GraphBuilder({ complexityProfile });
+  const graph = graphBuilder.buildGraph(components, { reExports });
+  const flowGraph = graphBuilder.buildReactFlowGraph(graph);
+
+  return {
+    graph,
+    nodes: flowGraph.nodes,
+    edges: flowGraph.edges,
+    metrics: graphBuilder.calculateMetrics(graph),
+    warnings: new WarningDetector({ complexityProfile }).detectWarnings(graph),
+  };
+}
@@ -0,0 +1,359 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeProject } from './projectAnalyzer';
+import { handleAnalysisMessage } from './analysisTasks';
+import { createInlineWorker, isAbortError } from '@/lib/workers/workerPool';
+import type { ParseCache, ParseCacheEntry } from '@/lib/cache/parseCache';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import type { AnalysisProgress } from '@/types';
+
+type Tree = { [name: string]: string | Tree };
+
+/**
+ * In-memory directory handle supporting what scanning and file reads use
+ */
+function createDirectoryHandle(
+  tree: Tree,
+  name = 'app'
+): FileSystemDirectoryHandle {
+  const toEntry = (name: string, value: string | Tree) =>
+    typeof value === 'string'
+      ? {
+          kind: 'file',
+          name,
+          getFile: async () => ({ text: async () => value }),
+        }
+      : { ...createDirectoryHandle(value), kind: 'directory', name };
+
+  const getEntry = (kind: 'file' | 'directory') => async (name: string) => {
+    const value = tree[name];
+    if (
+      value === undefined ||
+      (typeof value === 'string') !== (kind === 'file')
+    ) {
+      throw new DOMException('Not found', 'NotFoundError');
+    }
+    return toEntry(name, value);
+  };
+
+  return {
+    name,
+    async *values() {
+      yield* Object.entries(tree).map(([name, value]) => toEntry(name, value));
+    },
+    getFileHandle: getEntry('file'),
+    getDirectoryHandle: getEntry('directory'),
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+const sources: Tree = {
+  'App.tsx': `
+    import Header from './Header';
+    export default function App() { return <Header />; }
+  `,
+  'Header.tsx': `
+    import Logo from './Logo';
+    export default function Header() { return <Logo />; }
+  `,
+  'Logo.tsx': `export default function Logo() { return <img />; }`,
+};
+
+const project = createDirectoryHandle({ src: sources });
+
+/**
+ * In-memory parse cache
+ */
+function createMemoryCache(): ParseCache & {
+  entries: Map<string, ParseCacheEntry>;
+} {
+  const entries = new Map<string, ParseCacheEntry>();
+  return {
+    entries,
+    getEntries: async (keys) =>
+      new Map(
+        keys.flatMap((key) =>
+          entries.has(key) ? [[key, structuredClone(entries.get(key)!)]] : []
+        )
+      ),
+    putEntries: async (newEntries) => {
+      for (const entry of newEntries) {
+        entries.set(entry.key, structuredClone(entry));
+      }
+    },
+  };
+}
+
+const options = {
+  poolSize: 2,
+  createWorker: () => createInlineWorker(handleAnalysisMessage),
+};
+
+describe('analyzeProject', () => {
+  it('ワーカーでファイルを解析して依存グラフを構築できること', async () => {
+    const result = await analyzeProject(project, options);
+
+    expect(result.filesScanned).toBe(3);
+    expect(result.componentsFound).toBe(3);
+    expect(result.graph.edges).toHaveLength(2);
+    expect(result.nodes).toHaveLength(3);
+    expect(result.metrics.totalComponents).toBe(3);
+  });
+
+  it('走査・解析・構築の進捗を通知すること', async () => {
+    const progress: AnalysisProgress[] = [];
+
+    await analyzeProject(project, {
+      ...options,
+      onProgress: (next) => progress.push(next),
+    });
+
+    expect(progress.map((p) => p.phase)).toEqual([
+      'scanning',
+      'scanning',
+      'scanning',
+      'parsing',
+      'parsing',
+      'parsing',
+      'history',
+      'building',
+    ]);
+    expect(progress[2]).toMatchObject({
+      filesScanned: 3,
+      currentFile: 'src/Logo.tsx',
+    });
+    expect(progress[5]).toMatchObject({ filesParsed: 3, totalFiles: 3 });
+    expect(progress[7].currentFile).toBeNull();
+  });
+
+  it('設定ファイルのHOC名でラップされたコンポーネントを検出し、キャッシュを分けること', async () => {
+    const tracked = {
+      src: {
+        'Page.tsx': `
+          const TrackedPage = withTracking(() => <div />);
+          const RoutedPage = withRouter(() => <div />);
+        `,
+      },
+    };
+    const configured = createDirectoryHandle({
+      ...tracked,
+      'reuntangle.config.json': JSON.stringify({
+        parser: { hocNames: ['withTracking'] },
+      }),
+    });
+    const cache = createMemoryCache();
+
+    const defaults = await analyzeProject(createDirectoryHandle(tracked), {
+      ...options,
+      cache,
+    });
+    const result = await analyzeProject(configured, { ...options, cache });
+
+    expect(defaults.graph.nodes.has('src/Page.tsx:RoutedPage')).toBe(true);
+    expect(result.filesReparsed).toBe(1);
+    expect([...result.graph.nodes.keys()]).toEqual([
+      'src/Page.tsx:TrackedPage',
+    ]);
+    expect(
+      result.graph.nodes.get('src/Page.tsx:TrackedPage')?.component.wrappers
+    ).toEqual(['withTracking']);
+  });
+
+  it('キャッシュがない場合は全ファイルを解析してキャッシュに保存すること', async () => {
+    const cache = createMemoryCache();
+
+    const result = await analyzeProject(project, { ...options, cache });
+
+    expect(result.filesReparsed).toBe(3);
+    expect(result.filesFromCache).toBe(0);
+    expect(cache.entries.size).toBe(3);
+  });
+
+  it('変更されていないファイルはキャッシュから読み込むこと', async () => {
+    const cache = createMemoryCache();
+    const first = await analyzeProject(project, { ...options, cache });
+
+    const changed = createDirectoryHandle({
+      src: {
+        ...sources,
+        'Logo.tsx': `export default function Logo() { return <svg />; }`,
+      },
+    });
+    const progress: AnalysisProgress[] = [];
+    const second = await analyzeProject(changed, {
+      ...options,
+      cache,
+      onProgress: (next) => progress.push(next),
+    });
+
+    expect(second.filesReparsed).toBe(1);
+    expect(second.filesFromCache).toBe(2);
+    expect(progress.filter((p) => p.phase === 'parsing')).toEqual([
+      expect.objectContaining({
+        filesParsed: 1,
+        totalFiles: 1,
+        currentFile: 'src/Logo.tsx',
+      }),
+    ]);
+    // Same graph, in the same order
+    expect([...second.graph.nodes.keys()]).toEqual([
+      ...first.graph.nodes.keys(),
+    ]);
+    expect(second.graph.edges).toEqual(first.graph.edges);
+  });
+
+  it('別のプロジェクトの同じパスのファイルはキャッシュを共有しないこと', async () => {
+    const cache = createMemoryCache();
+    await analyzeProject(project, { ...options, cache });
+
+    const other = await analyzeProject(
+      createDirectoryHandle({ src: sources }, 'other-app'),
+      { ...options, cache }
+    );
+
+    expect(other.filesReparsed).toBe(3);
+    expect(
+      [...cache.entries.values()].map((entry) => entry.project).sort()
+    ).toEqual(['app', 'app', 'app', 'other-app', 'other-app', 'other-app']);
+  });
+
+  it('インポート先が変わったファイルはキャッシュがあっても再解析すること', async () => {
+    const cache = createMemoryCache();
+    await analyzeProject(project, { ...options, cache });
+
+    // Header.tsx moves to Header/index.tsx: App.tsx is unchanged but resolves differently
+    const { 'Header.tsx': header, ...rest } = sources;
+    const moved = createDirectoryHandle({
+      src: {
+        ...rest,
+        Header: {
+          'index.tsx': (header as string).replace('./Logo', '../Logo'),
+        },
+      },
+    });
+    const result = await analyzeProject(moved, { ...options, cache });
+
+    expect(result.filesReparsed).toBe(2);
+    expect(result.filesFromCache).toBe(1);
+    expect(result.graph.edges).toHaveLength(2);
+  });
+
+  it('キャッシュから読み込んだコンポーネントは現在のプロファイルで再計算されること', async () => {
+    const cache = createMemoryCache();
+    const first = await analyzeProject(project, { ...options, cache });
+
+    // Pretend the cached scores came from a different profile
+    for (const entry of cache.entries.values()) {
+      for (const component of entry.module.components) {
+        component.complexity = 99;
+      }
+    }
+    const second = await analyzeProject(project, { ...options, cache });
+
+    expect(second.filesFromCache).toBe(3);
+    expect(second.complexityProfile).toEqual(DEFAULT_COMPLEXITY_PROFILE);
+    expect(
+      [...second.graph.nodes.values()].map((node) => node.complexity)
+    ).toEqual([...first.graph.nodes.values()].map((node) => node.complexity));
+  });
+
+  it('キャッシュの読み書きに失敗しても解析できること', async () => {
+    const failing: ParseCache = {
+      getEntries: () => Promise.reject(new Error('Quota exceeded')),
+      putEntries: () => Promise.reject(new Error('Quota exceeded')),
+    };
+
+    const result = await analyzeProject(project, {
+      ...options,
+      cache: failing,
+    });
+
+    expect(result.filesReparsed).toBe(3);
+    expect(result.componentsFound).toBe(3);
+  });
+
+  it('gitリポジトリでなければ履歴なしで解析すること', async () => {
+    const result = await analyzeProject(project, options);
+
+    expect(result.gitHistory).toBeNull();
+    expect(
+      result.graph.nodes.get('src/Logo.tsx:Logo')?.component.history
+    ).toBeUndefined();
+  });
+
+  it('HEADが変わっていなければ前回の履歴をコンポーネントに付与すること', async () => {
+    const head = 'a'.repeat(40);
+    const repository = createDirectoryHandle({
+      '.git': {
+        HEAD: 'ref: refs/heads/main\n',
+        refs: { heads: { main: `${head}\n` } },
+      },
+      src: sources,
+    });
+    const logoHistory = {
+      commitCount: 3,
+      lastModified: Date.parse('2024-03-01T10:00:00Z'),
+      authors: ['Alice', 'Bob'],
+    };
+    const previousGitHistory = {
+      head,
+      files: new Map([['src/Logo.tsx', logoHistory]]),
+      commitsRead: 3,
+      truncated: false,
+    };
+
+    const result = await analyzeProject(repository, {
+      ...options,
+      previousGitHistory,
+    });
+
+    expect(result.gitHistory).toBe(previousGitHistory);
+    expect(
+      result.graph.nodes.get('src/Logo.tsx:Logo')?.component.history
+    ).toEqual(logoHistory);
+    expect(
+      result.graph.nodes.get('src/App.tsx:App')?.component.history
+    ).toBeUndefined();
+  });
+
+  it('中断するとAbortErrorでrejectされ、ワーカーが停止されること', async () => {
+    const controller = new AbortController();
+    let terminated = 0;
+
+    const analysis = analyzeProject(project, {
+      poolSize: 1,
+      signal: controller.signal,
+      createWorker: () => {
+        const worker = createInlineWorker(handleAnalysisMessage);
+        const terminate = worker.terminate;
+        worker.terminate = () => {
+          terminated++;
+          terminate();
+        };
+        return worker;
+      },
+      onProgress: (next) => {
+        if (next.phase === 'parsing') {
+          controller.abort();
+        }
+      },
+    });
+
+    const error = await analysis.catch((e) => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(terminated).toBe(1);
+  });
+
+  it('開始前に中断されていれば走査しないこと', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const progress: AnalysisProgress[] = [];
+
+    const error = await analyzeProject(project, {
+      ...options,
+      signal: controller.signal,
+      onProgress: (next) => progress.push(next),
+    }).catch((e) => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(progress).toHaveLength(0);
+  });
+});
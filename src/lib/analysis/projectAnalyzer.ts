@@ -0,0 +1,309 @@
+import { scanDirectory, readTextFile } from '@/lib/fileSystem';
+import { loadPathAliases } from '@/lib/parser/tsconfigLoader';
+import {
+  loadProjectConfig,
+  type ProjectConfig,
+} from '@/lib/config/projectConfig';
+import { ModuleResolver } from '@/lib/parser/moduleResolver';
+import {
+  calculateComplexityScore,
+  getComplexityInputs,
+} from '@/lib/complexity/complexityProfile';
+import {
+  getImportResolutions,
+  getParseCacheKey,
+  isCacheEntryCurrent,
+  type ParseCache,
+  type ParseCacheEntry,
+} from '@/lib/cache/parseCache';
+import {
+  handleAnalysisMessage,
+  type AnalysisRequest,
+  type AnalysisResponse,
+  type AnalysisTaskProgress,
+  type ScoredGraph,
+} from '@/lib/analysis/analysisTasks';
+import {
+  WorkerPool,
+  createInlineWorker,
+  type WorkerLike,
+} from '@/lib/workers/workerPool';
+import { loadGitHistory, type GitHistory } from '@/lib/git/gitHistory';
+import type {
+  AnalysisProgress,
+  ComplexityProfile,
+  FileHistory,
+  FileInfo,
+  ParsedModule,
+} from '@/types';
+
+/**
+ * Files per parse task: small enough to spread over the workers and report
+ * progress often, large enough to keep messaging overhead low
+ */
+const PARSE_BATCH_SIZE = 25;
+
+const MAX_WORKERS = 4;
+
+/**
+ * Options for analyzeProject
+ */
+export type AnalyzeProjectOptions = {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Aborting rejects the analysis with an AbortError and stops the workers
+  signal?: AbortSignal;
+  // Defaults to Web Workers, or in-thread workers where they are unavailable
+  createWorker?: () => WorkerLike;
+  poolSize?: number;
+  // Parse results of unchanged files are reused from here
+  cache?: ParseCache | null;
+  // Settings to use instead of the folder's reuntangle.config.json
+  config?: ProjectConfig;
+  // History of the last run, reused when the repository's HEAD has not moved
+  previousGitHistory?: GitHistory | null;
+};
+
+export type ProjectAnalysis = ScoredGraph & {
+  filesScanned: number;
+  // Files parsed in this run, and files whose parse result came from the cache
+  filesReparsed: number;
+  filesFromCache: number;
+  componentsFound: number;
+  complexityProfile: ComplexityProfile;
+  // Null when the folder is not a git repository
+  gitHistory: GitHistory | null;
+};
+
+/**
+ * Scan a project directory, then parse its files and build the dependency
+ * graph on a pool of workers. With a cache, only files whose content (or
+ * import resolution) changed since the last run are parsed again.
+ */
+export async function analyzeProject(
+  directoryHandle: FileSystemDirectoryHandle,
+  options: AnalyzeProjectOptions = {}
+): Promise<ProjectAnalysis> {
+  const { onProgress, signal, cache } = options;
+  signal?.throwIfAborted();
+
+  // Read git history alongside parsing; an unreadable repository only means
+  // no history
+  const gitHistoryPromise = loadGitHistory(directoryHandle, {
+    signal,
+    previous: options.previousGitHistory,
+  }).catch(() => null);
+
+  // Scan directory for React files
+  let filesScanned = 0;
+  const files = await scanDirectory(directoryHandle, '', {
+    signal,
+    onFileFound: (path) =>
+      onProgress?.({
+        phase: 'scanning',
+        filesScanned: ++filesScanned,
+        filesParsed: 0,
+        totalFiles: 0,
+        currentFile: path,
+      }),
+  });
+
+  // Read path aliases so alias imports resolve like relative ones
+  const readFile = (path: string) => readTextFile(directoryHandle, path);
+  const aliases = await loadPathAliases(readFile);
+
+  // Per-project complexity weights, thresholds and parser settings
+  const { complexity: complexityProfile, parser: parserConfig } =
+    options.config ?? (await loadProjectConfig(readFile));
+
+  const filePaths = files.map((file) => file.path);
+  const resolver = new ModuleResolver(filePaths, aliases);
+  const project = directoryHandle.name;
+  const keys = files.map((file) =>
+    getParseCacheKey(file, { project, hocNames: parserConfig.hocNames })
+  );
+  // An unavailable cache only means parsing everything
+  const cachedEntries: Map<string, ParseCacheEntry> = cache
+    ? await cache.getEntries(keys).catch(() => new Map())
+    : new Map();
+  signal?.throwIfAborted();
+
+  // Reuse cached results, re-scored with the current profile
+  const modules: Array<ParsedModule | undefined> = files.map((_, i) => {
+    const entry = cachedEntries.get(keys[i]);
+    return entry && isCacheEntryCurrent(entry, resolver)
+      ? rescoreModule(entry.module, complexityProfile)
+      : undefined;
+  });
+  const parseIndexes = modules.flatMap((module, i) => (module ? [] : [i]));
+  const filesToParse = parseIndexes.map((i) => files[i]);
+
+  const pool = new WorkerPool<
+    AnalysisRequest,
+    AnalysisTaskProgress,
+    AnalysisResponse
+  >({
+    size: options.poolSize ?? getDefaultPoolSize(),
+    createWorker: options.createWorker ?? createAnalysisWorker,
+  });
+  const cancel = () => pool.terminate();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    // Parse files in batches, resolving imports against all scanned files
+    let filesParsed = 0;
+    const responses = await Promise.all(
+      chunk(filesToParse, PARSE_BATCH_SIZE).map((batch) =>
+        pool.run(
+          {
+            type: 'parse',
+            files: batch,
+            filePaths,
+            aliases,
+            hocNames: parserConfig.hocNames,
+            complexityProfile,
+          },
+          (filePath) =>
+            onProgress?.({
+              phase: 'parsing',
+              filesScanned: files.length,
+              filesParsed: ++filesParsed,
+              totalFiles: filesToParse.length,
+              currentFile: filePath,
+            })
+        )
+      )
+    );
+    const parsedModules = responses.flatMap((response) =>
+      response.type === 'parsed' ? response.modules : []
+    );
+    parsedModules.forEach((module, i) => {
+      modules[parseIndexes[i]] = module;
+    });
+    const parsedOrCached = modules as ParsedModule[];
+
+    // Failing to write the cache only costs a reparse next time
+    await cache
+      ?.putEntries(
+        parsedModules.map((module, i) => ({
+          key: keys[parseIndexes[i]],
+          project,
+          filePath: module.filePath,
+          module,
+          resolutions: getImportResolutions(module, resolver),
+        }))
+      )
+      .catch(() => {});
+
+    onProgress?.({
+      phase: 'history',
+      filesScanned: files.length,
+      filesParsed: filesToParse.length,
+      totalFiles: filesToParse.length,
+      currentFile: null,
+    });
+    const gitHistory = await gitHistoryPromise;
+    signal?.throwIfAborted();
+    const allModules = gitHistory
+      ? parsedOrCached.map((module) =>
+          withHistory(module, gitHistory.files.get(module.filePath))
+        )
+      : parsedOrCached;
+
+    // Build dependency graph
+    onProgress?.({
+      phase: 'building',
+      filesScanned: files.length,
+      filesParsed: filesToParse.length,
+      totalFiles: filesToParse.length,
+      currentFile: null,
+    });
+    const built = await pool.run({
+      type: 'build',
+      modules: allModules,
+      complexityProfile,
+    });
+    if (built.type !== 'built') {
+      throw new Error(`Unexpected worker response: ${built.type}`);
+    }
+
+    return {
+      ...built.result,
+      filesScanned: files.length,
+      filesReparsed: filesToParse.length,
+      filesFromCache: files.length - filesToParse.length,
+      componentsFound: allModules.reduce(
+        (sum, module) => sum + module.components.length,
+        0
+      ),
+      complexityProfile,
+      gitHistory,
+    };
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    pool.terminate();
+  }
+}
+
+/**
+ * Leave one core for the UI thread
+ */
+function getDefaultPoolSize(): number {
+  const cores =
+    typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+function createAnalysisWorker(): WorkerLike {
+  if (typeof Worker === 'undefined') {
+    return createInlineWorker(handleAnalysisMessage);
+  }
+  return new Worker(new URL('./analysis.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+}
+
+/**
+ * Cached scores were computed with the profile of their run
+ */
+function rescoreModule(
+  module: ParsedModule,
+  profile: ComplexityProfile
+): ParsedModule {
+  return {
+    ...module,
+    components: module.components.map((component) => ({
+      ...component,
+      complexity: calculateComplexityScore(
+        getComplexityInputs(component),
+        profile
+      ),
+    })),
+  };
+}
+
+/**
+ * History is attached after caching, as it changes without the file changing
+ */
+function withHistory(
+  module: ParsedModule,
+  history: FileHistory | undefined
+): ParsedModule {
+  if (!history) {
+    return module;
+  }
+  return {
+    ...module,
+    components: module.components.map((component) => ({
+      ...component,
+      history,
+    })),
+  };
+}
+
+function chunk(files: FileInfo[], size: number): FileInfo[][] {
+  const batches: FileInfo[][] = [];
+  for (let i = 0; i < files.length; i += size) {
+    batches.push(files.slice(i, i + size));
+  }
+  return batches;
+}
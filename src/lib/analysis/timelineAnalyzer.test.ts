@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { analyzeTimeline, getTimelineTrend } from './timelineAnalyzer';
+import { handleAnalysisMessage } from './analysisTasks';
+import { createInlineWorker, isAbortError } from '@/lib/workers/workerPool';
+import { listCommits } from '@/lib/git/gitTimeline';
+import { createNodeDirectoryHandle } from '@/cli/nodeDirectoryHandle';
+import type { TimelineProgress } from './timelineAnalyzer';
+
+const options = {
+  poolSize: 1,
+  createWorker: () => createInlineWorker(handleAnalysisMessage),
+};
+
+describe('analyzeTimeline', () => {
+  let root: string;
+  let repository: string;
+
+  const git = (args: string[], date = '') =>
+    execFileSync('git', args, {
+      cwd: repository,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Alice',
+        GIT_AUTHOR_EMAIL: 'alice@example.com',
+        GIT_COMMITTER_NAME: 'Alice',
+        GIT_COMMITTER_EMAIL: 'alice@example.com',
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+        GIT_CONFIG_GLOBAL: '/dev/null',
+        GIT_CONFIG_NOSYSTEM: '1',
+      },
+      stdio: 'pipe',
+    }).toString();
+
+  const write = (file: string, content: string) =>
+    writeFile(path.join(repository, 'src', file), content);
+
+  const commit = (message: string, date: string) => {
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', message], date);
+  };
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'reuntangle-timeline-'));
+    repository = path.join(root, 'repo');
+    await mkdir(path.join(repository, 'src'), { recursive: true });
+    git(['init', '-q', '-b', 'main']);
+
+    await write('App.tsx', `export default function App() { return <div />; }`);
+    commit('Add App', '2024-01-01T10:00:00Z');
+
+    await write(
+      'App.tsx',
+      `import Header from './Header';
+       export default function App() { return <Header />; }`
+    );
+    await write(
+      'Header.tsx',
+      `export default function Header() { return <header />; }`
+    );
+    commit('Add Header', '2024-02-01T10:00:00Z');
+
+    // Header and Logo render each other
+    await write(
+      'Header.tsx',
+      `import Logo from './Logo';
+       export default function Header() { return <Logo />; }`
+    );
+    await write(
+      'Logo.tsx',
+      `import Header from './Header';
+       export default function Logo() { return <Header />; }`
+    );
+    commit('Add Logo', '2024-03-01T10:00:00Z');
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('各コミット時点のプロジェクトを古い順に解析できること', async () => {
+    const handle = createNodeDirectoryHandle(repository);
+    const commits = (await listCommits(handle)).reverse();
+    const progress: TimelineProgress[] = [];
+
+    const snapshots = await analyzeTimeline(handle, commits, {
+      ...options,
+      onProgress: (next) => progress.push(next),
+    });
+
+    expect(snapshots.map((snapshot) => snapshot.commit)).toEqual(commits);
+    expect(
+      snapshots.map((snapshot) =>
+        Array.from(snapshot.analysis.graph.nodes.keys())
+      )
+    ).toEqual([
+      ['src/App.tsx:App'],
+      ['src/App.tsx:App', 'src/Header.tsx:Header'],
+      ['src/App.tsx:App', 'src/Header.tsx:Header', 'src/Logo.tsx:Logo'],
+    ]);
+    expect(
+      progress.map(({ commitsAnalyzed, totalCommits, commit }) => [
+        commitsAnalyzed,
+        totalCommits,
+        commit.subject,
+      ])
+    ).toEqual([
+      [0, 3, 'Add App'],
+      [1, 3, 'Add Header'],
+      [2, 3, 'Add Logo'],
+    ]);
+  });
+
+  it('コミットごとのメトリクスの推移を取得できること', async () => {
+    const handle = createNodeDirectoryHandle(repository);
+    const commits = (await listCommits(handle)).reverse();
+
+    const trend = getTimelineTrend(
+      await analyzeTimeline(handle, commits, options)
+    );
+
+    expect(trend.map((point) => point.label)).toEqual(
+      commits.map((commit) => commit.id.slice(0, 7))
+    );
+    expect(trend.map((point) => point.totalComponents)).toEqual([1, 2, 3]);
+    expect(trend.map((point) => point.cycleCount)).toEqual([0, 0, 1]);
+  });
+
+  it('中断するとAbortErrorでrejectされること', async () => {
+    const handle = createNodeDirectoryHandle(repository);
+    const commits = (await listCommits(handle)).reverse();
+    const controller = new AbortController();
+
+    const error = await analyzeTimeline(handle, commits, {
+      ...options,
+      signal: controller.signal,
+      onProgress: ({ commitsAnalyzed }) => {
+        if (commitsAnalyzed === 1) {
+          controller.abort();
+        }
+      },
+    }).catch((e) => e);
+
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('リポジトリでないフォルダの場合はエラーを投げること', async () => {
+    await expect(
+      analyzeTimeline(
+        createNodeDirectoryHandle(path.join(repository, 'src')),
+        []
+      )
+    ).rejects.toThrow('Not a git repository: src');
+  });
+});
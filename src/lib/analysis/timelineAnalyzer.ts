@@ -0,0 +1,90 @@
+import type { MetricsTrendPoint } from '@/types';
+import { openGitObjectStore } from '@/lib/git/gitObjectStore';
+import {
+  createCommitDirectoryHandle,
+  type CommitSummary,
+} from '@/lib/git/gitTimeline';
+import {
+  analyzeProject,
+  type AnalyzeProjectOptions,
+  type ProjectAnalysis,
+} from './projectAnalyzer';
+
+/**
+ * The project analysed as it was at one commit
+ */
+export type TimelineSnapshot = {
+  commit: CommitSummary;
+  analysis: ProjectAnalysis;
+};
+
+export type TimelineProgress = {
+  commitsAnalyzed: number;
+  totalCommits: number;
+  // Commit being analysed
+  commit: CommitSummary;
+};
+
+/**
+ * Options for analyzeTimeline; pass config so every commit is scored with
+ * the same settings rather than its own reuntangle.config.json
+ */
+export type AnalyzeTimelineOptions = Omit<
+  AnalyzeProjectOptions,
+  'onProgress' | 'previousGitHistory'
+> & {
+  onProgress?: (progress: TimelineProgress) => void;
+};
+
+/**
+ * Analyse the project at each commit, in the given order, reading files from
+ * the git object store instead of the working tree. With a cache, files that
+ * did not change between commits are parsed once.
+ */
+export async function analyzeTimeline(
+  directoryHandle: FileSystemDirectoryHandle,
+  commits: CommitSummary[],
+  options: AnalyzeTimelineOptions = {}
+): Promise<TimelineSnapshot[]> {
+  const { onProgress, ...analyzeOptions } = options;
+
+  const store = await openGitObjectStore(directoryHandle);
+  if (!store) {
+    throw new Error(`Not a git repository: ${directoryHandle.name}`);
+  }
+
+  const snapshots: TimelineSnapshot[] = [];
+  for (const commit of commits) {
+    options.signal?.throwIfAborted();
+    onProgress?.({
+      commitsAnalyzed: snapshots.length,
+      totalCommits: commits.length,
+      commit,
+    });
+
+    const commitHandle = await createCommitDirectoryHandle(
+      store,
+      commit.id,
+      directoryHandle.name
+    );
+    snapshots.push({
+      commit,
+      analysis: await analyzeProject(commitHandle, analyzeOptions),
+    });
+  }
+  return snapshots;
+}
+
+/**
+ * Metric trend lines across the analysed commits
+ */
+export function getTimelineTrend(
+  snapshots: TimelineSnapshot[]
+): MetricsTrendPoint[] {
+  return snapshots.map(({ commit, analysis }) => ({
+    label: commit.id.slice(0, 7),
+    totalComponents: analysis.metrics.totalComponents,
+    averageComplexity: analysis.metrics.averageComplexity,
+    cycleCount: analysis.metrics.circularDependencies,
+  }));
+}
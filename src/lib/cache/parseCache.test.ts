@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MemoryParseCache,
+  getImportResolutions,
+  getParseCacheKey,
+  hashContent,
+  isCacheEntryCurrent,
+} from './parseCache';
+import { ComponentParser } from '@/lib/parser/componentParser';
+import {
+  DEFAULT_HOC_NAMES,
+  PARSER_VERSION,
+} from '@/lib/parser/parserConstants';
+import { ModuleResolver } from '@/lib/parser/moduleResolver';
+import type { FileInfo } from '@/types';
+
+const appFile: FileInfo = {
+  path: 'src/App.tsx',
+  name: 'App.tsx',
+  extension: '.tsx',
+  content: `
+    import Header from './Header';
+    import { Button } from '@/ui/Button';
+    export default function App() { return <Header><Button /></Header>; }
+  `,
+};
+
+describe('parseCache', () => {
+  describe('hashContent', () => {
+    it('同じ内容には同じハッシュ、異なる内容には異なるハッシュを返すこと', () => {
+      expect(hashContent('abc')).toBe(hashContent('abc'));
+      expect(hashContent('abc')).not.toBe(hashContent('abd'));
+      expect(hashContent('')).not.toBe(hashContent(' '));
+    });
+  });
+
+  describe('getParseCacheKey', () => {
+    it('パス・内容のハッシュ・パーサーのバージョンからキーを作ること', () => {
+      const key = getParseCacheKey(appFile);
+
+      expect(key).toBe(
+        `:${PARSER_VERSION}:${hashContent(DEFAULT_HOC_NAMES.join(','))}:${hashContent(appFile.content)}:src/App.tsx`
+      );
+      expect(
+        getParseCacheKey({ ...appFile, content: `${appFile.content}\n` })
+      ).not.toBe(key);
+      expect(getParseCacheKey({ ...appFile, path: 'src/Other.tsx' })).not.toBe(
+        key
+      );
+    });
+
+    it('HOC名のリストが変わるとキーが変わること', () => {
+      expect(getParseCacheKey(appFile, { hocNames: ['withAuth'] })).not.toBe(
+        getParseCacheKey(appFile)
+      );
+      expect(getParseCacheKey(appFile, { hocNames: DEFAULT_HOC_NAMES })).toBe(
+        getParseCacheKey(appFile)
+      );
+    });
+
+    it('同じパスでもプロジェクトが異なればキーが異なること', () => {
+      const key = getParseCacheKey(appFile, { project: 'shop' });
+
+      expect(key.startsWith('shop:')).toBe(true);
+      expect(getParseCacheKey(appFile, { project: 'blog' })).not.toBe(key);
+    });
+  });
+
+  describe('isCacheEntryCurrent', () => {
+    const createEntry = (resolver: ModuleResolver) => {
+      const module = new ComponentParser({ resolver }).parseModule(appFile);
+      return {
+        key: getParseCacheKey(appFile),
+        project: 'app',
+        filePath: appFile.path,
+        module,
+        resolutions: getImportResolutions(module, resolver),
+      };
+    };
+
+    it('インポートの解決結果が同じならキャッシュが有効であること', () => {
+      const entry = createEntry(
+        new ModuleResolver(['src/App.tsx', 'src/Header.tsx'])
+      );
+
+      expect(
+        isCacheEntryCurrent(
+          entry,
+          new ModuleResolver(['src/App.tsx', 'src/Header.tsx', 'src/New.tsx'])
+        )
+      ).toBe(true);
+    });
+
+    it('インポート先のファイルが増減するとキャッシュが無効になること', () => {
+      const entry = createEntry(
+        new ModuleResolver(['src/App.tsx', 'src/Header.tsx'])
+      );
+
+      expect(
+        isCacheEntryCurrent(entry, new ModuleResolver(['src/App.tsx']))
+      ).toBe(false);
+      expect(
+        isCacheEntryCurrent(
+          entry,
+          new ModuleResolver(['src/App.tsx', 'src/Header/index.tsx'])
+        )
+      ).toBe(false);
+    });
+
+    it('パスエイリアスが変わるとキャッシュが無効になること', () => {
+      const filePaths = ['src/App.tsx', 'src/Header.tsx', 'src/ui/Button.tsx'];
+      const entry = createEntry(new ModuleResolver(filePaths));
+
+      expect(
+        isCacheEntryCurrent(
+          entry,
+          new ModuleResolver(filePaths, {
+            pathsBase: '',
+            paths: { '@/*': ['src/*'] },
+          })
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('MemoryParseCache', () => {
+    it('同じファイルの複数のバージョンを保持できること', async () => {
+      const cache = new MemoryParseCache();
+      const resolver = new ModuleResolver([appFile.path]);
+      const entries = [
+        appFile,
+        { ...appFile, content: 'export default function App() {}' },
+      ].map((file) => {
+        const module = new ComponentParser({ resolver }).parseModule(file);
+        return {
+          key: getParseCacheKey(file),
+          project: 'app',
+          filePath: file.path,
+          module,
+          resolutions: getImportResolutions(module, resolver),
+        };
+      });
+
+      await cache.putEntries(entries);
+      const found = await cache.getEntries([
+        entries[0].key,
+        entries[1].key,
+        'missing',
+      ]);
+
+      expect(Array.from(found.keys())).toEqual([
+        entries[0].key,
+        entries[1].key,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  DEFAULT_HOC_NAMES,
+  PARSER_VERSION,
+} from '@/lib/parser/parserConstants';
+import type { ModuleResolver } from '@/lib/parser/moduleResolver';
+import type { FileInfo, ParsedModule } from '@/types';
+
+const DATABASE_NAME = 'reuntangle';
+const DATABASE_VERSION = 2;
+const STORE_NAME = 'parsedModules';
+const FILE_INDEX_NAME = 'projectFilePath';
+
+/**
+ * How the parser resolved an import source. A cached module is only valid
+ * while every source still resolves the same way, since adding, removing
+ * or renaming other files and path aliases can change it.
+ */
+export type ImportResolution = {
+  source: string;
+  isLocal: boolean;
+  resolvedPath: string | null;
+};
+
+/**
+ * Parse result of one file version
+ */
+export type ParseCacheEntry = {
+  // See getParseCacheKey
+  key: string;
+  // Name of the analysed folder; file paths are relative to it
+  project: string;
+  filePath: string;
+  module: ParsedModule;
+  resolutions: ImportResolution[];
+};
+
+/**
+ * Storage for parse results
+ */
+export type ParseCache = {
+  getEntries(keys: string[]): Promise<Map<string, ParseCacheEntry>>;
+  putEntries(entries: ParseCacheEntry[]): Promise<void>;
+};
+
+/**
+ * What a cache key depends on besides the file
+ */
+export type ParseCacheKeyOptions = {
+  // Name of the analysed folder, so projects sharing paths keep their entries
+  project?: string;
+  // HOC names the parser unwraps (defaults to DEFAULT_HOC_NAMES)
+  hocNames?: string[];
+};
+
+/**
+ * Cache key of a file: project, path, content hash, parser version and the
+ * HOC names the parser unwraps
+ */
+export function getParseCacheKey(
+  file: FileInfo,
+  options: ParseCacheKeyOptions = {}
+): string {
+  const { project = '', hocNames = DEFAULT_HOC_NAMES } = options;
+  return `${project}:${PARSER_VERSION}:${hashContent(hocNames.join(','))}:${hashContent(file.content)}:${file.path}`;
+}
+
+/**
+ * 53-bit string hash (cyrb53) as hex; collisions are negligible at the
+ * scale of a project and it needs no async crypto API
+ */
+export function hashContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Record how every import and re-export source of a module resolves
+ */
+export function getImportResolutions(
+  module: ParsedModule,
+  resolver: ModuleResolver
+): ImportResolution[] {
+  const sources = new Set([
+    ...module.components.flatMap((component) =>
+      component.imports.map((imp) => imp.source)
+    ),
+    ...module.reExports.map((reExport) => reExport.source),
+  ]);
+
+  return Array.from(sources, (source) => ({
+    source,
+    isLocal: resolver.isLocalSource(source),
+    resolvedPath: resolver.resolve(source, module.filePath),
+  }));
+}
+
+/**
+ * Check whether a cached module still resolves its imports the same way
+ */
+export function isCacheEntryCurrent(
+  entry: ParseCacheEntry,
+  resolver: ModuleResolver
+): boolean {
+  return entry.resolutions.every(
+    ({ source, isLocal, resolvedPath }) =>
+      resolver.isLocalSource(source) === isLocal &&
+      resolver.resolve(source, entry.filePath) === resolvedPath
+  );
+}
+
+/**
+ * IndexedDB cache, or null where IndexedDB is unavailable
+ */
+export function createParseCache(): ParseCache | null {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbParseCache() : null;
+}
+
+/**
+ * Options for IndexedDbParseCache
+ */
+export type IndexedDbParseCacheOptions = {
+  databaseName?: string;
+};
+
+/**
+ * Parse cache kept in memory, with every version of each file; for analysing
+ * several commits without evicting the persisted results of the working tree
+ */
+export class MemoryParseCache implements ParseCache {
+  private readonly entries = new Map<string, ParseCacheEntry>();
+
+  async getEntries(keys: string[]): Promise<Map<string, ParseCacheEntry>> {
+    return new Map(
+      keys.flatMap((key) => {
+        const entry = this.entries.get(key);
+        return entry ? [[key, entry]] : [];
+      })
+    );
+  }
+
+  async putEntries(entries: ParseCacheEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.key, entry);
+    }
+  }
+}
+
+/**
+ * Parse cache persisted in IndexedDB, keeping one entry per file of each
+ * project
+ */
+export class IndexedDbParseCache implements ParseCache {
+  private readonly databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDbParseCacheOptions = {}) {
+    this.databaseName = options.databaseName ?? DATABASE_NAME;
+  }
+
+  async getEntries(keys: string[]): Promise<Map<string, ParseCacheEntry>> {
+    const database = await this.open();
+    const store = database
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME);
+
+    const entries = await Promise.all(
+      keys.map(
+        (key) =>
+          requestToPromise(store.get(key)) as Promise<
+            ParseCacheEntry | undefined
+          >
+      )
+    );
+
+    return new Map(
+      entries.flatMap((entry) => (entry ? [[entry.key, entry]] : []))
+    );
+  }
+
+  async putEntries(entries: ParseCacheEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const byFile = store.index(FILE_INDEX_NAME);
+
+    for (const entry of entries) {
+      // Drop results for older contents of the same file
+      const cursorRequest = byFile.openCursor(
+        IDBKeyRange.only([entry.project, entry.filePath])
+      );
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          if (cursor.primaryKey !== entry.key) {
+            cursor.delete();
+          }
+          cursor.continue();
+        }
+      };
+      store.put(entry);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        // Entries from before projects were told apart are dropped
+        if (database.objectStoreNames.contains(STORE_NAME)) {
+          database.deleteObjectStore(STORE_NAME);
+        }
+        const store = database.createObjectStore(STORE_NAME, {
+          keyPath: 'key',
+        });
+        store.createIndex(FILE_INDEX_NAME, ['project', 'filePath']);
+      };
+      this.database = requestToPromise(request);
+    }
+    return this.database;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
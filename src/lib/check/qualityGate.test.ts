@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CHECK_CONFIG,
+  getCheckConfigError,
+  mergeCheckConfig,
+  runQualityGate,
+  type CheckConfig,
+} from './qualityGate';
+import { buildGraphFromFiles, createFile } from '@/test/graphFixtures';
+import type { DependencyGraph } from '@/types';
+
+/**
+ * App renders Header; Header and Nav import each other; the legacy Banner
+ * and Footer are not rendered anywhere
+ */
+function createGraph(): DependencyGraph {
+  const graph = buildGraphFromFiles([
+    createFile(
+      'src/app/page.tsx',
+      `import Header from '../components/Header';
+       export default function Page() { return <Header />; }`
+    ),
+    createFile(
+      'src/components/Header.tsx',
+      `import Nav from './Nav';
+       export default function Header() { return <Nav />; }`
+    ),
+    createFile(
+      'src/components/Nav.tsx',
+      `import Header from './Header';
+       export default function Nav() { return <Header />; }`
+    ),
+    createFile(
+      'src/components/Footer.tsx',
+      `export default function Footer() { return <footer />; }`
+    ),
+    createFile(
+      'src/legacy/widgets/Banner.tsx',
+      `export default function Banner() { return <div />; }`
+    ),
+  ]);
+
+  // Fixed scores so the thresholds are easy to follow
+  const scores: Record<string, [number, number]> = {
+    Page: [10, 0],
+    Header: [80, 1],
+    Nav: [40, 2],
+    Footer: [20, 0],
+    Banner: [90, 0],
+  };
+  for (const node of graph.nodes.values()) {
+    [node.complexity, node.depth] = scores[node.component.name];
+  }
+  return graph;
+}
+
+const createConfig = (
+  rules: Partial<CheckConfig['rules']>,
+  allowlist: CheckConfig['allowlist'] = []
+): CheckConfig => ({
+  rules: { ...DEFAULT_CHECK_CONFIG.rules, ...rules },
+  allowlist,
+});
+
+describe('qualityGate', () => {
+  describe('runQualityGate', () => {
+    it('循環依存を違反として報告すること', () => {
+      const result = runQualityGate(createGraph(), DEFAULT_CHECK_CONFIG);
+
+      expect(result.violations).toEqual([
+        {
+          rule: 'no-new-cycles',
+          componentIds: expect.arrayContaining([
+            'src/components/Header.tsx:Header',
+            'src/components/Nav.tsx:Nav',
+          ]),
+          filePath: expect.stringMatching(/^src\/components\//),
+          message: expect.stringMatching(
+            /^Circular dependency (Header → Nav → Header|Nav → Header → Nav)$/
+          ),
+        },
+      ]);
+      expect(result.allowed).toEqual([]);
+    });
+
+    it('複雑度と深さの閾値を超えたコンポーネントを報告すること', () => {
+      const result = runQualityGate(
+        createGraph(),
+        createConfig({
+          'no-new-cycles': false,
+          'max-complexity': 80,
+          'max-depth': 1,
+        })
+      );
+
+      expect(result.violations).toEqual([
+        {
+          rule: 'max-complexity',
+          componentIds: ['src/legacy/widgets/Banner.tsx:Banner'],
+          filePath: 'src/legacy/widgets/Banner.tsx',
+          message: 'Banner has complexity 90 (max 80)',
+        },
+        {
+          rule: 'max-depth',
+          componentIds: ['src/components/Nav.tsx:Nav'],
+          filePath: 'src/components/Nav.tsx',
+          message: 'Nav is at depth 2 (max 1)',
+        },
+      ]);
+    });
+
+    it('未使用コンポーネントが上限を超えた場合だけすべて報告すること', () => {
+      const graph = createGraph();
+
+      expect(
+        runQualityGate(
+          graph,
+          createConfig({ 'no-new-cycles': false, 'max-unused': 2 })
+        ).violations
+      ).toEqual([]);
+
+      const result = runQualityGate(
+        graph,
+        createConfig({ 'no-new-cycles': false, 'max-unused': 1 })
+      );
+      expect(result.violations.map((violation) => violation.message)).toEqual(
+        expect.arrayContaining([
+          'Footer is unused (2 unused, max 1)',
+          'Banner is unused (2 unused, max 1)',
+        ])
+      );
+      expect(result.violations).toHaveLength(2);
+    });
+
+    it('許可リストに一致する違反は除外されること', () => {
+      const result = runQualityGate(
+        createGraph(),
+        createConfig({ 'max-complexity': 50, 'max-unused': 1 }, [
+          { path: 'src/legacy/**' },
+          { rule: 'max-complexity', component: 'Header' },
+          { rule: 'no-new-cycles', component: 'Nav' },
+        ])
+      );
+
+      // The cycle stays because Header is not allowlisted for it, and Banner
+      // no longer counts towards the unused limit
+      expect(result.violations.map((violation) => violation.rule)).toEqual([
+        'no-new-cycles',
+      ]);
+      expect(result.allowed.map((violation) => violation.message)).toEqual([
+        'Header has complexity 80 (max 50)',
+        'Banner has complexity 90 (max 50)',
+        'Banner is unused (1 unused, max 1)',
+      ]);
+    });
+
+    it('循環の全コンポーネントが許可リストにある場合は循環を除外すること', () => {
+      const result = runQualityGate(
+        createGraph(),
+        createConfig({}, [{ rule: 'no-new-cycles', path: 'src/components/*' }])
+      );
+
+      expect(result.violations).toEqual([]);
+      expect(result.allowed).toHaveLength(1);
+    });
+
+    it('ベースラインにある循環は違反にせず、新しい循環だけを報告すること', () => {
+      const graph = createGraph();
+      const [cycle] = graph.cycleAnalysis!.cycles;
+      // The same loop, found from its other component
+      const baseline: DependencyGraph = {
+        ...graph,
+        cycleAnalysis: {
+          ...graph.cycleAnalysis!,
+          cycles: [{ ...cycle, nodeIds: [...cycle.nodeIds].reverse() }],
+        },
+      };
+
+      expect(
+        runQualityGate(graph, DEFAULT_CHECK_CONFIG, { baseline }).violations
+      ).toEqual([]);
+      expect(
+        runQualityGate(graph, DEFAULT_CHECK_CONFIG, {
+          baseline: { ...graph, cycleAnalysis: undefined },
+        }).violations.map((violation) => violation.rule)
+      ).toEqual(['no-new-cycles']);
+    });
+
+    it('パスの * はフォルダをまたがないこと', () => {
+      const result = runQualityGate(
+        createGraph(),
+        createConfig({ 'max-complexity': 50 }, [{ path: 'src/legacy/*' }])
+      );
+
+      expect(result.violations.map((violation) => violation.message)).toContain(
+        'Banner has complexity 90 (max 50)'
+      );
+    });
+  });
+
+  describe('getCheckConfigError', () => {
+    it('有効な設定または未指定の場合はnullを返すこと', () => {
+      expect(getCheckConfigError(undefined)).toBeNull();
+      expect(
+        getCheckConfigError({
+          rules: { 'no-new-cycles': false, 'max-depth': 6, 'max-unused': null },
+          allowlist: [{ rule: 'max-depth', component: 'App' }],
+        })
+      ).toBeNull();
+    });
+
+    it('無効な設定の内容を返すこと', () => {
+      expect(getCheckConfigError([])).toBe('check must be an object');
+      expect(getCheckConfigError({ rules: { 'max-files': 1 } })).toBe(
+        'Unknown check rule: max-files'
+      );
+      expect(getCheckConfigError({ rules: { 'no-new-cycles': 'yes' } })).toBe(
+        'check.rules.no-new-cycles must be true or false'
+      );
+      expect(getCheckConfigError({ rules: { 'max-depth': 2.5 } })).toBe(
+        'check.rules.max-depth must be a whole number ≥ 0, or null to turn it off'
+      );
+      expect(getCheckConfigError({ allowlist: [{ rule: 'max-depth' }] })).toBe(
+        'check.allowlist entries need a path or component string'
+      );
+      expect(
+        getCheckConfigError({ allowlist: [{ rule: 'nope', path: 'src' }] })
+      ).toBe('Unknown check rule in allowlist: nope');
+    });
+  });
+
+  describe('mergeCheckConfig', () => {
+    it('指定したルールだけをデフォルトに上書きすること', () => {
+      expect(mergeCheckConfig(undefined)).toEqual(DEFAULT_CHECK_CONFIG);
+      expect(
+        mergeCheckConfig({
+          rules: { 'max-complexity': 75, 'max-depth': false },
+        }).rules
+      ).toEqual({
+        'no-new-cycles': true,
+        'max-complexity': 75,
+        'max-depth': null,
+        'max-unused': null,
+      });
+    });
+  });
+});
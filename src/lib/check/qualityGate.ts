@@ -0,0 +1,305 @@
+import type { DependencyGraph, DependencyNode } from '@/types';
+import { isObject } from '@/lib/config/jsonValue';
+import { getCycleKey } from '@/lib/diff/graphDiff';
+
+/**
+ * Rules of the quality gate, named like lint rules
+ */
+export type CheckRule =
+  'no-new-cycles' | 'max-complexity' | 'max-depth' | 'max-unused';
+
+export const CHECK_RULES: CheckRule[] = [
+  'no-new-cycles',
+  'max-complexity',
+  'max-depth',
+  'max-unused',
+];
+
+/**
+ * Rule settings; null turns a threshold rule off
+ */
+export type CheckRules = {
+  // Fail on cycles that are not in the baseline (every cycle without one)
+  // and not allowlisted
+  'no-new-cycles': boolean;
+  // Highest complexity score a component may have
+  'max-complexity': number | null;
+  // Deepest a component may sit in the dependency chain
+  'max-depth': number | null;
+  // Most unused components allowed
+  'max-unused': number | null;
+};
+
+/**
+ * Known offender to ignore. Matches when every given field matches;
+ * a cycle is ignored only when all of its components match.
+ */
+export type AllowlistEntry = {
+  rule?: CheckRule; // All rules when omitted
+  path?: string; // File path, with * and ** wildcards
+  component?: string; // Component name
+};
+
+export type CheckConfig = {
+  rules: CheckRules;
+  allowlist: AllowlistEntry[];
+};
+
+export type CheckViolation = {
+  rule: CheckRule;
+  // Components at fault (every component of a cycle)
+  componentIds: string[];
+  filePath: string;
+  message: string;
+};
+
+/**
+ * Options for runQualityGate
+ */
+export type QualityGateOptions = {
+  // Earlier analysis whose cycles are known and pass no-new-cycles
+  baseline?: DependencyGraph | null;
+};
+
+export type CheckResult = {
+  violations: CheckViolation[];
+  // Violations ignored through the allowlist
+  allowed: CheckViolation[];
+};
+
+export const DEFAULT_CHECK_CONFIG: CheckConfig = {
+  rules: {
+    'no-new-cycles': true,
+    'max-complexity': null,
+    'max-depth': null,
+    'max-unused': null,
+  },
+  allowlist: [],
+};
+
+/**
+ * Describe what is wrong with the `check` section of a config file,
+ * or return null when it is valid (or absent)
+ */
+export function getCheckConfigError(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!isObject(value)) {
+    return 'check must be an object';
+  }
+
+  if (value.rules !== undefined) {
+    if (!isObject(value.rules)) {
+      return 'check.rules must be an object';
+    }
+    for (const [rule, setting] of Object.entries(value.rules)) {
+      if (!CHECK_RULES.includes(rule as CheckRule)) {
+        return `Unknown check rule: ${rule}`;
+      }
+      if (rule === 'no-new-cycles') {
+        if (typeof setting !== 'boolean') {
+          return 'check.rules.no-new-cycles must be true or false';
+        }
+      } else if (
+        setting !== null &&
+        setting !== false &&
+        !(Number.isInteger(setting) && (setting as number) >= 0)
+      ) {
+        return `check.rules.${rule} must be a whole number ≥ 0, or null to turn it off`;
+      }
+    }
+  }
+
+  if (value.allowlist !== undefined) {
+    if (!Array.isArray(value.allowlist)) {
+      return 'check.allowlist must be an array';
+    }
+    for (const entry of value.allowlist) {
+      if (
+        !isObject(entry) ||
+        (typeof entry.path !== 'string' &&
+          typeof entry.component !== 'string') ||
+        (entry.path !== undefined && typeof entry.path !== 'string') ||
+        (entry.component !== undefined && typeof entry.component !== 'string')
+      ) {
+        return 'check.allowlist entries need a path or component string';
+      }
+      if (
+        entry.rule !== undefined &&
+        !CHECK_RULES.includes(entry.rule as CheckRule)
+      ) {
+        return `Unknown check rule in allowlist: ${entry.rule}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Merge the `check` section of a config file over the defaults
+ * (validate it with getCheckConfigError first)
+ */
+export function mergeCheckConfig(value: unknown): CheckConfig {
+  const partial = isObject(value) ? value : {};
+  const rules = { ...DEFAULT_CHECK_CONFIG.rules };
+
+  if (isObject(partial.rules)) {
+    for (const [rule, setting] of Object.entries(partial.rules)) {
+      if (rule === 'no-new-cycles') {
+        rules[rule] = setting === true;
+      } else if (CHECK_RULES.includes(rule as CheckRule)) {
+        rules[rule as Exclude<CheckRule, 'no-new-cycles'>] =
+          typeof setting === 'number' ? setting : null;
+      }
+    }
+  }
+
+  return {
+    rules,
+    allowlist: Array.isArray(partial.allowlist)
+      ? (partial.allowlist as AllowlistEntry[])
+      : [],
+  };
+}
+
+/**
+ * Check a dependency graph against the rules
+ */
+export function runQualityGate(
+  graph: DependencyGraph,
+  config: CheckConfig,
+  options: QualityGateOptions = {}
+): CheckResult {
+  const { rules, allowlist } = config;
+  const nodes = Array.from(graph.nodes.values());
+  const result: CheckResult = { violations: [], allowed: [] };
+
+  const isAllowed = (rule: CheckRule, componentIds: string[]) =>
+    componentIds.every((id) => {
+      const node = graph.nodes.get(id);
+      return (
+        node !== undefined &&
+        allowlist.some((entry) => matchesEntry(entry, rule, node))
+      );
+    });
+  const report = (violation: CheckViolation) => {
+    if (isAllowed(violation.rule, violation.componentIds)) {
+      result.allowed.push(violation);
+    } else {
+      result.violations.push(violation);
+    }
+  };
+
+  if (rules['no-new-cycles']) {
+    const baselineCycles = new Set(
+      (options.baseline?.cycleAnalysis?.cycles ?? []).map((cycle) =>
+        getCycleKey(cycle.nodeIds)
+      )
+    );
+    for (const cycle of graph.cycleAnalysis?.cycles ?? []) {
+      if (baselineCycles.has(getCycleKey(cycle.nodeIds))) {
+        continue;
+      }
+      const names = cycle.nodeIds.map(
+        (id) => graph.nodes.get(id)?.component.name ?? id
+      );
+      report({
+        rule: 'no-new-cycles',
+        componentIds: cycle.nodeIds,
+        filePath: graph.nodes.get(cycle.nodeIds[0])?.component.filePath ?? '',
+        message: `Circular dependency ${[...names, names[0]].join(' → ')}`,
+      });
+    }
+  }
+
+  const maxComplexity = rules['max-complexity'];
+  if (maxComplexity !== null) {
+    for (const node of nodes) {
+      if (node.complexity > maxComplexity) {
+        report({
+          rule: 'max-complexity',
+          componentIds: [node.id],
+          filePath: node.component.filePath,
+          message: `${node.component.name} has complexity ${node.complexity} (max ${maxComplexity})`,
+        });
+      }
+    }
+  }
+
+  const maxDepth = rules['max-depth'];
+  if (maxDepth !== null) {
+    for (const node of nodes) {
+      if (node.depth > maxDepth) {
+        report({
+          rule: 'max-depth',
+          componentIds: [node.id],
+          filePath: node.component.filePath,
+          message: `${node.component.name} is at depth ${node.depth} (max ${maxDepth})`,
+        });
+      }
+    }
+  }
+
+  // Counted without allowlisted components; when over the limit, every
+  // remaining unused component is listed
+  const maxUnused = rules['max-unused'];
+  if (maxUnused !== null) {
+    const unused = nodes.filter((node) => node.warnings?.unused);
+    const counted = unused.filter(
+      (node) => !isAllowed('max-unused', [node.id])
+    );
+    for (const node of unused) {
+      const violation: CheckViolation = {
+        rule: 'max-unused',
+        componentIds: [node.id],
+        filePath: node.component.filePath,
+        message: `${node.component.name} is unused (${counted.length} unused, max ${maxUnused})`,
+      };
+      if (!counted.includes(node)) {
+        result.allowed.push(violation);
+      } else if (counted.length > maxUnused) {
+        result.violations.push(violation);
+      }
+    }
+  }
+
+  return result;
+}
+
+function matchesEntry(
+  entry: AllowlistEntry,
+  rule: CheckRule,
+  node: DependencyNode
+): boolean {
+  return (
+    (entry.rule === undefined || entry.rule === rule) &&
+    (entry.path === undefined ||
+      matchesPath(entry.path, node.component.filePath)) &&
+    (entry.component === undefined || entry.component === node.component.name)
+  );
+}
+
+/**
+ * Match a file path against a pattern where `**` spans folders and `*`
+ * stays within one
+ */
+function matchesPath(pattern: string, filePath: string): boolean {
+  const source = pattern
+    .split(/(\*\*\/?|\*)/)
+    .map((part) => {
+      if (part === '**/') {
+        return '(?:.*/)?';
+      }
+      if (part === '**') {
+        return '.*';
+      }
+      if (part === '*') {
+        return '[^/]*';
+      }
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(filePath);
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  calculateComplexityScore,
+  getComplexityBand,
+  getComplexityBandRange,
+  getComplexityProfileError,
+  mergeComplexityProfile,
+  rescoreGraph,
+  type ComplexityInputs,
+} from './complexityProfile';
+import { createComponent } from '@/test/graphFixtures';
+import type { DependencyGraph } from '@/types';
+
+describe('complexityProfile', () => {
+  const emptyInputs: ComplexityInputs = {
+    linesOfCode: 0,
+    dependencyCount: 0,
+    hooksCount: 0,
+    propsCount: 0,
+    externalLibraryCount: 0,
+    cyclomaticComplexity: 0,
+    cognitiveComplexity: 0,
+  };
+
+  describe('calculateComplexityScore', () => {
+    it('上限に達したメトリクスは重みどおりに加算されること', () => {
+      expect(
+        calculateComplexityScore({ ...emptyInputs, linesOfCode: 200 })
+      ).toBe(25);
+      expect(
+        calculateComplexityScore({ ...emptyInputs, linesOfCode: 1000 })
+      ).toBe(25);
+      expect(
+        calculateComplexityScore({ ...emptyInputs, dependencyCount: 5 })
+      ).toBe(10);
+    });
+
+    it('すべてのメトリクスが上限なら100になること', () => {
+      expect(
+        calculateComplexityScore({
+          linesOfCode: 200,
+          dependencyCount: 10,
+          hooksCount: 10,
+          propsCount: 15,
+          externalLibraryCount: 5,
+          cyclomaticComplexity: 10,
+          cognitiveComplexity: 15,
+        })
+      ).toBe(100);
+    });
+
+    it('プロファイルの重みと上限を適用できること', () => {
+      const profile = mergeComplexityProfile({
+        weights: {
+          linesOfCode: 1,
+          dependencies: 1,
+          hooks: 0,
+          props: 0,
+          externalLibraries: 0,
+          controlFlow: 0,
+        },
+        caps: { linesOfCode: 100 },
+      });
+
+      // (100 * 1 + 0 * 1) / 2
+      expect(
+        calculateComplexityScore({ ...emptyInputs, linesOfCode: 100 }, profile)
+      ).toBe(50);
+    });
+  });
+
+  describe('複雑度の帯', () => {
+    const bands = DEFAULT_COMPLEXITY_PROFILE.bands;
+
+    it('閾値を含めて帯を判定できること', () => {
+      expect(getComplexityBand(30, bands)).toBe('simple');
+      expect(getComplexityBand(31, bands)).toBe('standard');
+      expect(getComplexityBand(80, bands)).toBe('complex');
+      expect(getComplexityBand(81, bands)).toBe('veryComplex');
+    });
+
+    it('帯の範囲を取得できること', () => {
+      expect(getComplexityBandRange('standard', bands)).toEqual({
+        min: 31,
+        max: 60,
+      });
+      expect(getComplexityBandRange('veryComplex', bands)).toEqual({
+        min: 81,
+        max: 100,
+      });
+    });
+  });
+
+  describe('getComplexityProfileError', () => {
+    it('デフォルトのプロファイルは有効であること', () => {
+      expect(getComplexityProfileError(DEFAULT_COMPLEXITY_PROFILE)).toBeNull();
+    });
+
+    it('昇順でない閾値をエラーにすること', () => {
+      const profile = mergeComplexityProfile({
+        bands: { simple: 60, standard: 30 },
+      });
+
+      expect(getComplexityProfileError(profile)).toMatch(/Band thresholds/);
+    });
+
+    it('負の重みと0以下の上限をエラーにすること', () => {
+      expect(
+        getComplexityProfileError(
+          mergeComplexityProfile({ weights: { hooks: -1 } })
+        )
+      ).toMatch(/Weights/);
+      expect(
+        getComplexityProfileError(
+          mergeComplexityProfile({ caps: { props: 0 } })
+        )
+      ).toMatch(/Caps/);
+    });
+  });
+
+  describe('mergeComplexityProfile', () => {
+    it('部分的な設定をデフォルトにマージし、数値以外を無視すること', () => {
+      const profile = mergeComplexityProfile({
+        weights: { hooks: 40, props: 'high' },
+        bands: { complex: 90 },
+        unknown: true,
+      });
+
+      expect(profile.weights.hooks).toBe(40);
+      expect(profile.weights.props).toBe(15);
+      expect(profile.bands).toEqual({ simple: 30, standard: 60, complex: 90 });
+      expect(profile.caps).toEqual(DEFAULT_COMPLEXITY_PROFILE.caps);
+    });
+  });
+
+  describe('rescoreGraph', () => {
+    it('新しいプロファイルでコンポーネントを再スコアリングできること', () => {
+      const component = createComponent({
+        name: 'App',
+        complexity: 25,
+        linesOfCode: 220,
+        logicalLinesOfCode: 200,
+        cyclomaticComplexity: 0,
+      });
+      const graph: DependencyGraph = {
+        nodes: new Map([
+          [
+            component.id,
+            {
+              id: component.id,
+              component,
+              dependencies: [],
+              dependents: [],
+              depth: 0,
+              complexity: 25,
+            },
+          ],
+        ]),
+        edges: [],
+      };
+
+      const rescored = rescoreGraph(
+        graph,
+        mergeComplexityProfile({ weights: { linesOfCode: 100 } })
+      );
+      const node = rescored.nodes.get(component.id)!;
+
+      // (100 * 100) / (100 + 20 + 20 + 15 + 5 + 15)
+      expect(node.complexity).toBe(57);
+      expect(node.component.complexity).toBe(57);
+      expect(graph.nodes.get(component.id)!.complexity).toBe(25);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import type {
+  ComplexityBand,
+  ComplexityBands,
+  ComplexityProfile,
+  ComponentInfo,
+  DependencyGraph,
+  DependencyNode,
+} from '@/types';
+import { isObject } from '@/lib/config/jsonValue';
+
+/**
+ * Default complexity model (weights in percent)
+ */
+export const DEFAULT_COMPLEXITY_PROFILE: ComplexityProfile = {
+  weights: {
+    linesOfCode: 25,
+    dependencies: 20,
+    hooks: 20,
+    props: 15,
+    externalLibraries: 5,
+    controlFlow: 15,
+  },
+  caps: {
+    linesOfCode: 200,
+    dependencies: 10,
+    hooks: 10,
+    props: 15,
+    externalLibraries: 5,
+    cyclomatic: 10,
+    cognitive: 15,
+  },
+  bands: {
+    simple: 30,
+    standard: 60,
+    complex: 80,
+  },
+};
+
+/**
+ * Bands from least to most complex
+ */
+export const COMPLEXITY_BANDS: ComplexityBand[] = [
+  'simple',
+  'standard',
+  'complex',
+  'veryComplex',
+];
+
+/**
+ * Raw metrics the complexity score is calculated from
+ */
+export type ComplexityInputs = {
+  linesOfCode: number; // Logical lines
+  dependencyCount: number;
+  hooksCount: number;
+  propsCount: number;
+  externalLibraryCount: number;
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+};
+
+/**
+ * Calculate a 0-100 complexity score: each metric is normalised against
+ * its cap, then combined as a weighted average
+ */
+export function calculateComplexityScore(
+  inputs: ComplexityInputs,
+  profile: ComplexityProfile = DEFAULT_COMPLEXITY_PROFILE
+): number {
+  const { weights, caps } = profile;
+
+  const controlFlowScore =
+    (normalize(inputs.cyclomaticComplexity, caps.cyclomatic) +
+      normalize(inputs.cognitiveComplexity, caps.cognitive)) /
+    2;
+
+  const weighted = [
+    [normalize(inputs.linesOfCode, caps.linesOfCode), weights.linesOfCode],
+    [
+      normalize(inputs.dependencyCount, caps.dependencies),
+      weights.dependencies,
+    ],
+    [normalize(inputs.hooksCount, caps.hooks), weights.hooks],
+    [normalize(inputs.propsCount, caps.props), weights.props],
+    [
+      normalize(inputs.externalLibraryCount, caps.externalLibraries),
+      weights.externalLibraries,
+    ],
+    [controlFlowScore, weights.controlFlow],
+  ];
+
+  const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  const complexity =
+    weighted.reduce((sum, [score, weight]) => sum + score * weight, 0) /
+    totalWeight;
+
+  return Math.round(Math.min(100, complexity));
+}
+
+/**
+ * Collect the complexity inputs recorded on a parsed component
+ */
+export function getComplexityInputs(
+  component: Pick<
+    ComponentInfo,
+    | 'logicalLinesOfCode'
+    | 'dependencies'
+    | 'hooks'
+    | 'propsCount'
+    | 'externalLibraryCount'
+    | 'cyclomaticComplexity'
+    | 'cognitiveComplexity'
+  >
+): ComplexityInputs {
+  return {
+    linesOfCode: component.logicalLinesOfCode,
+    dependencyCount: component.dependencies.length,
+    hooksCount: component.hooks.reduce((sum, h) => sum + h.count, 0),
+    propsCount: component.propsCount,
+    externalLibraryCount: component.externalLibraryCount,
+    cyclomaticComplexity: component.cyclomaticComplexity,
+    cognitiveComplexity: component.cognitiveComplexity,
+  };
+}
+
+/**
+ * Re-score every component of a graph with another profile
+ * Returns a new graph; dependencies and depths are unchanged
+ */
+export function rescoreGraph(
+  graph: DependencyGraph,
+  profile: ComplexityProfile
+): DependencyGraph {
+  const nodes = new Map<string, DependencyNode>();
+
+  for (const [id, node] of graph.nodes) {
+    const complexity = calculateComplexityScore(
+      getComplexityInputs(node.component),
+      profile
+    );
+    nodes.set(id, {
+      ...node,
+      component: { ...node.component, complexity },
+      complexity,
+    });
+  }
+
+  return { ...graph, nodes };
+}
+
+/**
+ * Get the band a complexity score falls into
+ */
+export function getComplexityBand(
+  complexity: number,
+  bands: ComplexityBands
+): ComplexityBand {
+  if (complexity <= bands.simple) return 'simple';
+  if (complexity <= bands.standard) return 'standard';
+  if (complexity <= bands.complex) return 'complex';
+  return 'veryComplex';
+}
+
+/**
+ * Get the inclusive score range of a band, e.g. standard -> 31-60
+ */
+export function getComplexityBandRange(
+  band: ComplexityBand,
+  bands: ComplexityBands
+): { min: number; max: number } {
+  switch (band) {
+    case 'simple':
+      return { min: 0, max: bands.simple };
+    case 'standard':
+      return { min: bands.simple + 1, max: bands.standard };
+    case 'complex':
+      return { min: bands.standard + 1, max: bands.complex };
+    case 'veryComplex':
+      return { min: bands.complex + 1, max: 100 };
+  }
+}
+
+/**
+ * Describe what is wrong with a profile, or return null when it is valid
+ */
+export function getComplexityProfileError(
+  profile: ComplexityProfile
+): string | null {
+  const weights = Object.entries(profile.weights);
+  if (weights.some(([, value]) => !isNonNegative(value))) {
+    return 'Weights must be zero or positive numbers';
+  }
+  if (weights.every(([, value]) => value === 0)) {
+    return 'At least one weight must be greater than zero';
+  }
+
+  if (Object.values(profile.caps).some((value) => !(value > 0))) {
+    return 'Caps must be positive numbers';
+  }
+
+  const { simple, standard, complex } = profile.bands;
+  if (
+    ![simple, standard, complex].every(Number.isInteger) ||
+    !(0 <= simple && simple < standard && standard < complex && complex < 100)
+  ) {
+    return 'Band thresholds must be whole numbers with 0 ≤ simple < standard < complex < 100';
+  }
+
+  return null;
+}
+
+/**
+ * Merge a partial profile (e.g. from a config file) over the defaults
+ * Values that are not numbers are ignored
+ */
+export function mergeComplexityProfile(
+  value: unknown,
+  base: ComplexityProfile = DEFAULT_COMPLEXITY_PROFILE
+): ComplexityProfile {
+  const partial = isObject(value) ? value : {};
+
+  return {
+    weights: mergeNumbers(base.weights, partial.weights),
+    caps: mergeNumbers(base.caps, partial.caps),
+    bands: mergeNumbers(base.bands, partial.bands),
+  };
+}
+
+/**
+ * Override numeric fields of `base` with the numbers found in `value`
+ */
+function mergeNumbers<T extends Record<string, number>>(
+  base: T,
+  value: unknown
+): T {
+  const result = { ...base };
+  if (!isObject(value)) {
+    return result;
+  }
+
+  for (const key of Object.keys(base) as Array<keyof T>) {
+    const override = value[key as string];
+    if (typeof override === 'number' && Number.isFinite(override)) {
+      result[key] = override as T[keyof T];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Normalise a metric to 0-100 against its cap
+ */
+function normalize(value: number, cap: number): number {
+  return cap > 0 ? Math.min(100, (value / cap) * 100) : 0;
+}
+
+function isNonNegative(value: number): boolean {
+  return Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,6 @@
+/**
+ * Check that a parsed JSON value is an object (not null or an array)
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PARSER_CONFIG,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILE,
+} from './projectConfig';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { DEFAULT_CHECK_CONFIG } from '@/lib/check/qualityGate';
+
+/**
+ * Create a readFile function backed by an in-memory file map
+ */
+const createReader =
+  (files: Record<string, string>) =>
+  async (path: string): Promise<string | null> =>
+    files[path] ?? null;
+
+describe('projectConfig', () => {
+  describe('loadProjectConfig', () => {
+    it('設定ファイルがない場合はデフォルトを返すこと', async () => {
+      const config = await loadProjectConfig(createReader({}));
+
+      expect(config.complexity).toEqual(DEFAULT_COMPLEXITY_PROFILE);
+      expect(config.parser).toEqual(DEFAULT_PARSER_CONFIG);
+      expect(config.check).toEqual(DEFAULT_CHECK_CONFIG);
+    });
+
+    it('複雑度プロファイルをデフォルトにマージして読み込めること', async () => {
+      const config = await loadProjectConfig(
+        createReader({
+          [PROJECT_CONFIG_FILE]: `{
+            // Stricter bands for this project
+            "complexity": {
+              "weights": { "controlFlow": 30 },
+              "bands": { "simple": 20, "standard": 40, "complex": 60 },
+            },
+          }`,
+        })
+      );
+
+      expect(config.complexity.weights.controlFlow).toBe(30);
+      expect(config.complexity.weights.linesOfCode).toBe(25);
+      expect(config.complexity.bands).toEqual({
+        simple: 20,
+        standard: 40,
+        complex: 60,
+      });
+    });
+
+    it('不正なJSONの場合はエラーを投げること', async () => {
+      await expect(
+        loadProjectConfig(createReader({ [PROJECT_CONFIG_FILE]: '{ oops' }))
+      ).rejects.toThrow(`Invalid ${PROJECT_CONFIG_FILE}`);
+    });
+
+    it('無効な閾値の場合はエラーを投げること', async () => {
+      await expect(
+        loadProjectConfig(
+          createReader({
+            [PROJECT_CONFIG_FILE]: JSON.stringify({
+              complexity: { bands: { simple: 90 } },
+            }),
+          })
+        )
+      ).rejects.toThrow(/Band thresholds/);
+    });
+
+    it('チェックの設定をデフォルトにマージして読み込めること', async () => {
+      const config = await loadProjectConfig(
+        createReader({
+          [PROJECT_CONFIG_FILE]: JSON.stringify({
+            check: {
+              rules: { 'max-complexity': 70, 'max-unused': 0 },
+              allowlist: [{ rule: 'max-complexity', path: 'src/legacy/**' }],
+            },
+          }),
+        })
+      );
+
+      expect(config.check).toEqual({
+        rules: {
+          'no-new-cycles': true,
+          'max-complexity': 70,
+          'max-depth': null,
+          'max-unused': 0,
+        },
+        allowlist: [{ rule: 'max-complexity', path: 'src/legacy/**' }],
+      });
+    });
+
+    it('無効なチェックの設定の場合はエラーを投げること', async () => {
+      await expect(
+        loadProjectConfig(
+          createReader({
+            [PROJECT_CONFIG_FILE]: JSON.stringify({
+              check: { rules: { 'max-files': 10 } },
+            }),
+          })
+        )
+      ).rejects.toThrow(
+        `Invalid ${PROJECT_CONFIG_FILE}: Unknown check rule: max-files`
+      );
+    });
+
+    it('HOC名のリストを読み込めること', async () => {
+      const config = await loadProjectConfig(
+        createReader({
+          [PROJECT_CONFIG_FILE]: JSON.stringify({
+            parser: { hocNames: ['withAuth', 'withTracking'] },
+          }),
+        })
+      );
+
+      expect(config.parser).toEqual({
+        hocNames: ['withAuth', 'withTracking'],
+      });
+    });
+
+    it('パーサーの未知の設定はエラーになること', async () => {
+      await expect(
+        loadProjectConfig(
+          createReader({
+            [PROJECT_CONFIG_FILE]: JSON.stringify({
+              parser: { hocNames: ['withAuth'], plugins: ['flow'] },
+            }),
+          })
+        )
+      ).rejects.toThrow(
+        `Invalid ${PROJECT_CONFIG_FILE}: Unknown parser setting: plugins`
+      );
+    });
+
+    it('HOC名が文字列の配列でない場合はエラーを投げること', async () => {
+      await expect(
+        loadProjectConfig(
+          createReader({
+            [PROJECT_CONFIG_FILE]: JSON.stringify({
+              parser: { hocNames: 'withAuth' },
+            }),
+          })
+        )
+      ).rejects.toThrow(
+        `Invalid ${PROJECT_CONFIG_FILE}: parser.hocNames must be an array of function names`
+      );
+    });
+  });
+});
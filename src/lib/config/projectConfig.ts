@@ -0,0 +1,140 @@
+import type { ComplexityProfile } from '@/types';
+import {
+  getComplexityProfileError,
+  mergeComplexityProfile,
+} from '@/lib/complexity/complexityProfile';
+import {
+  getCheckConfigError,
+  mergeCheckConfig,
+  type CheckConfig,
+} from '@/lib/check/qualityGate';
+import { DEFAULT_HOC_NAMES } from '@/lib/parser/parserConstants';
+import { isObject } from './jsonValue';
+import {
+  parseJsonWithComments,
+  type ReadTextFile,
+} from '@/lib/parser/tsconfigLoader';
+
+/**
+ * Config file read from the root of the analysed folder
+ */
+export const PROJECT_CONFIG_FILE = 'reuntangle.config.json';
+
+/**
+ * How source files are parsed
+ */
+export type ParserConfig = {
+  // Higher-order components to unwrap, replacing DEFAULT_HOC_NAMES
+  hocNames: string[];
+};
+
+export const DEFAULT_PARSER_CONFIG: ParserConfig = {
+  hocNames: DEFAULT_HOC_NAMES,
+};
+
+/**
+ * Project settings, with defaults filled in
+ */
+export type ProjectConfig = {
+  complexity: ComplexityProfile;
+  parser: ParserConfig;
+  // Quality gate of `reuntangle check`
+  check: CheckConfig;
+};
+
+/**
+ * Load `reuntangle.config.json`, falling back to defaults when it is absent
+ * Throws when the file exists but is not valid
+ */
+export async function loadProjectConfig(
+  readFile: ReadTextFile
+): Promise<ProjectConfig> {
+  const content = await readFile(PROJECT_CONFIG_FILE);
+  if (content === null) {
+    return parseProjectConfig({});
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseJsonWithComments(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${PROJECT_CONFIG_FILE}: ${(error as Error).message}`,
+      { cause: error }
+    );
+  }
+
+  return parseProjectConfig(raw);
+}
+
+/**
+ * Build a project config from parsed JSON, merging it over the defaults
+ */
+export function parseProjectConfig(raw: unknown): ProjectConfig {
+  const config = isObject(raw) ? raw : {};
+
+  const complexity = mergeComplexityProfile(config.complexity);
+  const error = getComplexityProfileError(complexity);
+  if (error) {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${error}`);
+  }
+
+  const checkError = getCheckConfigError(config.check);
+  if (checkError) {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${checkError}`);
+  }
+
+  const parserError = getParserConfigError(config.parser);
+  if (parserError) {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${parserError}`);
+  }
+
+  return {
+    complexity,
+    parser: mergeParserConfig(config.parser),
+    check: mergeCheckConfig(config.check),
+  };
+}
+
+/**
+ * Known keys of the `parser` section over the defaults (validate it with
+ * getParserConfigError first)
+ */
+function mergeParserConfig(value: unknown): ParserConfig {
+  const hocNames = isObject(value) ? value.hocNames : undefined;
+  return {
+    hocNames: Array.isArray(hocNames)
+      ? (hocNames as string[])
+      : DEFAULT_PARSER_CONFIG.hocNames,
+  };
+}
+
+/**
+ * Describe what is wrong with the `parser` section, or return null when it
+ * is valid (or absent)
+ */
+function getParserConfigError(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!isObject(value)) {
+    return 'parser must be an object';
+  }
+
+  const unknownKey = Object.keys(value).find((key) => key !== 'hocNames');
+  if (unknownKey) {
+    return `Unknown parser setting: ${unknownKey}`;
+  }
+
+  const { hocNames } = value;
+  if (
+    hocNames !== undefined &&
+    !(
+      Array.isArray(hocNames) &&
+      hocNames.every((name) => typeof name === 'string' && name !== '')
+    )
+  ) {
+    return 'parser.hocNames must be an array of function names';
+  }
+  return null;
+}
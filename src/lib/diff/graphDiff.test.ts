@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { diffGraphs, isEmptyDiff, mergeDiffGraph } from './graphDiff';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import { buildGraphFromFiles, createFile } from '@/test/graphFixtures';
+import type { DependencyGraph } from '@/types';
+
+/**
+ * Before: App renders Header and Legacy; Header and Nav import each other
+ */
+const createBaseline = () =>
+  buildGraphFromFiles([
+    createFile(
+      'src/App.tsx',
+      `import Header from './Header';
+       import Legacy from './Legacy';
+       export default function App() { return <><Header /><Legacy /></>; }`
+    ),
+    createFile(
+      'src/Header.tsx',
+      `import Nav from './Nav';
+       export default function Header() { return <Nav />; }`
+    ),
+    createFile(
+      'src/Nav.tsx',
+      `import Header from './Header';
+       export default function Nav() { return <Header />; }`
+    ),
+    createFile(
+      'src/Legacy.tsx',
+      `export default function Legacy() { return <div />; }`
+    ),
+  ]);
+
+/**
+ * After: Legacy is gone, Nav no longer imports Header, App renders the new
+ * Footer and got more complex
+ */
+const createCurrent = () =>
+  buildGraphFromFiles([
+    createFile(
+      'src/App.tsx',
+      `import { useState, useEffect } from 'react';
+       import Header from './Header';
+       import Footer from './Footer';
+       export default function App({ title, user }) {
+         const [open, setOpen] = useState(false);
+         useEffect(() => { if (user && title) setOpen(true); }, [user, title]);
+         return open ? <><Header /><Footer /></> : null;
+       }`
+    ),
+    createFile(
+      'src/Header.tsx',
+      `import Nav from './Nav';
+       export default function Header() { return <Nav />; }`
+    ),
+    createFile(
+      'src/Nav.tsx',
+      `export default function Nav() { return <nav />; }`
+    ),
+    createFile(
+      'src/Footer.tsx',
+      `export default function Footer() { return <footer />; }`
+    ),
+  ]);
+
+describe('graphDiff', () => {
+  describe('diffGraphs', () => {
+    it('追加・削除されたコンポーネントとエッジを検出できること', () => {
+      const diff = diffGraphs(createBaseline(), createCurrent());
+
+      expect(diff.addedComponents).toEqual([
+        {
+          id: 'src/Footer.tsx:Footer',
+          name: 'Footer',
+          filePath: 'src/Footer.tsx',
+        },
+      ]);
+      expect(diff.removedComponents).toEqual([
+        {
+          id: 'src/Legacy.tsx:Legacy',
+          name: 'Legacy',
+          filePath: 'src/Legacy.tsx',
+        },
+      ]);
+      expect(
+        diff.addedEdges.map((edge) => `${edge.fromName} → ${edge.toName}`)
+      ).toEqual(['App → Footer']);
+      expect(
+        diff.removedEdges.map((edge) => `${edge.fromName} → ${edge.toName}`)
+      ).toEqual(expect.arrayContaining(['App → Legacy', 'Nav → Header']));
+      expect(diff.removedEdges).toHaveLength(2);
+      expect(diff.removedEdges[0].id).toBe(
+        `${diff.removedEdges[0].from}-${diff.removedEdges[0].to}`
+      );
+    });
+
+    it('両方にあるコンポーネントの複雑度の差分を検出できること', () => {
+      const baseline = createBaseline();
+      const current = createCurrent();
+
+      const diff = diffGraphs(baseline, current);
+
+      const app = diff.complexityChanges.find(
+        (change) => change.name === 'App'
+      );
+      expect(app).toEqual({
+        id: 'src/App.tsx:App',
+        name: 'App',
+        filePath: 'src/App.tsx',
+        before: baseline.nodes.get('src/App.tsx:App')!.complexity,
+        after: current.nodes.get('src/App.tsx:App')!.complexity,
+        delta: expect.any(Number),
+      });
+      expect(app!.delta).toBeGreaterThan(0);
+      expect(app!.delta).toBe(app!.after - app!.before);
+    });
+
+    it('新しい循環と解消された循環を検出できること', () => {
+      const diff = diffGraphs(createBaseline(), createCurrent());
+
+      expect(diff.newCycles).toEqual([]);
+      expect(diff.resolvedCycles).toHaveLength(1);
+      expect(diff.resolvedCycles[0].names).toEqual(
+        expect.arrayContaining(['Header', 'Nav'])
+      );
+
+      const reversed = diffGraphs(createCurrent(), createBaseline());
+      expect(reversed.newCycles).toHaveLength(1);
+      expect(reversed.resolvedCycles).toEqual([]);
+    });
+
+    it('開始位置が異なる同じ循環は同一とみなすこと', () => {
+      const baseline = createBaseline();
+      const [cycle] = baseline.cycleAnalysis!.cycles;
+      const rotated: DependencyGraph = {
+        ...baseline,
+        cycleAnalysis: {
+          ...baseline.cycleAnalysis!,
+          cycles: [
+            {
+              id: [...cycle.nodeIds].reverse().join('>'),
+              nodeIds: [...cycle.nodeIds.slice(1), cycle.nodeIds[0]],
+            },
+          ],
+        },
+      };
+
+      const diff = diffGraphs(baseline, rotated);
+
+      expect(diff.newCycles).toEqual([]);
+      expect(diff.resolvedCycles).toEqual([]);
+    });
+
+    it('同じグラフの場合は差分が空になること', () => {
+      expect(isEmptyDiff(diffGraphs(createBaseline(), createBaseline()))).toBe(
+        true
+      );
+      expect(isEmptyDiff(diffGraphs(createBaseline(), createCurrent()))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('mergeDiffGraph', () => {
+    it('削除されたノードとエッジを加え、変更の種類を付けること', () => {
+      const baseline = createBaseline();
+      const current = createCurrent();
+      const builder = new GraphBuilder();
+      const diff = diffGraphs(baseline, current);
+
+      const merged = mergeDiffGraph(
+        builder.buildReactFlowGraph(current),
+        builder.buildReactFlowGraph(baseline),
+        diff
+      );
+
+      const statuses = Object.fromEntries(
+        merged.nodes.map((node) => [
+          node.data.componentInfo.name,
+          node.data.diff?.status,
+        ])
+      );
+      expect(statuses).toEqual({
+        App: 'changed',
+        Header: 'unchanged',
+        Nav: expect.stringMatching(/^(changed|unchanged)$/),
+        Footer: 'added',
+        Legacy: 'removed',
+      });
+      expect(
+        merged.nodes.find((node) => node.id === 'src/App.tsx:App')?.data.diff
+          ?.complexityDelta
+      ).toBe(diff.complexityChanges.find((c) => c.name === 'App')!.delta);
+
+      const edgeStatuses = Object.fromEntries(
+        merged.edges.map((edge) => [edge.id, edge.data?.diff])
+      );
+      expect(edgeStatuses).toEqual({
+        'src/App.tsx:App-src/Header.tsx:Header': undefined,
+        'src/App.tsx:App-src/Footer.tsx:Footer': 'added',
+        'src/Header.tsx:Header-src/Nav.tsx:Nav': undefined,
+        'src/App.tsx:App-src/Legacy.tsx:Legacy': 'removed',
+        'src/Nav.tsx:Nav-src/Header.tsx:Header': 'removed',
+      });
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import type { Node, Edge } from '@xyflow/react';
+import type {
+  DependencyCycle,
+  DependencyGraph,
+  FlowNodeData,
+  NodeDiff,
+} from '@/types';
+
+/**
+ * A component on one side of the comparison
+ */
+export type DiffComponent = {
+  id: string;
+  name: string;
+  filePath: string;
+};
+
+export type DiffEdge = {
+  id: string; // Same as the React Flow edge ID
+  from: string;
+  to: string;
+  fromName: string;
+  toName: string;
+};
+
+export type ComplexityChange = DiffComponent & {
+  before: number;
+  after: number;
+  delta: number; // after - before
+};
+
+export type DiffCycle = DependencyCycle & {
+  names: string[];
+};
+
+/**
+ * What changed between a baseline analysis and the current one
+ */
+export type GraphDiff = {
+  addedComponents: DiffComponent[];
+  removedComponents: DiffComponent[];
+  addedEdges: DiffEdge[];
+  removedEdges: DiffEdge[];
+  // Components in both analyses, largest change first
+  complexityChanges: ComplexityChange[];
+  newCycles: DiffCycle[];
+  resolvedCycles: DiffCycle[];
+};
+
+type FlowGraph = {
+  nodes: Node<FlowNodeData>[];
+  edges: Edge[];
+};
+
+/**
+ * Compare two dependency graphs; components and edges are matched by ID,
+ * cycles regardless of where they start
+ */
+export function diffGraphs(
+  baseline: DependencyGraph,
+  current: DependencyGraph
+): GraphDiff {
+  const toComponent = (graph: DependencyGraph, id: string): DiffComponent => {
+    const component = graph.nodes.get(id)?.component;
+    return {
+      id,
+      name: component?.name ?? id,
+      filePath: component?.filePath ?? '',
+    };
+  };
+
+  const complexityChanges: ComplexityChange[] = [];
+  for (const [id, node] of current.nodes) {
+    const before = baseline.nodes.get(id)?.complexity;
+    if (before !== undefined && before !== node.complexity) {
+      complexityChanges.push({
+        ...toComponent(current, id),
+        before,
+        after: node.complexity,
+        delta: node.complexity - before,
+      });
+    }
+  }
+  complexityChanges.sort(
+    (a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.delta - a.delta
+  );
+
+  const baselineEdges = getEdgeMap(baseline);
+  const currentEdges = getEdgeMap(current);
+  const toEdges = (
+    graph: DependencyGraph,
+    edges: Map<string, { from: string; to: string }>,
+    other: Map<string, unknown>
+  ): DiffEdge[] =>
+    Array.from(edges)
+      .filter(([id]) => !other.has(id))
+      .map(([id, { from, to }]) => ({
+        id,
+        from,
+        to,
+        fromName: toComponent(graph, from).name,
+        toName: toComponent(graph, to).name,
+      }));
+
+  const baselineCycles = getCycleMap(baseline);
+  const currentCycles = getCycleMap(current);
+  const toCycles = (
+    graph: DependencyGraph,
+    cycles: Map<string, DependencyCycle>,
+    other: Map<string, DependencyCycle>
+  ): DiffCycle[] =>
+    Array.from(cycles)
+      .filter(([key]) => !other.has(key))
+      .map(([, cycle]) => ({
+        ...cycle,
+        names: cycle.nodeIds.map((id) => toComponent(graph, id).name),
+      }));
+
+  return {
+    addedComponents: Array.from(current.nodes.keys())
+      .filter((id) => !baseline.nodes.has(id))
+      .map((id) => toComponent(current, id)),
+    removedComponents: Array.from(baseline.nodes.keys())
+      .filter((id) => !current.nodes.has(id))
+      .map((id) => toComponent(baseline, id)),
+    addedEdges: toEdges(current, currentEdges, baselineEdges),
+    removedEdges: toEdges(baseline, baselineEdges, currentEdges),
+    complexityChanges,
+    newCycles: toCycles(current, currentCycles, baselineCycles),
+    resolvedCycles: toCycles(baseline, baselineCycles, currentCycles),
+  };
+}
+
+/**
+ * Whether the two analyses have the same components, edges, scores and cycles
+ */
+export function isEmptyDiff(diff: GraphDiff): boolean {
+  return Object.values(diff).every((changes) => changes.length === 0);
+}
+
+/**
+ * The current React Flow graph plus the removed nodes and edges of the
+ * baseline, each node tagged with how it changed (see FlowNodeData.diff)
+ * and each edge with data.diff 'added' or 'removed'
+ */
+export function mergeDiffGraph(
+  current: FlowGraph,
+  baseline: FlowGraph,
+  diff: GraphDiff
+): FlowGraph {
+  const added = new Set(diff.addedComponents.map((component) => component.id));
+  const removed = new Set(
+    diff.removedComponents.map((component) => component.id)
+  );
+  const deltas = new Map(
+    diff.complexityChanges.map((change) => [change.id, change.delta])
+  );
+  const addedEdges = new Set(diff.addedEdges.map((edge) => edge.id));
+  const removedEdges = new Set(diff.removedEdges.map((edge) => edge.id));
+
+  const tagNode = (
+    node: Node<FlowNodeData>,
+    status: NodeDiff['status']
+  ): Node<FlowNodeData> => ({
+    ...node,
+    data: {
+      ...node.data,
+      diff: { status, complexityDelta: deltas.get(node.id) ?? 0 },
+    },
+  });
+  const tagEdge = (edge: Edge, status: 'added' | 'removed'): Edge => ({
+    ...edge,
+    data: { ...edge.data, diff: status },
+  });
+
+  return {
+    nodes: [
+      ...current.nodes.map((node) =>
+        tagNode(
+          node,
+          added.has(node.id)
+            ? 'added'
+            : deltas.has(node.id)
+              ? 'changed'
+              : 'unchanged'
+        )
+      ),
+      ...baseline.nodes
+        .filter((node) => removed.has(node.id))
+        .map((node) => tagNode(node, 'removed')),
+    ],
+    edges: [
+      ...current.edges.map((edge) =>
+        addedEdges.has(edge.id) ? tagEdge(edge, 'added') : edge
+      ),
+      ...baseline.edges
+        .filter((edge) => removedEdges.has(edge.id))
+        .map((edge) => tagEdge(edge, 'removed')),
+    ],
+  };
+}
+
+/**
+ * Edges by their React Flow ID
+ */
+function getEdgeMap(
+  graph: DependencyGraph
+): Map<string, { from: string; to: string }> {
+  return new Map(graph.edges.map((edge) => [`${edge.from}-${edge.to}`, edge]));
+}
+
+/**
+ * Key of a cycle: its node IDs rotated to start at the smallest one, so the
+ * same loop found from a different start still matches
+ */
+export function getCycleKey(nodeIds: string[]): string {
+  const start = nodeIds.indexOf(
+    nodeIds.reduce((min, id) => (id < min ? id : min))
+  );
+  return [...nodeIds.slice(start), ...nodeIds.slice(0, start)].join('>');
+}
+
+function getCycleMap(graph: DependencyGraph): Map<string, DependencyCycle> {
+  return new Map(
+    (graph.cycleAnalysis?.cycles ?? []).map((cycle) => [
+      getCycleKey(cycle.nodeIds),
+      cycle,
+    ])
+  );
+}
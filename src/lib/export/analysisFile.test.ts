@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ANALYSIS_FILE_FORMAT,
+  ANALYSIS_FILE_VERSION,
+  createAnalysisFile,
+  getAnalysisFileName,
+  parseAnalysisFile,
+  serializeAnalysis,
+  type AnalysisFile,
+  type AnalysisSnapshot,
+} from './analysisFile';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import { WarningDetector } from '@/lib/warnings/warningDetector';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { buildGraphFromFiles, createFile } from '@/test/graphFixtures';
+
+/**
+ * Analyse a small project with a cycle between A and B
+ */
+function createSnapshot(): AnalysisSnapshot {
+  const graph = buildGraphFromFiles([
+    createFile(
+      'src/A.tsx',
+      `import B from './B'; export default function A() { return <B />; }`
+    ),
+    createFile(
+      'src/B.tsx',
+      `import A from './A'; export default function B() { return <A />; }`
+    ),
+  ]);
+
+  return {
+    projectName: 'my-app',
+    stats: { filesScanned: 2, componentsFound: 2 },
+    graph,
+    metrics: new GraphBuilder().calculateMetrics(graph),
+    warnings: new WarningDetector().detectWarnings(graph),
+    complexityProfile: DEFAULT_COMPLEXITY_PROFILE,
+    layoutType: 'layered',
+  };
+}
+
+describe('analysisFile', () => {
+  it('形式とバージョンを含むファイルを作成できること', () => {
+    const file = createAnalysisFile(
+      createSnapshot(),
+      new Date('2026-01-02T03:04:05Z')
+    );
+
+    expect(file.format).toBe(ANALYSIS_FILE_FORMAT);
+    expect(file.version).toBe(ANALYSIS_FILE_VERSION);
+    expect(file.exportedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(file.graph.nodes.map((node) => node.id)).toEqual([
+      'src/A.tsx:A',
+      'src/B.tsx:B',
+    ]);
+    expect(file.settings.layoutType).toBe('layered');
+  });
+
+  it('書き出した解析結果を読み込んで元に戻せること', () => {
+    const snapshot = createSnapshot();
+
+    const restored = parseAnalysisFile(serializeAnalysis(snapshot));
+
+    expect(restored.graph.nodes).toBeInstanceOf(Map);
+    expect(restored.graph.nodes).toEqual(snapshot.graph.nodes);
+    expect(restored.graph.edges).toEqual(snapshot.graph.edges);
+    expect(restored.graph.cycleAnalysis).toEqual(snapshot.graph.cycleAnalysis);
+    expect(restored.graph.cycleAnalysis?.cycles).toHaveLength(1);
+    expect(restored).toMatchObject({
+      projectName: 'my-app',
+      stats: snapshot.stats,
+      metrics: snapshot.metrics,
+      warnings: snapshot.warnings,
+      complexityProfile: snapshot.complexityProfile,
+      layoutType: 'layered',
+    });
+  });
+
+  it('JSONでないファイルはエラーになること', () => {
+    expect(() => parseAnalysisFile('not json')).toThrow(
+      /^Invalid analysis file:/
+    );
+  });
+
+  it('解析ファイル以外のJSONはエラーになること', () => {
+    expect(() => parseAnalysisFile('{"compilerOptions": {}}')).toThrow(
+      'Invalid analysis file: not a ReUntangle analysis'
+    );
+  });
+
+  it('新しいバージョンのファイルはエラーになること', () => {
+    const file = {
+      ...createAnalysisFile(createSnapshot()),
+      version: ANALYSIS_FILE_VERSION + 1,
+    };
+
+    expect(() => parseAnalysisFile(JSON.stringify(file))).toThrow(
+      /is newer than supported/
+    );
+  });
+
+  it('グラフが欠けているファイルはエラーになること', () => {
+    const file: Partial<AnalysisFile> = createAnalysisFile(createSnapshot());
+    delete file.graph;
+
+    expect(() => parseAnalysisFile(JSON.stringify(file))).toThrow(
+      'Invalid analysis file: missing graph, metrics or stats'
+    );
+  });
+
+  it('設定が欠けている場合はデフォルトを使うこと', () => {
+    const file: Partial<AnalysisFile> = createAnalysisFile(createSnapshot());
+    delete file.settings;
+
+    const restored = parseAnalysisFile(JSON.stringify(file));
+
+    expect(restored.complexityProfile).toEqual(DEFAULT_COMPLEXITY_PROFILE);
+    expect(restored.layoutType).toBe('layered');
+  });
+
+  it('プロジェクト名からファイル名を作れること', () => {
+    expect(getAnalysisFileName('my-app')).toBe('my-app.reuntangle.json');
+    expect(getAnalysisFileName('')).toBe('analysis.reuntangle.json');
+  });
+});
@@ -0,0 +1,176 @@
+import type {
+  ComplexityProfile,
+  CycleAnalysis,
+  DependencyEdge,
+  DependencyGraph,
+  DependencyNode,
+  LayoutType,
+  ProjectMetrics,
+  Warning,
+} from '@/types';
+import {
+  getComplexityProfileError,
+  mergeComplexityProfile,
+} from '@/lib/complexity/complexityProfile';
+import { isObject } from '@/lib/config/jsonValue';
+
+/**
+ * Identifies analysis files, so other JSON files are rejected early
+ */
+export const ANALYSIS_FILE_FORMAT = 'reuntangle-analysis';
+
+/**
+ * Current schema version; bump it (and migrate older files in
+ * parseAnalysisFile) whenever the shape of AnalysisFile changes
+ */
+export const ANALYSIS_FILE_VERSION = 1;
+
+// Files saved with the former tree layout open in the layered one
+const LAYOUT_TYPES: LayoutType[] = ['layered', 'force'];
+
+/**
+ * Everything needed to show an analysis again without its source folder
+ */
+export type AnalysisSnapshot = {
+  projectName: string;
+  stats: {
+    filesScanned: number;
+    componentsFound: number;
+  };
+  graph: DependencyGraph;
+  metrics: ProjectMetrics;
+  warnings: Warning[];
+  complexityProfile: ComplexityProfile;
+  layoutType: LayoutType;
+};
+
+/**
+ * JSON schema of an exported analysis (the graph's node Map becomes an array)
+ */
+export type AnalysisFile = {
+  format: typeof ANALYSIS_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  projectName: string;
+  stats: AnalysisSnapshot['stats'];
+  settings: {
+    complexityProfile: ComplexityProfile;
+    layoutType: LayoutType;
+  };
+  graph: {
+    nodes: DependencyNode[];
+    edges: DependencyEdge[];
+    cycleAnalysis?: CycleAnalysis;
+  };
+  metrics: ProjectMetrics;
+  warnings: Warning[];
+};
+
+/**
+ * Convert an analysis to its file representation
+ */
+export function createAnalysisFile(
+  snapshot: AnalysisSnapshot,
+  exportedAt: Date = new Date()
+): AnalysisFile {
+  const { graph } = snapshot;
+
+  return {
+    format: ANALYSIS_FILE_FORMAT,
+    version: ANALYSIS_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    projectName: snapshot.projectName,
+    stats: snapshot.stats,
+    settings: {
+      complexityProfile: snapshot.complexityProfile,
+      layoutType: snapshot.layoutType,
+    },
+    graph: {
+      nodes: Array.from(graph.nodes.values()),
+      edges: graph.edges,
+      ...(graph.cycleAnalysis && { cycleAnalysis: graph.cycleAnalysis }),
+    },
+    metrics: snapshot.metrics,
+    warnings: snapshot.warnings,
+  };
+}
+
+/**
+ * Serialize an analysis as pretty-printed JSON
+ */
+export function serializeAnalysis(snapshot: AnalysisSnapshot): string {
+  return JSON.stringify(createAnalysisFile(snapshot), null, 2);
+}
+
+/**
+ * Read an exported analysis
+ * Throws when the text is not an analysis file this version can read
+ */
+export function parseAnalysisFile(text: string): AnalysisSnapshot {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid analysis file: ${(error as Error).message}`, {
+      cause: error,
+    });
+  }
+
+  if (!isObject(raw) || raw.format !== ANALYSIS_FILE_FORMAT) {
+    throw new Error('Invalid analysis file: not a ReUntangle analysis');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new Error('Invalid analysis file: missing schema version');
+  }
+  if (raw.version > ANALYSIS_FILE_VERSION) {
+    throw new Error(
+      `Analysis file version ${raw.version} is newer than supported (${ANALYSIS_FILE_VERSION}); update ReUntangle to open it`
+    );
+  }
+
+  const file = raw as Partial<AnalysisFile>;
+  const graph = file.graph;
+  if (
+    !isObject(graph) ||
+    !Array.isArray(graph.nodes) ||
+    !Array.isArray(graph.edges) ||
+    !graph.nodes.every((node) => isObject(node) && isObject(node.component)) ||
+    !isObject(file.metrics) ||
+    !isObject(file.stats)
+  ) {
+    throw new Error('Invalid analysis file: missing graph, metrics or stats');
+  }
+
+  const complexityProfile = mergeComplexityProfile(
+    file.settings?.complexityProfile
+  );
+  const profileError = getComplexityProfileError(complexityProfile);
+  if (profileError) {
+    throw new Error(`Invalid analysis file: ${profileError}`);
+  }
+
+  const layoutType = file.settings?.layoutType;
+
+  return {
+    projectName:
+      typeof file.projectName === 'string' ? file.projectName : 'Analysis',
+    stats: file.stats,
+    graph: {
+      nodes: new Map(graph.nodes.map((node) => [node.id, node])),
+      edges: graph.edges,
+      ...(graph.cycleAnalysis && { cycleAnalysis: graph.cycleAnalysis }),
+    },
+    metrics: file.metrics,
+    warnings: Array.isArray(file.warnings) ? file.warnings : [],
+    complexityProfile,
+    layoutType:
+      layoutType && LAYOUT_TYPES.includes(layoutType) ? layoutType : 'layered',
+  };
+}
+
+/**
+ * Download name for an exported analysis
+ */
+export function getAnalysisFileName(projectName: string): string {
+  return `${projectName || 'analysis'}.reuntangle.json`;
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportGraph,
+  filterDependencyGraph,
+  getGraphExportFileName,
+  toDot,
+  toGraphML,
+  toMermaid,
+} from './graphFormats';
+import { buildGraphFromFiles, createFile } from '@/test/graphFixtures';
+import type { DependencyGraph } from '@/types';
+
+/**
+ * App renders Header and Footer; Header and Nav import each other
+ */
+function createGraph(): DependencyGraph {
+  return buildGraphFromFiles([
+    createFile(
+      'src/App.tsx',
+      `import Header from './components/Header';
+       import Footer from './components/Footer';
+       export default function App() { return <><Header /><Footer /></>; }`
+    ),
+    createFile(
+      'src/components/Header.tsx',
+      `import Nav from './Nav';
+       export default function Header() { return <Nav />; }`
+    ),
+    createFile(
+      'src/components/Nav.tsx',
+      `import Header from './Header';
+       export default function Nav() { return <Header />; }`
+    ),
+    createFile(
+      'src/components/Footer.tsx',
+      `export default function Footer() { return <footer>"Footer"</footer>; }`
+    ),
+  ]);
+}
+
+describe('graphFormats', () => {
+  describe('filterDependencyGraph', () => {
+    it('指定したノードとその間のエッジだけを残すこと', () => {
+      const graph = createGraph();
+
+      const filtered = filterDependencyGraph(
+        graph,
+        new Set(['src/App.tsx:App', 'src/components/Header.tsx:Header'])
+      );
+
+      expect(Array.from(filtered.nodes.keys())).toEqual([
+        'src/App.tsx:App',
+        'src/components/Header.tsx:Header',
+      ]);
+      expect(filtered.edges).toEqual([
+        expect.objectContaining({
+          from: 'src/App.tsx:App',
+          to: 'src/components/Header.tsx:Header',
+        }),
+      ]);
+      // Metrics stay project-wide
+      expect(
+        filtered.nodes.get('src/components/Header.tsx:Header')?.dependencies
+      ).toEqual(['src/components/Nav.tsx:Nav']);
+    });
+  });
+
+  describe('toMermaid', () => {
+    it('flowchartとしてノードとエッジを出力できること', () => {
+      const mermaid = toMermaid(createGraph());
+      const lines = mermaid.trim().split('\n');
+
+      expect(lines[0]).toBe('flowchart TD');
+      expect(mermaid).toMatch(/ {2}n0\["App<br\/>complexity \d+"\]\n/);
+      expect(mermaid).toMatch(
+        / {2}n1\["Header<br\/>complexity \d+"\]:::circular/
+      );
+      expect(lines).toContain('  n0 --> n1');
+      expect(lines).toContain('  n1 --> n2');
+      expect(lines).toContain('  n2 --> n1');
+      expect(lines.at(-1)).toBe(
+        '  classDef circular stroke:#dc2626,stroke-width:3px'
+      );
+    });
+
+    it('循環がない場合はclassDefを出力しないこと', () => {
+      const graph = createGraph();
+      const filtered = filterDependencyGraph(
+        graph,
+        new Set(['src/App.tsx:App', 'src/components/Footer.tsx:Footer'])
+      );
+
+      expect(toMermaid(filtered)).not.toContain('classDef');
+    });
+  });
+
+  describe('toDot', () => {
+    it('フォルダごとにクラスタ化したdigraphを出力できること', () => {
+      const dot = toDot(createGraph(), 'my-app');
+
+      expect(dot).toMatch(/^digraph "my-app" \{\n/);
+      expect(dot).toContain(
+        '  subgraph cluster_0 {\n    label="src";\n    style=dashed;\n    "src/App.tsx:App"'
+      );
+      expect(dot).toContain('    label="src/components";');
+      expect(dot).toMatch(
+        /"src\/components\/Nav.tsx:Nav" \[label="Nav\\ncomplexity \d+", color="#dc2626", penwidth=2\];/
+      );
+      expect(dot).toContain(
+        '  "src/App.tsx:App" -> "src/components/Header.tsx:Header";'
+      );
+      expect(dot.trim().endsWith('}')).toBe(true);
+    });
+
+    it('名前の引用符をエスケープすること', () => {
+      const dot = toDot({ nodes: new Map(), edges: [] }, 'my "quoted" app');
+
+      expect(dot).toMatch(/^digraph "my \\"quoted\\" app" \{/);
+    });
+  });
+
+  describe('toGraphML', () => {
+    it('ノードのメトリクスを属性として出力できること', () => {
+      const graphml = toGraphML(createGraph());
+
+      expect(graphml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+      expect(graphml).toContain(
+        '<key id="complexity" for="node" attr.name="complexity" attr.type="int"/>'
+      );
+      expect(graphml).toContain(
+        '<key id="circularDependency" for="node" attr.name="circularDependency" attr.type="boolean"/>'
+      );
+      expect(graphml).toContain(
+        '<node id="src/components/Header.tsx:Header">\n      <data key="name">Header</data>\n      <data key="filePath">src/components/Header.tsx</data>'
+      );
+      expect(graphml).toMatch(
+        /<node id="src\/components\/Nav.tsx:Nav">[\s\S]*?<data key="circularDependency">true<\/data>/
+      );
+      expect(graphml).toContain(
+        '<edge id="e0" source="src/App.tsx:App" target="src/components/Header.tsx:Header">\n      <data key="strength">1</data>'
+      );
+      expect(graphml.match(/<node /g)).toHaveLength(4);
+      expect(graphml.match(/<edge /g)).toHaveLength(4);
+    });
+  });
+
+  describe('exportGraph', () => {
+    it('形式に応じた出力とファイル名を返すこと', () => {
+      const graph = createGraph();
+
+      expect(exportGraph(graph, 'mermaid', 'my-app')).toBe(toMermaid(graph));
+      expect(exportGraph(graph, 'dot', 'my-app')).toBe(toDot(graph, 'my-app'));
+      expect(exportGraph(graph, 'graphml', 'my-app')).toBe(toGraphML(graph));
+      expect(getGraphExportFileName('my-app', 'mermaid')).toBe('my-app.mmd');
+      expect(getGraphExportFileName('', 'graphml')).toBe(
+        'dependencies.graphml'
+      );
+    });
+  });
+});
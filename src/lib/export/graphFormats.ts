@@ -0,0 +1,283 @@
+import type { DependencyGraph, DependencyNode } from '@/types';
+import { escapeXml } from './markup';
+
+/**
+ * Text formats the dependency graph can be exported to
+ */
+export type GraphExportFormat = 'mermaid' | 'dot' | 'graphml';
+
+export const GRAPH_EXPORT_FORMATS: Record<
+  GraphExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  mermaid: { label: 'Mermaid', extension: 'mmd', mimeType: 'text/plain' },
+  dot: {
+    label: 'Graphviz DOT',
+    extension: 'dot',
+    mimeType: 'text/vnd.graphviz',
+  },
+  graphml: {
+    label: 'GraphML',
+    extension: 'graphml',
+    mimeType: 'application/graphml+xml',
+  },
+};
+
+/**
+ * Node attributes written to GraphML, in column order
+ */
+const GRAPHML_NODE_ATTRIBUTES: Array<{
+  id: string;
+  type: 'string' | 'int' | 'boolean';
+  value: (node: DependencyNode) => string | number | boolean;
+}> = [
+  { id: 'name', type: 'string', value: (node) => node.component.name },
+  { id: 'filePath', type: 'string', value: (node) => node.component.filePath },
+  { id: 'kind', type: 'string', value: (node) => node.component.type },
+  { id: 'complexity', type: 'int', value: (node) => node.complexity },
+  {
+    id: 'linesOfCode',
+    type: 'int',
+    value: (node) => node.component.linesOfCode,
+  },
+  {
+    id: 'logicalLinesOfCode',
+    type: 'int',
+    value: (node) => node.component.logicalLinesOfCode,
+  },
+  {
+    id: 'cyclomaticComplexity',
+    type: 'int',
+    value: (node) => node.component.cyclomaticComplexity,
+  },
+  {
+    id: 'cognitiveComplexity',
+    type: 'int',
+    value: (node) => node.component.cognitiveComplexity,
+  },
+  {
+    id: 'externalLibraryCount',
+    type: 'int',
+    value: (node) => node.component.externalLibraryCount,
+  },
+  { id: 'propsCount', type: 'int', value: (node) => node.component.propsCount },
+  {
+    id: 'hookCount',
+    type: 'int',
+    value: (node) =>
+      node.component.hooks.reduce((sum, hook) => sum + hook.count, 0),
+  },
+  { id: 'depth', type: 'int', value: (node) => node.depth },
+  {
+    id: 'dependencyCount',
+    type: 'int',
+    value: (node) => node.dependencies.length,
+  },
+  {
+    id: 'dependentCount',
+    type: 'int',
+    value: (node) => node.dependents.length,
+  },
+  {
+    id: 'circularDependency',
+    type: 'boolean',
+    value: isCircular,
+  },
+  {
+    id: 'deepDependencyChain',
+    type: 'boolean',
+    value: (node) => node.warnings?.deepDependencyChain ?? false,
+  },
+  {
+    id: 'highCoupling',
+    type: 'boolean',
+    value: (node) => node.warnings?.highCoupling ?? false,
+  },
+  {
+    id: 'unused',
+    type: 'boolean',
+    value: (node) => node.warnings?.unused ?? false,
+  },
+];
+
+/**
+ * Part of a graph made of the given nodes and the edges between them
+ * (e.g. what is left after search and filters). Nodes keep their
+ * project-wide metrics, such as dependent counts.
+ */
+export function filterDependencyGraph(
+  graph: DependencyGraph,
+  nodeIds: Set<string>
+): DependencyGraph {
+  const nodes = new Map(
+    Array.from(graph.nodes).filter(([id]) => nodeIds.has(id))
+  );
+
+  return {
+    nodes,
+    edges: graph.edges.filter(
+      (edge) => nodes.has(edge.from) && nodes.has(edge.to)
+    ),
+  };
+}
+
+/**
+ * Mermaid flowchart, with nodes on a cycle styled red
+ */
+export function toMermaid(graph: DependencyGraph): string {
+  const ids = createShortIds(graph);
+  const lines = ['flowchart TD'];
+
+  for (const [id, node] of graph.nodes) {
+    const label = escapeMermaid(
+      `${node.component.name}<br/>complexity ${node.complexity}`
+    );
+    const className = isCircular(node) ? ':::circular' : '';
+    lines.push(`  ${ids.get(id)}["${label}"]${className}`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.strength > 1 ? `-->|${edge.strength}|` : '-->';
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  }
+  if (Array.from(graph.nodes.values()).some(isCircular)) {
+    lines.push('  classDef circular stroke:#dc2626,stroke-width:3px');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Graphviz DOT digraph with one cluster per folder
+ */
+export function toDot(graph: DependencyGraph, name = 'dependencies'): string {
+  const folders = new Map<string, DependencyNode[]>();
+  for (const node of graph.nodes.values()) {
+    const folder = getFolder(node.component.filePath);
+    folders.set(folder, [...(folders.get(folder) ?? []), node]);
+  }
+
+  const lines = [
+    `digraph ${quoteDot(name)} {`,
+    '  rankdir=TB;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+  ];
+
+  let clusterIndex = 0;
+  for (const [folder, nodes] of folders) {
+    lines.push(
+      `  subgraph cluster_${clusterIndex++} {`,
+      `    label=${quoteDot(folder || '.')};`,
+      '    style=dashed;'
+    );
+    for (const node of nodes) {
+      const attributes = [
+        `label=${quoteDot(`${node.component.name}\ncomplexity ${node.complexity}`)}`,
+        ...(isCircular(node) ? ['color="#dc2626"', 'penwidth=2'] : []),
+      ];
+      lines.push(`    ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) {
+    const attributes =
+      edge.strength > 1
+        ? ` [penwidth=${Math.min(edge.strength, 5)}, label=${edge.strength}]`
+        : '';
+    lines.push(
+      `  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes};`
+    );
+  }
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * GraphML document with every node metric as a typed attribute
+ */
+export function toGraphML(graph: DependencyGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...GRAPHML_NODE_ATTRIBUTES.map(
+      ({ id, type }) =>
+        `  <key id="${id}" for="node" attr.name="${id}" attr.type="${type}"/>`
+    ),
+    '  <key id="strength" for="edge" attr.name="strength" attr.type="int"/>',
+    '  <graph id="dependencies" edgedefault="directed">',
+  ];
+
+  for (const [id, node] of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(id)}">`);
+    for (const attribute of GRAPHML_NODE_ATTRIBUTES) {
+      const value = String(attribute.value(node));
+      lines.push(
+        `      <data key="${attribute.id}">${escapeXml(value)}</data>`
+      );
+    }
+    lines.push('    </node>');
+  }
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}">`,
+      `      <data key="strength">${edge.strength}</data>`,
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Export a graph in the given format
+ */
+export function exportGraph(
+  graph: DependencyGraph,
+  format: GraphExportFormat,
+  projectName: string
+): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'dot':
+      return toDot(graph, projectName || undefined);
+    case 'graphml':
+      return toGraphML(graph);
+  }
+}
+
+/**
+ * Download name for an exported graph
+ */
+export function getGraphExportFileName(
+  projectName: string,
+  format: GraphExportFormat
+): string {
+  return `${projectName || 'dependencies'}.${GRAPH_EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Mermaid node IDs (component IDs contain characters Mermaid rejects)
+ */
+function createShortIds(graph: DependencyGraph): Map<string, string> {
+  return new Map(Array.from(graph.nodes.keys(), (id, i) => [id, `n${i}`]));
+}
+
+function isCircular(node: DependencyNode): boolean {
+  return node.warnings?.circularDependency ?? false;
+}
+
+function getFolder(filePath: string): string {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash === -1 ? '' : filePath.slice(0, lastSlash);
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
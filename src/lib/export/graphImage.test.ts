@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import type { Edge, Node } from '@xyflow/react';
+import {
+  getGraphImageFileName,
+  getGraphLegend,
+  renderGraphSvg,
+} from './graphImage';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { createComponent } from '@/test/graphFixtures';
+import type { FlowNodeData } from '@/types';
+
+const createNode = (
+  id: string,
+  x: number,
+  y: number,
+  style: Node['style'] = {}
+): Node<FlowNodeData> => ({
+  id,
+  position: { x, y },
+  data: {
+    label: '',
+    componentInfo: createComponent({ id, name: id, complexity: 42 }),
+    complexity: 42,
+    dependencyCount: 0,
+    dependentCount: 0,
+  },
+  style: { width: 60, height: 60, backgroundColor: '#3b82f6', ...style },
+});
+
+describe('graphImage', () => {
+  describe('renderGraphSvg', () => {
+    it('ノードのラベルと複雑度、エッジを描画できること', () => {
+      const nodes = [createNode('App', 0, 0), createNode('Header', 0, 200)];
+      const edges: Edge[] = [
+        {
+          id: 'App-Header',
+          source: 'App',
+          target: 'Header',
+          style: { stroke: '#94a3b8', strokeWidth: 2 },
+        },
+      ];
+
+      const { svg } = renderGraphSvg(nodes, edges);
+
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+      expect(svg).toContain('>App</text>');
+      expect(svg).toContain('>Header</text>');
+      expect(svg.match(/>42<\/text>/g)).toHaveLength(2);
+      expect(svg).toContain('fill="#3b82f6"');
+      // Bottom of App (30, 60) to top of Header (30, 200)
+      expect(svg).toMatch(/<path d="M30,60 C.* 30,200"[^>]*stroke="#94a3b8"/);
+    });
+
+    it('全体を出力する場合はラベルを含む範囲に余白を付けた大きさになること', () => {
+      const nodes = [createNode('App', 100, 100), createNode('B', 300, 400)];
+
+      const image = renderGraphSvg(nodes, []);
+
+      // Nodes span x 100-360 and y 100-490 including the 30px label below
+      expect(image.width).toBe(260 + 80);
+      expect(image.height).toBe(390 + 80);
+      expect(image.svg).toContain('transform="translate(-60 -60)"');
+    });
+
+    it('表示範囲を出力する場合はビューポートの変換と大きさを使うこと', () => {
+      const image = renderGraphSvg([createNode('App', 0, 0)], [], {
+        viewport: { x: 50, y: -20, zoom: 1.5, width: 800, height: 600 },
+      });
+
+      expect(image.width).toBe(800);
+      expect(image.height).toBe(600);
+      expect(image.svg).toContain('transform="translate(50 -20) scale(1.5)"');
+    });
+
+    it('ハイライト・減光・破線のスタイルが反映されること', () => {
+      const nodes = [
+        createNode('App', 0, 0, {
+          boxShadow: '0 0 0 3px #fbbf24, 0 4px 6px rgba(0, 0, 0, 0.1)',
+        }),
+        createNode('Header', 0, 200, { opacity: 0.3 }),
+      ];
+      const edges: Edge[] = [
+        {
+          id: 'App-Header',
+          source: 'App',
+          target: 'Header',
+          style: { stroke: '#f87171', strokeDasharray: '6 4' },
+        },
+      ];
+
+      const { svg } = renderGraphSvg(nodes, edges);
+
+      expect(svg).toContain('r="31.5" fill="none" stroke="#fbbf24"');
+      expect(svg).toContain('<g opacity="0.3">');
+      expect(svg).toContain('stroke-dasharray="6 4"');
+    });
+
+    it('表示されていないノードのエッジは描画されないこと', () => {
+      const nodes = [createNode('App', 0, 0)];
+      const edges: Edge[] = [
+        { id: 'App-Hidden', source: 'App', target: 'Hidden' },
+      ];
+
+      const { svg } = renderGraphSvg(nodes, edges);
+
+      expect(svg).not.toContain('<path');
+    });
+
+    it('名前をエスケープし、長い名前は省略されること', () => {
+      const node = createNode('App', 0, 0);
+      node.data.componentInfo.name = 'A<B>&VeryLongComponentName';
+
+      const { svg } = renderGraphSvg([node], []);
+
+      expect(svg).toContain('>A&lt;B&gt;&amp;VeryLongCompo…</text>');
+    });
+
+    it('凡例を指定した場合はグラフの下に追加されること', () => {
+      const withoutLegend = renderGraphSvg([createNode('App', 0, 0)], []);
+      const withLegend = renderGraphSvg([createNode('App', 0, 0)], [], {
+        legend: getGraphLegend(DEFAULT_COMPLEXITY_PROFILE.bands),
+      });
+
+      expect(withLegend.width).toBe(withoutLegend.width);
+      expect(withLegend.height).toBeGreaterThan(withoutLegend.height);
+      expect(withLegend.svg).toContain('>Circular</text>');
+    });
+  });
+
+  describe('getGraphLegend', () => {
+    it('複雑度の区分の範囲と状態の色を含むこと', () => {
+      const legend = getGraphLegend({ simple: 20, standard: 50, complex: 80 });
+
+      expect(legend.map((item) => item.label)).toEqual([
+        'Simple (0-20)',
+        'Standard (21-50)',
+        'Complex (51-80)',
+        'Very Complex (81-100)',
+        'Root',
+        'Unused',
+        'Circular',
+      ]);
+      expect(legend[0].color).toBe('#22c55e');
+    });
+  });
+
+  describe('getGraphImageFileName', () => {
+    it('プロジェクト名と拡張子からファイル名を作れること', () => {
+      expect(getGraphImageFileName('my-app', 'png')).toBe('my-app.png');
+      expect(getGraphImageFileName('', 'svg')).toBe('graph.svg');
+    });
+  });
+});
@@ -0,0 +1,443 @@
+import { getBezierPath, Position } from '@xyflow/react';
+import type { Edge, Node } from '@xyflow/react';
+import type { ComplexityBand, ComplexityBands, FlowNodeData } from '@/types';
+import {
+  COMPLEXITY_BANDS,
+  getComplexityBandRange,
+} from '@/lib/complexity/complexityProfile';
+import { BAND_COLORS, STATUS_COLORS } from '@/lib/graph/graphBuilder';
+import { getNodeSize } from '@/lib/graph/nodeSize';
+import { escapeXml } from './markup';
+
+/**
+ * Part of the graph to export
+ */
+export type ImageExportArea = 'viewport' | 'graph';
+
+export type LegendItem = {
+  color: string;
+  label: string;
+};
+
+/**
+ * Visible part of the graph: React Flow's transform and its container size
+ */
+export type ImageViewport = {
+  x: number;
+  y: number;
+  zoom: number;
+  width: number;
+  height: number;
+};
+
+export type GraphImageOptions = {
+  // Export only what is visible (defaults to the whole graph)
+  viewport?: ImageViewport;
+  // Drawn below the graph when given
+  legend?: LegendItem[];
+};
+
+/**
+ * Rendered SVG document and its size in CSS pixels
+ */
+export type GraphImage = {
+  svg: string;
+  width: number;
+  height: number;
+};
+
+const GRAPH_PADDING = 40;
+const BACKGROUND_COLOR = '#f9fafb';
+const DEFAULT_EDGE_COLOR = '#b1b1b7';
+const FONT_FAMILY = 'system-ui, -apple-system, sans-serif';
+
+// Component name label below each node (mirrors CustomNode)
+const LABEL_OFFSET = 8;
+const LABEL_HEIGHT = 22;
+const LABEL_PADDING = 8;
+const LABEL_MAX_WIDTH = 150;
+const LABEL_CHAR_WIDTH = 7;
+
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_SWATCH_SIZE = 12;
+const LEGEND_ITEM_GAP = 16;
+
+// Browsers refuse to draw canvases larger than this
+const MAX_CANVAS_SIZE = 16384;
+
+const BAND_LABELS: Record<ComplexityBand, string> = {
+  simple: 'Simple',
+  standard: 'Standard',
+  complex: 'Complex',
+  veryComplex: 'Very Complex',
+};
+
+/**
+ * Legend of the node colours for the given complexity bands
+ */
+export function getGraphLegend(bands: ComplexityBands): LegendItem[] {
+  return [
+    ...COMPLEXITY_BANDS.map((band) => {
+      const { min, max } = getComplexityBandRange(band, bands);
+      return {
+        color: BAND_COLORS[band],
+        label: `${BAND_LABELS[band]} (${min}-${max})`,
+      };
+    }),
+    { color: STATUS_COLORS.root, label: 'Root' },
+    { color: STATUS_COLORS.unused, label: 'Unused' },
+    { color: STATUS_COLORS.circular, label: 'Circular' },
+  ];
+}
+
+/**
+ * Draw laid out React Flow nodes and edges as a standalone SVG
+ *
+ * Nodes, edges and their inline styles (highlights, dimming, dashed edges)
+ * are drawn as they appear on screen, so the export matches the current
+ * filters and Scouter mode as long as the rendered nodes are passed in.
+ */
+export function renderGraphSvg(
+  nodes: Node<FlowNodeData>[],
+  edges: Edge[],
+  options: GraphImageOptions = {}
+): GraphImage {
+  const visibleNodes = nodes.filter((node) => !node.hidden);
+  const nodesById = new Map(visibleNodes.map((node) => [node.id, node]));
+
+  let width: number;
+  let graphHeight: number;
+  let transform: string;
+  if (options.viewport) {
+    const { x, y, zoom } = options.viewport;
+    width = options.viewport.width;
+    graphHeight = options.viewport.height;
+    transform = `translate(${round(x)} ${round(y)}) scale(${round(zoom)})`;
+  } else {
+    const bounds = getGraphBounds(visibleNodes);
+    width = bounds.width + GRAPH_PADDING * 2;
+    graphHeight = bounds.height + GRAPH_PADDING * 2;
+    transform = `translate(${round(GRAPH_PADDING - bounds.x)} ${round(GRAPH_PADDING - bounds.y)})`;
+  }
+
+  const edgeElements = edges
+    .filter((edge) => !edge.hidden)
+    .map((edge) => {
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+      return source && target ? renderEdge(edge, source, target) : '';
+    });
+  const nodeElements = visibleNodes.map(renderNode);
+
+  const legend = options.legend?.length
+    ? renderLegend(options.legend, width, graphHeight)
+    : { svg: '', height: 0 };
+  const height = graphHeight + legend.height;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="${BACKGROUND_COLOR}"/>`,
+    `<svg width="${round(width)}" height="${round(graphHeight)}" overflow="hidden">`,
+    `<g transform="${transform}">`,
+    ...edgeElements,
+    ...nodeElements,
+    '</g>',
+    '</svg>',
+    legend.svg,
+    '</svg>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterise an SVG image to PNG at the given pixel ratio
+ * (lowered for graphs too large for a canvas)
+ */
+export function svgToPng(image: GraphImage, pixelRatio = 2): Promise<Blob> {
+  const scale = Math.min(
+    pixelRatio,
+    MAX_CANVAS_SIZE / Math.max(image.width, image.height, 1)
+  );
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(image.width * scale);
+      canvas.height = Math.ceil(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to create PNG'));
+        }
+      }, 'image/png');
+    };
+    img.onerror = () => reject(new Error('Failed to render SVG'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+}
+
+/**
+ * Download name for an exported image
+ */
+export function getGraphImageFileName(
+  projectName: string,
+  extension: 'svg' | 'png'
+): string {
+  return `${projectName || 'graph'}.${extension}`;
+}
+
+/**
+ * Box around all nodes and their labels
+ */
+function getGraphBounds(nodes: Node<FlowNodeData>[]): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const node of nodes) {
+    const { width, height } = getNodeSize(node);
+    const labelWidth = getLabelWidth(getLabelText(node));
+    const centerX = node.position.x + width / 2;
+    minX = Math.min(minX, node.position.x, centerX - labelWidth / 2);
+    maxX = Math.max(maxX, node.position.x + width, centerX + labelWidth / 2);
+    minY = Math.min(minY, node.position.y);
+    maxY = Math.max(
+      maxY,
+      node.position.y + height + LABEL_OFFSET + LABEL_HEIGHT
+    );
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Bezier from the bottom of the source to the top of the target, like
+ * React Flow's default edge between CustomNode's handles
+ */
+function renderEdge(
+  edge: Edge,
+  source: Node<FlowNodeData>,
+  target: Node<FlowNodeData>
+): string {
+  const sourceSize = getNodeSize(source);
+  const targetSize = getNodeSize(target);
+  const [path] = getBezierPath({
+    sourceX: source.position.x + sourceSize.width / 2,
+    sourceY: source.position.y + sourceSize.height,
+    sourcePosition: Position.Bottom,
+    targetX: target.position.x + targetSize.width / 2,
+    targetY: target.position.y,
+    targetPosition: Position.Top,
+  });
+
+  const style = edge.style ?? {};
+  const dashArray = style.strokeDasharray ?? (edge.animated ? '5' : undefined);
+
+  return `<path d="${path}"${attributes({
+    fill: 'none',
+    stroke: style.stroke ?? DEFAULT_EDGE_COLOR,
+    'stroke-width': style.strokeWidth ?? 1,
+    'stroke-dasharray': dashArray,
+    opacity: style.opacity,
+  })}/>`;
+}
+
+/**
+ * Circle with the complexity score, ring for highlights and warnings,
+ * and the component name below
+ */
+function renderNode(node: Node<FlowNodeData>): string {
+  const { width, height } = getNodeSize(node);
+  const style = node.style ?? {};
+  const centerX = node.position.x + width / 2;
+  const centerY = node.position.y + height / 2;
+  const radius = width / 2;
+  const border = parseBorder(style.border);
+  const ring = parseRing(style.boxShadow);
+  const elements: string[] = [];
+
+  if (ring) {
+    elements.push(
+      `<circle${attributes({
+        cx: centerX,
+        cy: centerY,
+        r: radius + ring.width / 2,
+        fill: 'none',
+        stroke: ring.color,
+        'stroke-width': ring.width,
+      })}/>`
+    );
+  }
+  elements.push(
+    `<circle${attributes({
+      cx: centerX,
+      cy: centerY,
+      r: radius - (border?.width ?? 0) / 2,
+      fill: style.backgroundColor ?? '#fff',
+      stroke: border?.color,
+      'stroke-width': border?.width,
+    })}/>`,
+    `<text${attributes({
+      x: centerX,
+      y: centerY,
+      fill: style.color ?? 'white',
+      'font-size': 11,
+      'font-weight': 'bold',
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+    })}>${node.data.complexity}</text>`
+  );
+
+  const label = getLabelText(node);
+  const labelWidth = getLabelWidth(label);
+  const labelTop = node.position.y + height + LABEL_OFFSET;
+  elements.push(
+    `<rect${attributes({
+      x: centerX - labelWidth / 2,
+      y: labelTop,
+      width: labelWidth,
+      height: LABEL_HEIGHT,
+      rx: 4,
+      fill: 'rgba(255, 255, 255, 0.95)',
+      stroke: '#e5e7eb',
+    })}/>`,
+    `<text${attributes({
+      x: centerX,
+      y: labelTop + LABEL_HEIGHT / 2,
+      fill: '#1f2937',
+      'font-size': 12,
+      'font-weight': 600,
+      'text-anchor': 'middle',
+      'dominant-baseline': 'central',
+    })}>${escapeXml(label)}</text>`
+  );
+
+  return `<g${attributes({ opacity: style.opacity })}>${elements.join('')}</g>`;
+}
+
+/**
+ * Legend rows below the graph, wrapped to the image width
+ */
+function renderLegend(
+  items: LegendItem[],
+  width: number,
+  top: number
+): { svg: string; height: number } {
+  const elements: string[] = [];
+  let x = LEGEND_ITEM_GAP;
+  let row = 0;
+
+  for (const item of items) {
+    const itemWidth =
+      LEGEND_SWATCH_SIZE + 6 + item.label.length * LABEL_CHAR_WIDTH;
+    if (x > LEGEND_ITEM_GAP && x + itemWidth > width - LEGEND_ITEM_GAP) {
+      x = LEGEND_ITEM_GAP;
+      row += 1;
+    }
+    const y = top + LEGEND_ITEM_GAP / 2 + row * LEGEND_ROW_HEIGHT;
+    elements.push(
+      `<circle${attributes({
+        cx: x + LEGEND_SWATCH_SIZE / 2,
+        cy: y + LEGEND_ROW_HEIGHT / 2,
+        r: LEGEND_SWATCH_SIZE / 2,
+        fill: item.color,
+      })}/>`,
+      `<text${attributes({
+        x: x + LEGEND_SWATCH_SIZE + 6,
+        y: y + LEGEND_ROW_HEIGHT / 2,
+        fill: '#374151',
+        'font-size': 12,
+        'dominant-baseline': 'central',
+      })}>${escapeXml(item.label)}</text>`
+    );
+    x += itemWidth + LEGEND_ITEM_GAP;
+  }
+
+  const height = (row + 1) * LEGEND_ROW_HEIGHT + LEGEND_ITEM_GAP;
+  return {
+    svg: [
+      `<rect${attributes({ x: 0, y: top, width, height, fill: 'white' })}/>`,
+      `<line${attributes({ x1: 0, y1: top, x2: width, y2: top, stroke: '#e5e7eb' })}/>`,
+      ...elements,
+    ].join(''),
+    height,
+  };
+}
+
+/**
+ * Component name as shown below the node, truncated like the CSS ellipsis
+ */
+function getLabelText(node: Node<FlowNodeData>): string {
+  const { name, type } = node.data.componentInfo;
+  const text = type === 'hook' ? `⚡ ${name}` : name;
+  const maxChars = Math.floor(
+    (LABEL_MAX_WIDTH - LABEL_PADDING * 2) / LABEL_CHAR_WIDTH
+  );
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function getLabelWidth(text: string): number {
+  return text.length * LABEL_CHAR_WIDTH + LABEL_PADDING * 2;
+}
+
+/**
+ * Width and colour of a solid CSS border such as '3px solid #dc2626'
+ */
+function parseBorder(border: unknown): { width: number; color: string } | null {
+  if (typeof border !== 'string') {
+    return null;
+  }
+  const match = border.match(/^([\d.]+)px\s+solid\s+(.+)$/);
+  return match ? { width: Number(match[1]), color: match[2].trim() } : null;
+}
+
+/**
+ * Spread ring of a box-shadow such as '0 0 0 3px #fbbf24, 0 4px 6px ...'
+ */
+function parseRing(
+  boxShadow: unknown
+): { width: number; color: string } | null {
+  if (typeof boxShadow !== 'string') {
+    return null;
+  }
+  const match = boxShadow.match(/^0 0 0 ([\d.]+)px ([^,]+)/);
+  return match ? { width: Number(match[1]), color: match[2].trim() } : null;
+}
+
+/**
+ * Render SVG attributes, skipping undefined values
+ */
+function attributes(values: Record<string, string | number | undefined>) {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        ` ${name}="${typeof value === 'number' ? round(value) : escapeXml(value as string)}"`
+    )
+    .join('');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,10 @@
+/**
+ * Escape text for XML and HTML content and double-quoted attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { downloadFile } from './fileSystem';
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('ダウンロードが始まるまでオブジェクトURLを無効化しないこと', () => {
+    vi.useFakeTimers();
+    const createObjectURL = vi.fn(() => 'blob:download');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(() => {});
+
+    downloadFile('analysis.json', '{}');
+
+    expect(click).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1000);
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(60_000);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:download');
+  });
+});
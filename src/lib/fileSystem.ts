@@ -19,6 +19,13 @@ const SKIP_DIRECTORIES = [
   '.cache',
 ];
 
+/**
+ * How long a download's object URL stays valid. Firefox and Safari read the
+ * blob after click() returns, so revoking it right away can cancel the
+ * download.
+ */
+const DOWNLOAD_URL_LIFETIME = 60_000;
+
 /**
  * Check if the browser supports File System Access API
  */
@@ -62,17 +69,29 @@ function isReactFile(name: string): boolean {
   return REACT_EXTENSIONS.some((ext) => name.endsWith(ext));
 }
 
+/**
+ * Options for scanDirectory
+ */
+export type ScanOptions = {
+  // Called with the path of every collected file
+  onFileFound?: (path: string) => void;
+  // Stops the scan with an AbortError
+  signal?: AbortSignal;
+};
+
 /**
  * Recursively scan a directory and collect React files
  */
 export async function scanDirectory(
   directoryHandle: FileSystemDirectoryHandle,
-  basePath: string = ''
+  basePath: string = '',
+  options: ScanOptions = {}
 ): Promise<FileInfo[]> {
   const files: FileInfo[] = [];
 
   try {
     for await (const entry of directoryHandle.values()) {
+      options.signal?.throwIfAborted();
       const currentPath = basePath ? `${basePath}/${entry.name}` : entry.name;
 
       if (entry.kind === 'directory') {
@@ -84,7 +103,8 @@ export async function scanDirectory(
         // Recursively scan subdirectories
         const subFiles = await scanDirectory(
           entry as FileSystemDirectoryHandle,
-          currentPath
+          currentPath,
+          options
         );
         files.push(...subFiles);
       } else if (entry.kind === 'file') {
@@ -102,10 +122,14 @@ export async function scanDirectory(
             extension,
             content,
           });
+          options.onFileFound?.(currentPath);
         }
       }
     }
   } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      throw error;
+    }
     console.error(`Error scanning directory: ${basePath}`, error);
     throw error;
   }
@@ -113,6 +137,102 @@ export async function scanDirectory(
   return files;
 }
 
+/**
+ * Recursively collect the last modification time of every React file,
+ * without reading file contents
+ */
+export async function scanFileStamps(
+  directoryHandle: FileSystemDirectoryHandle,
+  basePath: string = ''
+): Promise<Map<string, number>> {
+  const stamps = new Map<string, number>();
+
+  for await (const entry of directoryHandle.values()) {
+    const currentPath = basePath ? `${basePath}/${entry.name}` : entry.name;
+
+    if (entry.kind === 'directory') {
+      if (shouldSkipDirectory(entry.name)) {
+        continue;
+      }
+      const subStamps = await scanFileStamps(
+        entry as FileSystemDirectoryHandle,
+        currentPath
+      );
+      for (const [path, lastModified] of subStamps) {
+        stamps.set(path, lastModified);
+      }
+    } else if (entry.kind === 'file' && isReactFile(entry.name)) {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      stamps.set(currentPath, file.lastModified);
+    }
+  }
+
+  return stamps;
+}
+
+/**
+ * Open a file by its path relative to the directory handle
+ * Returns null if the file (or any parent directory) does not exist
+ */
+export async function openFile(
+  directoryHandle: FileSystemDirectoryHandle,
+  path: string
+): Promise<File | null> {
+  const segments = path.split('/').filter(Boolean);
+  const fileName = segments.pop();
+  if (!fileName) {
+    return null;
+  }
+
+  try {
+    let currentHandle = directoryHandle;
+    for (const segment of segments) {
+      currentHandle = await currentHandle.getDirectoryHandle(segment);
+    }
+
+    const fileHandle = await currentHandle.getFileHandle(fileName);
+    return await fileHandle.getFile();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a text file by its path relative to the directory handle
+ * Returns null if the file (or any parent directory) does not exist
+ */
+export async function readTextFile(
+  directoryHandle: FileSystemDirectoryHandle,
+  path: string
+): Promise<string | null> {
+  try {
+    const file = await openFile(directoryHandle, path);
+    return file ? await file.text() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save content as a file through a browser download
+ */
+export function downloadFile(
+  fileName: string,
+  content: string | Blob,
+  type: string = 'application/json'
+): void {
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME);
+}
+
 /**
  * Get file extension
  */
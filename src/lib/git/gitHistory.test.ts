@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { loadGitHistory } from './gitHistory';
+import { createNodeDirectoryHandle } from '@/cli/nodeDirectoryHandle';
+
+/**
+ * A component file long enough for git to store its versions as deltas
+ */
+const component = (name: string, version: number) =>
+  [
+    `export default function ${name}() {`,
+    ...Array.from({ length: 40 }, (_, i) => `  const value${i} = ${i};`),
+    `  return <div>${name} v${version}</div>;`,
+    '}',
+  ].join('\n');
+
+describe('gitHistory', () => {
+  let root: string;
+  let repository: string;
+  let clone: string;
+
+  const git = (cwd: string, args: string[], author = 'Alice', date = '') =>
+    execFileSync('git', args, {
+      cwd,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+        GIT_CONFIG_GLOBAL: '/dev/null',
+        GIT_CONFIG_NOSYSTEM: '1',
+      },
+      stdio: 'pipe',
+    }).toString();
+
+  const write = (file: string, content: string) =>
+    writeFile(path.join(repository, file), content);
+
+  const commit = (author: string, date: string) => {
+    git(repository, ['add', '-A']);
+    git(repository, ['commit', '-q', '-m', `${author} ${date}`], author, date);
+  };
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'reuntangle-git-'));
+    repository = path.join(root, 'repo');
+    clone = path.join(root, 'clone');
+    await mkdir(path.join(repository, 'src/lib'), { recursive: true });
+    git(repository, ['init', '-q', '-b', 'main']);
+
+    await write('src/App.tsx', component('App', 1));
+    await write('src/Header.tsx', component('Header', 1));
+    await write('README.md', '# Demo');
+    // Enough siblings for git to store later versions of src as tree deltas
+    for (let i = 0; i < 30; i++) {
+      await write(`src/icon${i}.ts`, `export const icon${i} = ${i};`);
+    }
+    commit('Alice', '2024-01-01T10:00:00Z');
+
+    await write('src/Header.tsx', component('Header', 2));
+    commit('Bob', '2024-02-01T10:00:00Z');
+
+    git(repository, ['checkout', '-q', '-b', 'feature']);
+    await write('src/Header.tsx', component('Header', 3));
+    await write('src/lib/util.ts', 'export const util = 1;');
+    commit('Carol', '2024-03-01T10:00:00Z');
+
+    git(repository, ['checkout', '-q', 'main']);
+    await write('src/App.tsx', component('App', 2));
+    commit('Alice', '2024-03-15T10:00:00Z');
+
+    git(
+      repository,
+      ['merge', '-q', '--no-ff', '-m', 'Merge feature', 'feature'],
+      'Alice',
+      '2024-04-01T10:00:00Z'
+    );
+
+    // Cloned over the pack protocol: one packfile with deltas, packed refs
+    git(root, ['clone', '-q', '--no-local', repository, clone]);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const expectedFiles = {
+    'src/App.tsx': {
+      commitCount: 2,
+      lastModified: Date.parse('2024-03-15T10:00:00Z'),
+      authors: ['Alice'],
+    },
+    'src/Header.tsx': {
+      commitCount: 3,
+      lastModified: Date.parse('2024-03-01T10:00:00Z'),
+      authors: ['Alice', 'Bob', 'Carol'],
+    },
+    'src/lib/util.ts': {
+      commitCount: 1,
+      lastModified: Date.parse('2024-03-01T10:00:00Z'),
+      authors: ['Carol'],
+    },
+    'README.md': {
+      commitCount: 1,
+      lastModified: Date.parse('2024-01-01T10:00:00Z'),
+      authors: ['Alice'],
+    },
+    ...Object.fromEntries(
+      Array.from({ length: 30 }, (_, i) => [
+        `src/icon${i}.ts`,
+        {
+          commitCount: 1,
+          lastModified: Date.parse('2024-01-01T10:00:00Z'),
+          authors: ['Alice'],
+        },
+      ])
+    ),
+  };
+
+  it('ルーズオブジェクトからファイルごとの履歴を読めること', async () => {
+    const history = await loadGitHistory(createNodeDirectoryHandle(repository));
+
+    expect(history).not.toBeNull();
+    expect(history!.head).toBe(git(repository, ['rev-parse', 'HEAD']).trim());
+    expect(history!.commitsRead).toBe(5);
+    expect(history!.truncated).toBe(false);
+    expect(Object.fromEntries(history!.files)).toEqual(expectedFiles);
+  });
+
+  it('パックファイルとpacked-refsから同じ履歴を読めること', async () => {
+    const history = await loadGitHistory(createNodeDirectoryHandle(clone));
+
+    expect(Object.fromEntries(history!.files)).toEqual(expectedFiles);
+  });
+
+  it('コミット数の上限で新しいコミットから読むこと', async () => {
+    const history = await loadGitHistory(
+      createNodeDirectoryHandle(repository),
+      { maxCommits: 2 }
+    );
+
+    // The merge (not counted) and Alice's change of App on main
+    expect(history!.commitsRead).toBe(2);
+    expect(history!.truncated).toBe(true);
+    expect(Object.fromEntries(history!.files)).toEqual({
+      'src/App.tsx': {
+        commitCount: 1,
+        lastModified: Date.parse('2024-03-15T10:00:00Z'),
+        authors: ['Alice'],
+      },
+    });
+  });
+
+  it('HEADが変わっていなければ前回の履歴を再利用すること', async () => {
+    const handle = createNodeDirectoryHandle(repository);
+    const previous = await loadGitHistory(handle);
+
+    expect(await loadGitHistory(handle, { previous })).toBe(previous);
+  });
+
+  it('リポジトリでないフォルダの場合はnullを返すこと', async () => {
+    expect(
+      await loadGitHistory(
+        createNodeDirectoryHandle(path.join(repository, 'src'))
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import type { FileHistory } from '@/types';
+import {
+  openGitObjectStore,
+  type GitCommit,
+  type GitObjectStore,
+} from './gitObjectStore';
+
+/**
+ * Commits read before the rest of the history is ignored
+ */
+export const DEFAULT_MAX_COMMITS = 1000;
+
+/**
+ * Change history of every file touched by the commits read
+ */
+export type GitHistory = {
+  head: string; // Commit the history was read from
+  files: Map<string, FileHistory>;
+  commitsRead: number;
+  truncated: boolean; // Stopped at maxCommits
+};
+
+/**
+ * Options for loadGitHistory
+ */
+export type LoadGitHistoryOptions = {
+  maxCommits?: number;
+  // Returned as is when HEAD has not moved since it was read
+  previous?: GitHistory | null;
+  // Stops reading with an AbortError
+  signal?: AbortSignal;
+};
+
+/**
+ * Read the history of the git repository at the root of a folder, newest
+ * commits first; null when the folder is not a repository or has no commits
+ *
+ * Like `git log --no-merges`, merge commits are walked through but not
+ * counted, and each commit is compared with its parent.
+ */
+export async function loadGitHistory(
+  directoryHandle: FileSystemDirectoryHandle,
+  options: LoadGitHistoryOptions = {}
+): Promise<GitHistory | null> {
+  const { signal, previous } = options;
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+
+  const store = await openGitObjectStore(directoryHandle);
+  const head = await store?.resolveRef('HEAD');
+  if (!store || !head) {
+    return null;
+  }
+  if (previous?.head === head) {
+    return previous;
+  }
+
+  // Commits read but not walked yet; parents are read to compare with them
+  const commits = new Map<string, GitCommit | null>();
+  const readCommit = async (id: string): Promise<GitCommit | null> => {
+    if (!commits.has(id)) {
+      commits.set(id, await store.readCommit(id));
+    }
+    return commits.get(id)!;
+  };
+
+  const changes = new Map<
+    string,
+    { commitCount: number; lastModified: number; authors: Map<string, number> }
+  >();
+  const visited = new Set<string>([head]);
+  const pending = [head];
+  let commitsRead = 0;
+
+  while (pending.length > 0 && commitsRead < maxCommits) {
+    signal?.throwIfAborted();
+
+    // Newest pending commit next, so a truncated history keeps recent ones
+    const newest = await pickNewest(pending, readCommit);
+    const id = pending.splice(newest, 1)[0];
+    const commit = await readCommit(id);
+    commits.delete(id);
+    if (!commit) {
+      // Beyond a shallow clone's history
+      continue;
+    }
+    commitsRead++;
+
+    for (const parent of commit.parents) {
+      if (!visited.has(parent)) {
+        visited.add(parent);
+        pending.push(parent);
+      }
+    }
+    if (commit.parents.length > 1) {
+      continue;
+    }
+
+    const parent = commit.parents[0]
+      ? await readCommit(commit.parents[0])
+      : null;
+    const changedPaths: string[] = [];
+    await diffTrees(store, parent?.tree ?? null, commit.tree, '', changedPaths);
+
+    for (const path of changedPaths) {
+      const change = changes.get(path) ?? {
+        commitCount: 0,
+        lastModified: 0,
+        authors: new Map<string, number>(),
+      };
+      change.commitCount++;
+      change.lastModified = Math.max(change.lastModified, commit.time);
+      change.authors.set(
+        commit.author,
+        (change.authors.get(commit.author) ?? 0) + 1
+      );
+      changes.set(path, change);
+    }
+  }
+
+  const files = new Map<string, FileHistory>();
+  for (const [path, change] of changes) {
+    files.set(path, {
+      commitCount: change.commitCount,
+      lastModified: change.lastModified,
+      authors: Array.from(change.authors)
+        .sort(
+          ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+        )
+        .map(([author]) => author),
+    });
+  }
+
+  return {
+    head,
+    files,
+    commitsRead,
+    truncated: pending.length > 0,
+  };
+}
+
+/**
+ * Index of the pending commit with the latest author time
+ */
+async function pickNewest(
+  pending: string[],
+  readCommit: (id: string) => Promise<GitCommit | null>
+): Promise<number> {
+  let newest = 0;
+  let newestTime = -Infinity;
+  for (let i = 0; i < pending.length; i++) {
+    const time = (await readCommit(pending[i]))?.time ?? -Infinity;
+    if (time > newestTime) {
+      newest = i;
+      newestTime = time;
+    }
+  }
+  return newest;
+}
+
+/**
+ * Collect the paths of files added or modified between two trees, skipping
+ * subtrees whose IDs did not change
+ */
+async function diffTrees(
+  store: GitObjectStore,
+  before: string | null,
+  after: string,
+  prefix: string,
+  changedPaths: string[]
+): Promise<void> {
+  const [beforeEntries, afterEntries] = await Promise.all([
+    before ? store.readTree(before) : new Map(),
+    store.readTree(after),
+  ]);
+
+  for (const [name, entry] of afterEntries) {
+    const previous = beforeEntries.get(name);
+    if (previous?.id === entry.id) {
+      continue;
+    }
+    const path = `${prefix}${name}`;
+    if (entry.isTree) {
+      await diffTrees(
+        store,
+        previous?.isTree ? previous.id : null,
+        entry.id,
+        `${path}/`,
+        changedPaths
+      );
+    } else {
+      changedPaths.push(path);
+    }
+  }
+}
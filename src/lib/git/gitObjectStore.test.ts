@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyDelta, toHex } from './gitObjectStore';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('gitObjectStore', () => {
+  describe('applyDelta', () => {
+    it('ベースからのコピーと挿入で元のオブジェクトを復元できること', () => {
+      const base = encoder.encode('hello brave new world');
+      const delta = new Uint8Array([
+        21, // Base size
+        17, // Result size
+        0x91,
+        0,
+        6, // Copy 6 bytes from offset 0: "hello "
+        0x91,
+        16,
+        5, // Copy 5 bytes from offset 16: "world"
+        6,
+        ...encoder.encode(' again'), // Insert 6 bytes
+      ]);
+
+      expect(decoder.decode(applyDelta(base, delta))).toBe('hello world again');
+    });
+
+    it('サイズ0のコピーは0x10000バイトとして扱うこと', () => {
+      const base = new Uint8Array(0x10000).fill(7);
+      const delta = new Uint8Array([0x80, 0x80, 0x04, 0x80, 0x80, 0x04, 0x80]);
+
+      expect(applyDelta(base, delta)).toEqual(base);
+    });
+
+    it('ベースのサイズが一致しない場合はエラーを投げること', () => {
+      expect(() =>
+        applyDelta(new Uint8Array(3), new Uint8Array([4, 0]))
+      ).toThrow('Invalid git delta: base size does not match');
+    });
+  });
+
+  describe('toHex', () => {
+    it('バイト列を16進文字列に変換できること', () => {
+      expect(toHex(new Uint8Array([0, 15, 255]))).toBe('000fff');
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { openFile, readTextFile } from '@/lib/fileSystem';
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export type GitObject = {
+  type: GitObjectType;
+  data: Uint8Array;
+};
+
+export type GitCommit = {
+  tree: string;
+  parents: string[];
+  author: string;
+  time: number; // Author time, ms since epoch
+  subject: string; // First line of the message
+};
+
+export type GitTreeEntry = {
+  id: string;
+  isTree: boolean;
+};
+
+/**
+ * Options for GitObjectStore
+ */
+export type GitObjectStoreOptions = {
+  // The repository's .git directory
+  gitDirectory: FileSystemDirectoryHandle;
+  // Resolved packed objects kept for delta bases (defaults to 1000)
+  cacheSize?: number;
+};
+
+/**
+ * A packfile and the offsets of its objects, from its .idx file
+ */
+type Pack = {
+  file: File;
+  offsets: Map<string, number>;
+  // Offset of the object after each object (the trailer for the last one)
+  ends: Map<number, number>;
+};
+
+const PACK_TYPES: Record<number, GitObjectType> = {
+  1: 'commit',
+  2: 'tree',
+  3: 'blob',
+  4: 'tag',
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const IDX_MAGIC = 0xff744f63;
+const SHA_LENGTH = 20;
+// Longest pack entry header: type and size, then a delta base offset or ID
+const MAX_PACK_HEADER = 32;
+
+const DEFAULT_CACHE_SIZE = 1000;
+
+const TREE_MODE = '40000';
+const SUBMODULE_MODE = '160000';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Read-only access to the objects of a local git repository
+ *
+ * Reads loose objects and version 2 packfiles (including delta chains)
+ * through the File System Access API; nothing leaves the machine.
+ */
+export class GitObjectStore {
+  private readonly gitDirectory: FileSystemDirectoryHandle;
+  private readonly cacheSize: number;
+  private packs: Promise<Pack[]> | null = null;
+  private readonly cache = new Map<string, GitObject>();
+
+  constructor(options: GitObjectStoreOptions) {
+    this.gitDirectory = options.gitDirectory;
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+  }
+
+  /**
+   * Object ID of a ref such as HEAD or refs/heads/main, following symbolic
+   * refs; null when it does not exist (e.g. a repository without commits)
+   */
+  async resolveRef(ref: string): Promise<string | null> {
+    for (let depth = 0; depth < 10; depth++) {
+      const content = (await readTextFile(this.gitDirectory, ref))?.trim();
+      if (content === undefined) {
+        return this.findPackedRef(ref);
+      }
+      if (!content.startsWith('ref: ')) {
+        return content;
+      }
+      ref = content.slice('ref: '.length);
+    }
+    throw new Error(`Invalid git ref: ${ref} is nested too deeply`);
+  }
+
+  /**
+   * Read an object by its ID; null when the repository does not have it
+   * (e.g. beyond the history of a shallow clone)
+   */
+  async readObject(id: string): Promise<GitObject | null> {
+    const loose = await this.readLooseObject(id);
+    if (loose) {
+      return loose;
+    }
+
+    for (const pack of await this.getPacks()) {
+      const offset = pack.offsets.get(id);
+      if (offset !== undefined) {
+        return this.readPackedObject(pack, offset);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a commit; null when it is missing or the ID is not a commit
+   */
+  async readCommit(id: string): Promise<GitCommit | null> {
+    const object = await this.readObject(id);
+    return object?.type === 'commit' ? parseCommit(object.data) : null;
+  }
+
+  /**
+   * Entries of a tree by name; empty when it is missing. Submodules are left
+   * out, as their commits are not in this repository
+   */
+  async readTree(id: string): Promise<Map<string, GitTreeEntry>> {
+    const object = await this.readObject(id);
+    return object?.type === 'tree' ? parseTree(object.data) : new Map();
+  }
+
+  private async findPackedRef(ref: string): Promise<string | null> {
+    const packedRefs = await readTextFile(this.gitDirectory, 'packed-refs');
+    for (const line of packedRefs?.split('\n') ?? []) {
+      const [id, name] = line.trim().split(' ');
+      if (name === ref) {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  private async readLooseObject(id: string): Promise<GitObject | null> {
+    const file = await openFile(
+      this.gitDirectory,
+      `objects/${id.slice(0, 2)}/${id.slice(2)}`
+    );
+    if (!file) {
+      return null;
+    }
+
+    // "<type> <size>\0<content>"
+    const raw = await inflate(new Uint8Array(await file.arrayBuffer()));
+    const headerEnd = raw.indexOf(0);
+    const [type] = textDecoder.decode(raw.subarray(0, headerEnd)).split(' ');
+    if (!isObjectType(type)) {
+      throw new Error(`Invalid git object ${id}: unknown type ${type}`);
+    }
+    return { type, data: raw.subarray(headerEnd + 1) };
+  }
+
+  private getPacks(): Promise<Pack[]> {
+    this.packs ??= this.loadPacks();
+    return this.packs;
+  }
+
+  private async loadPacks(): Promise<Pack[]> {
+    let packDirectory: FileSystemDirectoryHandle;
+    try {
+      packDirectory = await (
+        await this.gitDirectory.getDirectoryHandle('objects')
+      ).getDirectoryHandle('pack');
+    } catch {
+      return [];
+    }
+
+    const packs: Pack[] = [];
+    for await (const entry of packDirectory.values()) {
+      if (entry.kind !== 'file' || !entry.name.endsWith('.idx')) {
+        continue;
+      }
+      const packName = entry.name.replace(/\.idx$/, '.pack');
+      const [index, file] = await Promise.all([
+        (entry as FileSystemFileHandle).getFile(),
+        openFile(packDirectory, packName),
+      ]);
+      if (file) {
+        packs.push(
+          parsePackIndex(new Uint8Array(await index.arrayBuffer()), file)
+        );
+      }
+    }
+    return packs;
+  }
+
+  private async readPackedObject(
+    pack: Pack,
+    offset: number
+  ): Promise<GitObject> {
+    const cacheKey = `${pack.file.name}:${offset}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      // Most recently used last
+      this.cache.delete(cacheKey);
+      this.cache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const end = pack.ends.get(offset) ?? pack.file.size - SHA_LENGTH;
+    const header = new Uint8Array(
+      await pack.file
+        .slice(offset, Math.min(offset + MAX_PACK_HEADER, end))
+        .arrayBuffer()
+    );
+
+    // Type in bits 4-6 of the first byte; the size varint is not needed
+    let position = 0;
+    const typeCode = (header[0] >> 4) & 0x07;
+    while (header[position++] & 0x80) {
+      // Skip size bytes
+    }
+
+    let base: GitObject | null = null;
+    if (typeCode === OFS_DELTA) {
+      let byte = header[position++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = header[position++];
+        distance = (distance + 1) * 128 + (byte & 0x7f);
+      }
+      base = await this.readPackedObject(pack, offset - distance);
+    } else if (typeCode === REF_DELTA) {
+      const baseId = toHex(header.subarray(position, position + SHA_LENGTH));
+      position += SHA_LENGTH;
+      base = await this.readObject(baseId);
+      if (!base) {
+        throw new Error(`Invalid packfile: missing delta base ${baseId}`);
+      }
+    } else if (!PACK_TYPES[typeCode]) {
+      throw new Error(`Invalid packfile: unknown object type ${typeCode}`);
+    }
+
+    const data = await inflate(
+      new Uint8Array(
+        await pack.file.slice(offset + position, end).arrayBuffer()
+      )
+    );
+    const object: GitObject = base
+      ? { type: base.type, data: applyDelta(base.data, data) }
+      : { type: PACK_TYPES[typeCode], data };
+
+    this.cache.set(cacheKey, object);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return object;
+  }
+}
+
+/**
+ * Object store of the repository at the root of a folder; null when the
+ * folder is not a repository (or is a worktree, whose .git is a file)
+ */
+export async function openGitObjectStore(
+  directoryHandle: FileSystemDirectoryHandle
+): Promise<GitObjectStore | null> {
+  try {
+    return new GitObjectStore({
+      gitDirectory: await directoryHandle.getDirectoryHandle('.git'),
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tree, parents, author and subject of a commit object
+ */
+function parseCommit(data: Uint8Array): GitCommit {
+  const text = textDecoder.decode(data);
+  const headerEnd = text.indexOf('\n\n');
+  const commit: GitCommit = {
+    tree: '',
+    parents: [],
+    author: '',
+    time: 0,
+    subject: headerEnd === -1 ? '' : text.slice(headerEnd + 2).split('\n')[0],
+  };
+
+  for (const line of text.slice(0, headerEnd).split('\n')) {
+    const space = line.indexOf(' ');
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === 'tree') {
+      commit.tree = value;
+    } else if (key === 'parent') {
+      commit.parents.push(value);
+    } else if (key === 'author') {
+      // "Name <email> <seconds> <timezone>"
+      const match = /^(.*?) <[^>]*> (\d+) [+-]\d{4}$/.exec(value);
+      if (match) {
+        commit.author = match[1];
+        commit.time = Number(match[2]) * 1000;
+      }
+    }
+  }
+  return commit;
+}
+
+/**
+ * Entries of a tree object: "<mode> <name>\0<20-byte ID>" each
+ */
+function parseTree(data: Uint8Array): Map<string, GitTreeEntry> {
+  const entries = new Map<string, GitTreeEntry>();
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    const nul = data.indexOf(0, space);
+    const mode = textDecoder.decode(data.subarray(position, space));
+    const name = textDecoder.decode(data.subarray(space + 1, nul));
+    const id = toHex(data.subarray(nul + 1, nul + 1 + SHA_LENGTH));
+    position = nul + 1 + SHA_LENGTH;
+    if (mode !== SUBMODULE_MODE) {
+      entries.set(name, { id, isTree: mode === TREE_MODE });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read a version 2 pack index: object IDs and their offsets in the pack
+ */
+function parsePackIndex(index: Uint8Array, file: File): Pack {
+  const view = new DataView(index.buffer, index.byteOffset, index.byteLength);
+  if (view.getUint32(0) !== IDX_MAGIC || view.getUint32(4) !== 2) {
+    throw new Error(`Unsupported pack index for ${file.name}`);
+  }
+
+  // Header, then a fan-out table whose last entry is the object count
+  const fanout = 8;
+  const count = view.getUint32(fanout + 255 * 4);
+  const ids = fanout + 256 * 4;
+  const crcs = ids + count * SHA_LENGTH;
+  const smallOffsets = crcs + count * 4;
+  const largeOffsets = smallOffsets + count * 4;
+
+  const offsets = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const id = toHex(
+      index.subarray(ids + i * SHA_LENGTH, ids + (i + 1) * SHA_LENGTH)
+    );
+    let offset = view.getUint32(smallOffsets + i * 4);
+    // The top bit points into the table of 64-bit offsets
+    if (offset & 0x80000000) {
+      const large = largeOffsets + (offset & 0x7fffffff) * 8;
+      offset = view.getUint32(large) * 2 ** 32 + view.getUint32(large + 4);
+    }
+    offsets.set(id, offset);
+  }
+
+  // Compressed data must be inflated without the following object
+  const sorted = Array.from(offsets.values()).sort((a, b) => a - b);
+  const ends = new Map<number, number>();
+  sorted.forEach((offset, i) => {
+    ends.set(offset, sorted[i + 1] ?? file.size - SHA_LENGTH);
+  });
+
+  return { file, offsets, ends };
+}
+
+/**
+ * Rebuild an object from its delta base and a git delta
+ */
+export function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let position = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 1;
+    let byte: number;
+    do {
+      byte = delta[position++];
+      size += (byte & 0x7f) * shift;
+      shift *= 128;
+    } while (byte & 0x80);
+    return size;
+  };
+
+  const baseSize = readSize();
+  if (baseSize !== base.length) {
+    throw new Error('Invalid git delta: base size does not match');
+  }
+  const result = new Uint8Array(readSize());
+  let written = 0;
+
+  while (position < delta.length) {
+    const op = delta[position++];
+    if (op & 0x80) {
+      // Copy from the base: offset and size bytes present per flag bit
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let i = 0; i < 4; i++) {
+        if (op & (1 << i)) {
+          copyOffset += delta[position++] * 2 ** (8 * i);
+        }
+      }
+      for (let i = 0; i < 3; i++) {
+        if (op & (0x10 << i)) {
+          copySize += delta[position++] * 2 ** (8 * i);
+        }
+      }
+      copySize ||= 0x10000;
+      result.set(base.subarray(copyOffset, copyOffset + copySize), written);
+      written += copySize;
+    } else if (op) {
+      // Insert the next op bytes
+      result.set(delta.subarray(position, position + op), written);
+      position += op;
+      written += op;
+    } else {
+      throw new Error('Invalid git delta: reserved instruction');
+    }
+  }
+
+  if (written !== result.length) {
+    throw new Error('Invalid git delta: result size does not match');
+  }
+  return result;
+}
+
+/**
+ * Inflate zlib data with the platform's DecompressionStream
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const { readable, writable } = new DecompressionStream('deflate');
+  const writer = writable.getWriter();
+  const chunks: Uint8Array[] = [];
+
+  const read = async () => {
+    const reader = readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      chunks.push(value);
+    }
+  };
+  await Promise.all([
+    writer.write(data as Uint8Array<ArrayBuffer>),
+    writer.close(),
+    read(),
+  ]);
+
+  const result = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0)
+  );
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    ''
+  );
+}
+
+function isObjectType(type: string): type is GitObjectType {
+  return (Object.values(PACK_TYPES) as string[]).includes(type);
+}
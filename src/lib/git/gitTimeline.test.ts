@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  createCommitDirectoryHandle,
+  listCommits,
+  sampleCommits,
+} from './gitTimeline';
+import { GitObjectStore } from './gitObjectStore';
+import { readTextFile, scanDirectory } from '@/lib/fileSystem';
+import { createNodeDirectoryHandle } from '@/cli/nodeDirectoryHandle';
+
+describe('gitTimeline', () => {
+  let root: string;
+  let repository: string;
+  const ids: Record<string, string> = {};
+
+  const git = (args: string[], author = 'Alice', date = '') =>
+    execFileSync('git', args, {
+      cwd: repository,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: `${author.toLowerCase()}@example.com`,
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: `${author.toLowerCase()}@example.com`,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: date,
+        GIT_CONFIG_GLOBAL: '/dev/null',
+        GIT_CONFIG_NOSYSTEM: '1',
+      },
+      stdio: 'pipe',
+    }).toString();
+
+  const write = (file: string, content: string) =>
+    writeFile(path.join(repository, file), content);
+
+  const commit = (name: string, author: string, date: string) => {
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', `${name}\n\nDetails`], author, date);
+    ids[name] = git(['rev-parse', 'HEAD']).trim();
+  };
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'reuntangle-timeline-'));
+    repository = path.join(root, 'repo');
+    await mkdir(path.join(repository, 'src'), { recursive: true });
+    git(['init', '-q', '-b', 'main']);
+
+    await write('src/App.tsx', 'export default function App() {}');
+    commit('Add App', 'Alice', '2024-01-01T10:00:00Z');
+
+    await write('src/Header.tsx', 'export default function Header() {}');
+    commit('Add Header', 'Bob', '2024-02-01T10:00:00Z');
+
+    git(['checkout', '-q', '-b', 'feature']);
+    await write('src/Logo.tsx', 'export default function Logo() {}');
+    commit('Add Logo', 'Carol', '2024-03-01T10:00:00Z');
+
+    git(['checkout', '-q', 'main']);
+    git(
+      ['merge', '-q', '--no-ff', '-m', 'Merge feature', 'feature'],
+      'Alice',
+      '2024-04-01T10:00:00Z'
+    );
+    ids['Merge feature'] = git(['rev-parse', 'HEAD']).trim();
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('listCommits', () => {
+    it('HEADから最初の親をたどって新しい順に一覧できること', async () => {
+      const commits = await listCommits(createNodeDirectoryHandle(repository));
+
+      expect(commits).toEqual([
+        {
+          id: ids['Merge feature'],
+          subject: 'Merge feature',
+          author: 'Alice',
+          time: Date.parse('2024-04-01T10:00:00Z'),
+        },
+        {
+          id: ids['Add Header'],
+          subject: 'Add Header',
+          author: 'Bob',
+          time: Date.parse('2024-02-01T10:00:00Z'),
+        },
+        {
+          id: ids['Add App'],
+          subject: 'Add App',
+          author: 'Alice',
+          time: Date.parse('2024-01-01T10:00:00Z'),
+        },
+      ]);
+    });
+
+    it('コミット数の上限で打ち切ること', async () => {
+      const commits = await listCommits(createNodeDirectoryHandle(repository), {
+        maxCommits: 2,
+      });
+
+      expect(commits.map((commit) => commit.subject)).toEqual([
+        'Merge feature',
+        'Add Header',
+      ]);
+    });
+
+    it('リポジトリでないフォルダの場合は空になること', async () => {
+      expect(
+        await listCommits(
+          createNodeDirectoryHandle(path.join(repository, 'src'))
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('sampleCommits', () => {
+    const commits = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+    it('最初と最後を含めて均等に間引くこと', () => {
+      expect(sampleCommits(commits, 4)).toEqual(['a', 'c', 'e', 'g']);
+    });
+
+    it('件数が足りない場合はすべて返すこと', () => {
+      expect(sampleCommits(commits, 10)).toBe(commits);
+    });
+
+    it('1件の場合は最後の要素を返すこと', () => {
+      expect(sampleCommits(commits, 1)).toEqual(['g']);
+    });
+  });
+
+  describe('createCommitDirectoryHandle', () => {
+    const openStore = async () =>
+      new GitObjectStore({
+        gitDirectory:
+          await createNodeDirectoryHandle(repository).getDirectoryHandle(
+            '.git'
+          ),
+      });
+
+    it('過去のコミット時点のファイルを走査できること', async () => {
+      const handle = await createCommitDirectoryHandle(
+        await openStore(),
+        ids['Add Header'],
+        'repo'
+      );
+
+      const files = await scanDirectory(handle);
+
+      expect(handle.name).toBe('repo');
+      expect(files.map((file) => file.path)).toEqual([
+        'src/App.tsx',
+        'src/Header.tsx',
+      ]);
+      expect(await readTextFile(handle, 'src/Header.tsx')).toBe(
+        'export default function Header() {}'
+      );
+      expect(await readTextFile(handle, 'src/Logo.tsx')).toBeNull();
+    });
+
+    it('存在しないコミットの場合はエラーを投げること', async () => {
+      await expect(
+        createCommitDirectoryHandle(await openStore(), '0'.repeat(40), 'repo')
+      ).rejects.toThrow('Invalid commit');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { DEFAULT_MAX_COMMITS } from './gitHistory';
+import {
+  openGitObjectStore,
+  type GitObjectStore,
+  type GitTreeEntry,
+} from './gitObjectStore';
+
+/**
+ * A commit on the first-parent history of HEAD
+ */
+export type CommitSummary = {
+  id: string;
+  subject: string;
+  author: string;
+  time: number; // Author time, ms since epoch
+};
+
+/**
+ * Options for listCommits
+ */
+export type ListCommitsOptions = {
+  maxCommits?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * Commits of the repository at the root of a folder, newest first, following
+ * first parents so merged branches appear as their merge commit; empty when
+ * the folder is not a repository
+ */
+export async function listCommits(
+  directoryHandle: FileSystemDirectoryHandle,
+  options: ListCommitsOptions = {}
+): Promise<CommitSummary[]> {
+  const { signal } = options;
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+
+  const store = await openGitObjectStore(directoryHandle);
+  let id = await store?.resolveRef('HEAD');
+  const commits: CommitSummary[] = [];
+
+  while (store && id && commits.length < maxCommits) {
+    signal?.throwIfAborted();
+    const commit = await store.readCommit(id);
+    if (!commit) {
+      // Beyond a shallow clone's history
+      break;
+    }
+    commits.push({
+      id,
+      subject: commit.subject,
+      author: commit.author,
+      time: commit.time,
+    });
+    id = commit.parents[0];
+  }
+  return commits;
+}
+
+/**
+ * Up to count items spread evenly over a list, always keeping the first and
+ * the last
+ */
+export function sampleCommits<T>(commits: T[], count: number): T[] {
+  if (count >= commits.length) {
+    return commits;
+  }
+  if (count <= 1) {
+    return commits.slice(-1);
+  }
+
+  const step = (commits.length - 1) / (count - 1);
+  return Array.from({ length: count }, (_, i) => commits[Math.round(i * step)]);
+}
+
+/**
+ * Read-only FileSystemDirectoryHandle over the files of a commit
+ *
+ * Implements what scanDirectory and openFile use, so analyzeProject runs on
+ * a past version of the project without checking it out.
+ */
+export async function createCommitDirectoryHandle(
+  store: GitObjectStore,
+  commitId: string,
+  name: string
+): Promise<FileSystemDirectoryHandle> {
+  const commit = await store.readCommit(commitId);
+  if (!commit) {
+    throw new Error(`Invalid commit: ${commitId} is not in the repository`);
+  }
+  return createTreeHandle(store, commit.tree, name, commit.time);
+}
+
+function createTreeHandle(
+  store: GitObjectStore,
+  treeId: string,
+  name: string,
+  lastModified: number
+): FileSystemDirectoryHandle {
+  const toHandle = (entryName: string, entry: GitTreeEntry) =>
+    entry.isTree
+      ? createTreeHandle(store, entry.id, entryName, lastModified)
+      : createBlobHandle(store, entry.id, entryName, lastModified);
+
+  const getEntry = async (childName: string, isTree: boolean) => {
+    const entry = (await store.readTree(treeId)).get(childName);
+    if (!entry || entry.isTree !== isTree) {
+      const error = new Error(`Not found: ${childName}`);
+      error.name = 'NotFoundError';
+      throw error;
+    }
+    return toHandle(childName, entry);
+  };
+
+  const handle = {
+    kind: 'directory',
+    name,
+    async *values() {
+      for (const [entryName, entry] of await store.readTree(treeId)) {
+        yield toHandle(entryName, entry);
+      }
+    },
+    getDirectoryHandle: (childName: string) => getEntry(childName, true),
+    getFileHandle: (childName: string) => getEntry(childName, false),
+  };
+
+  return handle as unknown as FileSystemDirectoryHandle;
+}
+
+function createBlobHandle(
+  store: GitObjectStore,
+  blobId: string,
+  name: string,
+  lastModified: number
+): FileSystemFileHandle {
+  const handle = {
+    kind: 'file',
+    name,
+    async getFile() {
+      const object = await store.readObject(blobId);
+      if (object?.type !== 'blob') {
+        throw new Error(`Invalid git blob: ${blobId} is missing`);
+      }
+      return new File([object.data as Uint8Array<ArrayBuffer>], name, {
+        lastModified,
+      });
+    },
+  };
+
+  return handle as unknown as FileSystemFileHandle;
+}
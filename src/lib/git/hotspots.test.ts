@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { Node } from '@xyflow/react';
+import { createComponent } from '@/test/graphFixtures';
+import type { FileHistory, FlowNodeData } from '@/types';
+import {
+  NO_HISTORY_COLOR,
+  getHotspotColor,
+  getHotspotLegend,
+  getHotspotScores,
+  getHotspotTextColor,
+} from './hotspots';
+
+const createNode = (
+  id: string,
+  complexity: number,
+  commitCount?: number
+): Node<FlowNodeData> => {
+  const history: FileHistory | undefined =
+    commitCount === undefined
+      ? undefined
+      : { commitCount, lastModified: 0, authors: ['Alice'] };
+  return {
+    id,
+    position: { x: 0, y: 0 },
+    data: {
+      label: '',
+      componentInfo: createComponent({ id, name: id, complexity, history }),
+      complexity,
+      dependencyCount: 0,
+      dependentCount: 0,
+    },
+  };
+};
+
+describe('hotspots', () => {
+  describe('getHotspotScores', () => {
+    it('変更回数と複雑度をそれぞれ最大値で正規化して掛け合わせること', () => {
+      const scores = getHotspotScores([
+        createNode('Busy', 80, 20),
+        createNode('Stable', 80, 2),
+        createNode('Simple', 20, 20),
+        createNode('Half', 40, 10),
+      ]);
+
+      expect(scores.get('Busy')).toBe(1);
+      expect(scores.get('Stable')).toBeCloseTo(0.1);
+      expect(scores.get('Simple')).toBeCloseTo(0.25);
+      expect(scores.get('Half')).toBeCloseTo(0.25);
+    });
+
+    it('履歴のないノードにはスコアを付けないこと', () => {
+      const scores = getHotspotScores([
+        createNode('Tracked', 50, 3),
+        createNode('Untracked', 90),
+      ]);
+
+      expect(scores.get('Tracked')).toBeCloseTo(50 / 90);
+      expect(scores.has('Untracked')).toBe(false);
+    });
+
+    it('複雑度がすべて0の場合は0になること', () => {
+      expect(getHotspotScores([createNode('Empty', 0, 5)]).get('Empty')).toBe(
+        0
+      );
+    });
+  });
+
+  describe('getHotspotColor', () => {
+    it('スコアの区分ごとに色が変わること', () => {
+      expect(getHotspotColor(0.05)).toBe('#fde68a');
+      expect(getHotspotColor(0.1)).toBe('#fbbf24');
+      expect(getHotspotColor(0.3)).toBe('#f97316');
+      expect(getHotspotColor(1)).toBe('#dc2626');
+    });
+
+    it('履歴がない場合はグレーになること', () => {
+      expect(getHotspotColor(undefined)).toBe(NO_HISTORY_COLOR);
+    });
+  });
+
+  it('明るい色には濃い文字色を使うこと', () => {
+    expect(getHotspotTextColor('#fde68a')).toBe('#1f2937');
+    expect(getHotspotTextColor('#dc2626')).toBe('white');
+  });
+
+  it('凡例にすべての区分と履歴なしが含まれること', () => {
+    expect(getHotspotLegend().map((item) => item.color)).toEqual([
+      '#fde68a',
+      '#fbbf24',
+      '#f97316',
+      '#dc2626',
+      NO_HISTORY_COLOR,
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Node } from '@xyflow/react';
+import type { FlowNodeData } from '@/types';
+import type { LegendItem } from '@/lib/export/graphImage';
+
+/**
+ * Hotspot buckets, coolest first: a node falls in the first bucket whose
+ * maximum its score is below
+ */
+const HOTSPOT_BUCKETS = [
+  { max: 0.1, color: '#fde68a', label: 'Cold (<0.1)' },
+  { max: 0.25, color: '#fbbf24', label: 'Warm (0.1-0.25)' },
+  { max: 0.5, color: '#f97316', label: 'Hot (0.25-0.5)' },
+  { max: Infinity, color: '#dc2626', label: 'Hotspot (0.5+)' },
+];
+
+/**
+ * Colour of nodes whose file has no git history
+ */
+export const NO_HISTORY_COLOR = '#d1d5db';
+
+// Buckets too light for white text
+const LIGHT_COLORS = new Set([NO_HISTORY_COLOR, '#fde68a', '#fbbf24']);
+
+/**
+ * Hotspot score (0-1) of each node with git history: its file's commit count
+ * relative to the most changed file, times its complexity relative to the
+ * most complex node, so only code that is both complex and often changed
+ * scores high
+ */
+export function getHotspotScores(
+  nodes: Node<FlowNodeData>[]
+): Map<string, number> {
+  const maxCommits = Math.max(
+    0,
+    ...nodes.map((node) => node.data.componentInfo.history?.commitCount ?? 0)
+  );
+  const maxComplexity = Math.max(
+    0,
+    ...nodes.map((node) => node.data.complexity)
+  );
+
+  const scores = new Map<string, number>();
+  for (const node of nodes) {
+    const history = node.data.componentInfo.history;
+    if (history) {
+      scores.set(
+        node.id,
+        maxCommits > 0 && maxComplexity > 0
+          ? (history.commitCount / maxCommits) *
+              (node.data.complexity / maxComplexity)
+          : 0
+      );
+    }
+  }
+  return scores;
+}
+
+/**
+ * Node colour for a hotspot score; undefined means no history
+ */
+export function getHotspotColor(score: number | undefined): string {
+  if (score === undefined) {
+    return NO_HISTORY_COLOR;
+  }
+  return HOTSPOT_BUCKETS.find((bucket) => score < bucket.max)!.color;
+}
+
+/**
+ * Text colour that stays readable on a hotspot colour
+ */
+export function getHotspotTextColor(color: string): string {
+  return LIGHT_COLORS.has(color) ? '#1f2937' : 'white';
+}
+
+/**
+ * Legend of the node colours in hotspot mode
+ */
+export function getHotspotLegend(): LegendItem[] {
+  return [
+    ...HOTSPOT_BUCKETS.map(({ color, label }) => ({ color, label })),
+    { color: NO_HISTORY_COLOR, label: 'No history' },
+  ];
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeCycles,
+  findStronglyConnectedComponents,
+  getCycleEdges,
+} from './cycleDetector';
+import { createGraph } from '@/test/graphFixtures';
+
+describe('cycleDetector', () => {
+  describe('findStronglyConnectedComponents', () => {
+    it('強連結成分をグラフの順序で返すこと', () => {
+      const graph = createGraph(
+        ['A', 'B', 'C', 'D', 'E'],
+        [
+          ['A', 'B'],
+          ['B', 'A'],
+          ['B', 'C'],
+          ['C', 'D'],
+          ['D', 'E'],
+          ['E', 'C'],
+        ]
+      );
+
+      expect(findStronglyConnectedComponents(graph)).toEqual([
+        ['A', 'B'],
+        ['C', 'D', 'E'],
+      ]);
+    });
+
+    it('循環のないノードは単独の成分になること', () => {
+      const graph = createGraph(['A', 'B'], [['A', 'B']]);
+
+      expect(findStronglyConnectedComponents(graph)).toEqual([['A'], ['B']]);
+    });
+  });
+
+  describe('analyzeCycles', () => {
+    it('成分内の個々の循環を列挙できること', () => {
+      // Two loops sharing A: A -> B -> A and A -> C -> D -> A
+      const graph = createGraph(
+        ['A', 'B', 'C', 'D', 'E'],
+        [
+          ['A', 'B'],
+          ['B', 'A'],
+          ['A', 'C'],
+          ['C', 'D'],
+          ['D', 'A'],
+          ['D', 'E'],
+        ]
+      );
+
+      const analysis = analyzeCycles(graph);
+
+      expect(analysis.stronglyConnectedComponents).toEqual([
+        ['A', 'B', 'C', 'D'],
+      ]);
+      expect(analysis.cycles.map((cycle) => cycle.nodeIds)).toEqual([
+        ['A', 'B'],
+        ['A', 'C', 'D'],
+      ]);
+      expect(analysis.truncated).toBe(false);
+    });
+
+    it('循環がない場合は空の結果を返すこと', () => {
+      const graph = createGraph(
+        ['A', 'B', 'C'],
+        [
+          ['A', 'B'],
+          ['B', 'C'],
+        ]
+      );
+
+      expect(analyzeCycles(graph)).toEqual({
+        stronglyConnectedComponents: [],
+        cycles: [],
+        truncated: false,
+      });
+    });
+
+    it('上限を超える循環は打ち切られること', () => {
+      // Complete graph on 4 nodes: 20 elementary cycles
+      const ids = ['A', 'B', 'C', 'D'];
+      const edges = ids.flatMap((from) =>
+        ids
+          .filter((to) => to !== from)
+          .map((to): [string, string] => [from, to])
+      );
+
+      expect(analyzeCycles(createGraph(ids, edges)).cycles).toHaveLength(20);
+
+      const limited = analyzeCycles(createGraph(ids, edges), { maxCycles: 5 });
+      expect(limited.cycles).toHaveLength(5);
+      expect(limited.truncated).toBe(true);
+    });
+  });
+
+  describe('getCycleEdges', () => {
+    it('循環を閉じるエッジを含めて返すこと', () => {
+      expect(getCycleEdges({ id: 'A>B>C', nodeIds: ['A', 'B', 'C'] })).toEqual([
+        { from: 'A', to: 'B' },
+        { from: 'B', to: 'C' },
+        { from: 'C', to: 'A' },
+      ]);
+    });
+  });
+});
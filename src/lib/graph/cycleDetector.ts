@@ -0,0 +1,209 @@
+import type { CycleAnalysis, DependencyCycle, DependencyGraph } from '@/types';
+
+/**
+ * Default upper bound on enumerated cycles (the number of elementary
+ * cycles can grow exponentially with the size of a tangled component)
+ */
+export const DEFAULT_MAX_CYCLES = 100;
+
+/**
+ * Options for analyzeCycles
+ */
+export type AnalyzeCyclesOptions = {
+  // Stop enumerating after this many cycles (defaults to DEFAULT_MAX_CYCLES)
+  maxCycles?: number;
+};
+
+/**
+ * Find the strongly connected components and elementary cycles of a graph
+ */
+export function analyzeCycles(
+  graph: DependencyGraph,
+  options: AnalyzeCyclesOptions = {}
+): CycleAnalysis {
+  const maxCycles = options.maxCycles ?? DEFAULT_MAX_CYCLES;
+  const adjacency = buildAdjacency(graph);
+  const stronglyConnectedComponents = findStronglyConnectedComponents(
+    graph
+  ).filter((component) => component.length > 1);
+
+  const cycles: DependencyCycle[] = [];
+  let truncated = false;
+
+  for (const component of stronglyConnectedComponents) {
+    // Ask for one extra cycle to know whether the limit cut anything off
+    const remaining = maxCycles - cycles.length;
+    const found = findCyclesInComponent(component, adjacency, remaining + 1);
+    if (found.length > remaining) {
+      truncated = true;
+    }
+    for (const nodeIds of found.slice(0, remaining)) {
+      cycles.push({ id: nodeIds.join('>'), nodeIds });
+    }
+    if (truncated) {
+      break;
+    }
+  }
+
+  // Shortest loops first: they are usually the easiest to break
+  cycles.sort((a, b) => a.nodeIds.length - b.nodeIds.length);
+
+  return { stronglyConnectedComponents, cycles, truncated };
+}
+
+/**
+ * Tarjan's algorithm: every strongly connected component, including
+ * single nodes, with members in graph insertion order
+ */
+export function findStronglyConnectedComponents(
+  graph: DependencyGraph
+): string[][] {
+  const adjacency = buildAdjacency(graph);
+  const order = new Map(Array.from(graph.nodes.keys(), (id, i) => [id, i]));
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const strongConnect = (nodeId: string): void => {
+    indices.set(nodeId, indices.size);
+    lowLinks.set(nodeId, indices.get(nodeId)!);
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of adjacency.get(nodeId)!) {
+      if (!indices.has(next)) {
+        strongConnect(next);
+        lowLinks.set(
+          nodeId,
+          Math.min(lowLinks.get(nodeId)!, lowLinks.get(next)!)
+        );
+      } else if (onStack.has(next)) {
+        lowLinks.set(
+          nodeId,
+          Math.min(lowLinks.get(nodeId)!, indices.get(next)!)
+        );
+      }
+    }
+
+    // Root of a component: pop its members off the stack
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+      components.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+    }
+  };
+
+  for (const nodeId of graph.nodes.keys()) {
+    if (!indices.has(nodeId)) {
+      strongConnect(nodeId);
+    }
+  }
+
+  return components.sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+}
+
+/**
+ * Consecutive edges of a cycle, including the one closing it
+ */
+export function getCycleEdges(
+  cycle: DependencyCycle
+): Array<{ from: string; to: string }> {
+  return cycle.nodeIds.map((from, i) => ({
+    from,
+    to: cycle.nodeIds[(i + 1) % cycle.nodeIds.length],
+  }));
+}
+
+/**
+ * Outgoing neighbours of every node (edges to unknown nodes are dropped)
+ */
+function buildAdjacency(graph: DependencyGraph): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>();
+  for (const nodeId of graph.nodes.keys()) {
+    adjacency.set(nodeId, []);
+  }
+  for (const edge of graph.edges) {
+    if (adjacency.has(edge.from) && graph.nodes.has(edge.to)) {
+      adjacency.get(edge.from)!.push(edge.to);
+    }
+  }
+  return adjacency;
+}
+
+/**
+ * Johnson's algorithm restricted to one strongly connected component:
+ * each cycle is reported once, starting from its earliest member
+ */
+function findCyclesInComponent(
+  component: string[],
+  adjacency: Map<string, string[]>,
+  limit: number
+): string[][] {
+  const cycles: string[][] = [];
+  const position = new Map(component.map((id, i) => [id, i]));
+
+  for (let s = 0; s < component.length && cycles.length < limit; s++) {
+    const start = component[s];
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    // Only nodes at or after the start, so each cycle is found once
+    const neighbours = (nodeId: string) =>
+      adjacency.get(nodeId)!.filter((next) => (position.get(next) ?? -1) >= s);
+
+    const unblock = (nodeId: string): void => {
+      blocked.delete(nodeId);
+      const waiting = blockedBy.get(nodeId);
+      blockedBy.delete(nodeId);
+      for (const other of waiting ?? []) {
+        if (blocked.has(other)) {
+          unblock(other);
+        }
+      }
+    };
+
+    const circuit = (nodeId: string): boolean => {
+      let found = false;
+      path.push(nodeId);
+      blocked.add(nodeId);
+
+      for (const next of neighbours(nodeId)) {
+        if (cycles.length >= limit) {
+          break;
+        }
+        if (next === start) {
+          cycles.push([...path]);
+          found = true;
+        } else if (!blocked.has(next) && circuit(next)) {
+          found = true;
+        }
+      }
+
+      if (found) {
+        unblock(nodeId);
+      } else {
+        for (const next of neighbours(nodeId)) {
+          if (!blockedBy.has(next)) {
+            blockedBy.set(next, new Set());
+          }
+          blockedBy.get(next)!.add(nodeId);
+        }
+      }
+
+      path.pop();
+      return found;
+    };
+
+    circuit(start);
+  }
+
+  return cycles;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { findFeedbackArcSet, formatImportStatement } from './feedbackArcSet';
+import { createGraph } from '@/test/graphFixtures';
+import type { DependencyEdge, DependencyGraph } from '@/types';
+
+const edge = (from: string, to: string, strength = 1): DependencyEdge => ({
+  from,
+  to,
+  strength,
+});
+
+/**
+ * Whether the graph without the given edges still has a cycle
+ */
+const hasCycle = (graph: DependencyGraph, cut: DependencyEdge[]) => {
+  const kept = graph.edges.filter((e) => !cut.includes(e));
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (id: string): boolean => {
+    if (visiting.has(id)) return true;
+    if (done.has(id)) return false;
+    visiting.add(id);
+    const found = kept.some((e) => e.from === id && visit(e.to));
+    visiting.delete(id);
+    done.add(id);
+    return found;
+  };
+  return Array.from(graph.nodes.keys()).some(visit);
+};
+
+describe('feedbackArcSet', () => {
+  describe('findFeedbackArcSet', () => {
+    it('循環がない場合は何も削除しないこと', () => {
+      const graph = createGraph(['A', 'B'], [edge('A', 'B')]);
+
+      expect(findFeedbackArcSet(graph)).toEqual({
+        cuts: [],
+        totalStrength: 0,
+        exact: true,
+      });
+    });
+
+    it('強度の小さいエッジを優先して削除すること', () => {
+      const graph = createGraph(
+        ['A', 'B'],
+        [edge('A', 'B', 3), edge('B', 'A')]
+      );
+
+      const suggestion = findFeedbackArcSet(graph);
+
+      expect(suggestion.cuts.map((cut) => cut.edge)).toEqual([edge('B', 'A')]);
+      expect(suggestion.totalStrength).toBe(1);
+    });
+
+    it('複数の循環に共通するエッジを1本だけ削除すること', () => {
+      // A -> B is on both A -> B -> C -> A and A -> B -> D -> A
+      const graph = createGraph(
+        ['A', 'B', 'C', 'D'],
+        [
+          edge('A', 'B'),
+          edge('B', 'C', 2),
+          edge('C', 'A', 2),
+          edge('B', 'D', 2),
+          edge('D', 'A', 2),
+        ]
+      );
+
+      const suggestion = findFeedbackArcSet(graph);
+
+      expect(suggestion.cuts.map((cut) => cut.edge)).toEqual([edge('A', 'B')]);
+      expect(suggestion.exact).toBe(true);
+    });
+
+    it('大きな成分はヒューリスティックで非循環にすること', () => {
+      // Complete graph on 6 nodes
+      const ids = ['A', 'B', 'C', 'D', 'E', 'F'];
+      const graph = createGraph(
+        ids,
+        ids.flatMap((from) =>
+          ids.filter((to) => to !== from).map((to) => edge(from, to))
+        )
+      );
+
+      const exact = findFeedbackArcSet(graph);
+      const approximate = findFeedbackArcSet(graph, { exactLimit: 3 });
+
+      expect(exact.totalStrength).toBe(15);
+      expect(approximate.exact).toBe(false);
+      expect(
+        hasCycle(
+          graph,
+          approximate.cuts.map((cut) => cut.edge)
+        )
+      ).toBe(false);
+    });
+
+    it('削除するエッジのファイルとインポート文を返すこと', () => {
+      const backEdge = { ...edge('B', 'A'), importSource: './A' };
+      const graph = createGraph(['A', 'B'], [edge('A', 'B', 2), backEdge], {
+        B: {
+          imports: [
+            {
+              source: './A',
+              specifiers: ['A'],
+              isReactComponent: true,
+              bindings: [{ local: 'A', imported: 'A' }],
+            },
+          ],
+        },
+      });
+
+      expect(findFeedbackArcSet(graph).cuts).toEqual([
+        {
+          edge: backEdge,
+          filePath: 'src/B.tsx',
+          importStatement: "import { A } from './A';",
+        },
+      ]);
+    });
+  });
+
+  describe('formatImportStatement', () => {
+    it('デフォルト・名前空間・名前付きインポートを整形できること', () => {
+      expect(
+        formatImportStatement({
+          source: './ui',
+          specifiers: ['UI', 'Card', 'Header'],
+          isReactComponent: true,
+          bindings: [
+            { local: 'UI', imported: 'default' },
+            { local: 'Card', imported: 'Card' },
+            { local: 'Header', imported: 'CardHeader' },
+          ],
+        })
+      ).toBe("import UI, { Card, CardHeader as Header } from './ui';");
+      expect(
+        formatImportStatement({
+          source: './icons',
+          specifiers: ['Icons'],
+          isReactComponent: false,
+          bindings: [{ local: 'Icons', imported: '*' }],
+        })
+      ).toBe("import * as Icons from './icons';");
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import type {
+  DependencyEdge,
+  DependencyGraph,
+  EdgeCut,
+  FeedbackArcSetSuggestion,
+  ImportInfo,
+} from '@/types';
+import { analyzeCycles } from '@/lib/graph/cycleDetector';
+
+/**
+ * Strongly connected components up to this size are solved exactly
+ * (dynamic programming over subsets is O(2^n * n))
+ */
+export const DEFAULT_EXACT_LIMIT = 12;
+
+/**
+ * Options for findFeedbackArcSet
+ */
+export type FeedbackArcSetOptions = {
+  // Largest component solved exactly (defaults to DEFAULT_EXACT_LIMIT)
+  exactLimit?: number;
+};
+
+/**
+ * Suggest the cheapest set of edges (by total strength) whose removal
+ * makes the graph acyclic
+ *
+ * Each strongly connected component is solved on its own: exactly when it
+ * is small, otherwise with the Eades-Lin-Smyth ordering heuristic followed
+ * by restoring every cut edge that does not close a cycle again.
+ */
+export function findFeedbackArcSet(
+  graph: DependencyGraph,
+  options: FeedbackArcSetOptions = {}
+): FeedbackArcSetSuggestion {
+  const exactLimit = options.exactLimit ?? DEFAULT_EXACT_LIMIT;
+  const { stronglyConnectedComponents } =
+    graph.cycleAnalysis ?? analyzeCycles(graph);
+
+  const cutEdges: DependencyEdge[] = [];
+  let exact = true;
+
+  for (const component of stronglyConnectedComponents) {
+    const members = new Set(component);
+    const edges = graph.edges.filter(
+      (edge) => members.has(edge.from) && members.has(edge.to)
+    );
+
+    if (component.length <= exactLimit) {
+      cutEdges.push(...findExactCuts(component, edges));
+    } else {
+      exact = false;
+      cutEdges.push(
+        ...restoreRedundantCuts(findGreedyCuts(component, edges), edges)
+      );
+    }
+  }
+
+  const cuts = cutEdges
+    .map((edge) => describeCut(graph, edge))
+    .sort(
+      (a, b) =>
+        a.filePath.localeCompare(b.filePath) ||
+        a.edge.to.localeCompare(b.edge.to)
+    );
+
+  return {
+    cuts,
+    totalStrength: cutEdges.reduce((sum, edge) => sum + edge.strength, 0),
+    exact,
+  };
+}
+
+/**
+ * Format an import statement as it would appear in source
+ */
+export function formatImportStatement(imp: ImportInfo): string {
+  const bindings =
+    imp.bindings ??
+    imp.specifiers.map((name) => ({
+      local: name,
+      imported: name,
+    }));
+
+  const defaultBinding = bindings.find((b) => b.imported === 'default');
+  const namespaceBinding = bindings.find((b) => b.imported === '*');
+  const named = bindings
+    .filter((b) => b.imported !== 'default' && b.imported !== '*')
+    .map((b) =>
+      b.imported === b.local ? b.local : `${b.imported} as ${b.local}`
+    );
+
+  const clauses = [
+    defaultBinding?.local,
+    namespaceBinding && `* as ${namespaceBinding.local}`,
+    named.length > 0 ? `{ ${named.join(', ')} }` : undefined,
+  ].filter(Boolean);
+
+  return clauses.length > 0
+    ? `import ${clauses.join(', ')} from '${imp.source}';`
+    : `import '${imp.source}';`;
+}
+
+/**
+ * Attach the importing file and statement to an edge
+ */
+function describeCut(graph: DependencyGraph, edge: DependencyEdge): EdgeCut {
+  const component = graph.nodes.get(edge.from)!.component;
+  const imp =
+    edge.importSource !== undefined
+      ? component.imports.find((i) => i.source === edge.importSource)
+      : undefined;
+
+  return {
+    edge,
+    filePath: component.filePath,
+    importStatement: imp ? formatImportStatement(imp) : null,
+  };
+}
+
+/**
+ * Minimum-weight cut: the cheapest linear order of the component, found by
+ * dynamic programming over subsets; edges pointing backwards in it are cut
+ */
+function findExactCuts(
+  component: string[],
+  edges: DependencyEdge[]
+): DependencyEdge[] {
+  const index = new Map(component.map((id, i) => [id, i]));
+  const outgoing: DependencyEdge[][] = component.map(() => []);
+  for (const edge of edges) {
+    outgoing[index.get(edge.from)!].push(edge);
+  }
+
+  // cost[mask]: cheapest backward weight placing the nodes in mask first
+  const size = 1 << component.length;
+  const cost = new Array<number>(size).fill(Infinity);
+  const last = new Array<number>(size).fill(-1);
+  cost[0] = 0;
+
+  for (let mask = 0; mask < size; mask++) {
+    if (cost[mask] === Infinity) {
+      continue;
+    }
+    for (let v = 0; v < component.length; v++) {
+      if (mask & (1 << v)) {
+        continue;
+      }
+      // Placing v after mask makes its edges into mask point backwards
+      let backward = 0;
+      for (const edge of outgoing[v]) {
+        if (mask & (1 << index.get(edge.to)!)) {
+          backward += edge.strength;
+        }
+      }
+      const next = mask | (1 << v);
+      if (cost[mask] + backward < cost[next]) {
+        cost[next] = cost[mask] + backward;
+        last[next] = v;
+      }
+    }
+  }
+
+  // Rebuild the order from the back
+  const position = new Array<number>(component.length);
+  for (let mask = size - 1, p = component.length - 1; mask > 0; p--) {
+    const v = last[mask];
+    position[v] = p;
+    mask &= ~(1 << v);
+  }
+
+  return edges.filter(
+    (edge) => position[index.get(edge.from)!] > position[index.get(edge.to)!]
+  );
+}
+
+/**
+ * Eades-Lin-Smyth heuristic weighted by strength: peel off sinks and
+ * sources, otherwise move the node with the largest out-minus-in weight
+ * to the front; edges pointing backwards in the order are cut
+ */
+function findGreedyCuts(
+  component: string[],
+  edges: DependencyEdge[]
+): DependencyEdge[] {
+  const remaining = new Set(component);
+  const head: string[] = [];
+  const tail: string[] = [];
+
+  const weight = (nodeId: string, direction: 'from' | 'to') =>
+    edges
+      .filter(
+        (edge) =>
+          edge[direction] === nodeId &&
+          remaining.has(edge.from) &&
+          remaining.has(edge.to)
+      )
+      .reduce((sum, edge) => sum + edge.strength, 0);
+
+  while (remaining.size > 0) {
+    const sink = [...remaining].find((id) => weight(id, 'from') === 0);
+    if (sink) {
+      tail.unshift(sink);
+      remaining.delete(sink);
+      continue;
+    }
+
+    const source = [...remaining].find((id) => weight(id, 'to') === 0);
+    if (source) {
+      head.push(source);
+      remaining.delete(source);
+      continue;
+    }
+
+    let best = '';
+    let bestDelta = -Infinity;
+    for (const id of remaining) {
+      const delta = weight(id, 'from') - weight(id, 'to');
+      if (delta > bestDelta) {
+        best = id;
+        bestDelta = delta;
+      }
+    }
+    head.push(best);
+    remaining.delete(best);
+  }
+
+  const position = new Map([...head, ...tail].map((id, i) => [id, i]));
+  return edges.filter(
+    (edge) => position.get(edge.from)! > position.get(edge.to)!
+  );
+}
+
+/**
+ * Put back cut edges (strongest first) that no longer close a cycle,
+ * so no edge in the result is unnecessary
+ */
+function restoreRedundantCuts(
+  cuts: DependencyEdge[],
+  edges: DependencyEdge[]
+): DependencyEdge[] {
+  const removed = new Set(cuts);
+  const strongestFirst = [...cuts].sort((a, b) => b.strength - a.strength);
+
+  for (const cut of strongestFirst) {
+    removed.delete(cut);
+    const kept = edges.filter((edge) => !removed.has(edge));
+    // Restoring cut (from -> to) closes a cycle if `to` reaches `from`
+    if (isReachable(kept, cut.to, cut.from)) {
+      removed.add(cut);
+    }
+  }
+
+  return cuts.filter((cut) => removed.has(cut));
+}
+
+function isReachable(
+  edges: DependencyEdge[],
+  from: string,
+  to: string
+): boolean {
+  const visited = new Set([from]);
+  const stack = [from];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === to) {
+      return true;
+    }
+    for (const edge of edges) {
+      if (edge.from === current && !visited.has(edge.to)) {
+        visited.add(edge.to);
+        stack.push(edge.to);
+      }
+    }
+  }
+
+  return false;
+}
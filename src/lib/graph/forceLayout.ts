@@ -0,0 +1,384 @@
+import type { Node, Edge } from '@xyflow/react';
+import { getNodeSize } from '@/lib/graph/nodeSize';
+
+/**
+ * Options for the force-directed layout
+ */
+export type ForceLayoutOptions = {
+  // Seed for the initial jitter; the same seed and graph give the same layout
+  seed?: number;
+  // Simulation steps (defaults to DEFAULT_ITERATIONS)
+  iterations?: number;
+};
+
+export const DEFAULT_SEED = 1;
+export const DEFAULT_ITERATIONS = 300;
+
+// Layout centre, matching the other layouts
+const CENTER_X = 400;
+const CENTER_Y = 400;
+
+const REPULSION = 1500; // Inverse-square push between every pair of nodes
+const THETA = 0.7; // Barnes-Hut accuracy: larger is faster and coarser
+const MAX_QUAD_DEPTH = 16;
+const LINK_DISTANCE = 80; // Gap between the rims of two linked nodes at strength 1
+const LINK_STIFFNESS = 0.3;
+const MAX_LINK_STRENGTH = 5; // Same cap as the edge stroke width
+const GRAVITY = 0.1; // Pull towards the centre, keeps disconnected parts close
+const VELOCITY_DECAY = 0.4;
+const COLLISION_PADDING = 20;
+const ALPHA_MIN = 0.001;
+
+type Body = {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+};
+
+// Square of the Barnes-Hut quadtree. A leaf holds its bodies, an inner
+// square its four quadrants (top-left, top-right, bottom-left, bottom-right)
+type Quad = {
+  x: number;
+  y: number;
+  size: number;
+  mass: number;
+  cx: number;
+  cy: number;
+  bodies: Body[];
+  children: Array<Quad | undefined> | null;
+};
+
+type Link = {
+  source: Body;
+  target: Body;
+  strength: number;
+  bias: number; // Share of the correction applied to the target
+};
+
+/**
+ * Force-directed layout: nodes repel each other, edges act as springs
+ * (stiffer and shorter the stronger the dependency), gravity keeps the
+ * graph compact, and collision keeps nodes of different sizes apart
+ */
+export function applyForceLayout<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(
+  nodes: Node<T>[],
+  edges: Edge[],
+  options: ForceLayoutOptions = {}
+): Node<T>[] {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+
+  // Start on a phyllotaxis spiral (even density), slightly jittered
+  const bodies = nodes.map((node, i): Body => {
+    const radius = getNodeSize(node).width / 2;
+    const distance = 30 * Math.sqrt(i + 0.5);
+    const angle = i * Math.PI * (3 - Math.sqrt(5));
+    return {
+      x: CENTER_X + distance * Math.cos(angle) + random() - 0.5,
+      y: CENTER_Y + distance * Math.sin(angle) + random() - 0.5,
+      vx: 0,
+      vy: 0,
+      radius,
+    };
+  });
+  const links = createLinks(nodes, edges, bodies);
+
+  // Cool down from alpha 1 to ALPHA_MIN over the given iterations
+  const alphaDecay = 1 - Math.pow(ALPHA_MIN, 1 / Math.max(iterations, 1));
+  let alpha = 1;
+
+  for (let step = 0; step < iterations; step++) {
+    alpha *= 1 - alphaDecay;
+    applyRepulsion(bodies, alpha, random);
+    applyLinks(links, alpha);
+    applyGravity(bodies, alpha);
+
+    for (const body of bodies) {
+      body.vx *= 1 - VELOCITY_DECAY;
+      body.vy *= 1 - VELOCITY_DECAY;
+      body.x += body.vx;
+      body.y += body.vy;
+    }
+
+    resolveCollisions(bodies, random);
+  }
+
+  // React Flow positions are top-left corners
+  return nodes.map((node, i) => ({
+    ...node,
+    position: {
+      x: bodies[i].x - bodies[i].radius,
+      y: bodies[i].y - bodies[i].radius,
+    },
+  }));
+}
+
+/**
+ * Springs for every edge between two laid out nodes, weighted by the
+ * edge's `data.strength`
+ */
+function createLinks(nodes: Node[], edges: Edge[], bodies: Body[]): Link[] {
+  const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+  const degree = new Array<number>(nodes.length).fill(0);
+  const pairs: Array<{ source: number; target: number; strength: number }> = [];
+
+  for (const edge of edges) {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || source === target) {
+      continue;
+    }
+    const strength = Number(edge.data?.strength) || 1;
+    pairs.push({
+      source,
+      target,
+      strength: Math.min(strength, MAX_LINK_STRENGTH),
+    });
+    degree[source]++;
+    degree[target]++;
+  }
+
+  // Well-connected nodes move less, so hubs stay put and leaves come to them
+  return pairs.map(({ source, target, strength }) => ({
+    source: bodies[source],
+    target: bodies[target],
+    strength,
+    bias: degree[source] / (degree[source] + degree[target]),
+  }));
+}
+
+/**
+ * Inverse-square push between nodes, approximated with a Barnes-Hut
+ * quadtree: a distant group of nodes pushes like one node of their total
+ * mass at their centroid, so each step costs O(n log n) instead of O(n²)
+ */
+function applyRepulsion(
+  bodies: Body[],
+  alpha: number,
+  random: () => number
+): void {
+  const root = createQuadtree(bodies);
+  for (const body of bodies) {
+    applyQuadRepulsion(root, body, alpha, random);
+  }
+}
+
+function applyQuadRepulsion(
+  quad: Quad,
+  body: Body,
+  alpha: number,
+  random: () => number
+): void {
+  if (!quad.children) {
+    for (const other of quad.bodies) {
+      if (other === body) {
+        continue;
+      }
+      let dx = other.x - body.x;
+      let dy = other.y - body.y;
+      // Coincident nodes: nudge apart in a random direction
+      if (dx === 0 && dy === 0) {
+        dx = random() - 0.5;
+        dy = random() - 0.5;
+      }
+      pushAway(body, dx, dy, alpha);
+    }
+    return;
+  }
+
+  const dx = quad.cx - body.x;
+  const dy = quad.cy - body.y;
+  // With THETA² below 1/2 a square containing the body is never far enough
+  if (quad.size * quad.size < THETA * THETA * (dx * dx + dy * dy)) {
+    pushAway(body, dx, dy, alpha, quad.mass);
+    return;
+  }
+  for (const child of quad.children) {
+    if (child) {
+      applyQuadRepulsion(child, body, alpha, random);
+    }
+  }
+}
+
+function pushAway(
+  body: Body,
+  dx: number,
+  dy: number,
+  alpha: number,
+  mass = 1
+): void {
+  const distanceSquared = Math.max(dx * dx + dy * dy, 1);
+  const force = (REPULSION * alpha * mass) / distanceSquared;
+  body.vx -= dx * force;
+  body.vy -= dy * force;
+}
+
+/**
+ * Quadtree over the bodies' positions; every square tracks the number of
+ * bodies in it and their centroid
+ */
+function createQuadtree(bodies: Body[]): Quad {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const body of bodies) {
+    minX = Math.min(minX, body.x);
+    minY = Math.min(minY, body.y);
+    maxX = Math.max(maxX, body.x);
+    maxY = Math.max(maxY, body.y);
+  }
+
+  const root = createQuad(minX, minY, Math.max(maxX - minX, maxY - minY, 1));
+  for (const body of bodies) {
+    insertIntoQuad(root, body, 0);
+  }
+  return root;
+}
+
+function createQuad(x: number, y: number, size: number): Quad {
+  return { x, y, size, mass: 0, cx: 0, cy: 0, bodies: [], children: null };
+}
+
+function insertIntoQuad(quad: Quad, body: Body, depth: number): void {
+  quad.mass++;
+  quad.cx += (body.x - quad.cx) / quad.mass;
+  quad.cy += (body.y - quad.cy) / quad.mass;
+
+  if (quad.children) {
+    insertIntoChild(quad, body, depth);
+    return;
+  }
+  // Coincident bodies would split forever, so the depth is capped
+  if (quad.bodies.length === 0 || depth >= MAX_QUAD_DEPTH) {
+    quad.bodies.push(body);
+    return;
+  }
+
+  const [existing] = quad.bodies;
+  quad.bodies = [];
+  quad.children = [undefined, undefined, undefined, undefined];
+  insertIntoChild(quad, existing, depth);
+  insertIntoChild(quad, body, depth);
+}
+
+function insertIntoChild(quad: Quad, body: Body, depth: number): void {
+  const half = quad.size / 2;
+  const right = body.x >= quad.x + half ? 1 : 0;
+  const bottom = body.y >= quad.y + half ? 1 : 0;
+  const index = bottom * 2 + right;
+  const child = (quad.children![index] ??= createQuad(
+    quad.x + right * half,
+    quad.y + bottom * half,
+    half
+  ));
+  insertIntoQuad(child, body, depth + 1);
+}
+
+function applyLinks(links: Link[], alpha: number): void {
+  for (const { source, target, strength, bias } of links) {
+    const dx = target.x + target.vx - source.x - source.vx;
+    const dy = target.y + target.vy - source.y - source.vy;
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+    const restLength =
+      source.radius + target.radius + LINK_DISTANCE / Math.sqrt(strength);
+    const stiffness = LINK_STIFFNESS * Math.sqrt(strength);
+    const correction = ((distance - restLength) / distance) * alpha * stiffness;
+
+    target.vx -= dx * correction * bias;
+    target.vy -= dy * correction * bias;
+    source.vx += dx * correction * (1 - bias);
+    source.vy += dy * correction * (1 - bias);
+  }
+}
+
+function applyGravity(bodies: Body[], alpha: number): void {
+  for (const body of bodies) {
+    body.vx -= (body.x - CENTER_X) * GRAVITY * alpha;
+    body.vy -= (body.y - CENTER_Y) * GRAVITY * alpha;
+  }
+}
+
+/**
+ * Push overlapping nodes apart along the line between their centres. Nodes
+ * are bucketed into a grid of cells as wide as the largest possible overlap,
+ * so only nodes in neighbouring cells are compared.
+ */
+function resolveCollisions(bodies: Body[], random: () => number): void {
+  const maxRadius = Math.max(...bodies.map((body) => body.radius));
+  const cellSize = 2 * maxRadius + COLLISION_PADDING;
+  const cellOf = (body: Body) => [
+    Math.floor(body.x / cellSize),
+    Math.floor(body.y / cellSize),
+  ];
+
+  const grid = new Map<string, number[]>();
+  bodies.forEach((body, i) => {
+    const [column, row] = cellOf(body);
+    const key = `${column},${row}`;
+    const cell = grid.get(key);
+    if (cell) {
+      cell.push(i);
+    } else {
+      grid.set(key, [i]);
+    }
+  });
+
+  for (let i = 0; i < bodies.length; i++) {
+    const [column, row] = cellOf(bodies[i]);
+    const neighbours: number[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const j of grid.get(`${column + dx},${row + dy}`) ?? []) {
+          if (j > i) {
+            neighbours.push(j);
+          }
+        }
+      }
+    }
+    // Same pair order as comparing every pair
+    neighbours.sort((a, b) => a - b);
+    for (const j of neighbours) {
+      separate(bodies[i], bodies[j], random);
+    }
+  }
+}
+
+function separate(a: Body, b: Body, random: () => number): void {
+  const minDistance = a.radius + b.radius + COLLISION_PADDING;
+  let dx = b.x - a.x;
+  let dy = b.y - a.y;
+  if (dx === 0 && dy === 0) {
+    dx = random() - 0.5;
+    dy = random() - 0.5;
+  }
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance >= minDistance) {
+    return;
+  }
+  // Larger nodes are pushed less
+  const push = (minDistance - distance) / distance;
+  const share = b.radius / (a.radius + b.radius);
+  a.x -= dx * push * share;
+  a.y -= dy * push * share;
+  b.x += dx * push * (1 - share);
+  b.y += dy * push * (1 - share);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GraphBuilder } from './graphBuilder';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { createComponent as createComponentInfo } from '@/test/graphFixtures';
 import type { ComponentInfo } from '@/types';
 
 describe('GraphBuilder', () => {
@@ -17,18 +19,8 @@ describe('GraphBuilder', () => {
     dependencies: string[] = [],
     complexity = 50,
     type: 'function' | 'class' | 'arrow' | 'hook' = 'function'
-  ): ComponentInfo => ({
-    id,
-    name,
-    filePath,
-    type,
-    dependencies,
-    complexity,
-    linesOfCode: 100,
-    hooks: [],
-    imports: [],
-    propsCount: 0,
-  });
+  ): ComponentInfo =>
+    createComponentInfo({ id, name, filePath, dependencies, complexity, type });
 
   describe('グラフの構築', () => {
     it('シンプルな依存関係グラフを構築できること', () => {
@@ -136,6 +128,409 @@ describe('GraphBuilder', () => {
 
       expect(graph.edges.length).toBe(1);
       expect(graph.edges[0].strength).toBe(2);
+      expect(graph.nodes.get('2')!.dependencies).toEqual(['1']);
+      expect(graph.nodes.get('1')!.dependents).toEqual(['2']);
+    });
+  });
+
+  describe('インポートパスによる依存関係の解決', () => {
+    it('同名コンポーネントをインポート先のファイルで区別できること', () => {
+      const dsButton = createComponent(
+        'src/design-system/Button.tsx:Button',
+        'Button',
+        'src/design-system/Button.tsx'
+      );
+      const featureButton = createComponent(
+        'src/features/Button.tsx:Button',
+        'Button',
+        'src/features/Button.tsx'
+      );
+      const page = {
+        ...createComponent(
+          'src/design-system/Page.tsx:Page',
+          'Page',
+          'src/design-system/Page.tsx',
+          ['Button']
+        ),
+        imports: [
+          {
+            source: './Button',
+            specifiers: ['Button'],
+            isReactComponent: true,
+            bindings: [{ local: 'Button', imported: 'default' }],
+            resolvedPath: 'src/design-system/Button.tsx',
+          },
+        ],
+      };
+      const featurePage = {
+        ...createComponent(
+          'src/features/Page.tsx:FeaturePage',
+          'FeaturePage',
+          'src/features/Page.tsx',
+          ['Button']
+        ),
+        imports: [
+          {
+            source: './Button',
+            specifiers: ['Button'],
+            isReactComponent: true,
+            bindings: [{ local: 'Button', imported: 'Button' }],
+            resolvedPath: 'src/features/Button.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([
+        dsButton,
+        featureButton,
+        page,
+        featurePage,
+      ]);
+
+      expect(graph.nodes.get(page.id)!.dependencies).toEqual([dsButton.id]);
+      expect(graph.nodes.get(featurePage.id)!.dependencies).toEqual([
+        featureButton.id,
+      ]);
+    });
+
+    it('インポート経由のエッジにインポート元を記録すること', () => {
+      const button = createComponent(
+        'src/Button.tsx:Button',
+        'Button',
+        'src/Button.tsx'
+      );
+      const icon = createComponent('src/Page.tsx:Icon', 'Icon', 'src/Page.tsx');
+      const page = {
+        ...createComponent('src/Page.tsx:Page', 'Page', 'src/Page.tsx', [
+          'Button',
+          'Icon',
+        ]),
+        imports: [
+          {
+            source: './Button',
+            specifiers: ['Button'],
+            isReactComponent: true,
+            bindings: [{ local: 'Button', imported: 'Button' }],
+            resolvedPath: 'src/Button.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([button, icon, page]);
+
+      expect(graph.edges).toEqual([
+        { from: page.id, to: button.id, strength: 1, importSource: './Button' },
+        { from: page.id, to: icon.id, strength: 1 },
+      ]);
+    });
+
+    it('別名でインポートされたコンポーネントをエクスポート名で解決できること', () => {
+      const card = createComponent(
+        'src/ui/Card.tsx:Card',
+        'Card',
+        'src/ui/Card.tsx'
+      );
+      const other = createComponent(
+        'src/ui/Card.tsx:CardHeader',
+        'CardHeader',
+        'src/ui/Card.tsx'
+      );
+      const app = {
+        ...createComponent('src/App.tsx:App', 'App', 'src/App.tsx', ['UICard']),
+        imports: [
+          {
+            source: './ui/Card',
+            specifiers: ['UICard'],
+            isReactComponent: true,
+            bindings: [{ local: 'UICard', imported: 'Card' }],
+            resolvedPath: 'src/ui/Card.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([card, other, app]);
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([card.id]);
+    });
+
+    it('パッケージからのインポートは同名のローカルコンポーネントに解決しないこと', () => {
+      const localButton = createComponent(
+        'src/feature/Button.tsx:Button',
+        'Button',
+        'src/feature/Button.tsx'
+      );
+      const page = {
+        ...createComponent('src/Page.tsx:Page', 'Page', 'src/Page.tsx', [
+          'Button',
+        ]),
+        imports: [
+          {
+            source: '@mui/material',
+            specifiers: ['Button'],
+            isReactComponent: true,
+            bindings: [{ local: 'Button', imported: 'Button' }],
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([localButton, page]);
+
+      expect(graph.edges).toEqual([]);
+      expect(graph.nodes.get(page.id)!.dependencies).toEqual([]);
+    });
+
+    it('同じファイル内のコンポーネントを名前で解決できること', () => {
+      const local = createComponent(
+        'src/a/List.tsx:Item',
+        'Item',
+        'src/a/List.tsx'
+      );
+      const elsewhere = createComponent(
+        'src/b/Item.tsx:Item',
+        'Item',
+        'src/b/Item.tsx'
+      );
+      const list = createComponent(
+        'src/a/List.tsx:List',
+        'List',
+        'src/a/List.tsx',
+        ['Item']
+      );
+
+      const graph = graphBuilder.buildGraph([local, list, elsewhere]);
+
+      expect(graph.nodes.get(list.id)!.dependencies).toEqual([local.id]);
+    });
+  });
+
+  describe('デフォルトエクスポートの解決', () => {
+    it('デフォルトインポートをデフォルトエクスポートのコンポーネントに解決できること', () => {
+      const header = createComponent(
+        'src/app/settings/page.tsx:Header',
+        'Header',
+        'src/app/settings/page.tsx'
+      );
+      const page = {
+        ...createComponent(
+          'src/app/settings/page.tsx:SettingsPage',
+          'SettingsPage',
+          'src/app/settings/page.tsx',
+          ['Header']
+        ),
+        isDefaultExport: true,
+      };
+      const tabs = {
+        ...createComponent('src/Tabs.tsx:Tabs', 'Tabs', 'src/Tabs.tsx', [
+          'Page',
+        ]),
+        imports: [
+          {
+            source: './app/settings/page',
+            specifiers: ['Page'],
+            isReactComponent: true,
+            bindings: [{ local: 'Page', imported: 'default' }],
+            resolvedPath: 'src/app/settings/page.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([header, page, tabs]);
+
+      expect(graph.nodes.get(tabs.id)!.dependencies).toEqual([page.id]);
+    });
+  });
+
+  describe('メンバー式による依存関係', () => {
+    it('名前空間インポートのメンバーをエクスポート先のコンポーネントに解決できること', () => {
+      const button = createComponent(
+        'src/ui/Button.tsx:Button',
+        'Button',
+        'src/ui/Button.tsx'
+      );
+      const app = {
+        ...createComponent('src/App.tsx:App', 'App', 'src/App.tsx', [
+          'UI.Button',
+        ]),
+        imports: [
+          {
+            source: './ui/Button',
+            specifiers: ['* as UI'],
+            isReactComponent: true,
+            bindings: [{ local: 'UI', imported: '*' }],
+            resolvedPath: 'src/ui/Button.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([button, app]);
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([button.id]);
+    });
+
+    it('複合コンポーネントのメンバーを親コンポーネントに解決できること', () => {
+      const card = createComponent('src/Card.tsx:Card', 'Card', 'src/Card.tsx');
+      const app = createComponent('src/App.tsx:App', 'App', 'src/App.tsx', [
+        'Card.Header',
+      ]);
+
+      const graph = graphBuilder.buildGraph([card, app]);
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([card.id]);
+    });
+
+    it('同じコンポーネントへの複数の参照を依存関係として1回だけ数えること', () => {
+      const card = createComponent(
+        'src/ui/Card.tsx:Card',
+        'Card',
+        'src/ui/Card.tsx'
+      );
+      const app = {
+        ...createComponent('src/App.tsx:App', 'App', 'src/App.tsx', [
+          'Card',
+          'UI.Card.Header',
+        ]),
+        imports: [
+          {
+            source: './ui/Card',
+            specifiers: ['Card'],
+            isReactComponent: true,
+            bindings: [{ local: 'Card', imported: 'Card' }],
+            resolvedPath: 'src/ui/Card.tsx',
+          },
+          {
+            source: './ui',
+            specifiers: ['* as UI'],
+            isReactComponent: true,
+            bindings: [{ local: 'UI', imported: '*' }],
+            resolvedPath: 'src/ui/Card.tsx',
+          },
+        ],
+      };
+
+      const graph = graphBuilder.buildGraph([card, app]);
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([card.id]);
+      expect(graph.nodes.get(card.id)!.dependents).toEqual([app.id]);
+      expect(graph.edges).toEqual([
+        {
+          from: app.id,
+          to: card.id,
+          strength: 2,
+          importSource: './ui/Card',
+        },
+      ]);
+    });
+  });
+
+  describe('バレルファイル経由の依存関係', () => {
+    const card = createComponent(
+      'src/ui/Card.tsx:Card',
+      'Card',
+      'src/ui/Card.tsx'
+    );
+    const modal = createComponent(
+      'src/ui/Modal.tsx:Modal',
+      'Modal',
+      'src/ui/Modal.tsx'
+    );
+    const input = createComponent(
+      'src/ui/forms/Input.tsx:Input',
+      'Input',
+      'src/ui/forms/Input.tsx'
+    );
+
+    const reExports = new Map([
+      [
+        'src/ui/index.ts',
+        [
+          {
+            source: './Card',
+            exported: 'Card',
+            imported: 'Card',
+            resolvedPath: 'src/ui/Card.tsx',
+          },
+          {
+            source: './Modal',
+            exported: 'Dialog',
+            imported: 'default',
+            resolvedPath: 'src/ui/Modal.tsx',
+          },
+          {
+            source: './forms',
+            exported: '*',
+            imported: '*',
+            resolvedPath: 'src/ui/forms/index.ts',
+          },
+        ],
+      ],
+      [
+        'src/ui/forms/index.ts',
+        [
+          {
+            source: './Input',
+            exported: '*',
+            imported: '*',
+            resolvedPath: 'src/ui/forms/Input.tsx',
+          },
+          {
+            source: '..',
+            exported: '*',
+            imported: '*',
+            resolvedPath: 'src/ui/index.ts',
+          },
+        ],
+      ],
+    ]);
+
+    const createApp = (names: Array<{ local: string; imported: string }>) => ({
+      ...createComponent(
+        'src/App.tsx:App',
+        'App',
+        'src/App.tsx',
+        names.map((n) => n.local)
+      ),
+      imports: [
+        {
+          source: './ui',
+          specifiers: names.map((n) => n.local),
+          isReactComponent: true,
+          bindings: names,
+          resolvedPath: 'src/ui/index.ts',
+        },
+      ],
+    });
+
+    it('名前付き再エクスポートを定義元ファイルまで辿れること', () => {
+      const app = createApp([{ local: 'Card', imported: 'Card' }]);
+
+      const graph = graphBuilder.buildGraph([card, modal, input, app], {
+        reExports,
+      });
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([card.id]);
+    });
+
+    it('default as X の再エクスポートを解決できること', () => {
+      const app = createApp([{ local: 'Dialog', imported: 'Dialog' }]);
+
+      const graph = graphBuilder.buildGraph([card, modal, input, app], {
+        reExports,
+      });
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([modal.id]);
+    });
+
+    it('export * をネストして辿れること（循環するバレルを含む）', () => {
+      const app = createApp([
+        { local: 'Input', imported: 'Input' },
+        { local: 'Missing', imported: 'Missing' },
+      ]);
+
+      const graph = graphBuilder.buildGraph([card, modal, input, app], {
+        reExports,
+      });
+
+      expect(graph.nodes.get(app.id)!.dependencies).toEqual([input.id]);
     });
   });
 
@@ -381,7 +776,35 @@ describe('GraphBuilder', () => {
       const graph = graphBuilder.buildGraph(components);
       const metrics = graphBuilder.calculateMetrics(graph);
 
-      expect(metrics.circularDependencies).toBe(2);
+      // One cycle (A -> B -> A), not the two nodes on it
+      expect(metrics.circularDependencies).toBe(1);
+    });
+
+    it('複雑度プロファイルの閾値で分布と色を決定すること', () => {
+      const strictBuilder = new GraphBuilder({
+        complexityProfile: {
+          ...DEFAULT_COMPLEXITY_PROFILE,
+          bands: { simple: 10, standard: 20, complex: 30 },
+        },
+      });
+      const components: ComponentInfo[] = [
+        createComponent('1', 'Small', 'src/Small.tsx', [], 25),
+        createComponent('2', 'Parent', 'src/Parent.tsx', ['Small'], 50),
+      ];
+
+      const graph = strictBuilder.buildGraph(components);
+      const metrics = strictBuilder.calculateMetrics(graph);
+      const { nodes } = strictBuilder.buildReactFlowGraph(graph);
+
+      expect(metrics.complexityDistribution).toEqual({
+        simple: 0,
+        standard: 0,
+        complex: 1,
+        veryComplex: 1,
+      });
+      expect(nodes.find((n) => n.id === '1')?.style?.backgroundColor).toBe(
+        '#eab308'
+      ); // Yellow (complex)
     });
 
     it('トップリストを10項目に制限すること', () => {
@@ -440,10 +863,14 @@ describe('GraphBuilder', () => {
       const graph = graphBuilder.buildGraph(components);
       const metrics = graphBuilder.calculateMetrics(graph);
 
-      // All components are part of the circular dependency
-      // The implementation marks nodes when they're part of any cycle
-      expect(metrics.circularDependencies).toBeGreaterThan(0);
-      expect(metrics.circularDependencies).toBeLessThanOrEqual(3);
+      // A -> B -> C -> A is a single cycle covering every node
+      expect(metrics.circularDependencies).toBe(1);
+      expect(graph.cycleAnalysis?.stronglyConnectedComponents).toEqual([
+        ['1', '2', '3'],
+      ]);
+      for (const node of graph.nodes.values()) {
+        expect(node.warnings?.circularDependency).toBe(true);
+      }
     });
 
     it('線形チェーンでは循環依存を検出しないこと', () => {
@@ -1,21 +1,76 @@
 import type {
+  ComplexityBand,
+  ComplexityProfile,
   ComponentInfo,
+  CycleAnalysis,
   DependencyGraph,
   DependencyNode,
   DependencyEdge,
   ProjectMetrics,
+  ReExportInfo,
 } from '@/types';
 import type { Node, Edge } from '@xyflow/react';
 import type { FlowNodeData } from '@/types';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  getComplexityBand,
+} from '@/lib/complexity/complexityProfile';
+import { analyzeCycles } from '@/lib/graph/cycleDetector';
+
+/**
+ * Options for GraphBuilder.buildGraph
+ */
+export type BuildGraphOptions = {
+  // Re-exports per file path, used to follow imports through barrel files
+  reExports?: Map<string, ReExportInfo[]>;
+};
+
+/**
+ * Options for GraphBuilder
+ */
+export type GraphBuilderOptions = {
+  // Band thresholds for node colours and metrics (defaults to DEFAULT_COMPLEXITY_PROFILE)
+  complexityProfile?: ComplexityProfile;
+};
+
+/**
+ * Colour of each complexity band
+ */
+export const BAND_COLORS: Record<ComplexityBand, string> = {
+  simple: '#22c55e', // Green
+  standard: '#3b82f6', // Blue
+  complex: '#eab308', // Yellow
+  veryComplex: '#f97316', // Orange
+};
+
+/**
+ * Colours that take precedence over the complexity band
+ */
+export const STATUS_COLORS = {
+  circular: '#ef4444', // Red for circular dependency
+  root: '#8b5cf6', // Purple for root components (distinct from green)
+  unused: '#9ca3af', // Gray for unused
+};
 
 /**
  * Build a dependency graph from component information
  */
 export class GraphBuilder {
+  private readonly complexityProfile: ComplexityProfile;
+
+  constructor(options: GraphBuilderOptions = {}) {
+    this.complexityProfile =
+      options.complexityProfile ?? DEFAULT_COMPLEXITY_PROFILE;
+  }
+
   /**
    * Build dependency graph from components
    */
-  buildGraph(components: ComponentInfo[]): DependencyGraph {
+  buildGraph(
+    components: ComponentInfo[],
+    options: BuildGraphOptions = {}
+  ): DependencyGraph {
+    const reExports = options.reExports || new Map<string, ReExportInfo[]>();
     const nodes = new Map<string, DependencyNode>();
     const edges: DependencyEdge[] = [];
 
@@ -31,26 +86,47 @@ export class GraphBuilder {
       });
     }
 
-    // Build component name to ID mapping
+    // Build component name to ID mapping (fallback for unresolved imports)
     const nameToId = new Map<string, string>();
     for (const component of components) {
       nameToId.set(component.name, component.id);
     }
 
+    // Group components by the file that defines them
+    const componentsByFile = new Map<string, ComponentInfo[]>();
+    for (const component of components) {
+      if (!componentsByFile.has(component.filePath)) {
+        componentsByFile.set(component.filePath, []);
+      }
+      componentsByFile.get(component.filePath)!.push(component);
+    }
+
     // Create edges and update dependencies
     for (const component of components) {
       const node = nodes.get(component.id)!;
+      // Several names can resolve to one component (Card and Card.Header)
+      const dependencyIds = new Set<string>();
 
       for (const depName of component.dependencies) {
-        const depId = nameToId.get(depName);
+        const resolved = this.resolveDependency(
+          component,
+          depName,
+          componentsByFile,
+          reExports,
+          nameToId
+        );
+        const depId = resolved?.id;
         if (depId && depId !== component.id) {
-          // Add to dependencies
-          node.dependencies.push(depId);
-
-          // Add to dependent's dependents list
-          const depNode = nodes.get(depId);
-          if (depNode) {
-            depNode.dependents.push(component.id);
+          if (!dependencyIds.has(depId)) {
+            dependencyIds.add(depId);
+            // Add to dependencies
+            node.dependencies.push(depId);
+
+            // Add to dependent's dependents list
+            const depNode = nodes.get(depId);
+            if (depNode) {
+              depNode.dependents.push(component.id);
+            }
           }
 
           // Create edge
@@ -64,6 +140,9 @@ export class GraphBuilder {
               from: component.id,
               to: depId,
               strength: 1,
+              ...(resolved.importSource && {
+                importSource: resolved.importSource,
+              }),
             });
           }
         }
@@ -73,10 +152,142 @@ export class GraphBuilder {
     // Calculate depths
     this.calculateDepths(nodes);
 
-    // Detect warnings
-    this.detectWarnings(nodes);
+    // Detect cycles and warnings
+    const graph: DependencyGraph = { nodes, edges };
+    graph.cycleAnalysis = analyzeCycles(graph);
+    this.detectWarnings(nodes, this.getCircularNodes(graph));
 
-    return { nodes, edges };
+    return graph;
+  }
+
+  /**
+   * Resolve a dependency name to a component ID
+   * 1. Components defined in the same file link by name
+   * 2. Imports resolved to a scanned file link to the component exported there
+   *    (following barrel re-exports to the defining file)
+   * 3. Names no import binds (globals, injected components) fall back to a
+   *    project-wide name match; imports of packages or unscanned files
+   *    resolve to nothing
+   * Also returns the import source when an import statement was followed
+   */
+  private resolveDependency(
+    component: ComponentInfo,
+    depName: string,
+    componentsByFile: Map<string, ComponentInfo[]>,
+    reExports: Map<string, ReExportInfo[]>,
+    nameToId: Map<string, string>
+  ): { id: string; importSource?: string } | undefined {
+    // Member usages (<UI.Button />, <Card.Header />) resolve through their root
+    const [rootName, ...memberPath] = depName.split('.');
+
+    const sameFile = componentsByFile
+      .get(component.filePath)
+      ?.find((c) => c.name === rootName && c.id !== component.id);
+    if (sameFile) {
+      return { id: sameFile.id };
+    }
+
+    for (const imp of component.imports) {
+      const binding = imp.bindings?.find((b) => b.local === rootName);
+      if (binding) {
+        if (!imp.resolvedPath) {
+          return undefined;
+        }
+        // Namespace import: `import * as UI` + <UI.Card.Header /> -> Card
+        const memberName = memberPath[0];
+        const isNamespaceMember = binding.imported === '*' && memberName;
+        const exported = this.findExportedComponent(
+          imp.resolvedPath,
+          isNamespaceMember ? memberName : binding.imported,
+          isNamespaceMember ? memberName : rootName,
+          componentsByFile,
+          reExports
+        );
+        return exported && { id: exported.id, importSource: imp.source };
+      }
+    }
+
+    const fallbackId = nameToId.get(rootName);
+    return fallbackId ? { id: fallbackId } : undefined;
+  }
+
+  /**
+   * Find the component a file exports under the given name,
+   * following re-exports (`export { X } from`, `export * from`)
+   */
+  private findExportedComponent(
+    filePath: string,
+    imported: string,
+    localName: string,
+    componentsByFile: Map<string, ComponentInfo[]>,
+    reExports: Map<string, ReExportInfo[]>,
+    visited: Set<string> = new Set()
+  ): ComponentInfo | undefined {
+    // Re-export cycles between barrels end here
+    const visitKey = `${filePath}:${imported}`;
+    if (visited.has(visitKey)) {
+      return undefined;
+    }
+    visited.add(visitKey);
+
+    const candidates = componentsByFile.get(filePath) || [];
+    const fileReExports = reExports.get(filePath) || [];
+
+    if (imported === 'default') {
+      // Default import: the marked default export, then the same name,
+      // then the file's only component
+      const defaultComponent =
+        candidates.find((c) => c.isDefaultExport) ||
+        candidates.find((c) => c.name === localName) ||
+        (candidates.length === 1 ? candidates[0] : undefined);
+      if (defaultComponent) {
+        return defaultComponent;
+      }
+    } else {
+      const namedComponent = candidates.find((c) => c.name === imported);
+      if (namedComponent) {
+        return namedComponent;
+      }
+    }
+
+    // Explicit re-export under this name: `export { X as Y } from './X'`
+    const reExport = fileReExports.find(
+      (r) => r.exported === imported && r.imported !== '*'
+    );
+    if (reExport) {
+      return reExport.resolvedPath
+        ? this.findExportedComponent(
+            reExport.resolvedPath,
+            reExport.imported,
+            localName,
+            componentsByFile,
+            reExports,
+            visited
+          )
+        : undefined;
+    }
+
+    // `export * from './forms'` forwards every named export except default
+    if (imported !== 'default') {
+      for (const starExport of fileReExports) {
+        if (starExport.exported !== '*' || !starExport.resolvedPath) {
+          continue;
+        }
+        const found = this.findExportedComponent(
+          starExport.resolvedPath,
+          imported,
+          localName,
+          componentsByFile,
+          reExports,
+          visited
+        );
+        if (found) {
+          return found;
+        }
+      }
+    }
+
+    return undefined;
   }
 
   /**
@@ -133,12 +344,12 @@ export class GraphBuilder {
   }
 
   /**
-   * Get node color based on complexity
+   * Get node color based on complexity (bands from the complexity profile)
    * - Root: Purple (Entry points)
-   * - 0-30: Green (Simple)
-   * - 31-60: Blue (Standard)
-   * - 61-80: Yellow (Complex)
-   * - 81-100: Orange (Very Complex)
+   * - Simple (0-30 by default): Green
+   * - Standard (31-60): Blue
+   * - Complex (61-80): Yellow
+   * - Very Complex (81-100): Orange
    * - Circular: Red (Error)
    * - Unused: Gray
    */
@@ -148,13 +359,12 @@ export class GraphBuilder {
     hasCircularDep: boolean,
     isRoot: boolean
   ): string {
-    if (hasCircularDep) return '#ef4444'; // Red for circular dependency
-    if (isRoot) return '#8b5cf6'; // Purple for root components (distinct from green)
-    if (isUnused) return '#9ca3af'; // Gray for unused
-    if (complexity <= 30) return '#22c55e'; // Green (simple)
-    if (complexity <= 60) return '#3b82f6'; // Blue (standard)
-    if (complexity <= 80) return '#eab308'; // Yellow (complex)
-    return '#f97316'; // Orange for very complex
+    if (hasCircularDep) return STATUS_COLORS.circular;
+    if (isRoot) return STATUS_COLORS.root;
+    if (isUnused) return STATUS_COLORS.unused;
+    return BAND_COLORS[
+      getComplexityBand(complexity, this.complexityProfile.bands)
+    ];
   }
 
   /**
@@ -177,8 +387,8 @@ export class GraphBuilder {
     const flowNodes: Node<FlowNodeData>[] = [];
     const flowEdges: Edge[] = [];
 
-    // Detect circular dependencies
-    const circularNodes = this.detectCircularDependencies(graph);
+    // Nodes on a dependency cycle
+    const circularNodes = this.getCircularNodes(graph);
 
     // Create nodes
     for (const [id, node] of graph.nodes) {
@@ -247,6 +457,7 @@ export class GraphBuilder {
         source: edge.from,
         target: edge.to,
         animated: edge.strength > 1,
+        data: { strength: edge.strength },
         style: {
           strokeWidth: Math.min(edge.strength, 5),
           stroke: '#94a3b8',
@@ -258,56 +469,33 @@ export class GraphBuilder {
   }
 
   /**
-   * Detect circular dependencies using DFS
+   * Cycle analysis from buildGraph, or a fresh one for graphs built elsewhere
    */
-  private detectCircularDependencies(graph: DependencyGraph): Set<string> {
-    const circularNodes = new Set<string>();
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-
-    const dfs = (nodeId: string): boolean => {
-      if (recursionStack.has(nodeId)) {
-        // Found a cycle
-        circularNodes.add(nodeId);
-        return true;
-      }
-      if (visited.has(nodeId)) {
-        return false;
-      }
-
-      visited.add(nodeId);
-      recursionStack.add(nodeId);
-
-      const node = graph.nodes.get(nodeId);
-      if (node) {
-        for (const depId of node.dependencies) {
-          if (dfs(depId)) {
-            circularNodes.add(nodeId);
-          }
-        }
-      }
-
-      recursionStack.delete(nodeId);
-      return false;
-    };
-
-    for (const nodeId of graph.nodes.keys()) {
-      if (!visited.has(nodeId)) {
-        dfs(nodeId);
-      }
-    }
+  private getCycleAnalysis(graph: DependencyGraph): CycleAnalysis {
+    return graph.cycleAnalysis ?? analyzeCycles(graph);
+  }
 
-    return circularNodes;
+  /**
+   * IDs of all nodes in a strongly connected component (i.e. on some cycle)
+   */
+  private getCircularNodes(graph: DependencyGraph): Set<string> {
+    return new Set(
+      this.getCycleAnalysis(graph).stronglyConnectedComponents.flat()
+    );
   }
 
   /**
    * Detect warnings for all nodes
    */
-  private detectWarnings(nodes: Map<string, DependencyNode>): void {
+  private detectWarnings(
+    nodes: Map<string, DependencyNode>,
+    circularNodes: Set<string>
+  ): void {
     for (const node of nodes.values()) {
       node.warnings = {
         deepDependencyChain: node.depth > 5,
         highCoupling: node.dependents.length >= 10,
+        circularDependency: circularNodes.has(node.id),
         unused:
           node.dependents.length === 0 &&
           !this.isRootComponent(node.component.filePath),
@@ -320,7 +508,7 @@ export class GraphBuilder {
    */
   calculateMetrics(graph: DependencyGraph): ProjectMetrics {
     const components = Array.from(graph.nodes.values());
-    const circularNodes = this.detectCircularDependencies(graph);
+    const { cycles } = this.getCycleAnalysis(graph);
 
     // Total counts
     const totalComponents = components.length;
@@ -357,15 +545,16 @@ export class GraphBuilder {
 
     // Complexity distribution
     const complexityDistribution = {
-      simple: components.filter((node) => node.complexity <= 30).length,
-      standard: components.filter(
-        (node) => node.complexity > 30 && node.complexity <= 60
-      ).length,
-      complex: components.filter(
-        (node) => node.complexity > 60 && node.complexity <= 80
-      ).length,
-      veryComplex: components.filter((node) => node.complexity > 80).length,
+      simple: 0,
+      standard: 0,
+      complex: 0,
+      veryComplex: 0,
     };
+    for (const node of components) {
+      complexityDistribution[
+        getComplexityBand(node.complexity, this.complexityProfile.bands)
+      ]++;
+    }
 
     return {
       totalComponents,
@@ -373,7 +562,7 @@ export class GraphBuilder {
       averageComplexity: Math.round(averageComplexity * 10) / 10,
       maxComplexity,
       minComplexity,
-      circularDependencies: circularNodes.size,
+      circularDependencies: cycles.length,
       topComplexComponents,
       mostDependedOn,
       complexityDistribution,
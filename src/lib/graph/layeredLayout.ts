@@ -0,0 +1,356 @@
+import type { Node, Edge } from '@xyflow/react';
+import { getNodeSize } from '@/lib/graph/nodeSize';
+
+// Top-left corner of the drawing
+const ORIGIN_X = 50;
+const ORIGIN_Y = 50;
+
+const NODE_GAP = 60; // Horizontal space between neighbouring nodes
+const LAYER_GAP = 120; // Vertical space between layers
+const DUMMY_WIDTH = 10; // Width reserved for an edge passing through a layer
+const CROSSING_ITERATIONS = 12;
+const COORDINATE_ITERATIONS = 4;
+
+/**
+ * A node of the layered graph: a real node, or a dummy splitting an edge
+ * that spans several layers
+ */
+type Vertex = {
+  width: number;
+  height: number;
+  layer: number;
+  up: number[]; // Connected vertices in the layer above
+  down: number[]; // Connected vertices in the layer below
+};
+
+/**
+ * Sugiyama-style layered layout: dependents above their dependencies
+ *
+ * 1. Cycle removal: reverse DFS back edges
+ * 2. Layering: longest path, with sources pulled down next to their targets
+ * 3. Crossing reduction: barycentric sweeps, keeping the best ordering
+ * 4. Coordinates: nodes pulled towards their neighbours' average x without
+ *    overlapping, using each node's own width and height
+ */
+export function applyLayeredLayout<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(nodes: Node<T>[], edges: Edge[]): Node<T>[] {
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  const links = removeCycles(nodes.length, getLinks(nodes, edges));
+  const layers = assignLayers(nodes.length, links);
+  const vertices = createVertices(nodes, links, layers);
+  const order = reduceCrossings(vertices);
+  const x = assignXCoordinates(vertices, order);
+
+  // Layers are as tall as their tallest node; nodes are centred vertically
+  const layerHeights = order.map((layer) =>
+    Math.max(0, ...layer.map((v) => vertices[v].height))
+  );
+  const layerTops: number[] = [];
+  let top = ORIGIN_Y;
+  for (const height of layerHeights) {
+    layerTops.push(top);
+    top += height + LAYER_GAP;
+  }
+
+  return nodes.map((node, i) => {
+    const vertex = vertices[i];
+    return {
+      ...node,
+      position: {
+        x: x[i] - vertex.width / 2,
+        y:
+          layerTops[vertex.layer] +
+          (layerHeights[vertex.layer] - vertex.height) / 2,
+      },
+    };
+  });
+}
+
+/**
+ * Distinct edges between laid out nodes, as [source, target] node indexes
+ */
+function getLinks(nodes: Node[], edges: Edge[]): Array<[number, number]> {
+  const indexById = new Map(nodes.map((node, i) => [node.id, i]));
+  const seen = new Set<string>();
+  const links: Array<[number, number]> = [];
+
+  for (const edge of edges) {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    const key = `${source}>${target}`;
+    if (
+      source === undefined ||
+      target === undefined ||
+      source === target ||
+      seen.has(key)
+    ) {
+      continue;
+    }
+    seen.add(key);
+    links.push([source, target]);
+  }
+
+  return links;
+}
+
+/**
+ * Reverse the edges that close a cycle in a depth-first search, so the
+ * graph becomes acyclic while keeping as many edges pointing down as possible
+ */
+function removeCycles(
+  count: number,
+  links: Array<[number, number]>
+): Array<[number, number]> {
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  links.forEach(([source], i) => outgoing[source].push(i));
+
+  const state = new Array<'new' | 'active' | 'done'>(count).fill('new');
+  const reversed = new Set<number>();
+
+  const visit = (node: number): void => {
+    state[node] = 'active';
+    for (const linkIndex of outgoing[node]) {
+      const target = links[linkIndex][1];
+      if (state[target] === 'active') {
+        reversed.add(linkIndex);
+      } else if (state[target] === 'new') {
+        visit(target);
+      }
+    }
+    state[node] = 'done';
+  };
+
+  for (let node = 0; node < count; node++) {
+    if (state[node] === 'new') {
+      visit(node);
+    }
+  }
+
+  return links.map(([source, target], i) =>
+    reversed.has(i) ? [target, source] : [source, target]
+  );
+}
+
+/**
+ * Longest-path layering (every edge points at least one layer down), then
+ * move sources down to just above their highest target to shorten edges
+ */
+function assignLayers(count: number, links: Array<[number, number]>): number[] {
+  const incoming: number[][] = Array.from({ length: count }, () => []);
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  for (const [source, target] of links) {
+    outgoing[source].push(target);
+    incoming[target].push(source);
+  }
+
+  // Kahn's algorithm gives a topological order
+  const remaining = incoming.map((preds) => preds.length);
+  const queue = remaining.flatMap((n, node) => (n === 0 ? [node] : []));
+  const layers = new Array<number>(count).fill(0);
+
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i];
+    for (const target of outgoing[node]) {
+      layers[target] = Math.max(layers[target], layers[node] + 1);
+      if (--remaining[target] === 0) {
+        queue.push(target);
+      }
+    }
+  }
+
+  for (let node = 0; node < count; node++) {
+    if (incoming[node].length === 0 && outgoing[node].length > 0) {
+      layers[node] =
+        Math.min(...outgoing[node].map((target) => layers[target])) - 1;
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * One vertex per node (at the node's index), followed by dummies for long edges
+ */
+function createVertices(
+  nodes: Node[],
+  links: Array<[number, number]>,
+  layers: number[]
+): Vertex[] {
+  const vertices: Vertex[] = nodes.map((node, i) => ({
+    ...getNodeSize(node),
+    layer: layers[i],
+    up: [],
+    down: [],
+  }));
+
+  const connect = (upper: number, lower: number) => {
+    vertices[upper].down.push(lower);
+    vertices[lower].up.push(upper);
+  };
+
+  for (const [source, target] of links) {
+    let previous = source;
+    for (let layer = layers[source] + 1; layer < layers[target]; layer++) {
+      vertices.push({
+        width: DUMMY_WIDTH,
+        height: 0,
+        layer,
+        up: [],
+        down: [],
+      });
+      connect(previous, vertices.length - 1);
+      previous = vertices.length - 1;
+    }
+    connect(previous, target);
+  }
+
+  return vertices;
+}
+
+/**
+ * Order each layer by the barycentre of its neighbours, sweeping down and
+ * up alternately, and return the ordering with the fewest crossings
+ */
+function reduceCrossings(vertices: Vertex[]): number[][] {
+  const layerCount = Math.max(...vertices.map((v) => v.layer)) + 1;
+  let order: number[][] = Array.from({ length: layerCount }, () => []);
+  vertices.forEach((vertex, v) => order[vertex.layer].push(v));
+
+  let best = order.map((layer) => [...layer]);
+  let bestCrossings = countCrossings(vertices, order);
+
+  for (let i = 0; i < CROSSING_ITERATIONS && bestCrossings > 0; i++) {
+    const down = i % 2 === 0;
+    order = order.map((layer) => [...layer]);
+
+    const position = new Map<number, number>();
+    order.forEach((layer) =>
+      layer.forEach((v, index) => position.set(v, index))
+    );
+
+    // Down: layers 1..n-1 against the layer above; up: n-2..0 against below
+    const layerIndexes = Array.from({ length: layerCount }, (_, l) => l);
+    const sweep = down
+      ? layerIndexes.slice(1)
+      : layerIndexes.slice(0, -1).reverse();
+    for (const l of sweep) {
+      const barycenter = new Map<number, number>();
+      for (const v of order[l]) {
+        const neighbours = down ? vertices[v].up : vertices[v].down;
+        barycenter.set(
+          v,
+          neighbours.length > 0
+            ? neighbours.reduce((sum, n) => sum + position.get(n)!, 0) /
+                neighbours.length
+            : position.get(v)!
+        );
+      }
+      order[l].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+      order[l].forEach((v, index) => position.set(v, index));
+    }
+
+    const crossings = countCrossings(vertices, order);
+    if (crossings < bestCrossings) {
+      best = order.map((layer) => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Number of edge crossings between all pairs of adjacent layers. With the
+ * edges sorted by their upper end, two edges cross when their lower ends are
+ * in the opposite order, so the crossings are the inversions of the lower
+ * ends, counted with a Fenwick tree in O(e log v) per layer pair.
+ */
+function countCrossings(vertices: Vertex[], order: number[][]): number {
+  const position = new Map<number, number>();
+  order.forEach((layer) => layer.forEach((v, index) => position.set(v, index)));
+
+  let crossings = 0;
+  for (let l = 0; l < order.length - 1; l++) {
+    // Lower ends, by upper end and then lower end (edges sharing an end
+    // never cross)
+    const lowerEnds = order[l].flatMap((v) =>
+      vertices[v].down.map((w) => position.get(w)!).sort((a, b) => a - b)
+    );
+
+    // tree[i] counts the lower ends seen so far in a range ending at i
+    const size = order[l + 1].length;
+    const tree = new Array<number>(size + 1).fill(0);
+    lowerEnds.forEach((end, seen) => {
+      let notAfter = 0;
+      for (let i = end + 1; i > 0; i -= i & -i) {
+        notAfter += tree[i];
+      }
+      crossings += seen - notAfter;
+      for (let i = end + 1; i <= size; i += i & -i) {
+        tree[i]++;
+      }
+    });
+  }
+  return crossings;
+}
+
+/**
+ * Centre x of every vertex: pull each layer towards its neighbours above,
+ * then below, keeping the order and at least NODE_GAP between nodes
+ */
+function assignXCoordinates(vertices: Vertex[], order: number[][]): number[] {
+  const x = new Array<number>(vertices.length).fill(0);
+  const separation = (a: number, b: number) =>
+    (vertices[a].width + vertices[b].width) / 2 + NODE_GAP;
+
+  // Start packed from the left
+  for (const layer of order) {
+    let right = ORIGIN_X;
+    for (const v of layer) {
+      x[v] = right + vertices[v].width / 2;
+      right += vertices[v].width + NODE_GAP;
+    }
+  }
+
+  for (let i = 0; i < COORDINATE_ITERATIONS; i++) {
+    const down = i % 2 === 0;
+    const layers = down ? order.slice(1) : [...order].reverse().slice(1);
+
+    for (const layer of layers) {
+      const desired = layer.map((v) => {
+        const neighbours = down ? vertices[v].up : vertices[v].down;
+        return neighbours.length > 0
+          ? neighbours.reduce((sum, n) => sum + x[n], 0) / neighbours.length
+          : x[v];
+      });
+
+      // Closest placement from the left and from the right; their average
+      // still respects the separations
+      const left = [...desired];
+      for (let k = 1; k < layer.length; k++) {
+        left[k] = Math.max(
+          left[k],
+          left[k - 1] + separation(layer[k - 1], layer[k])
+        );
+      }
+      const right = [...desired];
+      for (let k = layer.length - 2; k >= 0; k--) {
+        right[k] = Math.min(
+          right[k],
+          right[k + 1] - separation(layer[k], layer[k + 1])
+        );
+      }
+      layer.forEach((v, k) => {
+        x[v] = (left[k] + right[k]) / 2;
+      });
+    }
+  }
+
+  // Shift the drawing back to the origin
+  const minLeft = Math.min(...vertices.map((v, i) => x[i] - v.width / 2));
+  return x.map((value) => value - minLeft + ORIGIN_X);
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { applyLayout } from './layoutAlgorithm';
+import { applyLayout, keepNodePositions } from './layoutAlgorithm';
+import { applyForceLayout } from './forceLayout';
 import type { Node, Edge } from '@xyflow/react';
 
 describe('レイアウトアルゴリズム', () => {
@@ -16,220 +17,276 @@ describe('レイアウトアルゴリズム', () => {
     target,
   });
 
-  describe('ツリーレイアウト', () => {
-    it('ルートノードをレベル0に配置できること', () => {
-      const nodes: Node[] = [createNode('1'), createNode('2')];
-      const edges: Edge[] = [];
+  describe('フォースレイアウト', () => {
+    const createSizedNode = (id: string, size: number): Node => ({
+      ...createNode(id),
+      style: { width: size, height: size },
+    });
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+    const createStrongEdge = (
+      source: string,
+      target: string,
+      strength: number
+    ): Edge => ({ ...createEdge(source, target), data: { strength } });
+
+    // Distance between node centres (positions are top-left corners)
+    const distance = (nodes: Node[], a: string, b: string) => {
+      const center = (id: string) => {
+        const node = nodes.find((n) => n.id === id)!;
+        const radius = ((node.style?.width as number) ?? 60) / 2;
+        return { x: node.position.x + radius, y: node.position.y + radius };
+      };
+      const p = center(a);
+      const q = center(b);
+      return Math.hypot(p.x - q.x, p.y - q.y);
+    };
 
-      // Root nodes should be at y=50 (level 0)
-      expect(layouted[0].position.y).toBe(50);
-      expect(layouted[1].position.y).toBe(50);
+    it('すべてのノードを異なる位置に配置できること', () => {
+      const nodes: Node[] = [
+        createNode('1'),
+        createNode('2'),
+        createNode('3'),
+        createNode('4'),
+      ];
+
+      const layouted = applyLayout(nodes, [], 'force');
+
+      const positions = layouted.map((n) => `${n.position.x},${n.position.y}`);
+      expect(new Set(positions).size).toBe(nodes.length);
     });
 
-    it('階層的なレベルを作成できること', () => {
-      const nodes: Node[] = [createNode('1'), createNode('2'), createNode('3')];
+    it('同じシードでは同じ配置になること', () => {
+      const nodes: Node[] = ['1', '2', '3'].map((id) => createNode(id));
       const edges: Edge[] = [createEdge('1', '2'), createEdge('2', '3')];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const first = applyForceLayout(nodes, edges);
+      const second = applyForceLayout(nodes, edges);
+      const reseeded = applyForceLayout(nodes, edges, { seed: 7 });
 
-      const node1 = layouted.find((n) => n.id === '1')!;
-      const node2 = layouted.find((n) => n.id === '2')!;
-      const node3 = layouted.find((n) => n.id === '3')!;
+      expect(second).toEqual(first);
+      expect(reseeded).not.toEqual(first);
+    });
+
+    it('ノードのサイズに応じて重ならないように配置できること', () => {
+      const nodes: Node[] = Array.from({ length: 12 }, (_, i) =>
+        createSizedNode(`${i}`, i % 2 === 0 ? 130 : 40)
+      );
+      const edges: Edge[] = nodes
+        .slice(1)
+        .map((node) => createEdge('0', node.id));
 
-      // Each level should be 200px apart
-      expect(node1.position.y).toBe(50); // Level 0
-      expect(node2.position.y).toBe(250); // Level 1
-      expect(node3.position.y).toBe(450); // Level 2
+      const layouted = applyLayout(nodes, edges, 'force');
+
+      for (let i = 0; i < layouted.length; i++) {
+        for (let j = i + 1; j < layouted.length; j++) {
+          const minDistance =
+            ((layouted[i].style!.width as number) +
+              (layouted[j].style!.width as number)) /
+            2;
+          expect(
+            distance(layouted, layouted[i].id, layouted[j].id)
+          ).toBeGreaterThanOrEqual(minDistance);
+        }
+      }
     });
 
-    it('同じレベルのノードを水平に配置できること', () => {
-      const nodes: Node[] = [
-        createNode('root'),
-        createNode('child1'),
-        createNode('child2'),
-      ];
+    it('依存関係のあるノード同士がまとまること', () => {
+      // Two separate stars: a1 -> a2..a5 and b1 -> b2..b5
+      const ids = ['a', 'b'].flatMap((p) =>
+        [1, 2, 3, 4, 5].map((i) => `${p}${i}`)
+      );
+      const nodes: Node[] = ids.map((id) => createNode(id));
+      const edges: Edge[] = ['a', 'b'].flatMap((p) =>
+        [2, 3, 4, 5].map((i) => createEdge(`${p}1`, `${p}${i}`))
+      );
+
+      const layouted = applyLayout(nodes, edges, 'force');
+
+      const pairs = ids.flatMap((a, i) => ids.slice(i + 1).map((b) => [a, b]));
+      const average = (list: string[][]) =>
+        list.reduce((sum, [a, b]) => sum + distance(layouted, a, b), 0) /
+        list.length;
+      const within = pairs.filter(([a, b]) => a[0] === b[0]);
+      const between = pairs.filter(([a, b]) => a[0] !== b[0]);
+
+      expect(average(within)).toBeLessThan(average(between));
+    });
+
+    it('強い依存関係ほど近くに配置されること', () => {
+      const nodes: Node[] = ['hub', 'strong', 'weak'].map((id) =>
+        createNode(id)
+      );
       const edges: Edge[] = [
-        createEdge('root', 'child1'),
-        createEdge('root', 'child2'),
+        createStrongEdge('hub', 'strong', 5),
+        createStrongEdge('hub', 'weak', 1),
       ];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'force');
 
-      const child1 = layouted.find((n) => n.id === 'child1')!;
-      const child2 = layouted.find((n) => n.id === 'child2')!;
+      expect(distance(layouted, 'hub', 'strong')).toBeLessThan(
+        distance(layouted, 'hub', 'weak')
+      );
+    });
 
-      // Both children should be at the same y level
-      expect(child1.position.y).toBe(child2.position.y);
-      expect(child1.position.y).toBe(250); // Level 1
+    it('単一ノードを処理できること', () => {
+      const nodes: Node[] = [createNode('1')];
 
-      // Should be horizontally separated
-      expect(child1.position.x).not.toBe(child2.position.x);
+      const layouted = applyLayout(nodes, [], 'force');
+
+      expect(layouted[0].position.x).toBeDefined();
+      expect(layouted[0].position.y).toBeDefined();
     });
 
-    it('複数のルートノードを処理できること', () => {
-      const nodes: Node[] = [
-        createNode('root1'),
-        createNode('root2'),
-        createNode('child1'),
-        createNode('child2'),
-      ];
-      const edges: Edge[] = [
-        createEdge('root1', 'child1'),
-        createEdge('root2', 'child2'),
-      ];
+    it('大きなグラフでもすべてのノードを異なる位置に配置できること', () => {
+      const nodes: Node[] = Array.from({ length: 1000 }, (_, i) =>
+        createNode(`${i}`)
+      );
+      const edges: Edge[] = nodes
+        .slice(1)
+        .map((node, i) => createEdge(`${Math.floor(i / 4)}`, node.id));
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'force');
 
-      const root1 = layouted.find((n) => n.id === 'root1')!;
-      const root2 = layouted.find((n) => n.id === 'root2')!;
+      const positions = layouted.map((n) => `${n.position.x},${n.position.y}`);
+      expect(new Set(positions).size).toBe(nodes.length);
+      expect(
+        layouted.every(
+          (n) => Number.isFinite(n.position.x) && Number.isFinite(n.position.y)
+        )
+      ).toBe(true);
+    });
+  });
 
-      // Both roots should be at level 0
-      expect(root1.position.y).toBe(50);
-      expect(root2.position.y).toBe(50);
+  describe('階層レイアウト', () => {
+    const createSizedNode = (id: string, size: number): Node => ({
+      ...createNode(id),
+      style: { width: size, height: size },
     });
 
-    it('複雑なツリー構造を処理できること', () => {
-      //       1
-      //      / \
-      //     2   3
-      //    / \
-      //   4   5
-      const nodes: Node[] = [
-        createNode('1'),
-        createNode('2'),
-        createNode('3'),
-        createNode('4'),
-        createNode('5'),
-      ];
+    const layerOf = (nodes: Node[], id: string) =>
+      nodes.find((n) => n.id === id)!.position.y;
+
+    it('依存先を依存元より下の層に配置できること', () => {
+      const nodes: Node[] = ['a', 'b', 'c'].map((id) => createNode(id));
       const edges: Edge[] = [
-        createEdge('1', '2'),
-        createEdge('1', '3'),
-        createEdge('2', '4'),
-        createEdge('2', '5'),
+        createEdge('a', 'b'),
+        createEdge('b', 'c'),
+        createEdge('a', 'c'),
       ];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
-      expect(layouted.find((n) => n.id === '1')!.position.y).toBe(50); // Level 0
-      expect(layouted.find((n) => n.id === '2')!.position.y).toBe(250); // Level 1
-      expect(layouted.find((n) => n.id === '3')!.position.y).toBe(250); // Level 1
-      expect(layouted.find((n) => n.id === '4')!.position.y).toBe(450); // Level 2
-      expect(layouted.find((n) => n.id === '5')!.position.y).toBe(450); // Level 2
+      expect(layerOf(layouted, 'a')).toBeLessThan(layerOf(layouted, 'b'));
+      expect(layerOf(layouted, 'b')).toBeLessThan(layerOf(layouted, 'c'));
     });
 
-    it('孤立したノードを処理できること', () => {
-      const nodes: Node[] = [
-        createNode('1'),
-        createNode('2'),
-        createNode('isolated'),
+    it('循環のみのノードも別々の層に配置できること', () => {
+      const nodes: Node[] = ['a', 'b', 'c'].map((id) => createNode(id));
+      const edges: Edge[] = [
+        createEdge('a', 'b'),
+        createEdge('b', 'c'),
+        createEdge('c', 'a'),
       ];
-      const edges: Edge[] = [createEdge('1', '2')];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
-      // Isolated node should be treated as root
-      const isolated = layouted.find((n) => n.id === 'isolated')!;
-      expect(isolated.position.y).toBe(50); // Level 0
+      const layers = new Set(layouted.map((n) => n.position.y));
+      expect(layers.size).toBe(3);
     });
-  });
 
-  describe('フォースレイアウト', () => {
-    it('ノードを円形に配置できること', () => {
-      const nodes: Node[] = [
-        createNode('1'),
-        createNode('2'),
-        createNode('3'),
-        createNode('4'),
+    it('ソースノードを依存先のすぐ上の層に配置できること', () => {
+      // d only uses c, so it belongs next to c rather than at the top
+      const nodes: Node[] = ['a', 'b', 'c', 'd'].map((id) => createNode(id));
+      const edges: Edge[] = [
+        createEdge('a', 'b'),
+        createEdge('b', 'c'),
+        createEdge('d', 'c'),
       ];
-      const edges: Edge[] = [];
 
-      const layouted = applyLayout(nodes, edges, 'force');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
-      // All nodes should be positioned
-      layouted.forEach((node) => {
-        expect(node.position.x).toBeDefined();
-        expect(node.position.y).toBeDefined();
-        expect(typeof node.position.x).toBe('number');
-        expect(typeof node.position.y).toBe('number');
-      });
-
-      // Check that nodes are not all at the same position
-      const positions = layouted.map((n) => `${n.position.x},${n.position.y}`);
-      const uniquePositions = new Set(positions);
-      expect(uniquePositions.size).toBe(nodes.length);
+      expect(layerOf(layouted, 'd')).toBe(layerOf(layouted, 'b'));
     });
 
-    it('ノード数に基づいて円のサイズをスケールできること', () => {
-      const smallGraph: Node[] = [createNode('1'), createNode('2')];
-      const largeGraph: Node[] = Array.from({ length: 20 }, (_, i) =>
-        createNode(`${i}`)
+    it('エッジの交差を解消できること', () => {
+      // Initial order a1, a2 above b2, b1 crosses; the layout should uncross it
+      const nodes: Node[] = ['a1', 'a2', 'b2', 'b1'].map((id) =>
+        createNode(id)
       );
+      const edges: Edge[] = [createEdge('a1', 'b1'), createEdge('a2', 'b2')];
 
-      const smallLayout = applyLayout(smallGraph, [], 'force');
-      const largeLayout = applyLayout(largeGraph, [], 'force');
-
-      // Calculate average distance from center for both
-      const calcAvgDistance = (nodes: Node[]) => {
-        const distances = nodes.map((n) =>
-          Math.sqrt(
-            Math.pow(n.position.x - 400, 2) + Math.pow(n.position.y - 400, 2)
-          )
-        );
-        return distances.reduce((sum, d) => sum + d, 0) / distances.length;
-      };
-
-      const smallAvgDist = calcAvgDistance(smallLayout);
-      const largeAvgDist = calcAvgDistance(largeLayout);
+      const layouted = applyLayout(nodes, edges, 'layered');
+      const x = (id: string) => layouted.find((n) => n.id === id)!.position.x;
 
-      // Larger graph should have larger radius
-      expect(largeAvgDist).toBeGreaterThan(smallAvgDist);
+      expect(Math.sign(x('a1') - x('a2'))).toBe(Math.sign(x('b1') - x('b2')));
     });
 
-    it('ノードを円周上に均等に配置できること', () => {
-      const nodes: Node[] = Array.from({ length: 8 }, (_, i) =>
-        createNode(`${i}`)
-      );
-
-      const layouted = applyLayout(nodes, [], 'force');
+    it('入れ替えた順序のツリーも交差なく配置できること', () => {
+      // Binary tree of 63 nodes, given with every layer in reverse order
+      const ids = Array.from({ length: 63 }, (_, i) => `${i}`);
+      const nodes: Node[] = [...ids]
+        .sort((a, b) => Math.clz32(+b + 1) - Math.clz32(+a + 1) || +b - +a)
+        .map((id) => createNode(id));
+      const edges: Edge[] = ids
+        .slice(1)
+        .map((id) => createEdge(`${Math.floor((+id - 1) / 2)}`, id));
+
+      const layouted = applyLayout(nodes, edges, 'layered');
+      const x = (id: string) => layouted.find((n) => n.id === id)!.position.x;
+
+      for (const e of edges) {
+        for (const f of edges) {
+          const sameLayer =
+            Math.clz32(+e.source + 1) === Math.clz32(+f.source + 1);
+          if (sameLayer && e.source !== f.source) {
+            expect(Math.sign(x(e.source) - x(f.source))).toBe(
+              Math.sign(x(e.target) - x(f.target))
+            );
+          }
+        }
+      }
+    });
 
-      // Calculate angles from center (400, 400)
-      const angles = layouted.map((n) =>
-        Math.atan2(n.position.y - 400, n.position.x - 400)
+    it('ノードの幅に応じて同じ層のノードが重ならないこと', () => {
+      const nodes: Node[] = [
+        createSizedNode('root', 60),
+        createSizedNode('big', 130),
+        createSizedNode('small', 40),
+        createSizedNode('mid', 90),
+      ];
+      const edges: Edge[] = ['big', 'small', 'mid'].map((id) =>
+        createEdge('root', id)
       );
 
-      // Sort angles to check distribution
-      angles.sort((a, b) => a - b);
-
-      // Expected angle step for 8 nodes
-      const expectedStep = (2 * Math.PI) / 8;
+      const layouted = applyLayout(nodes, edges, 'layered');
+      const children = layouted
+        .filter((n) => n.id !== 'root')
+        .sort((a, b) => a.position.x - b.position.x);
 
-      // Check that angles are evenly distributed (with some tolerance)
-      for (let i = 1; i < angles.length; i++) {
-        const actualStep = angles[i] - angles[i - 1];
-        expect(Math.abs(actualStep - expectedStep)).toBeLessThan(0.1);
+      for (let i = 1; i < children.length; i++) {
+        const previousRight =
+          children[i - 1].position.x + (children[i - 1].style!.width as number);
+        expect(children[i].position.x).toBeGreaterThan(previousRight);
       }
+      // Nodes of different heights in a layer share the same centre line
+      const center = (n: Node) =>
+        n.position.y + (n.style!.height as number) / 2;
+      expect(new Set(children.map(center)).size).toBe(1);
     });
 
-    it('単一ノードを処理できること', () => {
-      const nodes: Node[] = [createNode('1')];
-
-      const layouted = applyLayout(nodes, [], 'force');
-
-      expect(layouted[0].position.x).toBeDefined();
-      expect(layouted[0].position.y).toBeDefined();
+    it('空のグラフを処理できること', () => {
+      expect(applyLayout([], [], 'layered')).toEqual([]);
     });
   });
 
   describe('レイアウトの選択', () => {
-    it('指定時にツリーレイアウトを適用できること', () => {
+    it('指定時に階層レイアウトを適用できること', () => {
       const nodes: Node[] = [createNode('1'), createNode('2')];
       const edges: Edge[] = [createEdge('1', '2')];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
-      // Tree layout should create levels (different y positions)
+      // Layered layout should create layers (different y positions)
       expect(layouted[0].position.y).not.toBe(layouted[1].position.y);
     });
 
@@ -239,7 +296,6 @@ describe('レイアウトアルゴリズム', () => {
 
       const layouted = applyLayout(nodes, edges, 'force');
 
-      // Force layout should position nodes in a circle
       // Check that nodes are positioned
       layouted.forEach((node) => {
         expect(node.position.x).toBeDefined();
@@ -259,15 +315,55 @@ describe('レイアウトアルゴリズム', () => {
     });
   });
 
+  describe('位置の維持', () => {
+    const at = (id: string, x: number, y: number): Node => ({
+      ...createNode(id),
+      position: { x, y },
+    });
+
+    it('既存ノードの位置と選択状態を維持できること', () => {
+      const layouted = [at('1', 0, 0), at('2', 100, 0)];
+      const previous = [
+        { ...at('1', 500, 300), selected: true },
+        at('2', 40, 40),
+      ];
+
+      const nodes = keepNodePositions(layouted, previous);
+
+      expect(nodes[0].position).toEqual({ x: 500, y: 300 });
+      expect(nodes[0].selected).toBe(true);
+      expect(nodes[1].position).toEqual({ x: 40, y: 40 });
+    });
+
+    it('新しいノードは既存ノードの平均的なずれだけ移動して配置されること', () => {
+      // The graph was panned by (+200, +100)
+      const layouted = [at('1', 0, 0), at('2', 100, 0), at('3', 50, 150)];
+      const previous = [at('1', 200, 100), at('2', 300, 100)];
+
+      const nodes = keepNodePositions(layouted, previous);
+
+      expect(nodes[2].position).toEqual({ x: 250, y: 250 });
+    });
+
+    it('既存ノードがない場合はレイアウトの位置をそのまま使うこと', () => {
+      const layouted = [at('1', 10, 20)];
+
+      expect(keepNodePositions(layouted, [])[0].position).toEqual({
+        x: 10,
+        y: 20,
+      });
+    });
+  });
+
   describe('エッジケース', () => {
     it('空のグラフを処理できること', () => {
       const nodes: Node[] = [];
       const edges: Edge[] = [];
 
-      const treeLayout = applyLayout(nodes, edges, 'tree');
+      const layeredLayout = applyLayout(nodes, edges, 'layered');
       const forceLayout = applyLayout(nodes, edges, 'force');
 
-      expect(treeLayout).toEqual([]);
+      expect(layeredLayout).toEqual([]);
       expect(forceLayout).toEqual([]);
     });
 
@@ -275,12 +371,12 @@ describe('レイアウトアルゴリズム', () => {
       const nodes: Node[] = [createNode('1')];
       const edges: Edge[] = [];
 
-      const treeLayout = applyLayout(nodes, edges, 'tree');
+      const layeredLayout = applyLayout(nodes, edges, 'layered');
       const forceLayout = applyLayout(nodes, edges, 'force');
 
-      expect(treeLayout).toHaveLength(1);
+      expect(layeredLayout).toHaveLength(1);
       expect(forceLayout).toHaveLength(1);
-      expect(treeLayout[0].position).toBeDefined();
+      expect(layeredLayout[0].position).toBeDefined();
       expect(forceLayout[0].position).toBeDefined();
     });
 
@@ -295,19 +391,19 @@ describe('レイアウトアルゴリズム', () => {
       ];
       const edges: Edge[] = [];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
       expect(layouted[0].id).toBe('1');
       expect(layouted[0].type).toBe('custom');
       expect(layouted[0].data).toEqual({ custom: 'data' });
     });
 
-    it('ツリーレイアウトで循環依存を処理できること', () => {
+    it('階層レイアウトで循環依存を処理できること', () => {
       const nodes: Node[] = [createNode('1'), createNode('2')];
       const edges: Edge[] = [createEdge('1', '2'), createEdge('2', '1')];
 
       // Should not crash or infinite loop
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
       expect(layouted).toHaveLength(2);
       layouted.forEach((node) => {
@@ -323,7 +419,7 @@ describe('レイアウトアルゴリズム', () => {
       ];
       const edges: Edge[] = [];
 
-      const layouted = applyLayout(nodes, edges, 'tree');
+      const layouted = applyLayout(nodes, edges, 'layered');
 
       // Positions should be recalculated
       expect(layouted[0].position).not.toEqual({ x: 100, y: 200 });
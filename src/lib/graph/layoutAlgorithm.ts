@@ -1,5 +1,7 @@
 import type { Node, Edge } from '@xyflow/react';
 import type { LayoutType } from '@/types';
+import { applyForceLayout } from '@/lib/graph/forceLayout';
+import { applyLayeredLayout } from '@/lib/graph/layeredLayout';
 
 /**
  * Apply layout algorithm to nodes
@@ -8,100 +10,52 @@ export function applyLayout<
   T extends Record<string, unknown> = Record<string, unknown>,
 >(nodes: Node<T>[], edges: Edge[], layoutType: LayoutType): Node<T>[] {
   switch (layoutType) {
-    case 'tree':
-      return applyTreeLayout(nodes, edges);
+    case 'layered':
+      return applyLayeredLayout(nodes, edges);
     case 'force':
-      return applyForceLayout(nodes);
+      return applyForceLayout(nodes, edges);
     default:
       return nodes;
   }
 }
 
 /**
- * Tree layout - hierarchical top-down
+ * Keep the position and selection of nodes already on screen. New nodes
+ * take their laid out position, shifted by the average offset of the kept
+ * nodes from their own laid out positions, so they land near their
+ * neighbours even after the graph was panned or nodes were dragged.
  */
-function applyTreeLayout<
+export function keepNodePositions<
   T extends Record<string, unknown> = Record<string, unknown>,
->(nodes: Node<T>[], edges: Edge[]): Node<T>[] {
-  const levels: Map<string, number> = new Map();
-  const childrenMap = new Map<string, string[]>();
-
-  // Build children map
-  for (const edge of edges) {
-    if (!childrenMap.has(edge.source)) {
-      childrenMap.set(edge.source, []);
+>(layoutedNodes: Node<T>[], previousNodes: Node[]): Node<T>[] {
+  const previous = new Map(previousNodes.map((node) => [node.id, node]));
+
+  let offsetX = 0;
+  let offsetY = 0;
+  let kept = 0;
+  for (const node of layoutedNodes) {
+    const old = previous.get(node.id);
+    if (old) {
+      offsetX += old.position.x - node.position.x;
+      offsetY += old.position.y - node.position.y;
+      kept++;
     }
-    childrenMap.get(edge.source)!.push(edge.target);
   }
-
-  // Find root nodes (nodes with no incoming edges)
-  const hasIncoming = new Set(edges.map((e) => e.target));
-  const rootNodes = nodes.filter((n) => !hasIncoming.has(n.id));
-
-  // Calculate levels (BFS)
-  const queue: Array<{ id: string; level: number }> = rootNodes.map((n) => ({
-    id: n.id,
-    level: 0,
-  }));
-
-  while (queue.length > 0) {
-    const { id, level } = queue.shift()!;
-    levels.set(id, level);
-
-    const children = childrenMap.get(id) || [];
-    for (const childId of children) {
-      if (!levels.has(childId)) {
-        queue.push({ id: childId, level: level + 1 });
-      }
-    }
-  }
-
-  // Assign positions
-  const levelGroups = new Map<number, string[]>();
-  for (const [nodeId, level] of levels) {
-    if (!levelGroups.has(level)) {
-      levelGroups.set(level, []);
-    }
-    levelGroups.get(level)!.push(nodeId);
+  if (kept > 0) {
+    offsetX /= kept;
+    offsetY /= kept;
   }
 
-  const LEVEL_HEIGHT = 200;
-  const NODE_WIDTH = 200;
-
-  return nodes.map((node) => {
-    const level = levels.get(node.id) ?? 0;
-    const nodesInLevel = levelGroups.get(level) || [];
-    const indexInLevel = nodesInLevel.indexOf(node.id);
-    const totalInLevel = nodesInLevel.length;
-
-    return {
-      ...node,
-      position: {
-        x: (indexInLevel - totalInLevel / 2) * NODE_WIDTH + 400,
-        y: level * LEVEL_HEIGHT + 50,
-      },
-    };
-  });
-}
-
-/**
- * Force-directed layout - simplified version
- */
-function applyForceLayout<
-  T extends Record<string, unknown> = Record<string, unknown>,
->(nodes: Node<T>[]): Node<T>[] {
-  // Simple circular layout as a starting point
-  const radius = Math.max(200, nodes.length * 30);
-  const angleStep = (2 * Math.PI) / nodes.length;
-
-  return nodes.map((node, index) => {
-    const angle = index * angleStep;
-    return {
-      ...node,
-      position: {
-        x: Math.cos(angle) * radius + 400,
-        y: Math.sin(angle) * radius + 400,
-      },
-    };
+  return layoutedNodes.map((node) => {
+    const old = previous.get(node.id);
+    return old
+      ? { ...node, position: old.position, selected: old.selected }
+      : {
+          ...node,
+          position: {
+            x: node.position.x + offsetX,
+            y: node.position.y + offsetY,
+          },
+        };
   });
 }
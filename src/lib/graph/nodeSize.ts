@@ -0,0 +1,15 @@
+import type { Node } from '@xyflow/react';
+
+/**
+ * Size used when a node has no numeric style size
+ */
+export const DEFAULT_NODE_SIZE = 60;
+
+/**
+ * Width and height of a node, from its style (set by GraphBuilder.getNodeSize)
+ */
+export function getNodeSize(node: Node): { width: number; height: number } {
+  const { width, height } = node.style ?? {};
+  const w = typeof width === 'number' ? width : DEFAULT_NODE_SIZE;
+  return { width: w, height: typeof height === 'number' ? height : w };
+}
@@ -1,30 +1,152 @@
 import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
+import traverse, { type NodePath, type Visitor } from '@babel/traverse';
 import type { File } from '@babel/types';
 import * as t from '@babel/types';
 import type {
   ComponentInfo,
   ImportInfo,
+  ImportBinding,
   FileInfo,
+  ParsedModule,
+  ReExportInfo,
   HookUsage,
   PropsInfo,
   PropProperty,
+  ComplexityProfile,
 } from '@/types';
+import {
+  DEFAULT_COMPLEXITY_PROFILE,
+  calculateComplexityScore,
+  getComplexityInputs,
+} from '@/lib/complexity/complexityProfile';
+import type { ModuleResolver } from './moduleResolver';
+import { DEFAULT_HOC_NAMES } from './parserConstants';
+
+/**
+ * Common React hooks to detect
+ */
+const REACT_HOOKS = [
+  'useState',
+  'useEffect',
+  'useContext',
+  'useReducer',
+  'useCallback',
+  'useMemo',
+  'useRef',
+  'useImperativeHandle',
+  'useLayoutEffect',
+  'useDebugValue',
+  'useTransition',
+  'useDeferredValue',
+  'useId',
+];
+
+/**
+ * Options for ComponentParser
+ */
+export type ComponentParserOptions = {
+  // Resolves import sources to scanned files (imports stay unresolved without it)
+  resolver?: ModuleResolver;
+  // Higher-order components to unwrap (defaults to DEFAULT_HOC_NAMES)
+  hocNames?: string[];
+  // Weights and caps for the complexity score (defaults to DEFAULT_COMPLEXITY_PROFILE)
+  complexityProfile?: ComplexityProfile;
+};
+
+/**
+ * React APIs that wrap a component (always recognized, with or without `React.`)
+ */
+const REACT_WRAPPERS = ['memo', 'forwardRef', 'lazy'];
+
+/**
+ * Framework file names whose default export is named after the folder
+ * (e.g. `app/settings/page.tsx` -> `SettingsPage`)
+ */
+const ROUTE_FILE_NAMES = [
+  'page',
+  'layout',
+  'template',
+  'loading',
+  'error',
+  'global-error',
+  'not-found',
+  'default',
+  'route',
+  'index',
+];
+
+/**
+ * Folders that hold routes rather than name them
+ */
+const ROUTE_ROOT_FOLDERS = ['app', 'pages', 'src'];
+
+/**
+ * A component definition found in the AST, before metrics are calculated
+ */
+type ComponentDefinition = {
+  name: string;
+  type: ComponentInfo['type'];
+  body: unknown;
+  node: t.Node; // Whole definition, measured for lines of code
+  wrappers?: string[]; // Outermost first, e.g. ['memo', 'forwardRef']
+  wrappedComponents?: string[]; // withRouter(Foo), styled(Foo) -> ['Foo']
+  lazySource?: string; // lazy(() => import('./Foo')) -> './Foo'
+  isDefaultExport?: boolean;
+};
+
+/**
+ * Result of unwrapping a variable initializer such as memo(() => ...)
+ */
+type UnwrappedInit = {
+  wrappers: string[];
+  fn?: t.ArrowFunctionExpression | t.FunctionExpression;
+  wrappedComponents: string[];
+  lazySource?: string;
+};
 
 /**
  * Parse a file and extract component information
  */
 export class ComponentParser {
+  private readonly resolver?: ModuleResolver;
+  private readonly hocNames: string[];
+  private readonly complexityProfile: ComplexityProfile;
+
+  constructor(options: ComponentParserOptions = {}) {
+    this.resolver = options.resolver;
+    this.hocNames = options.hocNames ?? DEFAULT_HOC_NAMES;
+    this.complexityProfile =
+      options.complexityProfile ?? DEFAULT_COMPLEXITY_PROFILE;
+  }
+
   /**
    * Parse a single file and extract all components
    */
   parseFile(fileInfo: FileInfo): ComponentInfo[] {
+    return this.parseModule(fileInfo).components;
+  }
+
+  /**
+   * Parse a single file and extract its components and re-exports
+   */
+  parseModule(fileInfo: FileInfo): ParsedModule {
     const components: ComponentInfo[] = [];
+    let reExports: ReExportInfo[] = [];
 
     try {
       const ast = this.parseCode(fileInfo.content, fileInfo.extension);
-      const imports = this.extractImports(ast);
-      const componentData = this.extractComponents(ast);
+      const imports = this.extractImports(ast, fileInfo.path);
+      reExports = this.extractReExports(ast, fileInfo.path, imports);
+      const componentData = this.extractComponents(ast, fileInfo.path);
+
+      // lazy(() => import('./Foo')) links the lazy component to Foo's default export
+      for (const data of componentData) {
+        if (data.lazySource) {
+          imports.push(
+            this.createLazyImport(data.lazySource, data.name, fileInfo.path)
+          );
+        }
+      }
 
       for (const data of componentData) {
         const hooks = this.extractHooks(data.body);
@@ -34,40 +156,65 @@ export class ComponentParser {
           data.name,
           fileInfo.extension
         );
-        const linesOfCode = this.calculateLinesOfCode(data.body);
+        const lines = this.calculateLinesOfCode(
+          data.node,
+          fileInfo.content,
+          ast.comments || []
+        );
         const externalLibraryCount = this.countExternalLibraries(imports);
+        const cyclomaticComplexity = this.calculateCyclomaticComplexity(
+          data.body
+        );
+        const cognitiveComplexity = this.calculateCognitiveComplexity(
+          data.body
+        );
 
-        // Combine import-based dependencies and custom hook calls
-        const importDeps = this.extractDependencies(data.name, imports);
+        // Combine rendered components and custom hook calls
+        const renderedComponents = this.extractRenderedComponents(
+          data.name,
+          data.body
+        );
         const allDependencies = [
-          ...new Set([...importDeps, ...customHookCalls]),
+          ...new Set([
+            ...renderedComponents,
+            ...customHookCalls.filter((hook) => hook !== data.name),
+            ...(data.wrappedComponents || []),
+            ...(data.lazySource ? [data.name] : []),
+          ]),
         ];
 
-        components.push({
+        const component: Omit<ComponentInfo, 'complexity'> = {
           id: `${fileInfo.path}:${data.name}`,
           name: data.name,
           filePath: fileInfo.path,
           type: data.type,
           dependencies: allDependencies,
           imports,
-          linesOfCode,
+          linesOfCode: lines.physical,
+          logicalLinesOfCode: lines.logical,
+          cyclomaticComplexity,
+          cognitiveComplexity,
+          externalLibraryCount,
           hooks,
           propsCount: propsInfo?.properties.length || 0,
           propsInfo,
-          complexity: this.calculateComplexity({
-            linesOfCode,
-            dependencyCount: allDependencies.length,
-            hooksCount: hooks.reduce((sum, h) => sum + h.count, 0),
-            propsCount: propsInfo?.properties.length || 0,
-            externalLibraryCount,
-          }),
+          ...(data.wrappers?.length ? { wrappers: data.wrappers } : {}),
+          ...(data.isDefaultExport ? { isDefaultExport: true } : {}),
+        };
+
+        components.push({
+          ...component,
+          complexity: calculateComplexityScore(
+            getComplexityInputs(component),
+            this.complexityProfile
+          ),
         });
       }
     } catch (error) {
       console.warn(`Failed to parse ${fileInfo.path}:`, error);
     }
 
-    return components;
+    return { filePath: fileInfo.path, components, reExports };
   }
 
   /**
@@ -89,42 +236,132 @@ export class ComponentParser {
   /**
    * Extract import statements from AST
    */
-  private extractImports(ast: File): ImportInfo[] {
+  private extractImports(ast: File, filePath: string): ImportInfo[] {
     const imports: ImportInfo[] = [];
     const isReactImport = this.isReactImport.bind(this);
+    const resolver = this.resolver;
 
     traverse(ast, {
       ImportDeclaration(path) {
         const source = path.node.source.value;
         const specifiers: string[] = [];
+        const bindings: ImportBinding[] = [];
 
         for (const spec of path.node.specifiers) {
           if (spec.type === 'ImportDefaultSpecifier') {
             specifiers.push(spec.local.name);
+            bindings.push({ local: spec.local.name, imported: 'default' });
           } else if (spec.type === 'ImportSpecifier') {
             specifiers.push(spec.local.name);
+            bindings.push({
+              local: spec.local.name,
+              imported: t.isIdentifier(spec.imported)
+                ? spec.imported.name
+                : spec.imported.value,
+            });
           } else if (spec.type === 'ImportNamespaceSpecifier') {
             specifiers.push(`* as ${spec.local.name}`);
+            bindings.push({ local: spec.local.name, imported: '*' });
           }
         }
 
-        imports.push({
+        const importInfo: ImportInfo = {
           source,
           specifiers,
           isReactComponent: isReactImport(source, specifiers),
-        });
+          bindings,
+        };
+
+        const resolvedPath = resolver?.resolve(source, filePath);
+        if (resolvedPath) {
+          importInfo.resolvedPath = resolvedPath;
+        }
+
+        imports.push(importInfo);
       },
     });
 
     return imports;
   }
 
+  /**
+   * Extract re-exports from AST
+   * Covers `export { X } from`, `export * from`, `export * as X from`,
+   * and re-exporting an imported binding (`import X from; export { X }`)
+   */
+  private extractReExports(
+    ast: File,
+    filePath: string,
+    imports: ImportInfo[]
+  ): ReExportInfo[] {
+    const reExports: ReExportInfo[] = [];
+    const resolver = this.resolver;
+
+    const addReExport = (
+      source: string,
+      exported: string,
+      imported: string
+    ) => {
+      const reExport: ReExportInfo = { source, exported, imported };
+      const resolvedPath = resolver?.resolve(source, filePath);
+      if (resolvedPath) {
+        reExport.resolvedPath = resolvedPath;
+      }
+      reExports.push(reExport);
+    };
+
+    const getName = (node: t.Identifier | t.StringLiteral) =>
+      t.isIdentifier(node) ? node.name : node.value;
+
+    traverse(ast, {
+      ExportNamedDeclaration(path) {
+        const source = path.node.source?.value;
+
+        for (const spec of path.node.specifiers) {
+          if (spec.type === 'ExportNamespaceSpecifier') {
+            if (source) {
+              addReExport(source, getName(spec.exported), '*');
+            }
+            continue;
+          }
+
+          if (spec.type !== 'ExportSpecifier') {
+            continue;
+          }
+
+          const exported = getName(spec.exported);
+          const local = spec.local.name;
+
+          if (source) {
+            addReExport(source, exported, local);
+            continue;
+          }
+
+          // `export { X }` where X was imported from another module
+          for (const imp of imports) {
+            const binding = imp.bindings?.find((b) => b.local === local);
+            if (binding) {
+              addReExport(imp.source, exported, binding.imported);
+              break;
+            }
+          }
+        }
+      },
+
+      ExportAllDeclaration(path) {
+        addReExport(path.node.source.value, '*', '*');
+      },
+    });
+
+    return reExports;
+  }
+
   /**
    * Check if an import is likely a React component
    */
   private isReactImport(source: string, specifiers: string[]): boolean {
-    // Local imports (relative paths) are likely components
-    if (source.startsWith('.') || source.startsWith('/')) {
+    // Local imports (relative paths and path aliases) are likely components
+    if (this.isLocalImport(source)) {
       return true;
     }
 
@@ -135,21 +372,63 @@ export class ComponentParser {
     });
   }
 
+  /**
+   * Check if an import source points into the project rather than a package
+   */
+  private isLocalImport(source: string): boolean {
+    if (this.resolver) {
+      return this.resolver.isLocalSource(source);
+    }
+    return source.startsWith('.') || source.startsWith('/');
+  }
+
   /**
    * Extract component definitions from AST
    */
   private extractComponents(
-    ast: File
-  ): Array<{ name: string; type: ComponentInfo['type']; body: unknown }> {
-    const components: Array<{
-      name: string;
-      type: ComponentInfo['type'];
-      body: unknown;
-    }> = [];
+    ast: File,
+    filePath: string
+  ): ComponentDefinition[] {
+    const components: ComponentDefinition[] = [];
     const isPotentialComponent = this.isPotentialComponent.bind(this);
     const isCustomHook = this.isCustomHook.bind(this);
+    const unwrapInit = this.unwrapInit.bind(this);
+    let defaultExportName: string | null = null;
+    let anonymousDefault: t.Node | null = null;
 
     traverse(ast, {
+      // export default Foo / export default function Foo() {} / export default () => {}
+      ExportDefaultDeclaration(path) {
+        const declaration = path.node.declaration;
+        if (t.isIdentifier(declaration)) {
+          defaultExportName = declaration.name;
+        } else if (
+          (t.isFunctionDeclaration(declaration) ||
+            t.isClassDeclaration(declaration)) &&
+          declaration.id
+        ) {
+          defaultExportName = declaration.id.name;
+        } else {
+          anonymousDefault = declaration;
+        }
+      },
+
+      // export { Foo as default }
+      ExportNamedDeclaration(path) {
+        if (path.node.source) {
+          return;
+        }
+        for (const spec of path.node.specifiers) {
+          const exportedName =
+            spec.exported.type === 'Identifier'
+              ? spec.exported.name
+              : spec.exported.value;
+          if (t.isExportSpecifier(spec) && exportedName === 'default') {
+            defaultExportName = spec.local.name;
+          }
+        }
+      },
+
       // Function declarations: function MyComponent() {} or function useMyHook() {}
       FunctionDeclaration(path) {
         const name = path.node.id?.name;
@@ -158,6 +437,7 @@ export class ComponentParser {
             name,
             type: isCustomHook(name) ? 'hook' : 'function',
             body: path.node.body,
+            node: path.node,
           });
         }
       },
@@ -179,6 +459,7 @@ export class ComponentParser {
             name,
             type: isHook ? 'hook' : 'arrow',
             body: path.node.init.body,
+            node: path.node,
           });
         }
 
@@ -188,6 +469,25 @@ export class ComponentParser {
             name,
             type: isHook ? 'hook' : 'function',
             body: path.node.init.body,
+            node: path.node,
+          });
+        }
+
+        // Wrapped: memo(() => {}), forwardRef(...), lazy(...), withRouter(Foo), styled.div``
+        const unwrapped = path.node.init ? unwrapInit(path.node.init) : null;
+        if (unwrapped) {
+          const fnType =
+            unwrapped.fn?.type === 'ArrowFunctionExpression'
+              ? 'arrow'
+              : 'function';
+          components.push({
+            name,
+            type: isHook ? 'hook' : fnType,
+            body: unwrapped.fn ? unwrapped.fn.body : path.node.init,
+            node: path.node,
+            wrappers: unwrapped.wrappers,
+            wrappedComponents: unwrapped.wrappedComponents,
+            lazySource: unwrapped.lazySource,
           });
         }
       },
@@ -200,14 +500,319 @@ export class ComponentParser {
             name,
             type: 'class',
             body: path.node.body,
+            node: path.node,
           });
         }
       },
     });
 
+    if (anonymousDefault) {
+      this.addAnonymousDefault(components, anonymousDefault, filePath);
+    } else if (defaultExportName) {
+      const component = components.find((c) => c.name === defaultExportName);
+      if (component) {
+        component.isDefaultExport = true;
+      }
+    }
+
     return components;
   }
 
+  /**
+   * Add an anonymous default export (`export default () => <div />`),
+   * naming it after its file
+   */
+  private addAnonymousDefault(
+    components: ComponentDefinition[],
+    declaration: t.Node,
+    filePath: string
+  ): void {
+    const unwrapped =
+      t.isArrowFunctionExpression(declaration) ||
+      t.isFunctionExpression(declaration)
+        ? null
+        : this.unwrapInit(declaration);
+
+    // export default memo(Button): the wrapped component is the default export
+    if (
+      unwrapped &&
+      !unwrapped.fn &&
+      unwrapped.wrappedComponents.length === 1
+    ) {
+      const wrapped = components.find(
+        (c) => c.name === unwrapped.wrappedComponents[0]
+      );
+      if (wrapped) {
+        wrapped.isDefaultExport = true;
+        wrapped.wrappers = [...unwrapped.wrappers, ...(wrapped.wrappers || [])];
+        return;
+      }
+    }
+
+    const name = this.inferNameFromFile(filePath);
+    const existing = components.find((c) => c.name === name);
+    if (existing) {
+      existing.isDefaultExport = true;
+      return;
+    }
+
+    const isHook = this.isCustomHook(name);
+    let definition: ComponentDefinition | null = null;
+
+    if (
+      t.isFunctionDeclaration(declaration) ||
+      t.isFunctionExpression(declaration)
+    ) {
+      definition = {
+        name,
+        type: isHook ? 'hook' : 'function',
+        body: declaration.body,
+        node: declaration,
+      };
+    } else if (t.isArrowFunctionExpression(declaration)) {
+      definition = {
+        name,
+        type: isHook ? 'hook' : 'arrow',
+        body: declaration.body,
+        node: declaration,
+      };
+    } else if (t.isClassDeclaration(declaration)) {
+      definition = {
+        name,
+        type: 'class',
+        body: declaration.body,
+        node: declaration,
+      };
+    } else if (unwrapped) {
+      definition = {
+        name,
+        type: isHook
+          ? 'hook'
+          : unwrapped.fn?.type === 'ArrowFunctionExpression'
+            ? 'arrow'
+            : 'function',
+        body: unwrapped.fn ? unwrapped.fn.body : declaration,
+        node: declaration,
+        wrappers: unwrapped.wrappers,
+        wrappedComponents: unwrapped.wrappedComponents,
+        lazySource: unwrapped.lazySource,
+      };
+    }
+
+    if (definition) {
+      components.push({ ...definition, isDefaultExport: true });
+    }
+  }
+
+  /**
+   * Infer a component name from its file path:
+   * `Button.tsx` -> `Button`, `user-card.tsx` -> `UserCard`,
+   * `app/settings/page.tsx` -> `SettingsPage`, `Modal/index.tsx` -> `Modal`
+   */
+  private inferNameFromFile(filePath: string): string {
+    const segments = filePath.split('/');
+    const baseName = segments.pop()!.replace(/\.[^.]+$/, '');
+
+    if (this.isPotentialComponent(baseName)) {
+      return baseName;
+    }
+
+    if (!ROUTE_FILE_NAMES.includes(baseName)) {
+      return toPascalCase(baseName) || 'Anonymous';
+    }
+
+    // Skip route groups `(auth)` and parallel route slots `@modal`
+    const folder = segments
+      .reverse()
+      .find((segment) => !/^\(.*\)$/.test(segment) && !segment.startsWith('@'));
+    const prefix =
+      folder && !ROUTE_ROOT_FOLDERS.includes(folder)
+        ? toPascalCase(folder)
+        : 'Root';
+    const suffix = baseName === 'index' ? '' : toPascalCase(baseName);
+
+    return `${prefix}${suffix}`;
+  }
+
+  /**
+   * Unwrap component wrappers around a variable initializer
+   * Returns null when the initializer is not a recognized wrapper
+   */
+  private unwrapInit(node: t.Node): UnwrappedInit | null {
+    const result: UnwrappedInit = { wrappers: [], wrappedComponents: [] };
+    let current: t.Node | undefined = node;
+
+    while (current) {
+      if (
+        t.isArrowFunctionExpression(current) ||
+        t.isFunctionExpression(current)
+      ) {
+        result.fn = current;
+        break;
+      }
+
+      // styled.div`...`, styled(Button)`...`, styled.div.attrs(...)`...`
+      if (t.isTaggedTemplateExpression(current)) {
+        const styledTarget = this.getStyledTarget(current.tag);
+        if (styledTarget === null) {
+          break;
+        }
+        result.wrappers.push('styled');
+        if (styledTarget) {
+          result.wrappedComponents.push(styledTarget);
+        }
+        break;
+      }
+
+      if (!t.isCallExpression(current)) {
+        break;
+      }
+
+      // styled.div({ ... }) object syntax
+      const styledTarget = this.getStyledTarget(current.callee);
+      if (styledTarget !== null) {
+        result.wrappers.push('styled');
+        if (styledTarget) {
+          result.wrappedComponents.push(styledTarget);
+        }
+        break;
+      }
+
+      const wrapperName = this.getWrapperName(current.callee);
+      if (!wrapperName) {
+        break;
+      }
+      result.wrappers.push(wrapperName);
+
+      const firstArg: t.Node | undefined = current.arguments[0];
+
+      if (wrapperName === 'lazy') {
+        result.lazySource = this.getDynamicImportSource(firstArg) ?? undefined;
+        break;
+      }
+
+      // HOC applied to an existing component: withRouter(Foo), memo(Foo)
+      if (t.isIdentifier(firstArg)) {
+        if (/^[A-Z]/.test(firstArg.name)) {
+          result.wrappedComponents.push(firstArg.name);
+        }
+        break;
+      }
+
+      current = firstArg;
+    }
+
+    return result.wrappers.length > 0 ? result : null;
+  }
+
+  /**
+   * Get the wrapper name of a call: memo(...), React.memo(...), connect(...)(...)
+   */
+  private getWrapperName(callee: t.Node): string | null {
+    let name: string | null = null;
+
+    if (t.isIdentifier(callee)) {
+      name = callee.name;
+    } else if (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object, { name: 'React' }) &&
+      t.isIdentifier(callee.property)
+    ) {
+      name = callee.property.name;
+    } else if (t.isCallExpression(callee)) {
+      // Curried HOCs: connect(mapState)(Foo), withStyles(styles)(Foo)
+      const curriedName = this.getWrapperName(callee.callee);
+      return curriedName && this.hocNames.includes(curriedName)
+        ? curriedName
+        : null;
+    }
+
+    if (
+      name &&
+      (REACT_WRAPPERS.includes(name) || this.hocNames.includes(name))
+    ) {
+      return name;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if an expression is a styled-components/emotion factory
+   * Returns the wrapped component name, '' for intrinsic elements
+   * (styled.div), or null when it is not a styled factory
+   */
+  private getStyledTarget(node: t.Node): string | null {
+    // styled.div, styled.div.attrs(...)
+    if (t.isMemberExpression(node)) {
+      if (t.isIdentifier(node.object, { name: 'styled' })) {
+        return '';
+      }
+      return this.getStyledTarget(node.object);
+    }
+
+    if (t.isCallExpression(node)) {
+      // styled(Button)
+      if (t.isIdentifier(node.callee, { name: 'styled' })) {
+        const [target] = node.arguments;
+        return t.isIdentifier(target) && /^[A-Z]/.test(target.name)
+          ? target.name
+          : '';
+      }
+      // styled.div.attrs({...}), styled(Button).withConfig(...)
+      return this.getStyledTarget(node.callee);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the module of a lazy loader: () => import('./Foo')
+   */
+  private getDynamicImportSource(node: t.Node | undefined): string | null {
+    if (!t.isArrowFunctionExpression(node) && !t.isFunctionExpression(node)) {
+      return null;
+    }
+
+    let call: t.Node | null | undefined = node.body;
+    if (t.isBlockStatement(call)) {
+      const returnStatement = call.body.find((stmt) =>
+        t.isReturnStatement(stmt)
+      ) as t.ReturnStatement | undefined;
+      call = returnStatement?.argument;
+    }
+
+    // Babel 8 parses import() as ImportExpression
+    if (t.isImportExpression(call) && t.isStringLiteral(call.source)) {
+      return call.source.value;
+    }
+
+    return null;
+  }
+
+  /**
+   * Create the import record for a lazy-loaded module
+   */
+  private createLazyImport(
+    source: string,
+    componentName: string,
+    filePath: string
+  ): ImportInfo {
+    const importInfo: ImportInfo = {
+      source,
+      specifiers: [componentName],
+      isReactComponent: true,
+      bindings: [{ local: componentName, imported: 'default' }],
+    };
+
+    const resolvedPath = this.resolver?.resolve(source, filePath);
+    if (resolvedPath) {
+      importInfo.resolvedPath = resolvedPath;
+    }
+
+    return importInfo;
+  }
+
   /**
    * Check if a name is potentially a React component (PascalCase) or custom hook (use*)
    */
@@ -227,21 +832,84 @@ export class ComponentParser {
   }
 
   /**
-   * Extract component dependencies from imports
+   * Extract the components a component body actually renders:
+   * `<Foo />`, `<Foo.Bar />`, `React.createElement(Foo)`
    */
-  private extractDependencies(
+  private extractRenderedComponents(
     componentName: string,
-    imports: ImportInfo[]
+    body: unknown
   ): string[] {
-    const dependencies: string[] = [];
+    const rendered = new Set<string>();
 
-    for (const imp of imports) {
-      if (imp.isReactComponent) {
-        dependencies.push(...imp.specifiers);
+    if (!body || typeof body !== 'object') {
+      return [];
+    }
+
+    const getElementName = this.getElementName.bind(this);
+
+    this.traverseBody(body, {
+      JSXOpeningElement(path) {
+        const name = getElementName(path.node.name);
+        if (name) {
+          rendered.add(name);
+        }
+      },
+      CallExpression(path) {
+        const { callee, arguments: args } = path.node;
+        const isCreateElement =
+          (t.isIdentifier(callee) && callee.name === 'createElement') ||
+          (t.isMemberExpression(callee) &&
+            t.isIdentifier(callee.property) &&
+            callee.property.name === 'createElement');
+
+        if (isCreateElement && args.length > 0) {
+          const name = getElementName(args[0]);
+          if (name) {
+            rendered.add(name);
+          }
+        }
+      },
+    });
+
+    rendered.delete(componentName);
+    return Array.from(rendered);
+  }
+
+  /**
+   * Get a component name from a JSX element name or createElement argument
+   * Lowercase names are intrinsic elements (div, span) and are ignored
+   */
+  private getElementName(node: t.Node): string | null {
+    if (t.isJSXIdentifier(node) || t.isIdentifier(node)) {
+      return /^[A-Z]/.test(node.name) ? node.name : null;
+    }
+
+    // Member expressions: <UI.Button />, createElement(UI.Button)
+    if (t.isJSXMemberExpression(node) || t.isMemberExpression(node)) {
+      const parts: string[] = [];
+      let current: t.Node = node;
+
+      while (
+        t.isJSXMemberExpression(current) ||
+        t.isMemberExpression(current)
+      ) {
+        const property: t.Node = current.property;
+        if (!t.isJSXIdentifier(property) && !t.isIdentifier(property)) {
+          return null;
+        }
+        parts.unshift(property.name);
+        current = current.object;
       }
+
+      if (!t.isJSXIdentifier(current) && !t.isIdentifier(current)) {
+        return null;
+      }
+      parts.unshift(current.name);
+
+      return parts.join('.');
     }
 
-    return dependencies.filter((dep) => dep !== componentName);
+    return null;
   }
 
   /**
@@ -255,30 +923,15 @@ export class ComponentParser {
       return [];
     }
 
-    // Create a minimal AST wrapper for traversal
-    const fakeFile = {
-      type: 'File' as const,
-      program: {
-        type: 'Program' as const,
-        body: [body as t.Statement],
-        directives: [],
-        sourceType: 'module' as const,
-        interpreter: null,
-        sourceFile: '',
-      },
-      comments: null,
-      tokens: null,
-    };
-
     const isCustomHook = this.isCustomHook.bind(this);
 
-    traverse(fakeFile, {
+    this.traverseBody(body, {
       CallExpression(path) {
         // Check if the callee is an identifier (direct function call)
         if (t.isIdentifier(path.node.callee)) {
           const hookName = path.node.callee.name;
           // Only include custom hooks (not built-in React hooks)
-          if (isCustomHook(hookName)) {
+          if (isCustomHook(hookName) && !REACT_HOOKS.includes(hookName)) {
             hookCalls.add(hookName);
           }
         }
@@ -289,32 +942,9 @@ export class ComponentParser {
   }
 
   /**
-   * Extract React Hooks usage from component body
+   * Traverse a component body that was detached from its file AST
    */
-  private extractHooks(body: unknown): HookUsage[] {
-    const hookCounts = new Map<string, number>();
-
-    if (!body || typeof body !== 'object') {
-      return [];
-    }
-
-    // Common React hooks to detect
-    const reactHooks = [
-      'useState',
-      'useEffect',
-      'useContext',
-      'useReducer',
-      'useCallback',
-      'useMemo',
-      'useRef',
-      'useImperativeHandle',
-      'useLayoutEffect',
-      'useDebugValue',
-      'useTransition',
-      'useDeferredValue',
-      'useId',
-    ];
-
+  private traverseBody(body: object, visitors: Visitor): void {
     // Create a minimal AST wrapper for traversal
     const fakeFile = {
       type: 'File' as const,
@@ -330,12 +960,25 @@ export class ComponentParser {
       tokens: null,
     };
 
-    traverse(fakeFile, {
+    traverse(fakeFile, visitors);
+  }
+
+  /**
+   * Extract React Hooks usage from component body
+   */
+  private extractHooks(body: unknown): HookUsage[] {
+    const hookCounts = new Map<string, number>();
+
+    if (!body || typeof body !== 'object') {
+      return [];
+    }
+
+    this.traverseBody(body, {
       CallExpression(path) {
         if (t.isIdentifier(path.node.callee)) {
           const hookName = path.node.callee.name;
           // Detect React hooks and custom hooks (starting with 'use')
-          if (reactHooks.includes(hookName) || /^use[A-Z]/.test(hookName)) {
+          if (REACT_HOOKS.includes(hookName) || /^use[A-Z]/.test(hookName)) {
             hookCounts.set(hookName, (hookCounts.get(hookName) || 0) + 1);
           }
         }
@@ -443,17 +1086,139 @@ export class ComponentParser {
   }
 
   /**
-   * Calculate lines of code for component body
+   * Calculate cyclomatic complexity: 1 + the number of decision points
+   * (if, ternary, `&&`/`||`/`??`, switch cases, loops, catch)
+   */
+  private calculateCyclomaticComplexity(body: unknown): number {
+    if (!body || typeof body !== 'object') {
+      return 1;
+    }
+
+    let complexity = 1;
+
+    this.traverseBody(body, {
+      enter(path) {
+        const node = path.node;
+        if (
+          t.isIfStatement(node) ||
+          t.isConditionalExpression(node) ||
+          t.isLogicalExpression(node) ||
+          t.isLoop(node) ||
+          t.isCatchClause(node) ||
+          (t.isSwitchCase(node) && node.test)
+        ) {
+          complexity++;
+        }
+      },
+    });
+
+    return complexity;
+  }
+
+  /**
+   * Calculate cognitive complexity: each break in linear flow costs 1,
+   * plus its nesting depth for structures nested in conditionals, loops
+   * or callbacks. `else if`/`else` cost 1 flat, and each run of the same
+   * logical operator costs 1.
    */
-  private calculateLinesOfCode(body: unknown): number {
+  private calculateCognitiveComplexity(body: unknown): number {
     if (!body || typeof body !== 'object') {
       return 0;
     }
 
-    // Get the source code representation and count lines
-    const bodyStr = JSON.stringify(body);
-    // This is approximate - ideally we'd use the actual source location
-    return Math.max(1, Math.floor(bodyStr.length / 50));
+    let complexity = 0;
+    let nesting = 0;
+
+    const isElseIf = (path: NodePath) =>
+      t.isIfStatement(path.node) &&
+      t.isIfStatement(path.parent) &&
+      path.parent.alternate === path.node;
+
+    const increasesNesting = (path: NodePath) =>
+      (t.isIfStatement(path.node) && !isElseIf(path)) ||
+      t.isConditionalExpression(path.node) ||
+      t.isSwitchStatement(path.node) ||
+      t.isLoop(path.node) ||
+      t.isCatchClause(path.node) ||
+      t.isFunction(path.node);
+
+    this.traverseBody(body, {
+      enter(path) {
+        const node = path.node;
+
+        if (t.isIfStatement(node)) {
+          complexity += isElseIf(path) ? 1 : 1 + nesting;
+          if (node.alternate && !t.isIfStatement(node.alternate)) {
+            complexity++;
+          }
+        } else if (
+          t.isConditionalExpression(node) ||
+          t.isSwitchStatement(node) ||
+          t.isLoop(node) ||
+          t.isCatchClause(node)
+        ) {
+          complexity += 1 + nesting;
+        } else if (
+          t.isLogicalExpression(node) &&
+          !(
+            t.isLogicalExpression(path.parent) &&
+            path.parent.operator === node.operator
+          )
+        ) {
+          complexity++;
+        }
+
+        if (increasesNesting(path)) {
+          nesting++;
+        }
+      },
+      exit(path) {
+        if (increasesNesting(path)) {
+          nesting--;
+        }
+      },
+    });
+
+    return complexity;
+  }
+
+  /**
+   * Measure a definition's source lines: physical lines from its location,
+   * and logical lines excluding blank and comment-only lines
+   */
+  private calculateLinesOfCode(
+    node: t.Node,
+    code: string,
+    comments: t.Comment[]
+  ): { physical: number; logical: number } {
+    if (!node.loc || node.start == null || node.end == null) {
+      return { physical: 0, logical: 0 };
+    }
+
+    const start = node.start;
+    const end = node.end;
+    const physical = node.loc.end.line - node.loc.start.line + 1;
+
+    // Blank out comments (keeping newlines) so comment-only lines become blank
+    let text = code.slice(start, end);
+    for (const comment of comments) {
+      if (comment.start == null || comment.end == null) {
+        continue;
+      }
+      const from = Math.max(comment.start, start) - start;
+      const to = Math.min(comment.end, end) - start;
+      if (from >= to) {
+        continue;
+      }
+      text =
+        text.slice(0, from) +
+        text.slice(from, to).replace(/[^\n]/g, ' ') +
+        text.slice(to);
+    }
+
+    const logical = text.split('\n').filter((line) => line.trim()).length;
+
+    return { physical, logical };
   }
 
   /**
@@ -463,8 +1228,8 @@ export class ComponentParser {
     const externalLibraries = new Set<string>();
 
     for (const imp of imports) {
-      // External libraries don't start with . or /
-      if (!imp.source.startsWith('.') && !imp.source.startsWith('/')) {
+      // External libraries are neither relative paths nor path aliases
+      if (!this.isLocalImport(imp.source)) {
         // Ignore 'react' itself
         if (imp.source !== 'react' && imp.source !== 'react-dom') {
           externalLibraries.add(imp.source);
@@ -474,40 +1239,18 @@ export class ComponentParser {
 
     return externalLibraries.size;
   }
+}
 
-  /**
-   * Calculate complexity score based on multiple factors
-   * Algorithm from features.md:
-   * - Lines of code (25%)
-   * - Dependency count (20%)
-   * - Hooks count (20%)
-   * - Props count (15%)
-   * - External library count (5%)
-   * - Base complexity (15%) - conditionals, loops, etc.
-   */
-  private calculateComplexity(metrics: {
-    linesOfCode: number;
-    dependencyCount: number;
-    hooksCount: number;
-    propsCount: number;
-    externalLibraryCount: number;
-  }): number {
-    // Normalize each metric to 0-100 scale
-    const locScore = Math.min(100, (metrics.linesOfCode / 200) * 100); // 200 LOC = max
-    const depScore = Math.min(100, (metrics.dependencyCount / 10) * 100); // 10 deps = max
-    const hooksScore = Math.min(100, (metrics.hooksCount / 10) * 100); // 10 hooks = max
-    const propsScore = Math.min(100, (metrics.propsCount / 15) * 100); // 15 props = max
-    const libScore = Math.min(100, (metrics.externalLibraryCount / 5) * 100); // 5 libs = max
-
-    // Weighted average according to features.md
-    const complexity =
-      locScore * 0.25 +
-      depScore * 0.2 +
-      hooksScore * 0.2 +
-      propsScore * 0.15 +
-      libScore * 0.05 +
-      20 * 0.2; // Base complexity (20%)
-
-    return Math.round(Math.min(100, complexity));
-  }
+/**
+ * Convert a file or folder name to PascalCase: `user-card` -> `UserCard`,
+ * `[slug]` -> `Slug`
+ */
+function toPascalCase(value: string): string {
+  const name = value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(name) ? `Component${name}` : name;
 }
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { ModuleResolver, normalizePath } from './moduleResolver';
+
+describe('ModuleResolver', () => {
+  const resolver = new ModuleResolver([
+    'src/App.tsx',
+    'src/components/Button.tsx',
+    'src/components/Modal/index.tsx',
+    'src/features/Button.tsx',
+    'src/hooks/useAuth.ts',
+    'src/utils/format.js',
+  ]);
+
+  describe('相対パスの解決', () => {
+    it('拡張子を補完して解決できること', () => {
+      expect(resolver.resolve('./components/Button', 'src/App.tsx')).toBe(
+        'src/components/Button.tsx'
+      );
+      expect(resolver.resolve('../hooks/useAuth', 'src/components/X.tsx')).toBe(
+        'src/hooks/useAuth.ts'
+      );
+    });
+
+    it('ディレクトリのindexファイルに解決できること', () => {
+      expect(resolver.resolve('./components/Modal', 'src/App.tsx')).toBe(
+        'src/components/Modal/index.tsx'
+      );
+    });
+
+    it('拡張子付きのパスをそのまま解決できること', () => {
+      expect(resolver.resolve('./utils/format.js', 'src/App.tsx')).toBe(
+        'src/utils/format.js'
+      );
+    });
+
+    it('.js拡張子のインポートをTypeScriptファイルに解決できること', () => {
+      expect(resolver.resolve('./Button.js', 'src/features/Page.tsx')).toBe(
+        'src/features/Button.tsx'
+      );
+    });
+
+    it('同名ファイルをインポート元のフォルダに応じて区別できること', () => {
+      expect(resolver.resolve('./Button', 'src/components/Card.tsx')).toBe(
+        'src/components/Button.tsx'
+      );
+      expect(resolver.resolve('./Button', 'src/features/Page.tsx')).toBe(
+        'src/features/Button.tsx'
+      );
+    });
+  });
+
+  describe('解決できないインポート', () => {
+    it('外部ライブラリはnullを返すこと', () => {
+      expect(resolver.resolve('react', 'src/App.tsx')).toBeNull();
+      expect(resolver.resolve('@mui/material', 'src/App.tsx')).toBeNull();
+    });
+
+    it('スキャンされていないファイルはnullを返すこと', () => {
+      expect(resolver.resolve('./styles.css', 'src/App.tsx')).toBeNull();
+      expect(resolver.resolve('./Missing', 'src/App.tsx')).toBeNull();
+    });
+  });
+
+  describe('パスエイリアスの解決', () => {
+    const aliasResolver = new ModuleResolver(
+      [
+        'src/components/Button.tsx',
+        'src/hooks/useAuth.ts',
+        'src/features/auth/index.ts',
+        'src/lib/api.ts',
+      ],
+      {
+        baseUrl: 'src',
+        pathsBase: '',
+        paths: {
+          '@/*': ['src/*'],
+          '~/features/*': ['src/features/*'],
+          '@api': ['src/lib/api.ts'],
+        },
+      }
+    );
+
+    it('ワイルドカードのエイリアスを解決できること', () => {
+      expect(aliasResolver.resolve('@/hooks/useAuth', 'src/App.tsx')).toBe(
+        'src/hooks/useAuth.ts'
+      );
+      expect(aliasResolver.resolve('~/features/auth', 'src/App.tsx')).toBe(
+        'src/features/auth/index.ts'
+      );
+    });
+
+    it('完全一致のエイリアスを解決できること', () => {
+      expect(aliasResolver.resolve('@api', 'src/App.tsx')).toBe(
+        'src/lib/api.ts'
+      );
+    });
+
+    it('baseUrlからの非相対インポートを解決できること', () => {
+      expect(aliasResolver.resolve('components/Button', 'src/App.tsx')).toBe(
+        'src/components/Button.tsx'
+      );
+    });
+
+    it('エイリアスに一致するソースをローカルとして判定できること', () => {
+      expect(aliasResolver.isLocalSource('@/styles/theme.css')).toBe(true);
+      expect(aliasResolver.isLocalSource('components/Button')).toBe(true);
+      expect(aliasResolver.isLocalSource('react')).toBe(false);
+      expect(aliasResolver.isLocalSource('@mui/material')).toBe(false);
+    });
+  });
+
+  describe('normalizePath', () => {
+    it('.と..を正規化できること', () => {
+      expect(normalizePath('src/components/../hooks/./useAuth')).toBe(
+        'src/hooks/useAuth'
+      );
+      expect(normalizePath('/src//App')).toBe('src/App');
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import type { PathAliasConfig } from './tsconfigLoader';
+
+/**
+ * Extensions tried when an import path omits one (in resolution order)
+ */
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Resolve import sources to the files that were actually scanned
+ *
+ * Paths are project-relative, matching `FileInfo.path`
+ * (e.g. `src/components/Button.tsx`). Bare sources are resolved through
+ * tsconfig/jsconfig `paths` and `baseUrl` when aliases are provided.
+ */
+export class ModuleResolver {
+  private readonly filePaths: Set<string>;
+  private readonly aliases: PathAliasConfig | null;
+
+  constructor(filePaths: string[], aliases: PathAliasConfig | null = null) {
+    this.filePaths = new Set(filePaths);
+    this.aliases = aliases;
+  }
+
+  /**
+   * Resolve an import source relative to the importing file
+   * Returns the scanned file path, or null for external/unknown modules
+   */
+  resolve(source: string, fromFilePath: string): string | null {
+    if (this.isRelativeSource(source)) {
+      const basePath = source.startsWith('/')
+        ? normalizePath(source)
+        : normalizePath(`${getDirectory(fromFilePath)}/${source}`);
+
+      return this.resolveFile(basePath);
+    }
+
+    return this.resolveAlias(source);
+  }
+
+  /**
+   * Check if an import source refers to a project file
+   * (relative path, `paths` alias, or a file under `baseUrl`)
+   */
+  isLocalSource(source: string): boolean {
+    if (this.isRelativeSource(source)) {
+      return true;
+    }
+
+    const pathPatterns = Object.keys(this.aliases?.paths || {});
+    if (
+      pathPatterns.some((pattern) => matchPattern(pattern, source) !== null)
+    ) {
+      return true;
+    }
+
+    return this.resolveAlias(source) !== null;
+  }
+
+  /**
+   * Check if an import source is a relative or absolute path
+   */
+  private isRelativeSource(source: string): boolean {
+    return source.startsWith('.') || source.startsWith('/');
+  }
+
+  /**
+   * Resolve a bare source through `paths` patterns, then `baseUrl`
+   */
+  private resolveAlias(source: string): string | null {
+    if (!this.aliases) {
+      return null;
+    }
+
+    const { paths, pathsBase, baseUrl } = this.aliases;
+
+    // Like TypeScript, exact patterns win, then the longest prefix
+    const matches = Object.keys(paths)
+      .map((pattern) => ({ pattern, wildcard: matchPattern(pattern, source) }))
+      .filter((match) => match.wildcard !== null)
+      .sort(
+        (a, b) => getPatternPriority(b.pattern) - getPatternPriority(a.pattern)
+      );
+
+    for (const { pattern, wildcard } of matches) {
+      for (const target of paths[pattern]) {
+        const targetPath = target.replace('*', wildcard!);
+        const resolved = this.resolveFile(
+          normalizePath(`${pathsBase}/${targetPath}`)
+        );
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    if (baseUrl !== undefined) {
+      return this.resolveFile(normalizePath(`${baseUrl}/${source}`));
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the scanned file for a path: exact match, then inferred
+   * extensions, then directory index files
+   */
+  private resolveFile(basePath: string): string | null {
+    if (this.filePaths.has(basePath)) {
+      return basePath;
+    }
+
+    for (const candidate of this.getCandidates(basePath)) {
+      if (this.filePaths.has(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * List candidate file paths for an import path
+   */
+  private getCandidates(basePath: string): string[] {
+    const candidates: string[] = [];
+
+    // ESM-style TypeScript imports: './Button.js' -> './Button.tsx'
+    const jsExtension = basePath.match(/\.(jsx?)$/);
+    if (jsExtension) {
+      const withoutExtension = basePath.slice(0, -jsExtension[0].length);
+      candidates.push(`${withoutExtension}.tsx`, `${withoutExtension}.ts`);
+    }
+
+    for (const ext of RESOLVE_EXTENSIONS) {
+      candidates.push(`${basePath}${ext}`);
+    }
+
+    for (const ext of RESOLVE_EXTENSIONS) {
+      candidates.push(`${basePath}/index${ext}`);
+    }
+
+    return candidates;
+  }
+}
+
+/**
+ * Match a `paths` pattern (with at most one '*') against a source
+ * Returns the text matched by '*' ('' for exact patterns), or null
+ */
+function matchPattern(pattern: string, source: string): string | null {
+  const starIndex = pattern.indexOf('*');
+  if (starIndex === -1) {
+    return pattern === source ? '' : null;
+  }
+
+  const prefix = pattern.substring(0, starIndex);
+  const suffix = pattern.substring(starIndex + 1);
+  if (
+    source.length >= prefix.length + suffix.length &&
+    source.startsWith(prefix) &&
+    source.endsWith(suffix)
+  ) {
+    return source.substring(prefix.length, source.length - suffix.length);
+  }
+
+  return null;
+}
+
+/**
+ * Rank a `paths` pattern: exact patterns first, then by prefix length
+ */
+function getPatternPriority(pattern: string): number {
+  const starIndex = pattern.indexOf('*');
+  return starIndex === -1 ? Infinity : starIndex;
+}
+
+/**
+ * Get the directory part of a project-relative file path
+ */
+function getDirectory(filePath: string): string {
+  const lastSlash = filePath.lastIndexOf('/');
+  return lastSlash !== -1 ? filePath.substring(0, lastSlash) : '';
+}
+
+/**
+ * Normalize a path by collapsing '.', '..' and duplicate slashes
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
@@ -0,0 +1,16 @@
+/**
+ * Version of the parse output: bump it whenever what the parser extracts
+ * changes, so results cached by older versions are discarded
+ */
+export const PARSER_VERSION = 1;
+
+/**
+ * Common higher-order components from popular libraries
+ */
+export const DEFAULT_HOC_NAMES = [
+  'withRouter',
+  'connect',
+  'observer',
+  'withStyles',
+  'withTranslation',
+];
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { loadPathAliases, parseJsonWithComments } from './tsconfigLoader';
+
+/**
+ * Create a readFile function backed by an in-memory file map
+ */
+const createReader =
+  (files: Record<string, string>) =>
+  async (path: string): Promise<string | null> =>
+    files[path] ?? null;
+
+describe('tsconfigLoader', () => {
+  describe('loadPathAliases', () => {
+    it('tsconfig.jsonのpathsとbaseUrlを読み込めること', async () => {
+      const aliases = await loadPathAliases(
+        createReader({
+          'tsconfig.json': JSON.stringify({
+            compilerOptions: {
+              baseUrl: '.',
+              paths: { '@/*': ['./src/*'] },
+            },
+          }),
+        })
+      );
+
+      expect(aliases).toEqual({
+        baseUrl: '',
+        pathsBase: '',
+        paths: { '@/*': ['./src/*'] },
+      });
+    });
+
+    it('tsconfig.jsonがない場合はjsconfig.jsonを読み込むこと', async () => {
+      const aliases = await loadPathAliases(
+        createReader({
+          'jsconfig.json': JSON.stringify({
+            compilerOptions: { paths: { '~/*': ['src/*'] } },
+          }),
+        })
+      );
+
+      expect(aliases?.paths).toEqual({ '~/*': ['src/*'] });
+    });
+
+    it('extendsチェーンを辿ってpathsを継承できること', async () => {
+      const aliases = await loadPathAliases(
+        createReader({
+          'tsconfig.json': JSON.stringify({
+            extends: './config/tsconfig.base.json',
+          }),
+          'config/tsconfig.base.json': JSON.stringify({
+            extends: './tsconfig.paths',
+            compilerOptions: { baseUrl: '..' },
+          }),
+          'config/tsconfig.paths.json': JSON.stringify({
+            compilerOptions: { paths: { '@/*': ['src/*'] } },
+          }),
+        })
+      );
+
+      expect(aliases).toEqual({
+        baseUrl: '',
+        pathsBase: '',
+        paths: { '@/*': ['src/*'] },
+      });
+    });
+
+    it('子の設定が親のpathsを上書きすること', async () => {
+      const aliases = await loadPathAliases(
+        createReader({
+          'tsconfig.json': JSON.stringify({
+            extends: './tsconfig.base.json',
+            compilerOptions: { paths: { '~/*': ['app/*'] } },
+          }),
+          'tsconfig.base.json': JSON.stringify({
+            compilerOptions: { paths: { '@/*': ['src/*'] } },
+          }),
+        })
+      );
+
+      expect(aliases?.paths).toEqual({ '~/*': ['app/*'] });
+    });
+
+    it('設定ファイルがない場合はnullを返すこと', async () => {
+      expect(await loadPathAliases(createReader({}))).toBeNull();
+    });
+
+    it('pathsもbaseUrlもない場合はnullを返すこと', async () => {
+      const aliases = await loadPathAliases(
+        createReader({
+          'tsconfig.json': JSON.stringify({
+            compilerOptions: { strict: true },
+          }),
+        })
+      );
+
+      expect(aliases).toBeNull();
+    });
+  });
+
+  describe('parseJsonWithComments', () => {
+    it('コメントと末尾カンマを含むJSONをパースできること', () => {
+      const result = parseJsonWithComments(`{
+        // line comment
+        "compilerOptions": {
+          /* block comment */
+          "paths": { "@/*": ["./src/*",], },
+          "url": "http://example.com",
+        },
+      }`);
+
+      expect(result).toEqual({
+        compilerOptions: {
+          paths: { '@/*': ['./src/*'] },
+          url: 'http://example.com',
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { normalizePath } from './moduleResolver';
+
+/**
+ * Path alias settings read from tsconfig.json / jsconfig.json
+ * All paths are project-relative, matching `FileInfo.path`
+ */
+export type PathAliasConfig = {
+  baseUrl?: string; // Directory bare imports may resolve against
+  pathsBase: string; // Directory `paths` targets are relative to
+  paths: Record<string, string[]>;
+};
+
+/**
+ * Reads a project-relative file, returning null when it does not exist
+ */
+export type ReadTextFile = (path: string) => Promise<string | null>;
+
+/**
+ * Config files checked (in order) at the project root
+ */
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Guard against runaway `extends` chains
+ */
+const MAX_EXTENDS_DEPTH = 10;
+
+type CompilerOptions = {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+};
+
+type RawConfig = {
+  extends?: string | string[];
+  compilerOptions?: CompilerOptions;
+};
+
+/**
+ * Load path aliases from the project's tsconfig.json or jsconfig.json,
+ * following `extends` chains
+ */
+export async function loadPathAliases(
+  readFile: ReadTextFile
+): Promise<PathAliasConfig | null> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const options = await loadCompilerOptions(fileName, readFile, 0);
+    if (!options) {
+      continue;
+    }
+
+    if (!options.paths && options.baseUrl === undefined) {
+      return null;
+    }
+
+    return {
+      baseUrl: options.baseUrl,
+      pathsBase: options.pathsBase,
+      paths: options.paths || {},
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Resolved compiler options, with directories made project-relative
+ */
+type ResolvedOptions = {
+  baseUrl?: string;
+  pathsBase: string;
+  paths?: Record<string, string[]>;
+};
+
+/**
+ * Load compiler options from a config file, merging its `extends` parents
+ */
+async function loadCompilerOptions(
+  configPath: string,
+  readFile: ReadTextFile,
+  depth: number
+): Promise<ResolvedOptions | null> {
+  if (depth > MAX_EXTENDS_DEPTH) {
+    return null;
+  }
+
+  const content = await readFile(configPath);
+  if (content === null) {
+    return null;
+  }
+
+  let config: RawConfig;
+  try {
+    config = parseJsonWithComments(content) as RawConfig;
+  } catch {
+    return null;
+  }
+
+  const configDir = getDirectory(configPath);
+  let resolved: ResolvedOptions = { pathsBase: configDir };
+
+  // Parents are applied first so the child config overrides them
+  const parents =
+    typeof config.extends === 'string'
+      ? [config.extends]
+      : Array.isArray(config.extends)
+        ? config.extends
+        : [];
+
+  for (const parent of parents) {
+    for (const parentPath of getExtendsCandidates(parent, configDir)) {
+      const parentOptions = await loadCompilerOptions(
+        parentPath,
+        readFile,
+        depth + 1
+      );
+      if (parentOptions) {
+        resolved = { ...resolved, ...parentOptions };
+        break;
+      }
+    }
+  }
+
+  const options = config.compilerOptions || {};
+
+  if (typeof options.baseUrl === 'string') {
+    resolved.baseUrl = joinPath(configDir, options.baseUrl);
+  }
+
+  if (options.paths && typeof options.paths === 'object') {
+    resolved.paths = options.paths;
+    // `paths` resolve against baseUrl when set, otherwise the declaring config
+    resolved.pathsBase = resolved.baseUrl ?? configDir;
+  } else if (typeof options.baseUrl === 'string' && resolved.paths) {
+    // Inherited paths follow an overridden baseUrl
+    resolved.pathsBase = resolved.baseUrl!;
+  }
+
+  return resolved;
+}
+
+/**
+ * List the files an `extends` value may refer to
+ */
+function getExtendsCandidates(value: string, configDir: string): string[] {
+  if (value.startsWith('.') || value.startsWith('/')) {
+    const path = joinPath(configDir, value);
+    return path.endsWith('.json') ? [path] : [path, `${path}.json`];
+  }
+
+  // Package configs, e.g. "@tsconfig/next/tsconfig.json"
+  const packagePath = `node_modules/${value}`;
+  return value.endsWith('.json')
+    ? [packagePath]
+    : [`${packagePath}/tsconfig.json`, `${packagePath}.json`];
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig style)
+ */
+export function parseJsonWithComments(text: string): unknown {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(removeTrailingCommas(result));
+}
+
+/**
+ * Remove commas directly followed by a closing bracket (outside strings)
+ */
+function removeTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[i + 1] ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Get the directory part of a project-relative path
+ */
+function getDirectory(path: string): string {
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash !== -1 ? path.substring(0, lastSlash) : '';
+}
+
+/**
+ * Join a directory and a relative path into a project-relative path
+ */
+function joinPath(directory: string, path: string): string {
+  return normalizePath(directory ? `${directory}/${path}` : path);
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { WarningDetector } from './warningDetector';
+import { mergeComplexityProfile } from '@/lib/complexity/complexityProfile';
+import { createComponent } from '@/test/graphFixtures';
+import type { DependencyEdge, DependencyGraph, DependencyNode } from '@/types';
+
+/**
+ * Create a dependency node with sensible defaults
+ */
+const createNode = (
+  name: string,
+  overrides: Partial<DependencyNode> = {}
+): DependencyNode => ({
+  id: name,
+  component: createComponent({ id: name, name }),
+  dependencies: [],
+  dependents: [],
+  depth: 0,
+  complexity: 10,
+  ...overrides,
+});
+
+const createGraph = (
+  nodes: DependencyNode[],
+  edges: Array<[string, string]> = []
+): DependencyGraph => ({
+  nodes: new Map(nodes.map((node) => [node.id, node])),
+  edges: edges.map(([from, to]): DependencyEdge => ({ from, to, strength: 1 })),
+});
+
+describe('WarningDetector', () => {
+  const detector = new WarningDetector();
+
+  it('循環依存は接続されたノードごとに1件の警告になること', () => {
+    const circular = { warnings: { circularDependency: true } };
+    const graph = createGraph(
+      [
+        createNode('A', circular),
+        createNode('B', circular),
+        createNode('C', circular),
+        createNode('D', circular),
+      ],
+      [
+        ['A', 'B'],
+        ['B', 'A'],
+        ['C', 'D'],
+        ['D', 'C'],
+      ]
+    );
+
+    const warnings = detector
+      .detectWarnings(graph)
+      .filter((warning) => warning.type === 'circular-dependency');
+
+    expect(warnings).toHaveLength(2);
+    expect(warnings.map((warning) => warning.componentIds.sort())).toEqual([
+      ['A', 'B'],
+      ['C', 'D'],
+    ]);
+    expect(warnings[0].severity).toBe('high');
+  });
+
+  it('ノードのフラグから警告を生成できること', () => {
+    const graph = createGraph([
+      createNode('Unused', { warnings: { unused: true } }),
+      createNode('Shared', {
+        dependents: Array.from({ length: 12 }, (_, i) => `C${i}`),
+        warnings: { highCoupling: true },
+      }),
+      createNode('Deep', { depth: 7, warnings: { deepDependencyChain: true } }),
+    ]);
+
+    const warnings = detector.detectWarnings(graph);
+
+    expect(warnings.map((warning) => warning.id)).toEqual([
+      'high-coupling:Shared',
+      'deep-dependency:Deep',
+      'unused-component:Unused',
+    ]);
+    expect(warnings[0].message).toBe('Shared is used by 12 components');
+    expect(warnings[1].message).toBe(
+      'Deep has a dependency chain 7 levels deep'
+    );
+  });
+
+  it('プロファイルの閾値を超える複雑度を警告すること', () => {
+    const graph = createGraph([
+      createNode('Simple', { complexity: 50 }),
+      createNode('Complex', { complexity: 85 }),
+    ]);
+
+    expect(detector.detectWarnings(graph).map((warning) => warning.id)).toEqual(
+      ['high-complexity:Complex']
+    );
+
+    const strict = new WarningDetector({
+      complexityProfile: mergeComplexityProfile({
+        bands: { simple: 10, standard: 20, complex: 40 },
+      }),
+    });
+    expect(strict.detectWarnings(graph).map((warning) => warning.id)).toEqual([
+      'high-complexity:Simple',
+      'high-complexity:Complex',
+    ]);
+  });
+
+  it('警告がない場合は空配列を返すこと', () => {
+    expect(detector.detectWarnings(createGraph([createNode('A')]))).toEqual([]);
+  });
+});
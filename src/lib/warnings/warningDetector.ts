@@ -0,0 +1,166 @@
+import type {
+  ComplexityProfile,
+  DependencyGraph,
+  DependencyNode,
+  Warning,
+  WarningType,
+} from '@/types';
+import { DEFAULT_COMPLEXITY_PROFILE } from '@/lib/complexity/complexityProfile';
+import { analyzeCycles } from '@/lib/graph/cycleDetector';
+
+/**
+ * Options for WarningDetector
+ */
+export type WarningDetectorOptions = {
+  // Scores above the `complex` band are reported (defaults to DEFAULT_COMPLEXITY_PROFILE)
+  complexityProfile?: ComplexityProfile;
+};
+
+/**
+ * Display order of warning types (most actionable first)
+ */
+export const WARNING_TYPES: WarningType[] = [
+  'circular-dependency',
+  'high-complexity',
+  'high-coupling',
+  'deep-dependency',
+  'unused-component',
+];
+
+const SEVERITY_ORDER: Record<Warning['severity'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Turn the warning flags on a dependency graph into a list of `Warning`s
+ */
+export class WarningDetector {
+  private readonly complexityProfile: ComplexityProfile;
+
+  constructor(options: WarningDetectorOptions = {}) {
+    this.complexityProfile =
+      options.complexityProfile ?? DEFAULT_COMPLEXITY_PROFILE;
+  }
+
+  /**
+   * Detect all warnings, sorted by severity then type
+   */
+  detectWarnings(graph: DependencyGraph): Warning[] {
+    const nodes = Array.from(graph.nodes.values());
+    const warnings: Warning[] = [
+      ...this.detectCircularDependencies(graph),
+      ...nodes.flatMap((node) => this.detectNodeWarnings(node)),
+    ];
+
+    return warnings.sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        WARNING_TYPES.indexOf(a.type) - WARNING_TYPES.indexOf(b.type)
+    );
+  }
+
+  /**
+   * One warning per strongly connected component
+   */
+  private detectCircularDependencies(graph: DependencyGraph): Warning[] {
+    const { stronglyConnectedComponents, cycles } =
+      graph.cycleAnalysis ?? analyzeCycles(graph);
+
+    return stronglyConnectedComponents.map((componentIds) => {
+      const names = componentIds.map((id) => this.getName(graph, id));
+      const members = new Set(componentIds);
+      const cycleCount = cycles.filter((cycle) =>
+        members.has(cycle.nodeIds[0])
+      ).length;
+      return this.createWarning(
+        'circular-dependency',
+        'high',
+        componentIds,
+        `Circular dependency between ${names.join(', ')}` +
+          (cycleCount > 1 ? ` (${cycleCount} cycles)` : ''),
+        'Move the shared part into a separate component or hook, or pass it down as props, so the imports only point one way'
+      );
+    });
+  }
+
+  /**
+   * Warnings that concern a single component
+   */
+  private detectNodeWarnings(node: DependencyNode): Warning[] {
+    const warnings: Warning[] = [];
+    const { name } = node.component;
+
+    if (node.complexity > this.complexityProfile.bands.complex) {
+      warnings.push(
+        this.createWarning(
+          'high-complexity',
+          'high',
+          [node.id],
+          `${name} has a complexity score of ${node.complexity}`,
+          'Split it into smaller components or extract logic into custom hooks'
+        )
+      );
+    }
+
+    if (node.warnings?.highCoupling) {
+      warnings.push(
+        this.createWarning(
+          'high-coupling',
+          'medium',
+          [node.id],
+          `${name} is used by ${node.dependents.length} components`,
+          'Keep its props stable, and split it if its consumers use different parts of it'
+        )
+      );
+    }
+
+    if (node.warnings?.deepDependencyChain) {
+      warnings.push(
+        this.createWarning(
+          'deep-dependency',
+          'medium',
+          [node.id],
+          `${name} has a dependency chain ${node.depth} levels deep`,
+          'Flatten the tree by composing children at a higher level (e.g. via the children prop)'
+        )
+      );
+    }
+
+    if (node.warnings?.unused) {
+      warnings.push(
+        this.createWarning(
+          'unused-component',
+          'low',
+          [node.id],
+          `${name} is not used by any other component`,
+          'Remove it if it is dead code, or check that it is imported where expected'
+        )
+      );
+    }
+
+    return warnings;
+  }
+
+  private getName(graph: DependencyGraph, id: string): string {
+    return graph.nodes.get(id)?.component.name ?? id;
+  }
+
+  private createWarning(
+    type: WarningType,
+    severity: Warning['severity'],
+    componentIds: string[],
+    message: string,
+    suggestion: string
+  ): Warning {
+    return {
+      id: `${type}:${componentIds.join(',')}`,
+      type,
+      severity,
+      componentIds,
+      message,
+      suggestion,
+    };
+  }
+}
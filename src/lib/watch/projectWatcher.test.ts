@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ProjectWatcher,
+  diffFileStamps,
+  type FileChanges,
+} from './projectWatcher';
+
+/**
+ * Directory handle over a mutable map of path -> lastModified (flat)
+ */
+function createDirectoryHandle(files: Map<string, number>) {
+  return {
+    async *values() {
+      for (const [name, lastModified] of files) {
+        yield { kind: 'file', name, getFile: async () => ({ lastModified }) };
+      }
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+describe('projectWatcher', () => {
+  describe('diffFileStamps', () => {
+    it('追加・変更・削除されたファイルを検出できること', () => {
+      const changes = diffFileStamps(
+        new Map([
+          ['App.tsx', 1],
+          ['Header.tsx', 1],
+          ['Old.tsx', 1],
+        ]),
+        new Map([
+          ['App.tsx', 1],
+          ['Header.tsx', 2],
+          ['New.tsx', 1],
+        ])
+      );
+
+      expect(changes).toEqual({
+        added: ['New.tsx'],
+        modified: ['Header.tsx'],
+        removed: ['Old.tsx'],
+      });
+    });
+  });
+
+  describe('ProjectWatcher', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('ポーリングでファイルの変更を検出できること', async () => {
+      const files = new Map([
+        ['App.tsx', 1],
+        ['notes.md', 1],
+      ]);
+      const onChange = vi.fn();
+      const watcher = new ProjectWatcher({
+        directoryHandle: createDirectoryHandle(files),
+        onChange,
+        interval: 5,
+      });
+      await watcher.start();
+
+      // Non-React files are ignored
+      files.set('notes.md', 2);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(onChange).not.toHaveBeenCalled();
+
+      files.set('App.tsx', 2);
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+      expect(onChange).toHaveBeenCalledWith({
+        added: [],
+        modified: ['App.tsx'],
+        removed: [],
+      } satisfies FileChanges);
+
+      watcher.stop();
+      files.set('App.tsx', 3);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('FileSystemObserverがある場合はその通知で確認すること', async () => {
+      let notify = () => {};
+      const observe = vi.fn().mockResolvedValue(undefined);
+      const disconnect = vi.fn();
+      vi.stubGlobal(
+        'FileSystemObserver',
+        class {
+          constructor(callback: () => void) {
+            notify = callback;
+          }
+          observe = observe;
+          disconnect = disconnect;
+        }
+      );
+
+      const files = new Map([['App.tsx', 1]]);
+      const onChange = vi.fn();
+      const directoryHandle = createDirectoryHandle(files);
+      const watcher = new ProjectWatcher({
+        directoryHandle,
+        onChange,
+        interval: 5,
+      });
+      await watcher.start();
+      expect(observe).toHaveBeenCalledWith(directoryHandle, {
+        recursive: true,
+      });
+
+      // No polling: a change is only picked up when the observer fires
+      files.set('Header.tsx', 1);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(onChange).not.toHaveBeenCalled();
+
+      notify();
+      await vi.waitFor(() =>
+        expect(onChange).toHaveBeenCalledWith({
+          added: ['Header.tsx'],
+          modified: [],
+          removed: [],
+        })
+      );
+
+      watcher.stop();
+      expect(disconnect).toHaveBeenCalled();
+    });
+
+    it('確認に失敗した場合はonErrorが呼ばれること', async () => {
+      let fail = false;
+      const directoryHandle = {
+        async *values() {
+          if (fail) {
+            throw new DOMException('Folder removed', 'NotFoundError');
+          }
+          yield* [];
+        },
+      } as unknown as FileSystemDirectoryHandle;
+      const onError = vi.fn();
+      const watcher = new ProjectWatcher({
+        directoryHandle,
+        onChange: vi.fn(),
+        onError,
+        interval: 5,
+      });
+      await watcher.start();
+
+      fail = true;
+      await vi.waitFor(() =>
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Folder removed' })
+        )
+      );
+      watcher.stop();
+    });
+  });
+});
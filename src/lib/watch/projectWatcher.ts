@@ -0,0 +1,188 @@
+import { scanFileStamps } from '@/lib/fileSystem';
+
+export const DEFAULT_POLL_INTERVAL = 2000;
+
+/**
+ * React files changed between two checks
+ */
+export type FileChanges = {
+  added: string[];
+  modified: string[];
+  removed: string[];
+};
+
+/**
+ * Options for ProjectWatcher
+ */
+export type ProjectWatcherOptions = {
+  directoryHandle: FileSystemDirectoryHandle;
+  onChange: (changes: FileChanges) => void;
+  // Checking failed, e.g. the folder was deleted or access was revoked
+  onError?: (error: Error) => void;
+  // Milliseconds between polls (defaults to DEFAULT_POLL_INTERVAL)
+  interval?: number;
+};
+
+/**
+ * File System Observer API (not yet in the DOM typings)
+ */
+type FileSystemObserverLike = {
+  observe(
+    handle: FileSystemHandle,
+    options?: { recursive?: boolean }
+  ): Promise<void>;
+  disconnect(): void;
+};
+
+type FileSystemObserverConstructor = new (
+  callback: () => void
+) => FileSystemObserverLike;
+
+/**
+ * Watch the React files of a directory for changes
+ *
+ * Uses a FileSystemObserver where the browser has one, and otherwise polls
+ * the files' lastModified. Either way, changes are confirmed by comparing
+ * snapshots, so onChange only fires when a React file actually changed.
+ */
+export class ProjectWatcher {
+  private readonly directoryHandle: FileSystemDirectoryHandle;
+  private readonly onChange: (changes: FileChanges) => void;
+  private readonly onError?: (error: Error) => void;
+  private readonly interval: number;
+  private stamps = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private observer: FileSystemObserverLike | null = null;
+  private running = false;
+  private checking = false;
+  private checkAgain = false;
+
+  constructor(options: ProjectWatcherOptions) {
+    this.directoryHandle = options.directoryHandle;
+    this.onChange = options.onChange;
+    this.onError = options.onError;
+    this.interval = options.interval ?? DEFAULT_POLL_INTERVAL;
+  }
+
+  /**
+   * Take the initial snapshot and start watching
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    this.stamps = await scanFileStamps(this.directoryHandle);
+    this.observer = await this.createObserver();
+    if (!this.running) {
+      // Stopped while starting
+      this.observer?.disconnect();
+      this.observer = null;
+      return;
+    }
+    this.schedulePoll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  /**
+   * Compare the files with the last snapshot and report changes
+   * (a check requested while one runs is done right after it)
+   */
+  async check(): Promise<void> {
+    if (this.checking) {
+      this.checkAgain = true;
+      return;
+    }
+    this.checking = true;
+
+    try {
+      do {
+        this.checkAgain = false;
+        const stamps = await scanFileStamps(this.directoryHandle);
+        if (!this.running) {
+          return;
+        }
+        const changes = diffFileStamps(this.stamps, stamps);
+        this.stamps = stamps;
+        if (
+          changes.added.length > 0 ||
+          changes.modified.length > 0 ||
+          changes.removed.length > 0
+        ) {
+          this.onChange(changes);
+        }
+      } while (this.checkAgain && this.running);
+    } catch (error) {
+      this.onError?.(error as Error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private schedulePoll(): void {
+    if (!this.running || this.observer) {
+      return;
+    }
+    this.timer = setTimeout(async () => {
+      await this.check();
+      this.schedulePoll();
+    }, this.interval);
+  }
+
+  /**
+   * Observer triggering a check on any change in the directory, or null
+   * when unsupported (polling is used instead)
+   */
+  private async createObserver(): Promise<FileSystemObserverLike | null> {
+    const FileSystemObserver = (
+      globalThis as { FileSystemObserver?: FileSystemObserverConstructor }
+    ).FileSystemObserver;
+    if (!FileSystemObserver) {
+      return null;
+    }
+
+    try {
+      const observer = new FileSystemObserver(() => this.check());
+      await observer.observe(this.directoryHandle, { recursive: true });
+      return observer;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Paths added, modified or removed between two snapshots
+ */
+export function diffFileStamps(
+  previous: Map<string, number>,
+  current: Map<string, number>
+): FileChanges {
+  const changes: FileChanges = { added: [], modified: [], removed: [] };
+
+  for (const [path, lastModified] of current) {
+    const before = previous.get(path);
+    if (before === undefined) {
+      changes.added.push(path);
+    } else if (before !== lastModified) {
+      changes.modified.push(path);
+    }
+  }
+  for (const path of previous.keys()) {
+    if (!current.has(path)) {
+      changes.removed.push(path);
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WorkerPool,
+  createInlineWorker,
+  isAbortError,
+  type WorkerLike,
+} from './workerPool';
+
+type Request = { value: number; fail?: boolean };
+
+/**
+ * Inline worker doubling the value, reporting the value as progress first
+ */
+const createDoublingWorker = (): WorkerLike =>
+  createInlineWorker<Request, number, number>(({ taskId, request }, reply) => {
+    reply({ taskId, kind: 'progress', progress: request.value });
+    if (request.fail) {
+      reply({ taskId, kind: 'error', message: `Failed on ${request.value}` });
+    } else {
+      reply({ taskId, kind: 'done', result: request.value * 2 });
+    }
+  });
+
+describe('WorkerPool', () => {
+  it('タスクを実行して結果を返せること', async () => {
+    const pool = new WorkerPool<Request, number, number>({
+      size: 2,
+      createWorker: createDoublingWorker,
+    });
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((value) => pool.run({ value }))
+    );
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    pool.terminate();
+  });
+
+  it('ワーカー数がsizeを超えないこと', async () => {
+    let created = 0;
+    const pool = new WorkerPool<Request, number, number>({
+      size: 2,
+      createWorker: () => {
+        created++;
+        return createDoublingWorker();
+      },
+    });
+
+    await Promise.all([1, 2, 3, 4, 5].map((value) => pool.run({ value })));
+
+    expect(created).toBe(2);
+    pool.terminate();
+  });
+
+  it('進捗がタスクごとのコールバックに届くこと', async () => {
+    const pool = new WorkerPool<Request, number, number>({
+      size: 1,
+      createWorker: createDoublingWorker,
+    });
+    const progress: number[] = [];
+
+    await pool.run({ value: 7 }, (value) => progress.push(value));
+
+    expect(progress).toEqual([7]);
+    pool.terminate();
+  });
+
+  it('ワーカーのエラーでタスクがrejectされ、後続のタスクは実行されること', async () => {
+    const pool = new WorkerPool<Request, number, number>({
+      size: 1,
+      createWorker: createDoublingWorker,
+    });
+
+    await expect(pool.run({ value: 1, fail: true })).rejects.toThrow(
+      'Failed on 1'
+    );
+    await expect(pool.run({ value: 2 })).resolves.toBe(4);
+    pool.terminate();
+  });
+
+  it('terminateで未完了のタスクがAbortErrorでrejectされること', async () => {
+    const terminated: WorkerLike[] = [];
+    const pool = new WorkerPool<Request, number, number>({
+      size: 1,
+      createWorker: () => {
+        const worker = createDoublingWorker();
+        const terminate = worker.terminate;
+        worker.terminate = () => {
+          terminated.push(worker);
+          terminate();
+        };
+        return worker;
+      },
+    });
+
+    const running = pool.run({ value: 1 });
+    const queued = pool.run({ value: 2 });
+    pool.terminate();
+
+    const errors = await Promise.all(
+      [running, queued].map((task) => task.catch((error) => error))
+    );
+    expect(errors.every(isAbortError)).toBe(true);
+    expect(terminated).toHaveLength(1);
+    await expect(pool.run({ value: 3 })).rejects.toThrow(/aborted/);
+  });
+
+  it('クラッシュしたワーカーは作り直されること', async () => {
+    let created = 0;
+    const pool = new WorkerPool<Request, number, number>({
+      size: 1,
+      createWorker: () => {
+        created++;
+        const worker = createDoublingWorker();
+        if (created === 1) {
+          worker.postMessage = () =>
+            setTimeout(() =>
+              worker.onerror?.({ message: 'Worker crashed' } as ErrorEvent)
+            );
+        }
+        return worker;
+      },
+    });
+
+    await expect(pool.run({ value: 1 })).rejects.toThrow('Worker crashed');
+    await expect(pool.run({ value: 2 })).resolves.toBe(4);
+    expect(created).toBe(2);
+    pool.terminate();
+  });
+});
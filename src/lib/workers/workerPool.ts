@@ -0,0 +1,226 @@
+/**
+ * The part of the Worker API the pool relies on, so tests and environments
+ * without Web Workers can plug in an in-thread implementation
+ */
+export type WorkerLike = {
+  postMessage(message: unknown): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+};
+
+/**
+ * Message posted to a worker for one task
+ */
+export type WorkerTaskMessage<Request> = {
+  taskId: number;
+  request: Request;
+};
+
+/**
+ * Message posted back by a worker: any number of progress updates, then
+ * exactly one result or error
+ */
+export type WorkerReplyMessage<Progress, Result> =
+  | { taskId: number; kind: 'progress'; progress: Progress }
+  | { taskId: number; kind: 'done'; result: Result }
+  | { taskId: number; kind: 'error'; message: string };
+
+/**
+ * Options for WorkerPool
+ */
+export type WorkerPoolOptions = {
+  // Maximum number of workers running at the same time
+  size: number;
+  createWorker: () => WorkerLike;
+};
+
+type PendingTask<Request, Progress, Result> = {
+  message: WorkerTaskMessage<Request>;
+  onProgress?: (progress: Progress) => void;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Fixed-size pool running queued tasks on workers
+ *
+ * Workers are started on demand and reused. terminate() stops every worker
+ * and rejects unfinished tasks with an AbortError.
+ */
+export class WorkerPool<Request, Progress, Result> {
+  private readonly size: number;
+  private readonly createWorker: () => WorkerLike;
+  private readonly idle: WorkerLike[] = [];
+  private readonly busy = new Map<
+    WorkerLike,
+    PendingTask<Request, Progress, Result>
+  >();
+  private readonly queue: PendingTask<Request, Progress, Result>[] = [];
+  private workerCount = 0;
+  private nextTaskId = 0;
+  private terminated = false;
+
+  constructor(options: WorkerPoolOptions) {
+    this.size = Math.max(1, options.size);
+    this.createWorker = options.createWorker;
+  }
+
+  /**
+   * Queue a task; resolves with the worker's result
+   */
+  run(
+    request: Request,
+    onProgress?: (progress: Progress) => void
+  ): Promise<Result> {
+    if (this.terminated) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<Result>((resolve, reject) => {
+      this.queue.push({
+        message: { taskId: this.nextTaskId++, request },
+        onProgress,
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers and reject every queued or running task
+   */
+  terminate(): void {
+    if (this.terminated) {
+      return;
+    }
+    this.terminated = true;
+
+    const error = createAbortError();
+    for (const [worker, task] of this.busy) {
+      worker.terminate();
+      task.reject(error);
+    }
+    for (const worker of this.idle) {
+      worker.terminate();
+    }
+    for (const task of this.queue) {
+      task.reject(error);
+    }
+    this.busy.clear();
+    this.idle.length = 0;
+    this.queue.length = 0;
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? this.startWorker();
+      if (!worker) {
+        return;
+      }
+      const task = this.queue.shift()!;
+      this.busy.set(worker, task);
+      worker.postMessage(task.message);
+    }
+  }
+
+  private startWorker(): WorkerLike | undefined {
+    if (this.workerCount >= this.size) {
+      return undefined;
+    }
+    this.workerCount++;
+
+    const worker = this.createWorker();
+    worker.onmessage = (event) => this.handleReply(worker, event.data);
+    worker.onerror = (event) =>
+      this.handleCrash(worker, new Error(event.message));
+    return worker;
+  }
+
+  private handleReply(
+    worker: WorkerLike,
+    reply: WorkerReplyMessage<Progress, Result>
+  ): void {
+    const task = this.busy.get(worker);
+    if (!task || reply.taskId !== task.message.taskId) {
+      return;
+    }
+
+    if (reply.kind === 'progress') {
+      task.onProgress?.(reply.progress);
+      return;
+    }
+
+    this.busy.delete(worker);
+    this.idle.push(worker);
+    if (reply.kind === 'done') {
+      task.resolve(reply.result);
+    } else {
+      task.reject(new Error(reply.message));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * An uncaught error leaves the worker in an unknown state: drop it and
+   * let the next dispatch start a fresh one
+   */
+  private handleCrash(worker: WorkerLike, error: Error): void {
+    const task = this.busy.get(worker);
+    this.busy.delete(worker);
+    worker.terminate();
+    this.workerCount--;
+    task?.reject(error);
+    this.dispatch();
+  }
+}
+
+/**
+ * A worker running handleMessage on the current thread, asynchronously
+ * like a real worker
+ */
+export function createInlineWorker<Request, Progress, Result>(
+  handleMessage: (
+    message: WorkerTaskMessage<Request>,
+    reply: (message: WorkerReplyMessage<Progress, Result>) => void
+  ) => void
+): WorkerLike {
+  let terminated = false;
+
+  const worker: WorkerLike = {
+    onmessage: null,
+    onerror: null,
+    postMessage(message) {
+      setTimeout(() => {
+        if (terminated) {
+          return;
+        }
+        handleMessage(message as WorkerTaskMessage<Request>, (reply) => {
+          if (!terminated) {
+            worker.onmessage?.({ data: reply } as MessageEvent);
+          }
+        });
+      }, 0);
+    },
+    terminate() {
+      terminated = true;
+    },
+  };
+
+  return worker;
+}
+
+/**
+ * Error used to reject tasks of a terminated pool
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Check whether an error comes from a cancelled operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as Error | null)?.name === 'AbortError';
+}
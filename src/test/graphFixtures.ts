@@ -0,0 +1,101 @@
+import { ComponentParser } from '@/lib/parser/componentParser';
+import { ModuleResolver } from '@/lib/parser/moduleResolver';
+import { GraphBuilder } from '@/lib/graph/graphBuilder';
+import type {
+  ComponentInfo,
+  DependencyEdge,
+  DependencyGraph,
+  DependencyNode,
+  FileInfo,
+} from '@/types';
+
+/**
+ * Source file for tests, named after its path
+ */
+export const createFile = (path: string, content: string): FileInfo => ({
+  path,
+  name: path.slice(path.lastIndexOf('/') + 1),
+  extension: '.tsx',
+  content,
+});
+
+/**
+ * Component with neutral metrics, named `Component` unless overridden. The
+ * id follows the parser's `${filePath}:${name}` form when not given.
+ */
+export function createComponent(
+  overrides: Partial<ComponentInfo> = {}
+): ComponentInfo {
+  const name = overrides.name ?? 'Component';
+  const filePath = overrides.filePath ?? `src/${name}.tsx`;
+  return {
+    id: `${filePath}:${name}`,
+    name,
+    filePath,
+    type: 'function',
+    dependencies: [],
+    imports: [],
+    complexity: 10,
+    linesOfCode: 10,
+    logicalLinesOfCode: 10,
+    cyclomaticComplexity: 1,
+    cognitiveComplexity: 0,
+    externalLibraryCount: 0,
+    hooks: [],
+    propsCount: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Graph of the given node IDs, each a component in src/<id>.tsx. Edges are
+ * [from, to] pairs of strength 1, or full edges where strength or import
+ * source matter; `components` overrides fields of individual components.
+ */
+export function createGraph(
+  ids: string[],
+  edges: Array<[string, string] | DependencyEdge>,
+  components: Record<string, Partial<ComponentInfo>> = {}
+): DependencyGraph {
+  const graphEdges = edges.map((edge): DependencyEdge =>
+    Array.isArray(edge) ? { from: edge[0], to: edge[1], strength: 1 } : edge
+  );
+  return {
+    nodes: new Map(
+      ids.map((id): [string, DependencyNode] => [
+        id,
+        {
+          id,
+          component: createComponent({
+            id,
+            name: id,
+            complexity: 0,
+            ...components[id],
+          }),
+          dependencies: graphEdges
+            .filter((edge) => edge.from === id)
+            .map((edge) => edge.to),
+          dependents: graphEdges
+            .filter((edge) => edge.to === id)
+            .map((edge) => edge.from),
+          depth: 0,
+          complexity: 0,
+        },
+      ])
+    ),
+    edges: graphEdges,
+  };
+}
+
+/**
+ * Parse the files, resolving imports between them, and build their
+ * dependency graph
+ */
+export function buildGraphFromFiles(files: FileInfo[]): DependencyGraph {
+  const parser = new ComponentParser({
+    resolver: new ModuleResolver(files.map((file) => file.path)),
+  });
+  return new GraphBuilder().buildGraph(
+    files.flatMap((file) => parser.parseFile(file))
+  );
+}
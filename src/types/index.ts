@@ -21,10 +21,26 @@ export type ComponentInfo = {
   dependencies: string[]; // Component names this component depends on
   imports: ImportInfo[];
   complexity: number;
-  linesOfCode: number;
+  linesOfCode: number; // Physical lines spanned by the definition
+  logicalLinesOfCode: number; // Lines excluding blanks and comments
+  cyclomaticComplexity: number; // 1 + decision points
+  cognitiveComplexity: number; // Nesting-weighted control flow
+  externalLibraryCount: number; // Distinct third-party packages imported by the file
   hooks: HookUsage[];
   propsCount: number;
   propsInfo?: PropsInfo; // TypeScript only
+  wrappers?: string[]; // Wrapping HOCs, outermost first (e.g. ['memo', 'forwardRef'])
+  isDefaultExport?: boolean; // Exported as the file's default export
+  history?: FileHistory; // Git history of the file, when the folder is a repository
+};
+
+/**
+ * Change history of a file, read from the local git repository
+ */
+export type FileHistory = {
+  commitCount: number; // Non-merge commits that changed the file
+  lastModified: number; // Author time of the latest of them (ms since epoch)
+  authors: string[]; // Distinct author names, most commits first
 };
 
 /**
@@ -60,6 +76,35 @@ export type ImportInfo = {
   source: string; // The module being imported from
   specifiers: string[]; // What's being imported
   isReactComponent: boolean;
+  bindings?: ImportBinding[]; // Local name -> exported name mapping
+  resolvedPath?: string; // Scanned file the source resolves to (local imports only)
+};
+
+/**
+ * Represents a single name bound by an import statement
+ */
+export type ImportBinding = {
+  local: string; // Name used in the importing file
+  imported: string; // Exported name ('default' or '*' for namespace imports)
+};
+
+/**
+ * Represents a re-export (`export { X } from './X'`, `export * from './forms'`)
+ */
+export type ReExportInfo = {
+  source: string; // The module being re-exported from
+  exported: string; // Name exported by this file ('*' for `export *`)
+  imported: string; // Name in the source module ('default', or '*' for namespaces)
+  resolvedPath?: string; // Scanned file the source resolves to (local modules only)
+};
+
+/**
+ * Everything extracted from a single file
+ */
+export type ParsedModule = {
+  filePath: string;
+  components: ComponentInfo[];
+  reExports: ReExportInfo[];
 };
 
 /**
@@ -86,6 +131,42 @@ export type DependencyNode = {
 export type DependencyGraph = {
   nodes: Map<string, DependencyNode>;
   edges: DependencyEdge[];
+  cycleAnalysis?: CycleAnalysis; // Set by GraphBuilder.buildGraph
+};
+
+/**
+ * An elementary dependency cycle
+ */
+export type DependencyCycle = {
+  id: string;
+  nodeIds: string[]; // Each node depends on the next; the last depends on the first
+};
+
+/**
+ * Strongly connected components and the cycles inside them
+ */
+export type CycleAnalysis = {
+  stronglyConnectedComponents: string[][]; // Components with more than one node
+  cycles: DependencyCycle[];
+  truncated: boolean; // Enumeration stopped at the cycle limit
+};
+
+/**
+ * A dependency edge suggested for removal, with where to remove it
+ */
+export type EdgeCut = {
+  edge: DependencyEdge;
+  filePath: string; // File of the depending component
+  importStatement: string | null; // null when the dependency is defined in the same file
+};
+
+/**
+ * Edges whose removal makes the dependency graph acyclic
+ */
+export type FeedbackArcSetSuggestion = {
+  cuts: EdgeCut[];
+  totalStrength: number; // Sum of the strengths of the cut edges
+  exact: boolean; // false when a large component was solved heuristically
 };
 
 /**
@@ -95,12 +176,18 @@ export type DependencyEdge = {
   from: string; // Component ID
   to: string; // Component ID
   strength: number; // How many times this dependency is used
+  importSource?: string; // Module specifier the dependency is imported from (unset for same-file references)
 };
 
 /**
  * Graph layout types
  */
-export type LayoutType = 'tree' | 'force';
+export type LayoutType = 'layered' | 'force';
+
+/**
+ * What node colours show: complexity bands, or churn combined with complexity
+ */
+export type ColorMode = 'complexity' | 'hotspot';
 
 /**
  * Warning types for analysis
@@ -139,6 +226,29 @@ export type AnalysisResult = {
   };
 };
 
+/**
+ * Progress of a running project analysis
+ */
+export type AnalysisProgress = {
+  phase: 'scanning' | 'parsing' | 'history' | 'building';
+  filesScanned: number;
+  filesParsed: number;
+  // Files to parse (0 while scanning)
+  totalFiles: number;
+  // File being scanned or just parsed
+  currentFile: string | null;
+};
+
+/**
+ * Metrics of the project at one commit of a timeline
+ */
+export type MetricsTrendPoint = {
+  label: string; // e.g. the short commit ID
+  totalComponents: number;
+  averageComplexity: number;
+  cycleCount: number;
+};
+
 /**
  * React Flow compatible node data
  */
@@ -148,8 +258,17 @@ export type FlowNodeData = {
   complexity: number;
   dependencyCount: number;
   dependentCount: number;
+  diff?: NodeDiff; // Set while comparing with a baseline
 } & Record<string, unknown>;
 
+/**
+ * How a node differs from the baseline analysis
+ */
+export type NodeDiff = {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  complexityDelta: number; // Current minus baseline complexity
+};
+
 /**
  * Project metrics for dashboard
  */
@@ -171,13 +290,63 @@ export type ProjectMetrics = {
     dependentCount: number;
   }>;
   complexityDistribution: {
-    simple: number; // 0-30
+    simple: number; // 0-30 by default (see ComplexityBands)
     standard: number; // 31-60
     complex: number; // 61-80
     veryComplex: number; // 81-100
   };
 };
 
+/**
+ * Complexity bands, named like `ProjectMetrics.complexityDistribution`
+ */
+export type ComplexityBand = keyof ProjectMetrics['complexityDistribution'];
+
+/**
+ * Relative weight of each metric in the complexity score
+ * (normalised by their sum, so they need not add up to 100)
+ */
+export type ComplexityWeights = {
+  linesOfCode: number;
+  dependencies: number;
+  hooks: number;
+  props: number;
+  externalLibraries: number;
+  controlFlow: number;
+};
+
+/**
+ * Metric values that score 100 (larger values are capped)
+ */
+export type ComplexityCaps = {
+  linesOfCode: number;
+  dependencies: number;
+  hooks: number;
+  props: number;
+  externalLibraries: number;
+  cyclomatic: number;
+  cognitive: number;
+};
+
+/**
+ * Inclusive upper bounds of the simple, standard and complex bands
+ * (scores above `complex` are very complex)
+ */
+export type ComplexityBands = {
+  simple: number;
+  standard: number;
+  complex: number;
+};
+
+/**
+ * Per-project complexity model
+ */
+export type ComplexityProfile = {
+  weights: ComplexityWeights;
+  caps: ComplexityCaps;
+  bands: ComplexityBands;
+};
+
 /**
  * Search and filter options
  */
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+/**
+ * Bundles the Node CLI (src/cli) into dist/cli/reuntangle.mjs
+ * Dependencies stay external and are loaded from node_modules.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist/cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'reuntangle.mjs',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});